@@ -11,6 +11,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import LoginPage from "@/pages/login";
 import HomePage from "@/pages/home";
 import ReviewPage from "@/pages/review";
+import SkippedPairsPage from "@/pages/skipped";
 import StatsPage from "@/pages/stats";
 import VoteHistoryPage from "@/pages/vote-history";
 import AdminDashboard from "@/pages/admin/dashboard";
@@ -22,6 +23,7 @@ import AdminUsers from "@/pages/admin/users";
 import AdminSettings from "@/pages/admin/settings";
 import AdminAnalytics from "@/pages/admin/analytics";
 import AdminUpload from "@/pages/admin/upload";
+import AdjudicationPage from "@/pages/adjudication";
 import NotFound from "@/pages/not-found";
 
 function LoadingScreen() {
@@ -38,12 +40,14 @@ function LoadingScreen() {
 
 function ProtectedRoute({ 
   children, 
-  requireAdmin = false 
+  requireAdmin = false,
+  requireAdjudicator = false,
 }: { 
   children: React.ReactNode;
   requireAdmin?: boolean;
+  requireAdjudicator?: boolean;
 }) {
-  const { isAuthenticated, isLoading, isAdmin } = useAuth();
+  const { isAuthenticated, isLoading, isAdmin, canAdjudicate } = useAuth();
 
   if (isLoading) {
     return <LoadingScreen />;
@@ -57,6 +61,10 @@ function ProtectedRoute({
     return <Redirect to="/" />;
   }
 
+  if (requireAdjudicator && !canAdjudicate) {
+    return <Redirect to="/" />;
+  }
+
   return <AppLayout>{children}</AppLayout>;
 }
 
@@ -91,6 +99,12 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/review/:id/skipped">
+        <ProtectedRoute>
+          <SkippedPairsPage />
+        </ProtectedRoute>
+      </Route>
+
       <Route path="/review/:id">
         <ProtectedRoute>
           <ReviewPage />
@@ -109,6 +123,13 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      {/* Protected adjudicator routes */}
+      <Route path="/adjudication">
+        <ProtectedRoute requireAdjudicator>
+          <AdjudicationPage />
+        </ProtectedRoute>
+      </Route>
+
       {/* Protected admin routes */}
       <Route path="/admin">
         <ProtectedRoute requireAdmin>
@@ -123,7 +144,7 @@ function Router() {
       </Route>
 
       <Route path="/admin/campaigns/:id/results">
-        <ProtectedRoute requireAdmin>
+        <ProtectedRoute requireAdjudicator>
           <AdminResults />
         </ProtectedRoute>
       </Route>
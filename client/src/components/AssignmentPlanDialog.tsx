@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, RefreshCw, UserMinus, Users } from "lucide-react";
+import type { AssignmentPlanWithQuotas, User } from "@shared/schema";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface AssignmentPlanDialogProps {
+  campaignId: string;
+  campaignName: string;
+  totalPairs: number;
+}
+
+type RebuildResult = {
+  created: number;
+  released: number;
+  unfilledSlots: number;
+};
+
+// ─── Quota table ──────────────────────────────────────────────────────────────
+
+function QuotaTable({
+  plan,
+  onDrop,
+  isDropping,
+}: {
+  plan: AssignmentPlanWithQuotas;
+  onDrop: (userId: string) => void;
+  isDropping: boolean;
+}) {
+  if (plan.quotas.length === 0) {
+    return <p className="text-sm text-muted-foreground">No reviewers in this plan.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Reviewer</TableHead>
+          <TableHead className="text-right">Assigned</TableHead>
+          <TableHead className="text-right">Done</TableHead>
+          <TableHead className="text-right">Skipped</TableHead>
+          <TableHead className="text-right">Remaining</TableHead>
+          <TableHead className="w-10" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {plan.quotas.map((quota) => {
+          const percent = quota.assigned > 0 ? Math.round((quota.completed / quota.assigned) * 100) : 0;
+          return (
+            <TableRow key={quota.userId} data-testid={`row-quota-${quota.userId}`}>
+              <TableCell>
+                <p className="text-sm font-medium truncate">{quota.displayName}</p>
+                <Progress value={percent} className="h-1.5 mt-1" />
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">{quota.assigned}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{quota.completed}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{quota.skipped}</TableCell>
+              <TableCell className="text-right font-mono text-sm font-medium" data-testid={`text-quota-remaining-${quota.userId}`}>
+                {quota.remaining}
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove reviewer and redistribute their queue"
+                  disabled={isDropping || plan.quotas.length <= 1}
+                  onClick={() => onDrop(quota.userId)}
+                  data-testid={`button-drop-reviewer-${quota.userId}`}
+                >
+                  <UserMinus className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function AssignmentPlanDialog({ campaignId, campaignName, totalPairs }: AssignmentPlanDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [votesPerPair, setVotesPerPair] = useState(3);
+  const [selectedReviewers, setSelectedReviewers] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const planUrl = `/api/campaigns/${campaignId}/assignment-plan`;
+
+  const { data: plan, isLoading: planLoading } = useQuery<AssignmentPlanWithQuotas | null>({
+    queryKey: [planUrl],
+    enabled: open,
+  });
+
+  const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  // Seed the form from the saved plan when the dialog opens
+  useEffect(() => {
+    if (plan) {
+      setVotesPerPair(plan.votesPerPair);
+      setSelectedReviewers(new Set(plan.reviewerIds));
+    }
+  }, [plan]);
+
+  const describeResult = (result: RebuildResult) => {
+    const parts = [`${result.created} assignment(s) queued`];
+    if (result.released > 0) parts.push(`${result.released} released`);
+    if (result.unfilledSlots > 0) parts.push(`${result.unfilledSlots} vote(s) could not be assigned`);
+    return parts.join(", ") + ".";
+  };
+
+  const invalidatePlan = () => {
+    queryClient.invalidateQueries({ queryKey: [planUrl] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", planUrl, {
+        votesPerPair,
+        reviewerIds: Array.from(selectedReviewers),
+      });
+      return res.json() as Promise<RebuildResult>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Assignment plan saved", description: describeResult(result) });
+      invalidatePlan();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save assignment plan.", variant: "destructive" });
+    },
+  });
+
+  const rebalanceMutation = useMutation({
+    mutationFn: async (dropReviewerIds: string[]) => {
+      const res = await apiRequest("POST", `${planUrl}/rebalance`, { dropReviewerIds });
+      return res.json() as Promise<RebuildResult>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Queues rebalanced", description: describeResult(result) });
+      invalidatePlan();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to rebalance assignments.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", planUrl),
+    onSuccess: () => {
+      toast({ title: "Assignment plan removed", description: "All reviewers can now review every pair." });
+      setSelectedReviewers(new Set());
+      invalidatePlan();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove assignment plan.", variant: "destructive" });
+    },
+  });
+
+  const toggleReviewer = (userId: string, checked: boolean) => {
+    const next = new Set(selectedReviewers);
+    if (checked) {
+      next.add(userId);
+    } else {
+      next.delete(userId);
+    }
+    setSelectedReviewers(next);
+  };
+
+  const canSave = selectedReviewers.size > 0 && votesPerPair >= 1 && votesPerPair <= selectedReviewers.size;
+  const expectedPerReviewer = selectedReviewers.size > 0
+    ? Math.ceil((totalPairs * votesPerPair) / selectedReviewers.size)
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-assignments-${campaignId}`}>
+          <Users className="w-4 h-4" />
+          Assignments
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Reviewer Assignments</DialogTitle>
+          <DialogDescription>
+            Give every pair in {campaignName} a fixed number of independent votes, spread evenly across the
+            selected reviewers. Without a plan, every reviewer can review every pair.
+          </DialogDescription>
+        </DialogHeader>
+
+        {planLoading || usersLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-32" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {plan && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">Remaining quotas</p>
+                  {plan.unfilledSlots > 0 && (
+                    <Badge variant="outline" className="text-xs text-yellow-700 dark:text-yellow-400">
+                      {plan.unfilledSlots} unassigned vote(s)
+                    </Badge>
+                  )}
+                </div>
+                <QuotaTable
+                  plan={plan}
+                  onDrop={(userId) => rebalanceMutation.mutate([userId])}
+                  isDropping={rebalanceMutation.isPending}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor={`votes-per-pair-${campaignId}`}>Votes per pair</Label>
+              <Input
+                id={`votes-per-pair-${campaignId}`}
+                type="number"
+                min={1}
+                max={Math.max(1, selectedReviewers.size)}
+                value={votesPerPair}
+                onChange={(e) => setVotesPerPair(parseInt(e.target.value) || 1)}
+                className="w-24"
+                data-testid="input-votes-per-pair"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reviewers ({selectedReviewers.size} selected)</Label>
+              <div className="max-h-56 overflow-auto rounded-md border border-border divide-y divide-border">
+                {users.map((user) => (
+                  <label
+                    key={user.id}
+                    className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      checked={selectedReviewers.has(user.id)}
+                      onCheckedChange={(val) => toggleReviewer(user.id, val === true)}
+                      data-testid={`checkbox-reviewer-${user.id}`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{user.displayName}</p>
+                      <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              {selectedReviewers.size > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  About {expectedPerReviewer} pair(s) per reviewer for {totalPairs} pair(s).
+                </p>
+              )}
+              {votesPerPair > selectedReviewers.size && selectedReviewers.size > 0 && (
+                <p className="text-xs text-destructive">Votes per pair cannot exceed the number of reviewers.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            {plan && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate()}
+                  disabled={deleteMutation.isPending}
+                  className="text-destructive"
+                  data-testid="button-delete-plan"
+                >
+                  Remove Plan
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => rebalanceMutation.mutate([])}
+                  disabled={rebalanceMutation.isPending}
+                  className="gap-2"
+                  data-testid="button-rebalance-plan"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Rebalance
+                </Button>
+              </>
+            )}
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+            data-testid="button-save-plan"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {plan ? "Regenerate Queues" : "Create Plan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
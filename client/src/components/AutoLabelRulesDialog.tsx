@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bot, Loader2, Plus, Trash2 } from "lucide-react";
+import { describeAutoLabelRule, type AutoLabelAction, type AutoLabelRule } from "@shared/autoLabelRules";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface AutoLabelRulesDialogProps {
+  campaignId: string;
+  campaignName: string;
+  rules: AutoLabelRule[] | null;
+}
+
+type ApplyResult = {
+  rules: AutoLabelRule[];
+  labelled: number;
+  auditSampled: number;
+};
+
+function newRule(action: AutoLabelAction): AutoLabelRule {
+  return {
+    id: crypto.randomUUID(),
+    action,
+    threshold: action === "accept" ? 0.98 : 0.05,
+    model: null,
+    auditRate: 0.05,
+  };
+}
+
+function isValidRule(rule: AutoLabelRule): boolean {
+  return rule.threshold >= 0 && rule.threshold <= 1 && rule.auditRate >= 0 && rule.auditRate <= 1;
+}
+
+// ─── Rule row ─────────────────────────────────────────────────────────────────
+
+function RuleEditor({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: AutoLabelRule;
+  onChange: (rule: AutoLabelRule) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="p-3 rounded-lg border border-border space-y-3" data-testid={`rule-${rule.id}`}>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Action</Label>
+          <Select value={rule.action} onValueChange={(v) => onChange({ ...rule, action: v as AutoLabelAction })}>
+            <SelectTrigger data-testid="select-rule-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="accept">Auto-accept (confidence ≥)</SelectItem>
+              <SelectItem value="reject">Auto-reject (confidence ≤)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Confidence threshold</Label>
+          <Input
+            type="number"
+            min={0}
+            max={1}
+            step={0.01}
+            value={rule.threshold}
+            onChange={(e) => onChange({ ...rule, threshold: parseFloat(e.target.value) || 0 })}
+            data-testid="input-rule-threshold"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">LLM model</Label>
+          <Input
+            placeholder="Any model"
+            value={rule.model ?? ""}
+            onChange={(e) => onChange({ ...rule, model: e.target.value.trim() ? e.target.value : null })}
+            data-testid="input-rule-model"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Audit sample (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(rule.auditRate * 100)}
+            onChange={(e) => onChange({ ...rule, auditRate: (parseInt(e.target.value) || 0) / 100 })}
+            data-testid="input-rule-audit"
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">{describeAutoLabelRule(rule)}</p>
+        <Button variant="ghost" size="icon" onClick={onRemove} data-testid="button-remove-rule">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function AutoLabelRulesDialog({ campaignId, campaignName, rules }: AutoLabelRulesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AutoLabelRule[]>(rules ?? []);
+  const { toast } = useToast();
+
+  // Reset the form to the saved rules each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(rules ?? []);
+  }, [open, rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<ApplyResult> => {
+      const res = await apiRequest("PUT", `/api/campaigns/${campaignId}/auto-label-rules`, {
+        rules: draft.map((rule) => ({ ...rule, model: rule.model?.trim() || null })),
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Auto-label rules saved",
+        description: `${result.labelled} pair(s) auto-labelled, ${result.auditSampled} kept in review for audit.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save auto-label rules.", variant: "destructive" });
+    },
+  });
+
+  const updateRule = (index: number, rule: AutoLabelRule) =>
+    setDraft(draft.map((r, i) => (i === index ? rule : r)));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-auto-label-${campaignId}`}>
+          <Bot className="w-4 h-4" />
+          Auto-label
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Auto-Label Rules</DialogTitle>
+          <DialogDescription>
+            Confident LLM predictions on {campaignName} are labelled without review. A random audit sample
+            stays in the queue so the results page can show whether each rule is safe. The first matching rule wins.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {draft.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rules. Every pair goes to human review.</p>
+          ) : (
+            draft.map((rule, index) => (
+              <RuleEditor
+                key={rule.id}
+                rule={rule}
+                onChange={(updated) => updateRule(index, updated)}
+                onRemove={() => setDraft(draft.filter((_, i) => i !== index))}
+              />
+            ))
+          )}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setDraft([...draft, newRule("accept")])}
+              data-testid="button-add-accept-rule"
+            >
+              <Plus className="w-4 h-4" />
+              Accept rule
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setDraft([...draft, newRule("reject")])}
+              data-testid="button-add-reject-rule"
+            >
+              <Plus className="w-4 h-4" />
+              Reject rule
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!draft.every(isValidRule) || saveMutation.isPending}
+            data-testid="button-save-auto-label"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save and Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
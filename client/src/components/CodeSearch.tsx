@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Search, X } from "lucide-react";
+import type { TerminologyMatch } from "@shared/terminology";
+
+export type ProposedCode = {
+  code: string;
+  label: string | null;
+};
+
+// Wait for the reviewer to stop typing before searching
+const SEARCH_DELAY_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+// Typeahead over a code system's uploaded terminology. With an empty query
+// the pair's own alternative codes are offered instead.
+export function CodeSearch({
+  codeSystem,
+  value,
+  onChange,
+  suggestions = [],
+}: {
+  codeSystem: string;
+  value: ProposedCode | null;
+  onChange: (value: ProposedCode | null) => void;
+  suggestions?: ProposedCode[];
+}) {
+  const [query, setQuery] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showResults, setShowResults] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchTerm(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: matches = [], isFetching } = useQuery<TerminologyMatch[]>({
+    queryKey: [`/api/terminologies/search?codeSystem=${encodeURIComponent(codeSystem)}&q=${encodeURIComponent(searchTerm)}`],
+    enabled: searchTerm.length >= MIN_QUERY_LENGTH,
+  });
+
+  const handleSelect = (selected: ProposedCode) => {
+    onChange(selected);
+    setQuery("");
+    setShowResults(false);
+  };
+
+  if (value) {
+    return (
+      <div
+        className="flex items-center gap-2 rounded-md border border-border px-3 py-2"
+        data-testid="selected-expert-code"
+      >
+        <span className="font-mono text-sm shrink-0">{value.code}</span>
+        <span className="text-sm text-muted-foreground truncate flex-1">{value.label ?? ""}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          onClick={() => onChange(null)}
+          data-testid="button-clear-expert-code"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  const searching = searchTerm.length >= MIN_QUERY_LENGTH;
+  const options: (ProposedCode & { deprecated?: boolean })[] = searching ? matches : suggestions;
+
+  return (
+    <div className="relative">
+      <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setShowResults(true);
+        }}
+        onFocus={() => setShowResults(true)}
+        onBlur={() => setTimeout(() => setShowResults(false), 200)}
+        placeholder={`Search ${codeSystem} by code, name or synonym...`}
+        className="pl-9"
+        data-testid="input-expert-code-search"
+      />
+      {isFetching && (
+        <Loader2 className="w-4 h-4 absolute right-3 top-1/2 -translate-y-1/2 animate-spin text-muted-foreground" />
+      )}
+      {showResults && (options.length > 0 || (searching && !isFetching)) && (
+        <div className="absolute z-50 w-full mt-1 bg-popover border border-border rounded-md shadow-md max-h-64 overflow-y-auto">
+          {!searching && (
+            <p className="px-3 pt-2 pb-1 text-xs text-muted-foreground">Alternative suggestions</p>
+          )}
+          {options.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No {codeSystem} codes match "{searchTerm}"</p>
+          ) : (
+            options.map((option) => (
+              <button
+                key={option.code}
+                type="button"
+                className="w-full text-left px-3 py-2 text-sm hover-elevate cursor-pointer flex items-center gap-2"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect({ code: option.code, label: option.label })}
+                data-testid={`option-expert-code-${option.code}`}
+              >
+                <span className="font-mono shrink-0">{option.code}</span>
+                <span className="text-muted-foreground truncate flex-1">{option.label ?? ""}</span>
+                {option.deprecated && (
+                  <Badge variant="outline" className="text-xs shrink-0">Deprecated</Badge>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
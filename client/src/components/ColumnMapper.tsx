@@ -7,40 +7,18 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Plus, Trash2 } from "lucide-react";
+import type { ColumnMappings, MappingEntry, OptionalMappingEntry } from "@shared/importMapping";
+import { detectPredictionColumns, type PredictionColumns } from "@shared/modelPredictions";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-export type MappingEntry =
-  | { type: "column" | "manual"; value: string }
-  | { type: "none"; value: "" };
-
-export type OptionalMappingEntry =
-  | { type: "column" | "manual"; value: string }
-  | { type: "none"; value: "" };
-
-export interface ColumnMappings {
-  // Required fields
-  sourceText: MappingEntry;
-  sourceId: MappingEntry;
-  sourceDataset: MappingEntry;
-  targetText: MappingEntry;
-  targetId: MappingEntry;
-  targetDataset: MappingEntry;
-  pairType: MappingEntry;
-  // Optional LLM fields
-  llmConfidence?: OptionalMappingEntry;
-  llmModel?: OptionalMappingEntry;
-  llmReasoning?: OptionalMappingEntry;
-  // Metadata / ignored
-  sourceMetadataColumns: string[];
-  targetMetadataColumns: string[];
-  ignoredColumns: string[];
-}
+export type { MappingEntry, OptionalMappingEntry, ColumnMappings } from "@shared/importMapping";
 
 export interface ColumnMapperProps {
   columns: string[];
@@ -69,6 +47,8 @@ function getAssignedColumns(mappings: ColumnMappings): Set<string> {
     | "llmConfidence"
     | "llmModel"
     | "llmReasoning"
+    | "knownLabel"
+    | "candidates"
   >)[] = [
     "sourceText",
     "sourceId",
@@ -80,6 +60,8 @@ function getAssignedColumns(mappings: ColumnMappings): Set<string> {
     "llmConfidence",
     "llmModel",
     "llmReasoning",
+    "knownLabel",
+    "candidates",
   ];
 
   for (const key of fieldKeys) {
@@ -88,6 +70,10 @@ function getAssignedColumns(mappings: ColumnMappings): Set<string> {
       assigned.add(field.value);
     }
   }
+  for (const prediction of mappings.predictionColumns ?? []) {
+    if (prediction.confidenceColumn) assigned.add(prediction.confidenceColumn);
+    if (prediction.reasoningColumn) assigned.add(prediction.reasoningColumn);
+  }
   for (const col of mappings.sourceMetadataColumns) {
     assigned.add(col);
   }
@@ -98,7 +84,7 @@ function getAssignedColumns(mappings: ColumnMappings): Set<string> {
   return assigned;
 }
 
-function fieldLabel(key: string): string {
+export function fieldLabel(key: string): string {
   const labels: Record<string, string> = {
     sourceText: "Source Text",
     sourceId: "Source ID",
@@ -110,6 +96,8 @@ function fieldLabel(key: string): string {
     llmConfidence: "LLM Confidence",
     llmModel: "LLM Model",
     llmReasoning: "LLM Reasoning",
+    knownLabel: "Known Label",
+    candidates: "Candidates",
   };
   return labels[key] ?? key;
 }
@@ -126,6 +114,8 @@ function fieldDescription(key: string): string {
     llmConfidence: "LLM-predicted confidence score (0–1)",
     llmModel: "Name / version of the LLM used",
     llmReasoning: "LLM explanation for the mapping",
+    knownLabel: "Correct answer (match / no_match) for gold pairs; leave blank for regular pairs",
+    candidates: "JSON list of ranked candidate targets, best first, e.g. [{\"id\": \"…\", \"text\": \"…\", \"score\": 0.9}]",
   };
   return descs[key] ?? "";
 }
@@ -251,6 +241,76 @@ function MappingRow({
   );
 }
 
+// ─── Sub-component: model prediction columns ──────────────────────────────────
+
+interface PredictionColumnsRowProps {
+  index: number;
+  prediction: PredictionColumns;
+  columns: string[];
+  onChange: (prediction: PredictionColumns) => void;
+  onRemove: () => void;
+}
+
+function PredictionColumnsRow({ index, prediction, columns, onChange, onRemove }: PredictionColumnsRowProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_auto] items-center gap-2 py-2">
+      <Input
+        placeholder="Model name"
+        value={prediction.model}
+        onChange={(e) => onChange({ ...prediction, model: e.target.value })}
+        className="text-sm"
+        data-testid={`input-prediction-model-${index}`}
+      />
+      <Select
+        value={prediction.confidenceColumn || undefined}
+        onValueChange={(value) => onChange({ ...prediction, confidenceColumn: value })}
+      >
+        <SelectTrigger className="min-w-0" data-testid={`select-prediction-confidence-${index}`}>
+          <SelectValue placeholder="Confidence column..." />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((col) => (
+            <SelectItem key={col} value={col}>
+              <span className="font-mono text-xs">{col}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={prediction.reasoningColumn ?? NONE_SENTINEL}
+        onValueChange={(value) => {
+          const { reasoningColumn: _previous, ...rest } = prediction;
+          onChange(value === NONE_SENTINEL ? rest : { ...rest, reasoningColumn: value });
+        }}
+      >
+        <SelectTrigger className="min-w-0" data-testid={`select-prediction-reasoning-${index}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE_SENTINEL}>
+            <span className="text-muted-foreground italic">— No reasoning —</span>
+          </SelectItem>
+          <SelectSeparator />
+          {columns.map((col) => (
+            <SelectItem key={col} value={col}>
+              <span className="font-mono text-xs">{col}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        aria-label="Remove model"
+        data-testid={`button-remove-prediction-${index}`}
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
 // ─── Sub-component: metadata column assignment ────────────────────────────────
 
 interface MetadataColumnRowProps {
@@ -361,11 +421,19 @@ export function ColumnMapper({
   // ── Optional field handlers ──────────────────────────────────────────────
 
   const handleOptionalChange =
-    (key: "llmConfidence" | "llmModel" | "llmReasoning") =>
+    (key: "llmConfidence" | "llmModel" | "llmReasoning" | "knownLabel" | "candidates") =>
     (entry: MappingEntry | OptionalMappingEntry) => {
       onMappingsChange({ ...mappings, [key]: entry });
     };
 
+  // ── Model prediction handlers ────────────────────────────────────────────
+
+  const predictionColumns = mappings.predictionColumns ?? [];
+
+  const setPredictionColumns = (next: PredictionColumns[]) => {
+    onMappingsChange({ ...mappings, predictionColumns: next });
+  };
+
   // ── Metadata checkbox handlers ───────────────────────────────────────────
 
   const handleSourceMetaChange = (column: string, checked: boolean) => {
@@ -490,6 +558,94 @@ export function ColumnMapper({
 
       <Separator />
 
+      {/* ── Model Predictions ─────────────────────────────────────────────── */}
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold text-foreground mb-1">
+          Model Predictions (Optional)
+        </h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          For model comparison campaigns: columns holding further models&apos;
+          confidence and reasoning. Columns named like gpt4_confidence and
+          gpt4_reasoning are picked up automatically.
+        </p>
+
+        {predictionColumns.length > 0 && (
+          <div className="divide-y divide-border rounded-lg border border-border bg-card px-4 mb-2">
+            {predictionColumns.map((prediction, index) => (
+              <PredictionColumnsRow
+                key={index}
+                index={index}
+                prediction={prediction}
+                columns={columns}
+                onChange={(next) =>
+                  setPredictionColumns(predictionColumns.map((p, i) => (i === index ? next : p)))
+                }
+                onRemove={() => setPredictionColumns(predictionColumns.filter((_, i) => i !== index))}
+              />
+            ))}
+          </div>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => setPredictionColumns([...predictionColumns, { model: "", confidenceColumn: "" }])}
+          data-testid="button-add-prediction"
+        >
+          <Plus className="w-4 h-4" />
+          Add Model
+        </Button>
+      </div>
+
+      <Separator />
+
+      {/* ── Candidate List ────────────────────────────────────────────────── */}
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold text-foreground mb-1">
+          Candidate List (Optional)
+        </h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Rows with a candidate list are reviewed one-to-many: reviewers pick
+          the right candidates, or none. The first candidate is the pair&apos;s
+          target, so Target ID and Target Text may be left unmapped.
+        </p>
+
+        <div className="divide-y divide-border rounded-lg border border-border bg-card px-4">
+          <MappingRow
+            fieldKey="candidates"
+            entry={mappings.candidates ?? { type: "none", value: "" }}
+            columns={columns}
+            isOptional={true}
+            onChange={handleOptionalChange("candidates")}
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* ── Gold Label ────────────────────────────────────────────────────── */}
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold text-foreground mb-1">
+          Gold Label (Optional)
+        </h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Rows with a known label become gold pairs, mixed into review to
+          measure reviewer accuracy. Reviewers never see the label.
+        </p>
+
+        <div className="divide-y divide-border rounded-lg border border-border bg-card px-4">
+          <MappingRow
+            fieldKey="knownLabel"
+            entry={mappings.knownLabel ?? { type: "none", value: "" }}
+            columns={columns}
+            isOptional={true}
+            onChange={handleOptionalChange("knownLabel")}
+          />
+        </div>
+      </div>
+
+      <Separator />
+
       {/* ── Additional Metadata ────────────────────────────────────────────── */}
       <div className="space-y-1">
         <h3 className="text-sm font-semibold text-foreground mb-1">
@@ -634,6 +790,13 @@ export function createDefaultMappings(columns: string[]): ColumnMappings {
     "explanation"
   );
 
+  const autoKnownLabel = find("known_label", "knownLabel");
+  const autoCandidates = find("candidates", "candidate_list");
+
+  const autoPredictionColumns = detectPredictionColumns(
+    columns.filter((c) => c !== autoLlmConfidence && c !== autoLlmReasoning)
+  );
+
   const toEntry = (value: string): MappingEntry =>
     value ? { type: "column", value } : { ...blankEntry };
 
@@ -651,6 +814,9 @@ export function createDefaultMappings(columns: string[]): ColumnMappings {
     autoLlmConfidence,
     autoLlmModel,
     autoLlmReasoning,
+    autoKnownLabel,
+    autoCandidates,
+    ...autoPredictionColumns.flatMap((p) => [p.confidenceColumn, p.reasoningColumn ?? ""]),
   ].filter(Boolean);
 
   const unassigned = columns.filter((c) => !assignedValues.includes(c));
@@ -666,19 +832,30 @@ export function createDefaultMappings(columns: string[]): ColumnMappings {
     llmConfidence: toOptional(autoLlmConfidence),
     llmModel: toOptional(autoLlmModel),
     llmReasoning: toOptional(autoLlmReasoning),
+    knownLabel: toOptional(autoKnownLabel),
+    predictionColumns: autoPredictionColumns,
+    candidates: toOptional(autoCandidates),
     sourceMetadataColumns: [],
     targetMetadataColumns: [],
     ignoredColumns: unassigned,
   };
 }
 
-/** Returns true when all required fields have a non-empty mapping. */
+/**
+ * Returns true when all required fields have a non-empty mapping and every model prediction is named and has a
+ * confidence column. With a candidates column the first candidate can stand in for the target.
+ */
 export function isMappingComplete(mappings: ColumnMappings): boolean {
-  return REQUIRED_FIELDS.every((key) => {
-    const f = mappings[key];
-    return (
-      (f.type === "column" && f.value !== "") ||
-      (f.type === "manual" && f.value !== "")
-    );
-  });
+  const hasCandidates = mappings.candidates?.type === "column" && mappings.candidates.value !== "";
+  return (
+    REQUIRED_FIELDS.every((key) => {
+      if (hasCandidates && (key === "targetId" || key === "targetText")) return true;
+      const f = mappings[key];
+      return (
+        (f.type === "column" && f.value !== "") ||
+        (f.type === "manual" && f.value !== "")
+      );
+    }) &&
+    (mappings.predictionColumns ?? []).every((p) => p.model.trim() !== "" && p.confidenceColumn !== "")
+  );
 }
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Scale } from "lucide-react";
+import {
+  UNSURE_HANDLING,
+  UNSURE_HANDLING_LABELS,
+  describeConsensusPolicy,
+  resolveConsensusPolicy,
+  type ConsensusPolicy,
+  type UnsureHandling,
+} from "@shared/consensusPolicy";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface ConsensusPolicyDialogProps {
+  campaignId: string;
+  campaignName: string;
+  policy: ConsensusPolicy | null;
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function ConsensusPolicyDialog({ campaignId, campaignName, policy }: ConsensusPolicyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ConsensusPolicy>(() => resolveConsensusPolicy(policy));
+  const { toast } = useToast();
+
+  // Reset the form to the saved policy each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(resolveConsensusPolicy(policy));
+  }, [open, policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/campaigns/${campaignId}/consensus-policy`, draft),
+    onSuccess: () => {
+      toast({ title: "Consensus rule saved", description: "Results, exports and analytics now use the new rule." });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/campaigns"] });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save consensus rule.", variant: "destructive" });
+    },
+  });
+
+  const thresholdPercent = Math.round(draft.threshold * 100);
+  const isValid = draft.minVotes >= 1 && thresholdPercent > 50 && thresholdPercent <= 100;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-consensus-${campaignId}`}>
+          <Scale className="w-4 h-4" />
+          Consensus
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Consensus Rule</DialogTitle>
+          <DialogDescription>
+            How votes on {campaignName} become a label. Adjudicated decisions always override this rule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`consensus-min-votes-${campaignId}`}>Minimum votes</Label>
+              <Input
+                id={`consensus-min-votes-${campaignId}`}
+                type="number"
+                min={1}
+                max={50}
+                value={draft.minVotes}
+                onChange={(e) => setDraft({ ...draft, minVotes: parseInt(e.target.value) || 1 })}
+                data-testid="input-consensus-min-votes"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`consensus-threshold-${campaignId}`}>Agreement threshold (%)</Label>
+              <Input
+                id={`consensus-threshold-${campaignId}`}
+                type="number"
+                min={51}
+                max={100}
+                value={thresholdPercent}
+                onChange={(e) => setDraft({ ...draft, threshold: (parseInt(e.target.value) || 0) / 100 })}
+                data-testid="input-consensus-threshold"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Unsure votes</Label>
+            <Select
+              value={draft.unsureHandling}
+              onValueChange={(v) => setDraft({ ...draft, unsureHandling: v as UnsureHandling })}
+            >
+              <SelectTrigger data-testid="select-consensus-unsure">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNSURE_HANDLING.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {UNSURE_HANDLING_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Abstentions count toward the total without supporting either side.
+            </p>
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Label htmlFor={`consensus-weighting-${campaignId}`}>Weight by reviewer reliability</Label>
+              <p className="text-xs text-muted-foreground">
+                Votes count in proportion to each reviewer's agreement with the campaign's labels.
+              </p>
+            </div>
+            <Switch
+              id={`consensus-weighting-${campaignId}`}
+              checked={draft.reliabilityWeighting}
+              onCheckedChange={(checked) => setDraft({ ...draft, reliabilityWeighting: checked })}
+              data-testid="switch-consensus-weighting"
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground" data-testid="text-consensus-summary">
+            {isValid ? describeConsensusPolicy(draft) : "The threshold must be above 50% and at most 100%."}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isValid || saveMutation.isPending}
+            data-testid="button-save-consensus"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
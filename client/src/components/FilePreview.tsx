@@ -4,11 +4,20 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { FileText, Rows3, Columns3 } from "lucide-react";
 import type { ColumnMappings } from "@/components/ColumnMapper";
+import type { ImportFileFormat } from "@shared/importFormats";
+
+// How the file was read
+export type FileSource = {
+  format: ImportFileFormat;
+  delimiter?: string;
+  encoding?: string;
+  sheetName?: string;
+};
 
 interface FilePreviewProps {
   file: File;
   rows: Record<string, string>[];
-  delimiter: string;
+  source: FileSource;
   mappings?: ColumnMappings;
 }
 
@@ -26,6 +35,7 @@ function getMappedColumns(mappings: ColumnMappings): Set<string> {
     "llmConfidence",
     "llmModel",
     "llmReasoning",
+    "knownLabel",
   ];
 
   for (const key of fieldKeys) {
@@ -62,7 +72,20 @@ function formatDelimiter(delimiter: string): string {
   }
 }
 
-export function FilePreview({ file, rows, delimiter, mappings }: FilePreviewProps) {
+function formatSource(source: FileSource): string {
+  switch (source.format) {
+    case "json":
+      return "JSON";
+    case "jsonl":
+      return "JSON Lines";
+    case "xlsx":
+      return source.sheetName ? `Excel (${source.sheetName})` : "Excel";
+    default:
+      return formatDelimiter(source.delimiter ?? (source.format === "tsv" ? "\t" : ","));
+  }
+}
+
+export function FilePreview({ file, rows, source, mappings }: FilePreviewProps) {
   const previewRows = rows.slice(0, 5);
   const columns = useMemo(
     () => (previewRows.length > 0 ? Object.keys(previewRows[0]) : []),
@@ -107,8 +130,13 @@ export function FilePreview({ file, rows, delimiter, mappings }: FilePreviewProp
               <span>{columns.length} columns</span>
             </div>
             <Badge variant="secondary" className="text-xs font-mono">
-              {formatDelimiter(delimiter)}
+              {formatSource(source)}
             </Badge>
+            {source.encoding && source.encoding !== "utf-8" && (
+              <Badge variant="outline" className="text-xs font-mono" data-testid="badge-file-encoding">
+                {source.encoding.toUpperCase()}
+              </Badge>
+            )}
           </div>
         </div>
 
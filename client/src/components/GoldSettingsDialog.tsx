@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Target } from "lucide-react";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface GoldSettingsDialogProps {
+  campaignId: string;
+  campaignName: string;
+  goldPairRate: number;
+  goldAccuracyThreshold: number | null;
+}
+
+// Threshold offered when alerts are first switched on
+const DEFAULT_ALERT_PERCENT = 80;
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function GoldSettingsDialog({
+  campaignId,
+  campaignName,
+  goldPairRate,
+  goldAccuracyThreshold,
+}: GoldSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [ratePercent, setRatePercent] = useState(0);
+  const [alertsEnabled, setAlertsEnabled] = useState(false);
+  const [thresholdPercent, setThresholdPercent] = useState(DEFAULT_ALERT_PERCENT);
+  const { toast } = useToast();
+
+  // Reset the form to the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setRatePercent(Math.round(goldPairRate * 100));
+    setAlertsEnabled(goldAccuracyThreshold !== null);
+    setThresholdPercent(
+      goldAccuracyThreshold !== null ? Math.round(goldAccuracyThreshold * 100) : DEFAULT_ALERT_PERCENT
+    );
+  }, [open, goldPairRate, goldAccuracyThreshold]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/campaigns/${campaignId}/gold-settings`, {
+        goldPairRate: ratePercent / 100,
+        goldAccuracyThreshold: alertsEnabled ? thresholdPercent / 100 : null,
+      }),
+    onSuccess: () => {
+      toast({ title: "Gold settings saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/gold-alerts"] });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save gold settings.", variant: "destructive" });
+    },
+  });
+
+  const isValid =
+    ratePercent >= 0 && ratePercent <= 100 &&
+    (!alertsEnabled || (thresholdPercent >= 0 && thresholdPercent <= 100));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-gold-${campaignId}`}>
+          <Target className="w-4 h-4" />
+          Gold
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Gold Pairs</DialogTitle>
+          <DialogDescription>
+            Pairs with a known label are mixed into review on {campaignName} to score each
+            reviewer's accuracy. Mark pairs as gold at import or from the results page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor={`gold-rate-${campaignId}`}>Gold pair rate (%)</Label>
+            <Input
+              id={`gold-rate-${campaignId}`}
+              type="number"
+              min={0}
+              max={100}
+              value={ratePercent}
+              onChange={(e) => setRatePercent(parseInt(e.target.value) || 0)}
+              data-testid="input-gold-rate"
+            />
+            <p className="text-xs text-muted-foreground">
+              Share of pairs served to reviewers that are gold, while unanswered gold pairs remain.
+            </p>
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <Label htmlFor={`gold-alerts-${campaignId}`}>Low accuracy alerts</Label>
+              <p className="text-xs text-muted-foreground">
+                Flag reviewers whose gold accuracy falls below the threshold after at least 5 gold answers.
+              </p>
+            </div>
+            <Switch
+              id={`gold-alerts-${campaignId}`}
+              checked={alertsEnabled}
+              onCheckedChange={setAlertsEnabled}
+              data-testid="switch-gold-alerts"
+            />
+          </div>
+
+          {alertsEnabled && (
+            <div className="space-y-2">
+              <Label htmlFor={`gold-threshold-${campaignId}`}>Alert below accuracy (%)</Label>
+              <Input
+                id={`gold-threshold-${campaignId}`}
+                type="number"
+                min={0}
+                max={100}
+                value={thresholdPercent}
+                onChange={(e) => setThresholdPercent(parseInt(e.target.value) || 0)}
+                data-testid="input-gold-threshold"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isValid || saveMutation.isPending}
+            data-testid="button-save-gold"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Settings
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { AlertCircle, ArrowRight } from "lucide-react";
 import type { ColumnMappings } from "@/components/ColumnMapper";
+import { isValidPairType, getPairTypeLabel } from "@shared/pairTypes";
+import { mapRowToPairRecord } from "@shared/importMapping";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -28,42 +30,27 @@ interface ResolvedPair {
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function resolveValue(
-  row: Record<string, string>,
-  entry: { type: "column" | "manual" | "none"; value: string } | undefined
-): string {
-  if (!entry || entry.type === "none") return "";
-  if (entry.type === "manual") return entry.value;
-  return row[entry.value] ?? "";
-}
-
+// Rows are mapped (and transformed) by the same code the server's import job
+// runs, so the preview shows what will be imported
 function resolvePair(
   row: Record<string, string>,
   mappings: ColumnMappings
 ): ResolvedPair {
-  const sourceMetadata: Record<string, string> = {};
-  for (const col of mappings.sourceMetadataColumns) {
-    sourceMetadata[col] = row[col] ?? "";
-  }
-
-  const targetMetadata: Record<string, string> = {};
-  for (const col of mappings.targetMetadataColumns) {
-    targetMetadata[col] = row[col] ?? "";
-  }
+  const record = mapRowToPairRecord(row, mappings, "");
 
   return {
-    sourceText: resolveValue(row, mappings.sourceText),
-    sourceId: resolveValue(row, mappings.sourceId),
-    sourceDataset: resolveValue(row, mappings.sourceDataset),
-    targetText: resolveValue(row, mappings.targetText),
-    targetId: resolveValue(row, mappings.targetId),
-    targetDataset: resolveValue(row, mappings.targetDataset),
-    pairType: resolveValue(row, mappings.pairType),
-    llmConfidence: resolveValue(row, mappings.llmConfidence),
-    llmModel: resolveValue(row, mappings.llmModel),
-    llmReasoning: resolveValue(row, mappings.llmReasoning),
-    sourceMetadata,
-    targetMetadata,
+    sourceText: record.source_text,
+    sourceId: record.source_id,
+    sourceDataset: record.source_dataset,
+    targetText: record.target_text,
+    targetId: record.target_id,
+    targetDataset: record.target_dataset,
+    pairType: record.pair_type,
+    llmConfidence: record.llm_confidence ?? "",
+    llmModel: record.llm_model ?? "",
+    llmReasoning: record.llm_reasoning ?? "",
+    sourceMetadata: record.source_metadata ?? {},
+    targetMetadata: record.target_metadata ?? {},
   };
 }
 
@@ -184,9 +171,15 @@ function PairCard({
           Row {index + 1}
         </span>
         {pair.pairType && (
-          <Badge variant="outline" className="text-xs font-mono">
-            {pair.pairType}
-          </Badge>
+          isValidPairType(pair.pairType) ? (
+            <Badge variant="outline" className="text-xs" title={pair.pairType}>
+              {getPairTypeLabel(pair.pairType)}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="text-xs font-mono text-destructive border-destructive/30">
+              Unknown type: {pair.pairType}
+            </Badge>
+          )
         )}
       </div>
 
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bot, Loader2 } from "lucide-react";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface ModelPredictionsDialogProps {
+  campaignId: string;
+  campaignName: string;
+  hideModelPredictions: boolean;
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function ModelPredictionsDialog({ campaignId, campaignName, hideModelPredictions }: ModelPredictionsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [hidden, setHidden] = useState(hideModelPredictions);
+  const { toast } = useToast();
+
+  // Reset the form to the saved setting each time the dialog opens
+  useEffect(() => {
+    if (open) setHidden(hideModelPredictions);
+  }, [open, hideModelPredictions]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/campaigns/${campaignId}/prediction-display`, { hideModelPredictions: hidden }),
+    onSuccess: () => {
+      toast({ title: "Prediction display saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save prediction display.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-predictions-${campaignId}`}>
+          <Bot className="w-4 h-4" />
+          Predictions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Model Predictions</DialogTitle>
+          <DialogDescription>
+            Reviewers on {campaignName} see every model's confidence and reasoning side by side,
+            and can hide them for themselves. Model accuracy against the human labels is on the
+            analytics page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label htmlFor={`hide-predictions-${campaignId}`}>Hide predictions from reviewers</Label>
+            <p className="text-xs text-muted-foreground">
+              Reviewers judge each pair without seeing any model's output, so their labels are not
+              anchored by it. Admins and adjudicators still see predictions on the results page.
+            </p>
+          </div>
+          <Switch
+            id={`hide-predictions-${campaignId}`}
+            checked={hidden}
+            onCheckedChange={setHidden}
+            data-testid="switch-campaign-hide-predictions"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-predictions"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ListX, Loader2, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  DEFAULT_REJECTION_REASONS,
+  MAX_REJECTION_REASONS,
+  rejectionReasonId,
+  resolveRejectionReasons,
+  type RejectionReason,
+} from "@shared/rejectionReasons";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface RejectionReasonsDialogProps {
+  campaignId: string;
+  campaignName: string;
+  reasons: RejectionReason[] | null;
+}
+
+// A reason being edited; new reasons get their ID from the label on saving
+type DraftReason = { key: string; id: string | null; label: string };
+
+function toDraft(reasons: RejectionReason[]): DraftReason[] {
+  return reasons.map((reason) => ({ key: reason.id, id: reason.id, label: reason.label }));
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function RejectionReasonsDialog({ campaignId, campaignName, reasons }: RejectionReasonsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DraftReason[]>([]);
+  const { toast } = useToast();
+
+  // Reset the form to the saved reasons each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(toDraft(resolveRejectionReasons(reasons)));
+  }, [open, reasons]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const taken = new Set(draft.flatMap((reason) => (reason.id ? [reason.id] : [])));
+      const saved = draft.map((reason) => {
+        const id = reason.id ?? rejectionReasonId(reason.label, taken);
+        taken.add(id);
+        return { id, label: reason.label.trim() };
+      });
+      return apiRequest("PUT", `/api/campaigns/${campaignId}/rejection-reasons`, { reasons: saved });
+    },
+    onSuccess: () => {
+      toast({ title: "Rejection reasons saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save rejection reasons.", variant: "destructive" });
+    },
+  });
+
+  const updateLabel = (index: number, label: string) =>
+    setDraft(draft.map((reason, i) => (i === index ? { ...reason, label } : reason)));
+
+  const isValid = draft.every((reason) => reason.label.trim().length > 0 && reason.label.trim().length <= 80);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-rejection-reasons-${campaignId}`}>
+          <ListX className="w-4 h-4" />
+          Reasons
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Rejection Reasons</DialogTitle>
+          <DialogDescription>
+            Reviewers on {campaignName} pick from these when they vote No Match, using the number keys in
+            the order listed. Analytics breaks the reasons down by model and confidence. Renaming a reason
+            keeps its counts; with no reasons, reviewers only have their notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {draft.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reasons. Reviewers won't be asked why they rejected a pair.</p>
+          ) : (
+            draft.map((reason, index) => (
+              <div key={reason.key} className="flex items-center gap-2" data-testid={`rejection-reason-${index}`}>
+                <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">{index + 1}</kbd>
+                <Input
+                  value={reason.label}
+                  placeholder="e.g. Wrong units"
+                  onChange={(e) => updateLabel(index, e.target.value)}
+                  data-testid={`input-rejection-reason-${index}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-rejection-reason-${index}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+          <div className="flex gap-2 pt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setDraft([...draft, { key: crypto.randomUUID(), id: null, label: "" }])}
+              disabled={draft.length >= MAX_REJECTION_REASONS}
+              data-testid="button-add-rejection-reason"
+            >
+              <Plus className="w-4 h-4" />
+              Add reason
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1"
+              onClick={() => setDraft(toDraft(DEFAULT_REJECTION_REASONS))}
+              data-testid="button-default-rejection-reasons"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Restore defaults
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isValid || saveMutation.isPending}
+            data-testid="button-save-rejection-reasons"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Reasons
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
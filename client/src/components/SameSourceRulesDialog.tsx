@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { GitCompare, Loader2 } from "lucide-react";
+import type { SameSourceRule } from "@shared/schema";
+import {
+  SAME_SOURCE_ACTIONS,
+  SAME_SOURCE_ACTION_LABELS,
+  describeSameSourceRule,
+  type SameSourceAction,
+  type SameSourceActions,
+} from "@shared/sameSourceRules";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface SameSourceRulesDialogProps {
+  campaignId: string;
+  campaignName: string;
+  actions: SameSourceActions | null;
+}
+
+// Select value for a rule that follows its default action
+const DEFAULT_CHOICE = "default";
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function SameSourceRulesDialog({ campaignId, campaignName, actions }: SameSourceRulesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<SameSourceActions>(actions ?? {});
+  const { toast } = useToast();
+
+  const { data: rules, isLoading } = useQuery<SameSourceRule[]>({
+    queryKey: ["/api/admin/same-source-rules"],
+    enabled: open,
+  });
+
+  // Reset the form to the saved choices each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(actions ?? {});
+  }, [open, actions]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Choices for rules that have since been deleted are dropped on save
+      const ruleIds = new Set((rules ?? []).map((rule) => rule.id));
+      const saved = Object.fromEntries(Object.entries(draft).filter(([id]) => ruleIds.has(id)));
+      return apiRequest("PUT", `/api/campaigns/${campaignId}/same-source-actions`, { actions: saved });
+    },
+    onSuccess: () => {
+      toast({ title: "Same-source rules saved", description: "The choices apply to the next import." });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      setOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save same-source rules.", variant: "destructive" });
+    },
+  });
+
+  const setChoice = (ruleId: string, choice: string) => {
+    const { [ruleId]: _previous, ...rest } = draft;
+    setDraft(choice === DEFAULT_CHOICE ? rest : { ...rest, [ruleId]: choice as SameSourceAction });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid={`button-same-source-${campaignId}`}>
+          <GitCompare className="w-4 h-4" />
+          Same-source
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Same-Source Rules</DialogTitle>
+          <DialogDescription>
+            Choose what imports into {campaignName} do with pairs each rule matches: drop them, import
+            them with a warning in the import report, or allow them. Rules are managed in{" "}
+            <Link href="/admin/settings" className="text-primary hover:underline">
+              Settings
+            </Link>
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-12" />
+              <Skeleton className="h-12" />
+            </>
+          ) : rules && rules.length > 0 ? (
+            rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border"
+                data-testid={`same-source-choice-${rule.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{describeSameSourceRule(rule)}</p>
+                </div>
+                <Select value={draft[rule.id] ?? DEFAULT_CHOICE} onValueChange={(v) => setChoice(rule.id, v)}>
+                  <SelectTrigger className="w-40 shrink-0" data-testid={`select-same-source-action-${rule.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_CHOICE}>
+                      Default ({SAME_SOURCE_ACTION_LABELS[rule.defaultAction].toLowerCase()})
+                    </SelectItem>
+                    {SAME_SOURCE_ACTIONS.map((action) => (
+                      <SelectItem key={action} value={action}>
+                        {SAME_SOURCE_ACTION_LABELS[action]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">No same-source rules are defined.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={isLoading || saveMutation.isPending}
+            data-testid="button-save-same-source"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import { fieldLabel } from "@/components/ColumnMapper";
+import { MAPPED_FIELDS, type ColumnMappings } from "@shared/importMapping";
+import {
+  TRANSFORM_OPS, TRANSFORM_OP_DESCRIPTIONS, TRANSFORM_OP_LABELS, TRANSFORM_VERSION, MAX_TRANSFORM_STEPS,
+  describeTransformStep, metadataTransformKey, transformStepSchema,
+  type TransformOp, type TransformStep,
+} from "@shared/importTransforms";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface TransformEditorProps {
+  columns: string[];
+  mappings: ColumnMappings;
+  onMappingsChange: (mappings: ColumnMappings) => void;
+}
+
+type StepDraft = {
+  column: string;
+  separator: string;
+  text: string;
+  replacement: string;
+  factor: string;
+  delimiter: string;
+};
+
+const EMPTY_DRAFT: StepDraft = {
+  column: "",
+  separator: " ",
+  text: "",
+  replacement: "",
+  factor: "0.01",
+  delimiter: "|",
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+// Fields with a mapping and metadata columns, which transforms can apply to
+function transformTargets(mappings: ColumnMappings): { key: string; label: string }[] {
+  const fields = MAPPED_FIELDS
+    .filter((field) => {
+      const entry = mappings[field];
+      return entry && entry.type !== "none" && entry.value !== "";
+    })
+    .map((field) => ({ key: field, label: fieldLabel(field) }));
+  const metadata = [
+    ...mappings.sourceMetadataColumns.map((column) => metadataTransformKey("source", column)),
+    ...mappings.targetMetadataColumns.map((column) => metadataTransformKey("target", column)),
+  ].map((key) => ({ key, label: targetLabel(key) }));
+  return [...fields, ...metadata];
+}
+
+function stepFromDraft(op: TransformOp, draft: StepDraft): TransformStep | null {
+  const candidate = {
+    concat: { op, columns: [draft.column], separator: draft.separator },
+    prefix: { op, value: draft.text },
+    suffix: { op, value: draft.text },
+    replace: { op, find: draft.text, replacement: draft.replacement },
+    scale: { op, factor: Number(draft.factor) },
+    split: { op, delimiter: draft.delimiter },
+  }[op];
+  const parsed = transformStepSchema.safeParse(candidate);
+  return parsed.success ? parsed.data : null;
+}
+
+function targetLabel(key: string): string {
+  const separator = key.indexOf(":");
+  const side = key.slice(0, separator);
+  if (separator > 0 && (side === "sourceMetadata" || side === "targetMetadata")) {
+    return `${side === "sourceMetadata" ? "Source" : "Target"} metadata: ${key.slice(separator + 1)}`;
+  }
+  return fieldLabel(key);
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+
+export function TransformEditor({ columns, mappings, onMappingsChange }: TransformEditorProps) {
+  const [target, setTarget] = useState("");
+  const [op, setOp] = useState<TransformOp>("prefix");
+  const [draft, setDraft] = useState<StepDraft>(EMPTY_DRAFT);
+
+  const transforms = mappings.transforms ?? {};
+  const targets = transformTargets(mappings);
+  const pipelines = Object.entries(transforms).filter(([, steps]) => steps.length > 0);
+  const step = stepFromDraft(op, draft);
+  const targetSteps = target ? transforms[target] ?? [] : [];
+
+  const setSteps = (key: string, steps: TransformStep[]) => {
+    const next = { ...transforms, [key]: steps };
+    if (steps.length === 0) delete next[key];
+    onMappingsChange({ ...mappings, transforms: next, transformVersion: TRANSFORM_VERSION });
+  };
+
+  const handleAdd = () => {
+    if (!target || !step) return;
+    setSteps(target, [...targetSteps, step]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const updateDraft = (updates: Partial<StepDraft>) => setDraft({ ...draft, ...updates });
+
+  return (
+    <div className="space-y-4">
+      {pipelines.length > 0 ? (
+        <div className="divide-y divide-border rounded-lg border border-border bg-card px-4">
+          {pipelines.map(([key, steps]) => (
+            <div key={key} className="py-3 space-y-2" data-testid={`transform-pipeline-${key}`}>
+              <p className="text-sm font-medium text-foreground">{targetLabel(key)}</p>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {steps.map((s, index) => (
+                  <Badge key={index} variant="secondary" className="gap-1 font-normal">
+                    <span className="text-muted-foreground">{index + 1}.</span>
+                    {describeTransformStep(s)}
+                    <button
+                      type="button"
+                      className="ml-1 hover:text-destructive"
+                      onClick={() => setSteps(key, steps.filter((_, i) => i !== index))}
+                      data-testid={`button-remove-transform-${key}-${index}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No transforms. Mapped values are imported as they appear in the file.
+        </p>
+      )}
+
+      <div className="rounded-lg border border-dashed border-border p-4 space-y-3">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Field</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger data-testid="select-transform-target">
+                <SelectValue placeholder="Choose a mapped field..." />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((t) => (
+                  <SelectItem key={t.key} value={t.key}>
+                    {t.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Transform</Label>
+            <Select value={op} onValueChange={(v) => setOp(v as TransformOp)}>
+              <SelectTrigger data-testid="select-transform-op">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSFORM_OPS.map((o) => (
+                  <SelectItem key={o} value={o}>
+                    {TRANSFORM_OP_LABELS[o]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{TRANSFORM_OP_DESCRIPTIONS[op]}</p>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {op === "concat" && (
+            <>
+              <div className="space-y-1.5">
+                <Label>Column</Label>
+                <Select value={draft.column} onValueChange={(column) => updateDraft({ column })}>
+                  <SelectTrigger data-testid="select-transform-column">
+                    <SelectValue placeholder="Column to append..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Separator</Label>
+                <Input
+                  value={draft.separator}
+                  onChange={(e) => updateDraft({ separator: e.target.value })}
+                  className="font-mono"
+                  data-testid="input-transform-separator"
+                />
+              </div>
+            </>
+          )}
+          {(op === "prefix" || op === "suffix" || op === "replace") && (
+            <div className="space-y-1.5">
+              <Label>{op === "replace" ? "Find" : "Text"}</Label>
+              <Input
+                value={draft.text}
+                onChange={(e) => updateDraft({ text: e.target.value })}
+                placeholder={op === "prefix" ? "e.g., arivale_" : ""}
+                className="font-mono"
+                data-testid="input-transform-text"
+              />
+            </div>
+          )}
+          {op === "replace" && (
+            <div className="space-y-1.5">
+              <Label>Replace with</Label>
+              <Input
+                value={draft.replacement}
+                onChange={(e) => updateDraft({ replacement: e.target.value })}
+                className="font-mono"
+                data-testid="input-transform-replacement"
+              />
+            </div>
+          )}
+          {op === "scale" && (
+            <div className="space-y-1.5">
+              <Label>Factor</Label>
+              <Input
+                type="number"
+                step="any"
+                value={draft.factor}
+                onChange={(e) => updateDraft({ factor: e.target.value })}
+                className="font-mono"
+                data-testid="input-transform-factor"
+              />
+            </div>
+          )}
+          {op === "split" && (
+            <div className="space-y-1.5">
+              <Label>Delimiter</Label>
+              <Input
+                value={draft.delimiter}
+                onChange={(e) => updateDraft({ delimiter: e.target.value })}
+                className="font-mono"
+                data-testid="input-transform-delimiter"
+              />
+            </div>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={handleAdd}
+          disabled={!target || !step || targetSteps.length >= MAX_TRANSFORM_STEPS}
+          data-testid="button-add-transform"
+        >
+          <Plus className="w-4 h-4" />
+          Add Step
+        </Button>
+      </div>
+    </div>
+  );
+}
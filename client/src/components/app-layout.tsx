@@ -37,6 +37,7 @@ import {
   History,
   Globe,
   PieChart,
+  Gavel,
 } from "lucide-react";
 
 const reviewerMenuItems = [
@@ -56,7 +57,7 @@ const adminMenuItems = [
 
 export function AppLayout({ children }: { children: React.ReactNode }) {
   const [location] = useLocation();
-  const { user, isAdmin, logout } = useAuth();
+  const { user, isAdmin, canAdjudicate, logout } = useAuth();
 
   const style = {
     "--sidebar-width": "16rem",
@@ -130,6 +131,28 @@ export function AppLayout({ children }: { children: React.ReactNode }) {
               </SidebarGroupContent>
             </SidebarGroup>
 
+            {/* Adjudication - admins and adjudicators */}
+            {canAdjudicate && (
+              <SidebarGroup>
+                <SidebarGroupLabel>Adjudication</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <SidebarMenu>
+                    <SidebarMenuItem>
+                      <SidebarMenuButton
+                        asChild
+                        isActive={location === "/adjudication"}
+                      >
+                        <Link href="/adjudication">
+                          <Gavel className="w-4 h-4" />
+                          <span>Disputed Pairs</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
+
             {/* Admin Menu */}
             {isAdmin && (
               <SidebarGroup>
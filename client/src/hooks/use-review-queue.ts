@@ -0,0 +1,339 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import { getQueuedEntries, queueEntry, removeEntries, sendEntries, type QueuedEntry } from "@/lib/reviewOutbox";
+import {
+  MAX_HELD_PAIRS,
+  MAX_OUTBOX_BATCH,
+  REVIEW_BATCH_SIZE,
+  type OutboxEntry,
+  type OutboxResult,
+  type OutboxResultStatus,
+} from "@shared/reviewOutbox";
+import type { Pair, PairCandidate } from "@shared/schema";
+import type { ModelPredictionInput } from "@shared/modelPredictions";
+
+export type ReviewPairView = {
+  pair: Pair;
+  // Every model's prediction for the pair, the primary one first
+  predictions: ModelPredictionInput[];
+  // Ranked candidate targets when the pair is reviewed as a candidate list
+  candidates: PairCandidate[];
+};
+
+type NextPairsResponse = {
+  pairs: ReviewPairView[];
+  // The campaign hides model output from reviewers
+  predictionsHidden: boolean;
+  progress: {
+    reviewed: number;
+    total: number;
+  };
+  // How long the batch's leases last; the queue renews them every half
+  leaseSeconds: number;
+};
+
+// Fetch more pairs once this few are left
+const REFILL_AT = 3;
+// How often queued entries are retried while the browser thinks it is online
+const RETRY_INTERVAL_MS = 30_000;
+
+// "queued" when the entry could not be sent yet and waits in the outbox
+export type RecordResult = { status: OutboxResultStatus | "queued"; message: string | null };
+
+// Entries without the fields the queue fills in
+type NewEntry =
+  | Omit<Extract<OutboxEntry, { action: "vote" }>, "clientId">
+  | Omit<Extract<OutboxEntry, { action: "skip" }>, "clientId">;
+
+// Review queue for a campaign: a prefetched batch of pairs and the outbox of
+// votes and skips recorded on them (see shared/reviewOutbox.ts). The current
+// pair is the first of the batch; recording an entry moves on to the next.
+// onSynced hears about entries sent in the background, such as those queued
+// while offline.
+export function useReviewQueue(
+  campaignId: string | undefined,
+  { onSynced }: { onSynced?: (results: OutboxResult[]) => void } = {}
+) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+
+  const [pairs, setPairs] = useState<ReviewPairView[]>([]);
+  const [predictionsHidden, setPredictionsHidden] = useState(false);
+  const [progress, setProgress] = useState<NextPairsResponse["progress"] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isError, setIsError] = useState(false);
+  // The last fetch found no further pairs
+  const [exhausted, setExhausted] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [leaseSeconds, setLeaseSeconds] = useState<number | null>(null);
+
+  const pairsRef = useRef(pairs);
+  pairsRef.current = pairs;
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const loadingRef = useRef(false);
+  const syncRef = useRef<Promise<OutboxResult[] | null> | null>(null);
+
+  // How long the current pair has been on screen, counting only while the
+  // tab is visible
+  const viewRef = useRef<{ pairId: string | null; visibleMs: number; visibleSince: number | null }>({
+    pairId: null,
+    visibleMs: 0,
+    visibleSince: null,
+  });
+  const currentPairId = pairs[0]?.pair.id ?? null;
+
+  useEffect(() => {
+    viewRef.current = {
+      pairId: currentPairId,
+      visibleMs: 0,
+      visibleSince: document.visibilityState === "visible" ? Date.now() : null,
+    };
+  }, [currentPairId]);
+
+  useEffect(() => {
+    const handleVisibility = () => {
+      const view = viewRef.current;
+      if (document.visibilityState === "visible") {
+        view.visibleSince = Date.now();
+      } else if (view.visibleSince !== null) {
+        view.visibleMs += Date.now() - view.visibleSince;
+        view.visibleSince = null;
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => document.removeEventListener("visibilitychange", handleVisibility);
+  }, []);
+
+  const onScreenMs = (pairId: string): number | null => {
+    const view = viewRef.current;
+    if (view.pairId !== pairId) return null;
+    return view.visibleMs + (view.visibleSince !== null ? Date.now() - view.visibleSince : 0);
+  };
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!userId) return;
+    setPendingCount((await getQueuedEntries(userId)).length);
+  }, [userId]);
+
+  const loadMore = useCallback(async () => {
+    if (!campaignId || !userId || loadingRef.current) return;
+    loadingRef.current = true;
+    try {
+      const queued = await getQueuedEntries(userId);
+      const exclude = [...pairsRef.current.map((view) => view.pair.id), ...queued.map((entry) => entry.pairId)];
+      const params = new URLSearchParams({ count: String(REVIEW_BATCH_SIZE) });
+      if (exclude.length > 0) params.set("exclude", exclude.join(","));
+      const res = await apiRequest("GET", `/api/campaigns/${campaignId}/next-pairs?${params}`);
+      const batch: NextPairsResponse = await res.json();
+
+      setPairs((current) => {
+        const held = new Set(current.map((view) => view.pair.id));
+        return [...current, ...batch.pairs.filter((view) => !held.has(view.pair.id))];
+      });
+      setPredictionsHidden(batch.predictionsHidden);
+      setProgress(batch.progress);
+      setLeaseSeconds(batch.leaseSeconds);
+      setExhausted(batch.pairs.length === 0);
+      setIsError(false);
+    } catch {
+      // Offline with pairs still in hand is not an error worth showing
+      if (pairsRef.current.length === 0 && navigator.onLine) setIsError(true);
+    } finally {
+      loadingRef.current = false;
+      setIsLoading(false);
+    }
+  }, [campaignId, userId]);
+
+  // Sends the outbox. Resolves to the server's results, or null when it could
+  // not be reached and everything stays queued. ownClientId is left out of the
+  // results passed to onSynced, as the caller reports it.
+  const sync = useCallback(async (ownClientId?: string): Promise<OutboxResult[] | null> => {
+    if (!userId) return null;
+    // One sync at a time; a second caller waits and then sends what is left
+    while (syncRef.current) await syncRef.current;
+
+    const run = async (): Promise<OutboxResult[] | null> => {
+      const queued = await getQueuedEntries(userId);
+      if (queued.length === 0) return [];
+      setIsSyncing(true);
+      const results: OutboxResult[] = [];
+      try {
+        for (let start = 0; start < queued.length; start += MAX_OUTBOX_BATCH) {
+          const chunk = queued.slice(start, start + MAX_OUTBOX_BATCH);
+          let chunkResults: OutboxResult[];
+          try {
+            chunkResults = await sendEntries(chunk);
+          } catch (error) {
+            // A batch the server refuses outright would never go through
+            if (!(error instanceof Error && error.message.startsWith("400: "))) throw error;
+            chunkResults = chunk.map((entry: QueuedEntry) => ({
+              clientId: entry.clientId,
+              pairId: entry.pairId,
+              status: "invalid" as const,
+              message: "The server could not read this entry",
+            }));
+          }
+          await removeEntries(chunkResults.map((result) => result.clientId));
+          results.push(...chunkResults);
+        }
+        setOnline(true);
+        return results;
+      } catch {
+        return results.length > 0 ? results : null;
+      } finally {
+        setIsSyncing(false);
+        await refreshPendingCount();
+      }
+    };
+
+    syncRef.current = run();
+    try {
+      const results = await syncRef.current;
+      if (results && results.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/users/me/stats"] });
+        queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaignId}/review-session`] });
+        const others = results.filter((result) => result.clientId !== ownClientId);
+        if (others.length > 0) onSyncedRef.current?.(others);
+      }
+      return results;
+    } finally {
+      syncRef.current = null;
+    }
+  }, [userId, campaignId, queryClient, refreshPendingCount]);
+
+  // Records a vote or skip on a pair and moves on, unless the server found it
+  // invalid; then the pair stays current so the reviewer can correct it
+  const record = useCallback(async (entry: NewEntry): Promise<RecordResult> => {
+    if (!userId || !campaignId) throw new Error("Not signed in");
+    const timed = entry.action === "vote"
+      ? { ...entry, vote: { ...entry.vote, reviewMs: onScreenMs(entry.pairId) } }
+      : entry;
+    const queued = {
+      ...timed,
+      clientId: crypto.randomUUID(),
+      recordedAt: new Date().toISOString(),
+      userId,
+      campaignId,
+      queuedAt: Date.now(),
+    } as QueuedEntry;
+    await queueEntry(queued);
+
+    const results = navigator.onLine ? await sync(queued.clientId) : null;
+    const own = results?.find((result) => result.clientId === queued.clientId);
+    if (!own) {
+      setOnline(false);
+      await refreshPendingCount();
+    }
+    if (own?.status === "invalid") {
+      return { status: own.status, message: own.message };
+    }
+
+    const remaining = pairsRef.current.filter((view) => view.pair.id !== entry.pairId);
+    setPairs(remaining);
+    if (remaining.length <= REFILL_AT && navigator.onLine) loadMore();
+    return own ? { status: own.status, message: own.message } : { status: "queued", message: null };
+  }, [userId, campaignId, sync, refreshPendingCount, loadMore]);
+
+  // Puts a pair back at the front of the queue, e.g. once its vote is withdrawn
+  const requeue = useCallback((view: ReviewPairView) => {
+    setPairs((current) => [view, ...current.filter((held) => held.pair.id !== view.pair.id)]);
+    setExhausted(false);
+  }, []);
+
+  // Takes back a vote recorded on a pair and makes the pair current again. A
+  // vote still in the outbox is simply dropped; one the server has is
+  // withdrawn there and kept in its audit trail (see voteWithdrawals.ts).
+  const withdraw = useCallback(async (view: ReviewPairView, reason: "undo" | "withdrawn" = "undo") => {
+    if (!userId) throw new Error("Not signed in");
+    // A vote being sent right now is on the server once the sync is done
+    while (syncRef.current) await syncRef.current;
+
+    const queued = (await getQueuedEntries(userId))
+      .filter((entry) => entry.pairId === view.pair.id && entry.action === "vote");
+    if (queued.length > 0) {
+      await removeEntries(queued.map((entry) => entry.clientId));
+      await refreshPendingCount();
+    } else {
+      await apiRequest("DELETE", `/api/pairs/${view.pair.id}/vote`, { reason });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/stats"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaignId}/review-session`] });
+    }
+    requeue(view);
+  }, [userId, campaignId, queryClient, refreshPendingCount, requeue]);
+
+  const retry = useCallback(() => {
+    setIsLoading(true);
+    setIsError(false);
+    return sync().then(() => loadMore());
+  }, [sync, loadMore]);
+
+  // First batch, and anything left in the outbox from an earlier visit
+  useEffect(() => {
+    setPairs([]);
+    setIsLoading(true);
+    setExhausted(false);
+    sync().then(() => loadMore());
+  }, [sync, loadMore]);
+
+  // Send the outbox when the connection returns, and keep retrying while it
+  // has entries in case the browser's online flag is wrong
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync().then(() => {
+        if (pairsRef.current.length <= REFILL_AT) loadMore();
+      });
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [sync, loadMore]);
+
+  // Keep the pairs in hand leased while the page is open; a missed renewal is
+  // retried on the next tick, and lapsed leases are taken again
+  useEffect(() => {
+    if (!campaignId || !leaseSeconds) return;
+    const interval = setInterval(() => {
+      if (!navigator.onLine) return;
+      const pairIds = pairsRef.current.map((view) => view.pair.id).slice(0, MAX_HELD_PAIRS);
+      apiRequest("POST", `/api/campaigns/${campaignId}/leases/renew`, { pairIds }).catch(() => {});
+    }, Math.max(leaseSeconds * 500, 5_000));
+    return () => clearInterval(interval);
+  }, [campaignId, leaseSeconds]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const interval = setInterval(() => {
+      if (navigator.onLine) sync();
+    }, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount, sync]);
+
+  return {
+    current: pairs[0] ?? null,
+    remaining: pairs.length,
+    predictionsHidden,
+    progress,
+    isLoading: isLoading || (pairs.length === 0 && !exhausted && online && !isError),
+    isError,
+    exhausted,
+    online,
+    pendingCount,
+    isSyncing,
+    record,
+    withdraw,
+    requeue,
+    sync,
+    retry,
+  };
+}
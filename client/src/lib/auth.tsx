@@ -7,6 +7,7 @@ type AuthContextType = {
   isLoading: boolean;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  canAdjudicate: boolean;
   logout: () => Promise<void>;
   refetch: () => void;
 };
@@ -25,6 +26,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const user = data?.user ?? null;
   const isAuthenticated = !!user;
   const isAdmin = user?.role === "admin";
+  const canAdjudicate = isAdmin || user?.role === "adjudicator";
 
   const logout = async () => {
     await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
@@ -34,7 +36,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, isAuthenticated, isAdmin, logout, refetch }}>
+    <AuthContext.Provider value={{ user, isLoading, isAuthenticated, isAdmin, canAdjudicate, logout, refetch }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,93 @@
+import type { OutboxEntry, OutboxResult } from "@shared/reviewOutbox";
+
+// Browser side of the review outbox (see shared/reviewOutbox.ts). Entries are
+// kept in IndexedDB so they survive a reload or a closed tab until they have
+// been sent. Browsers without IndexedDB (some private windows) keep them in
+// memory instead.
+
+const DB_NAME = "review-outbox";
+const DB_VERSION = 1;
+const STORE = "entries";
+
+export type QueuedEntry = OutboxEntry & {
+  // Entries are only ever sent for the reviewer who recorded them
+  userId: string;
+  campaignId: string;
+  queuedAt: number;
+};
+
+let database: Promise<IDBDatabase> | null = null;
+const memoryOutbox = new Map<string, QueuedEntry>();
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "clientId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return database;
+}
+
+// Runs a request against the outbox store, or null without IndexedDB
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined | null> {
+  let db: IDBDatabase;
+  try {
+    db = await openOutbox();
+  } catch {
+    return null;
+  }
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function queueEntry(entry: QueuedEntry): Promise<void> {
+  const stored = await withStore("readwrite", (store) => store.put(entry));
+  if (stored === null) memoryOutbox.set(entry.clientId, entry);
+}
+
+// A reviewer's queued entries, oldest first
+export async function getQueuedEntries(userId: string): Promise<QueuedEntry[]> {
+  const stored = await withStore<QueuedEntry[]>("readonly", (store) => store.getAll());
+  const entries = stored ?? Array.from(memoryOutbox.values());
+  return entries
+    .filter((entry) => entry.userId === userId)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function removeEntries(clientIds: string[]): Promise<void> {
+  if (clientIds.length === 0) return;
+  const removed = await withStore("readwrite", (store) => {
+    clientIds.forEach((clientId) => store.delete(clientId));
+  });
+  if (removed === null) clientIds.forEach((clientId) => memoryOutbox.delete(clientId));
+}
+
+// Sends entries to the server. Throws when the server could not be reached
+// or failed, in which case every entry stays queued.
+export async function sendEntries(entries: QueuedEntry[]): Promise<OutboxResult[]> {
+  const res = await fetch("/api/review/outbox", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      entries: entries.map(({ userId: _userId, campaignId: _campaignId, queuedAt: _queuedAt, ...entry }) => entry),
+    }),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  const { results } = await res.json();
+  return results;
+}
@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EmptyState } from "@/components/EmptyState";
+import { Gavel, ArrowRight, CheckCircle2 } from "lucide-react";
+
+type QueueEntry = {
+  campaignId: string;
+  campaignName: string;
+  status: string;
+  openDisputes: number;
+  adjudicatedCount: number;
+};
+
+export default function AdjudicationPage() {
+  const { data: queue, isLoading } = useQuery<QueueEntry[]>({
+    queryKey: ["/api/adjudication/queue"],
+    staleTime: 30000,
+  });
+
+  const campaignsWithWork = queue?.filter((entry) => entry.openDisputes > 0 || entry.adjudicatedCount > 0) ?? [];
+  const totalOpen = queue?.reduce((sum, entry) => sum + entry.openDisputes, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Disputed Pairs</h1>
+          <p className="text-muted-foreground">
+            Record binding decisions on pairs where reviewers disagree. Adjudicated decisions become the gold label in
+            results and exports.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-48" />
+        ) : campaignsWithWork.length === 0 ? (
+          <EmptyState
+            icon={<CheckCircle2 className="w-6 h-6 text-muted-foreground" />}
+            title="No disputed pairs"
+            description="Pairs where neither side reaches the campaign's consensus threshold will appear here once reviewers have voted."
+            testId="empty-adjudication"
+          />
+        ) : (
+          <Card className="border-card-border">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Gavel className="w-4 h-4 text-muted-foreground" />
+                Adjudication Queue
+              </CardTitle>
+              <CardDescription>{totalOpen} open dispute(s) across all campaigns</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead className="text-center">Open Disputes</TableHead>
+                    <TableHead className="text-center">Adjudicated</TableHead>
+                    <TableHead className="w-40" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campaignsWithWork.map((entry) => (
+                    <TableRow key={entry.campaignId} data-testid={`row-adjudication-${entry.campaignId}`}>
+                      <TableCell>
+                        <p className="text-sm font-medium">{entry.campaignName}</p>
+                        <Badge variant="outline" className="text-xs mt-1">{entry.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-center font-mono text-sm">
+                        {entry.openDisputes > 0 ? (
+                          <span className="text-yellow-600 dark:text-yellow-400">{entry.openDisputes}</span>
+                        ) : (
+                          "0"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center font-mono text-sm">{entry.adjudicatedCount}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" className="gap-1" asChild>
+                          <Link
+                            href={`/admin/campaigns/${entry.campaignId}/results?consensus=${entry.openDisputes > 0 ? "disagreement" : "adjudicated"}`}
+                            data-testid={`link-resolve-${entry.campaignId}`}
+                          >
+                            {entry.openDisputes > 0 ? "Resolve" : "Review"}
+                            <ArrowRight className="w-3 h-3" />
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -38,6 +39,9 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
+  Sigma,
+  Gauge,
+  Bot,
 } from "lucide-react";
 import {
   LineChart,
@@ -59,6 +63,16 @@ import {
   ReferenceLine,
   ReferenceArea,
 } from "recharts";
+import type { AlphaMetric, CalibrationReport, KrippendorffAlphaReport, ReviewerAgreementReport } from "@shared/schema";
+import type { ModelComparisonReport } from "@shared/modelPredictions";
+import { FAST_REVIEW_MS, FAST_VOTING_SHARE, type ReviewTimeReport } from "@shared/reviewSessions";
+import { SKIP_REASONS, SKIP_REASON_LABELS, type SkipReasonCounts } from "@shared/skipReasons";
+import { UNSPECIFIED_REASON, type RejectionReasonReport } from "@shared/rejectionReasons";
+
+// Select values for the calibration model picker; real model names come from llmModel
+const ALL_MODELS = "__all__";
+const UNKNOWN_MODEL = "__unknown__";
+const DEFAULT_CALIBRATION_THRESHOLDS = "0.5, 0.6, 0.7, 0.8, 0.9, 0.95";
 
 type CampaignSummary = {
   id: string;
@@ -71,6 +85,7 @@ type CampaignSummary = {
   uniqueReviewers: number;
   avgVotesPerPair: number;
   alpha: number | null;
+  alphaMetric: AlphaMetric | null;
   disagreementCount: number;
   daysSinceLastActivity: number | null;
 };
@@ -95,6 +110,8 @@ type ReviewerStat = {
   positiveRate: number | null;
   avgTimeSeconds: number | null;
   skipCount: number;
+  goldAnswered: number;
+  goldAccuracy: number | null;
   flags: string[];
 };
 
@@ -128,6 +145,7 @@ type SkipAnalysis = {
   totalSkips: number;
   uniquePairsSkipped: number;
   skipRate: number;
+  skipsByReason: SkipReasonCounts;
   mostSkippedPairs: {
     pair: {
       id: string;
@@ -136,15 +154,32 @@ type SkipAnalysis = {
     };
     skipCount: number;
     voteCount: number;
+    reasons: SkipReasonCounts;
   }[];
   skipsByReviewer: {
     userId: string;
     email: string;
     skipCount: number;
     skipRate: number;
+    reasons: SkipReasonCounts;
   }[];
 };
 
+// The reasons given for skips, most frequent first
+function SkipReasonBadges({ reasons }: { reasons: SkipReasonCounts }) {
+  const given = SKIP_REASONS.filter((reason) => reasons[reason] > 0).sort((a, b) => reasons[b] - reasons[a]);
+  if (given.length === 0) return <span className="text-muted-foreground">—</span>;
+  return (
+    <div className="flex gap-1 flex-wrap">
+      {given.map((reason) => (
+        <Badge key={reason} variant="outline" className="text-xs">
+          {SKIP_REASON_LABELS[reason]} ({reasons[reason]})
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
 type VotesOverTime = {
   date: string;
   count: number;
@@ -196,6 +231,9 @@ function CampaignCard({ campaign }: { campaign: CampaignSummary }) {
             <span className="font-medium">
               {campaign.alpha !== null ? campaign.alpha.toFixed(2) : "N/A"}
             </span>
+            {campaign.alphaMetric && campaign.alpha !== null && (
+              <span className="text-xs text-muted-foreground"> ({campaign.alphaMetric})</span>
+            )}
           </div>
         </div>
         
@@ -375,7 +413,7 @@ function ReviewerStatsSection({ data }: { data: ReviewerStat[] }) {
         <CardHeader className="pb-2">
           <CardTitle className="text-sm font-medium">Reviewer Statistics</CardTitle>
           <div className="text-xs text-muted-foreground">
-            Flags: Low agreement (&lt;75%) | Extreme bias (&gt;85% or &lt;35%) | High skip rate
+            Flags: Low agreement (&lt;75%) | Extreme bias (&gt;85% or &lt;35%) | High skip rate | Gold accuracy below the campaign threshold | Fast voting
           </div>
         </CardHeader>
         <CardContent>
@@ -389,6 +427,7 @@ function ReviewerStatsSection({ data }: { data: ReviewerStat[] }) {
                   <TableHead className="text-right">Agreement</TableHead>
                   <TableHead className="text-right">Pos Rate</TableHead>
                   <TableHead className="text-right">Skips</TableHead>
+                  <TableHead className="text-right">Gold</TableHead>
                   <TableHead>Flags</TableHead>
                 </TableRow>
               </TableHeader>
@@ -420,11 +459,14 @@ function ReviewerStatsSection({ data }: { data: ReviewerStat[] }) {
                     </TableCell>
                     <TableCell className="text-right">{reviewer.positiveRate !== null ? `${reviewer.positiveRate}%` : "—"}</TableCell>
                     <TableCell className="text-right">{reviewer.skipCount}</TableCell>
+                    <TableCell className="text-right" title={`${reviewer.goldAnswered} gold pair(s) answered`}>
+                      {reviewer.goldAccuracy !== null ? `${reviewer.goldAccuracy}%` : "—"}
+                    </TableCell>
                     <TableCell>
                       <div className="flex gap-1 flex-wrap">
                         {(reviewer.flags || []).map((flag) => (
                           <Badge key={flag} variant="outline" className="text-xs">
-                            {flag === "low_agreement" && <AlertCircle className="w-3 h-3 mr-1" />}
+                            {(flag === "low_agreement" || flag === "low_gold_accuracy" || flag === "fast_voting") && <AlertCircle className="w-3 h-3 mr-1" />}
                             {flag.replace(/_/g, " ")}
                           </Badge>
                         ))}
@@ -503,6 +545,96 @@ function ReviewerStatsSection({ data }: { data: ReviewerStat[] }) {
   );
 }
 
+function kappaColor(kappa: number): string {
+  // Red below zero through amber to green at perfect agreement
+  const clamped = Math.max(-0.2, Math.min(1, kappa));
+  const hue = Math.round(((clamped + 0.2) / 1.2) * 130);
+  return `hsl(${hue} 70% 45% / 0.75)`;
+}
+
+function AgreementHeatmapSection({ data }: { data: ReviewerAgreementReport }) {
+  const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const pairsByKey = new Map(data.pairs.map(p => [pairKey(p.userIdA, p.userIdB), p]));
+  const shortName = (r: ReviewerAgreementReport["reviewers"][number]) => r.displayName || r.email.split('@')[0];
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <CardTitle className="text-sm font-medium">Reviewer Agreement (Cohen's κ)</CardTitle>
+          <Badge variant="outline" data-testid="text-fleiss-kappa">
+            Fleiss' κ: {data.fleissKappa !== null ? data.fleissKappa.toFixed(3) : "N/A"} over {data.pairCount} pairs
+          </Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Each cell compares two reviewers on the pairs both rated ({data.scoringMode === "numeric" ? "numeric scores" : "binary votes"}).
+          A row that stays red against everyone points to a reviewer who systematically disagrees.
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data.reviewers.length < 2 ? (
+          <div className="text-center py-8 text-muted-foreground">At least two reviewers are needed</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate border-spacing-0.5" data-testid="table-agreement-heatmap">
+              <thead>
+                <tr>
+                  <th />
+                  {data.reviewers.map((r) => (
+                    <th key={r.userId} className="font-normal text-muted-foreground px-1 max-w-20 truncate" title={r.email}>
+                      {shortName(r)}
+                    </th>
+                  ))}
+                  <th className="font-medium px-2 text-right">Mean κ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.reviewers.map((row) => (
+                  <tr key={row.userId}>
+                    <th className="font-normal text-left pr-2 max-w-32 truncate" title={row.email}>
+                      {shortName(row)}
+                    </th>
+                    {data.reviewers.map((col) => {
+                      if (row.userId === col.userId) {
+                        return <td key={col.userId} className="w-12 h-8 text-center bg-muted rounded-sm">—</td>;
+                      }
+                      const cell = pairsByKey.get(pairKey(row.userId, col.userId));
+                      if (!cell || cell.cohenKappa === null) {
+                        return (
+                          <td
+                            key={col.userId}
+                            className="w-12 h-8 text-center text-muted-foreground bg-muted/40 rounded-sm"
+                            title={cell ? `${cell.sharedPairs} shared pairs, kappa undefined` : "No shared pairs"}
+                          >
+                            ·
+                          </td>
+                        );
+                      }
+                      return (
+                        <td
+                          key={col.userId}
+                          className="w-12 h-8 text-center font-mono text-white rounded-sm"
+                          style={{ backgroundColor: kappaColor(cell.cohenKappa) }}
+                          title={`${cell.sharedPairs} shared pairs, ${Math.round((cell.percentAgreement ?? 0) * 100)}% raw agreement`}
+                        >
+                          {cell.cohenKappa.toFixed(2)}
+                        </td>
+                      );
+                    })}
+                    <td className="px-2 text-right font-mono font-medium">
+                      {row.meanKappa !== null ? row.meanKappa.toFixed(2) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function DisagreementSection({ data }: { data: DisagreementData }) {
   return (
     <div className="space-y-6">
@@ -529,7 +661,7 @@ function DisagreementSection({ data }: { data: DisagreementData }) {
       <Card className="border-card-border">
         <CardHeader className="pb-2">
           <CardTitle className="text-sm font-medium">
-            High Disagreement Pairs ({data.pairs.length} pairs with 40-60% agreement)
+            High Disagreement Pairs ({data.pairs.length} pairs where neither side reached the consensus threshold)
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -585,12 +717,485 @@ function DisagreementSection({ data }: { data: DisagreementData }) {
   );
 }
 
+function describeAlpha(alpha: number): { label: string; className: string } {
+  // Krippendorff's guideline: rely on data with alpha >= 0.8, draw tentative
+  // conclusions from 0.667 upward
+  if (alpha >= 0.8) return { label: "Reliable", className: "text-green-600 dark:text-green-400" };
+  if (alpha >= 0.667) return { label: "Tentative", className: "text-amber-600 dark:text-amber-400" };
+  return { label: "Unreliable", className: "text-destructive" };
+}
+
+function ReliabilitySection({
+  data,
+  metric,
+  onMetricChange,
+}: {
+  data: KrippendorffAlphaReport;
+  metric: AlphaMetric | undefined;
+  onMetricChange: (metric: AlphaMetric) => void;
+}) {
+  const rating = data.alpha !== null ? describeAlpha(data.alpha) : null;
+  const chartData = data.raterDiagnostics
+    .filter(r => r.change !== null)
+    .map(r => ({ name: r.displayName || r.email.split('@')[0], change: r.change! }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4 flex-wrap">
+        <span className="text-sm text-muted-foreground">
+          {data.scoringMode === "numeric" ? "Numeric 1-5 scores" : "Binary votes (confirm / reject / unsure)"}
+        </span>
+        {data.scoringMode === "numeric" ? (
+          <Select value={metric ?? data.metric} onValueChange={(v) => onMetricChange(v as AlphaMetric)}>
+            <SelectTrigger className="w-40" data-testid="select-alpha-metric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ordinal">Ordinal</SelectItem>
+              <SelectItem value="interval">Interval</SelectItem>
+              <SelectItem value="nominal">Nominal</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : (
+          <Badge variant="outline">Nominal metric</Badge>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-4">
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-alpha">
+              {data.alpha !== null ? data.alpha.toFixed(3) : "N/A"}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Krippendorff's α{rating && <span className={`ml-2 ${rating.className}`}>{rating.label}</span>}
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-alpha-ci">
+              {data.confidenceInterval
+                ? `${data.confidenceInterval.lower.toFixed(2)} – ${data.confidenceInterval.upper.toFixed(2)}`
+                : "N/A"}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {data.confidenceInterval
+                ? `${Math.round(data.confidenceInterval.level * 100)}% bootstrap CI (${data.confidenceInterval.samples} samples)`
+                : "Confidence interval"}
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{data.raterCount}</div>
+            <div className="text-sm text-muted-foreground">Reviewers</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{data.pairCount}</div>
+            <div className="text-sm text-muted-foreground">Pairs ({data.voteCount} votes)</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {data.alpha === null && (
+        <div className="text-sm text-muted-foreground">
+          Alpha needs at least two reviewers rating the same pairs, with some variation in their ratings.
+        </div>
+      )}
+
+      {data.raterDiagnostics.length > 0 && (
+        <Card className="border-card-border">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Alpha if Reviewer Removed</CardTitle>
+            <div className="text-xs text-muted-foreground">
+              Positive change means agreement improves without the reviewer's ratings
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {chartData.length > 0 && (
+              <ResponsiveContainer width="100%" height={Math.max(120, chartData.length * 28)}>
+                <BarChart data={chartData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+                  <XAxis type="number" tick={{ fontSize: 12 }} />
+                  <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                  <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="change" name="Change in alpha" radius={[0, 4, 4, 0]}>
+                    {chartData.map((entry, index) => (
+                      <Cell
+                        key={`cell-${index}`}
+                        fill={entry.change > 0 ? "hsl(var(--destructive))" : "hsl(var(--primary))"}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead className="text-right">Ratings</TableHead>
+                  <TableHead className="text-right">Alpha if removed</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.raterDiagnostics.map((rater) => (
+                  <TableRow key={rater.userId} data-testid={`row-alpha-rater-${rater.userId}`}>
+                    <TableCell>
+                      <div className="max-w-40 truncate" title={rater.email}>
+                        {rater.displayName || rater.email}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{rater.voteCount}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {rater.alphaIfRemoved !== null ? rater.alphaIfRemoved.toFixed(3) : "—"}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${rater.change !== null && rater.change > 0 ? "text-destructive" : ""}`}>
+                      {rater.change !== null ? `${rater.change > 0 ? "+" : ""}${rater.change.toFixed(3)}` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function formatMetric(value: number | null, digits = 3): string {
+  return value !== null ? value.toFixed(digits) : "N/A";
+}
+
+function formatPercent(value: number | null): string {
+  return value !== null ? `${Math.round(value * 100)}%` : "—";
+}
+
+function CalibrationSection({
+  data,
+  thresholdsInput,
+  onThresholdsChange,
+}: {
+  data: CalibrationReport;
+  thresholdsInput: string;
+  onThresholdsChange: (value: string) => void;
+}) {
+  const [model, setModel] = useState<string>(ALL_MODELS);
+  const [draftThresholds, setDraftThresholds] = useState(thresholdsInput);
+
+  const modelKey = (name: string | null) => name ?? UNKNOWN_MODEL;
+  const selected =
+    model === ALL_MODELS ? data.overall : data.models.find((m) => modelKey(m.model) === model) ?? data.overall;
+
+  const diagramData = selected.bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => ({
+      confidence: bin.meanConfidence!,
+      observed: bin.observedMatchRate!,
+      count: bin.count,
+    }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4 flex-wrap">
+        <Select value={model} onValueChange={setModel}>
+          <SelectTrigger className="w-56" data-testid="select-calibration-model">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_MODELS}>All models</SelectItem>
+            {data.models.map((m) => (
+              <SelectItem key={modelKey(m.model)} value={modelKey(m.model)}>
+                {m.model ?? "Model not recorded"} ({m.pairCount})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">
+          Compared with human labels (adjudicated or consensus).
+          {data.unlabelledPairs > 0 && ` ${data.unlabelledPairs} pair(s) with LLM confidence have no label yet.`}
+        </span>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-4">
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-calibration-pairs">{selected.pairCount}</div>
+            <div className="text-sm text-muted-foreground">Labelled pairs</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{formatPercent(selected.matchRate)}</div>
+            <div className="text-sm text-muted-foreground">Human match rate</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-calibration-ece">{formatMetric(selected.ece)}</div>
+            <div className="text-sm text-muted-foreground">Expected calibration error</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-calibration-brier">{formatMetric(selected.brier)}</div>
+            <div className="text-sm text-muted-foreground">Brier score</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Reliability Diagram</CardTitle>
+          <div className="text-xs text-muted-foreground">
+            Observed match rate per confidence bin ({data.binCount} bins). Points below the diagonal are overconfident.
+          </div>
+        </CardHeader>
+        <CardContent>
+          {diagramData.length === 0 ? (
+            <div className="h-48 flex items-center justify-center text-muted-foreground">
+              No labelled pairs with LLM confidence yet
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+                <XAxis
+                  type="number"
+                  dataKey="confidence"
+                  name="Mean confidence"
+                  domain={[0, 1]}
+                  tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="observed"
+                  name="Observed match rate"
+                  domain={[0, 1]}
+                  tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                />
+                <ZAxis type="number" dataKey="count" range={[40, 400]} name="Pairs" />
+                <Tooltip
+                  formatter={(value: number, name: string) => (name === "Pairs" ? value : `${Math.round(value * 100)}%`)}
+                />
+                <ReferenceLine
+                  segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                />
+                <Scatter data={diagramData} fill="hsl(var(--primary))" line />
+              </ScatterChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Auto-Accept Thresholds</CardTitle>
+          <div className="text-xs text-muted-foreground">
+            Pairs at or above a threshold are treated as automatic matches
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onThresholdsChange(draftThresholds);
+            }}
+          >
+            <Input
+              value={draftThresholds}
+              onChange={(e) => setDraftThresholds(e.target.value)}
+              placeholder="0.5, 0.7, 0.9"
+              className="max-w-xs font-mono text-sm"
+              data-testid="input-calibration-thresholds"
+            />
+            <Button type="submit" variant="outline" size="sm" data-testid="button-apply-thresholds">
+              Apply
+            </Button>
+          </form>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Threshold</TableHead>
+                <TableHead className="text-right">Auto-accepted</TableHead>
+                <TableHead className="text-right">Coverage</TableHead>
+                <TableHead className="text-right">Precision</TableHead>
+                <TableHead className="text-right">Recall</TableHead>
+                <TableHead className="text-right">False accepts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {selected.thresholds.map((row) => (
+                <TableRow key={row.threshold} data-testid={`row-threshold-${row.threshold}`}>
+                  <TableCell className="font-mono">≥ {row.threshold.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{row.predictedMatches}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.coverage)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatPercent(row.precision)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.recall)}</TableCell>
+                  <TableCell className="text-right">{row.falsePositives}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {data.models.length > 1 && (
+        <Card className="border-card-border">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Models Compared</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Pairs</TableHead>
+                  <TableHead className="text-right">Match rate</TableHead>
+                  <TableHead className="text-right">ECE</TableHead>
+                  <TableHead className="text-right">Brier</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.models.map((m) => (
+                  <TableRow key={modelKey(m.model)}>
+                    <TableCell className="font-mono text-sm">{m.model ?? "Model not recorded"}</TableCell>
+                    <TableCell className="text-right">{m.pairCount}</TableCell>
+                    <TableCell className="text-right">{formatPercent(m.matchRate)}</TableCell>
+                    <TableCell className="text-right">{formatMetric(m.ece)}</TableCell>
+                    <TableCell className="text-right">{formatMetric(m.brier)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function ModelComparisonSection({ data }: { data: ModelComparisonReport }) {
+  if (data.models.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No model predictions on pairs with a human label yet
+      </div>
+    );
+  }
+
+  const chartData = data.models.map((m) => ({
+    model: m.model,
+    accuracy: m.accuracy !== null ? Math.round(m.accuracy * 100) : 0,
+    shared: m.sharedAccuracy !== null ? Math.round(m.sharedAccuracy * 100) : 0,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Each model's predictions against human labels (adjudicated or consensus), counting a
+        confidence of {Math.round(data.threshold * 100)}% or more as a match.
+        {data.unlabelledPairs > 0 && ` ${data.unlabelledPairs} pair(s) with predictions have no label yet.`}
+      </p>
+
+      <div className="grid md:grid-cols-3 gap-4">
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-model-labelled-pairs">{data.labelledPairs}</div>
+            <div className="text-sm text-muted-foreground">Labelled pairs</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold" data-testid="text-model-shared-pairs">{data.sharedPairs}</div>
+            <div className="text-sm text-muted-foreground">Predicted by every model</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{data.models.length}</div>
+            <div className="text-sm text-muted-foreground">Models</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Accuracy by Model</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="model" tick={{ fontSize: 11 }} />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip formatter={(value: number) => `${value}%`} />
+                <Legend />
+                <Bar dataKey="accuracy" name="All predictions" fill="hsl(var(--primary))" />
+                <Bar dataKey="shared" name="Pairs every model predicted" fill="hsl(var(--muted-foreground))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Models Compared</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Pairs</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+                <TableHead className="text-right">Shared accuracy</TableHead>
+                <TableHead className="text-right">Precision</TableHead>
+                <TableHead className="text-right">Recall</TableHead>
+                <TableHead className="text-right">Brier</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.models.map((m) => (
+                <TableRow key={m.model} data-testid={`row-model-${m.model}`}>
+                  <TableCell className="font-mono text-sm">{m.model}</TableCell>
+                  <TableCell className="text-right">{m.pairCount}</TableCell>
+                  <TableCell className="text-right">{formatPercent(m.accuracy)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(m.sharedAccuracy)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(m.precision)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(m.recall)}</TableCell>
+                  <TableCell className="text-right">{formatMetric(m.brier)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
   const skipRateDistribution = (data.skipsByReviewer || []).map(r => ({
     name: r.email.split('@')[0],
     rate: r.skipRate,
     count: r.skipCount,
   })).sort((a, b) => b.rate - a.rate);
+  const reasonDistribution = [
+    ...SKIP_REASONS.map((reason) => ({ name: SKIP_REASON_LABELS[reason], count: data.skipsByReason[reason] })),
+    { name: "No reason", count: data.skipsByReason.unspecified },
+  ];
 
   return (
     <div className="space-y-6">
@@ -615,6 +1220,28 @@ function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
         </Card>
       </div>
 
+      {data.totalSkips > 0 && (
+        <Card className="border-card-border">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Skip Reasons</CardTitle>
+            <div className="text-xs text-muted-foreground">
+              Reasons are optional; many "bad data" skips on a pair usually point at the import
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={180}>
+              <BarChart data={reasonDistribution} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+                <Tooltip />
+                <Bar dataKey="count" name="Skips" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {skipRateDistribution.length > 0 && (
         <Card className="border-card-border">
           <CardHeader className="pb-2">
@@ -646,6 +1273,7 @@ function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
                   <TableHead>Reviewer</TableHead>
                   <TableHead className="text-right">Skips</TableHead>
                   <TableHead className="text-right">Skip Rate</TableHead>
+                  <TableHead>Reasons</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -654,6 +1282,7 @@ function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
                     <TableCell className="max-w-48 truncate">{item.email}</TableCell>
                     <TableCell className="text-right font-medium">{item.skipCount}</TableCell>
                     <TableCell className="text-right">{item.skipRate}%</TableCell>
+                    <TableCell><SkipReasonBadges reasons={item.reasons} /></TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -675,6 +1304,7 @@ function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
                   <TableHead>Target</TableHead>
                   <TableHead className="text-right">Skips</TableHead>
                   <TableHead className="text-right">Votes</TableHead>
+                  <TableHead>Reasons</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -684,6 +1314,7 @@ function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
                     <TableCell className="max-w-40 truncate">{item.pair.targetText}</TableCell>
                     <TableCell className="text-right font-medium">{item.skipCount}</TableCell>
                     <TableCell className="text-right">{item.voteCount}</TableCell>
+                    <TableCell><SkipReasonBadges reasons={item.reasons} /></TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -695,6 +1326,308 @@ function SkipAnalysisSection({ data }: { data: SkipAnalysis }) {
   );
 }
 
+function formatSeconds(seconds: number | null): string {
+  if (seconds === null) return "—";
+  return seconds >= 60 ? `${(seconds / 60).toFixed(1)}m` : `${seconds.toFixed(1)}s`;
+}
+
+function ReviewTimesSection({ data }: { data: ReviewTimeReport }) {
+  const [selectedReviewer, setSelectedReviewer] = useState<string | null>(null);
+  const reviewer = data.reviewers.find((r) => r.userId === selectedReviewer);
+  const buckets = reviewer ? reviewer.buckets : data.buckets;
+  const timedVotes = data.reviewers.reduce((sum, r) => sum + r.timedVotes, 0);
+  const flagged = data.reviewers.filter((r) => r.flagged).length;
+
+  if (timedVotes === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No timed votes yet. Time per pair is recorded for votes cast from the review page.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-3 gap-4">
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{timedVotes}</div>
+            <div className="text-sm text-muted-foreground">Timed Votes</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{formatSeconds(data.medianSeconds)}</div>
+            <div className="text-sm text-muted-foreground">Median Time per Pair</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{flagged}</div>
+            <div className="text-sm text-muted-foreground">Reviewers Flagged for Fast Voting</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-sm font-medium">Time per Pair</CardTitle>
+            <Select
+              value={selectedReviewer ?? "__all__"}
+              onValueChange={(value) => setSelectedReviewer(value === "__all__" ? null : value)}
+            >
+              <SelectTrigger className="w-56" data-testid="select-review-times-reviewer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__all__">All reviewers</SelectItem>
+                {data.reviewers.map((r) => (
+                  <SelectItem key={r.userId} value={r.userId}>
+                    {r.displayName || r.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Seconds each pair was on screen before the vote
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={buckets}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="count" name="Votes" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]}>
+                {buckets.map((bucket, index) => (
+                  <Cell
+                    key={bucket.label}
+                    fill={index === 0 ? "hsl(var(--destructive))" : "hsl(var(--primary))"}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Timing by Reviewer</CardTitle>
+          <div className="text-xs text-muted-foreground">
+            Fast votes take under {FAST_REVIEW_MS / 1000}s; reviewers with more than {Math.round(FAST_VOTING_SHARE * 100)}% fast votes are flagged
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reviewer</TableHead>
+                  <TableHead className="text-right">Timed Votes</TableHead>
+                  <TableHead className="text-right">P10</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">P90</TableHead>
+                  <TableHead className="text-right">Fast</TableHead>
+                  <TableHead className="text-right">Sessions</TableHead>
+                  <TableHead className="text-right">Active</TableHead>
+                  <TableHead className="text-right">Idle</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.reviewers.map((r) => (
+                  <TableRow key={r.userId} data-testid={`row-review-times-${r.userId}`}>
+                    <TableCell>
+                      <div className="max-w-40 truncate" title={r.email}>
+                        {r.displayName || r.email}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{r.timedVotes}</TableCell>
+                    <TableCell className="text-right">{formatSeconds(r.p10Seconds)}</TableCell>
+                    <TableCell className="text-right">{formatSeconds(r.medianSeconds)}</TableCell>
+                    <TableCell className="text-right">{formatSeconds(r.p90Seconds)}</TableCell>
+                    <TableCell className="text-right" title={`${r.fastVotes} fast vote(s)`}>
+                      {r.fastShare !== null ? `${Math.round(r.fastShare * 100)}%` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{r.sessions}</TableCell>
+                    <TableCell className="text-right">{r.activeMinutes}m</TableCell>
+                    <TableCell className="text-right">{r.idleMinutes}m</TableCell>
+                    <TableCell>
+                      {r.flagged && (
+                        <Badge variant="outline" className="text-xs">
+                          <AlertCircle className="w-3 h-3 mr-1" />
+                          fast voting
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Reason colours in chart order; rejections without a reason are grey
+const REASON_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+  "hsl(var(--destructive))",
+  "hsl(var(--primary))",
+  "hsl(var(--accent-foreground))",
+  "hsl(var(--secondary-foreground))",
+];
+
+function RejectionReasonsSection({ data }: { data: RejectionReasonReport }) {
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const model = data.byModel.find((m) => m.model === selectedModel) ?? data.byModel[0];
+  const series = [
+    ...data.reasons.map((reason, index) => ({
+      key: reason.id,
+      label: reason.label,
+      color: REASON_COLORS[index % REASON_COLORS.length],
+    })),
+    { key: UNSPECIFIED_REASON, label: "No reason", color: "hsl(var(--muted-foreground))" },
+  ];
+  // Chart rows carry one count per reason, keyed by reason ID
+  const countsRow = (counts: Record<string, number>) =>
+    Object.fromEntries(series.map((s) => [s.key, counts[s.key] ?? 0]));
+  const overall = series.map((s) => ({ name: s.label, count: data.counts[s.key] ?? 0, color: s.color }));
+  const byModel = data.byModel.map((m) => ({ name: m.model, ...countsRow(m.counts) }));
+  const byBand = model ? model.bands.map((b) => ({ name: b.band, ...countsRow(b.counts) })) : [];
+
+  if (data.rejections === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No rejections yet. Reasons are picked when reviewers vote No Match.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-3 gap-4">
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{data.rejections}</div>
+            <div className="text-sm text-muted-foreground">No Match Votes</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{Math.round((data.withReasons / data.rejections) * 100)}%</div>
+            <div className="text-sm text-muted-foreground">With a Reason</div>
+          </CardContent>
+        </Card>
+        <Card className="border-card-border">
+          <CardContent className="pt-4">
+            <div className="text-2xl font-bold">{data.byModel.length}</div>
+            <div className="text-sm text-muted-foreground">Models with Rejected Predictions</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-card-border">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Rejection Reasons</CardTitle>
+          <div className="text-xs text-muted-foreground">
+            A vote giving two reasons counts toward both
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={Math.max(160, overall.length * 32)}>
+            <BarChart data={overall} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+              <Tooltip />
+              <Bar dataKey="count" name="Rejections" radius={[0, 4, 4, 0]}>
+                {overall.map((entry) => (
+                  <Cell key={entry.name} fill={entry.color} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {byModel.length > 0 && (
+        <Card className="border-card-border">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Reasons by Model</CardTitle>
+            <div className="text-xs text-muted-foreground">
+              A rejection counts toward every model that predicted the pair
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={Math.max(160, byModel.length * 40 + 60)}>
+              <BarChart data={byModel} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+                <Tooltip />
+                <Legend />
+                {series.map((s) => (
+                  <Bar key={s.key} dataKey={s.key} name={s.label} stackId="reasons" fill={s.color} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {model && (
+        <Card className="border-card-border">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-sm font-medium">Reasons by Confidence</CardTitle>
+              <Select value={model.model} onValueChange={setSelectedModel}>
+                <SelectTrigger className="w-56" data-testid="select-rejection-model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {data.byModel.map((m) => (
+                    <SelectItem key={m.model} value={m.model}>
+                      {m.model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Rejected predictions by the model's confidence in them
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={byBand}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-50" />
+                <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {series.map((s) => (
+                  <Bar key={s.key} dataKey={s.key} name={s.label} stackId="reasons" fill={s.color} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
 export default function AnalyticsDashboard() {
   const [selectedCampaign, setSelectedCampaign] = useState<string | null>(null);
   
@@ -726,6 +1659,65 @@ export default function AnalyticsDashboard() {
     enabled: !!selectedCampaign,
   });
 
+  const { data: reviewTimes, isLoading: reviewTimesLoading } = useQuery<ReviewTimeReport>({
+    queryKey: ["/api/analytics/campaigns", selectedCampaign, "review-times"],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/campaigns/${selectedCampaign}/review-times`);
+      if (!res.ok) throw new Error("Failed to fetch review times");
+      return res.json();
+    },
+    enabled: !!selectedCampaign,
+  });
+
+  const { data: agreement } = useQuery<ReviewerAgreementReport>({
+    queryKey: ["/api/analytics/campaigns", selectedCampaign, "agreement"],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/campaigns/${selectedCampaign}/agreement`);
+      if (!res.ok) throw new Error("Failed to fetch reviewer agreement");
+      return res.json();
+    },
+    enabled: !!selectedCampaign,
+  });
+
+  const { data: rejectionReasons, isLoading: rejectionReasonsLoading } = useQuery<RejectionReasonReport>({
+    queryKey: ["/api/analytics/campaigns", selectedCampaign, "rejection-reasons"],
+    queryFn: async () => {
+      const res = await fetch(`/api/analytics/campaigns/${selectedCampaign}/rejection-reasons`);
+      if (!res.ok) throw new Error("Failed to fetch rejection reasons");
+      return res.json();
+    },
+    enabled: !!selectedCampaign,
+  });
+
+  const [alphaMetric, setAlphaMetric] = useState<AlphaMetric | undefined>(undefined);
+  const { data: alphaReport, isLoading: alphaLoading } = useQuery<KrippendorffAlphaReport>({
+    queryKey: ["/api/campaigns", selectedCampaign, "alpha", alphaMetric],
+    queryFn: async () => {
+      const params = alphaMetric ? `?metric=${alphaMetric}` : "";
+      const res = await fetch(`/api/campaigns/${selectedCampaign}/alpha${params}`);
+      if (!res.ok) throw new Error("Failed to fetch alpha");
+      return res.json();
+    },
+    enabled: !!selectedCampaign,
+  });
+
+  const [calibrationThresholds, setCalibrationThresholds] = useState(DEFAULT_CALIBRATION_THRESHOLDS);
+  const { data: calibration, isLoading: calibrationLoading, isError: calibrationError } = useQuery<CalibrationReport>({
+    queryKey: ["/api/analytics/campaigns", selectedCampaign, "calibration", calibrationThresholds],
+    queryFn: async () => {
+      const params = new URLSearchParams({ thresholds: calibrationThresholds.replace(/\s+/g, "") });
+      const res = await fetch(`/api/analytics/campaigns/${selectedCampaign}/calibration?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch calibration report");
+      return res.json();
+    },
+    enabled: !!selectedCampaign,
+  });
+
+  const { data: modelComparison, isLoading: modelComparisonLoading } = useQuery<ModelComparisonReport>({
+    queryKey: ["/api/analytics/campaigns", selectedCampaign, "model-comparison"],
+    enabled: !!selectedCampaign,
+  });
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-6 max-w-7xl">
@@ -870,6 +1862,26 @@ export default function AnalyticsDashboard() {
                     <SkipForward className="w-4 h-4 mr-2" />
                     Skips
                   </TabsTrigger>
+                  <TabsTrigger value="rejections" data-testid="tab-rejections">
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Rejections
+                  </TabsTrigger>
+                  <TabsTrigger value="timing" data-testid="tab-timing">
+                    <Clock className="w-4 h-4 mr-2" />
+                    Timing
+                  </TabsTrigger>
+                  <TabsTrigger value="reliability" data-testid="tab-reliability">
+                    <Sigma className="w-4 h-4 mr-2" />
+                    Reliability
+                  </TabsTrigger>
+                  <TabsTrigger value="calibration" data-testid="tab-calibration">
+                    <Gauge className="w-4 h-4 mr-2" />
+                    Calibration
+                  </TabsTrigger>
+                  <TabsTrigger value="models" data-testid="tab-models">
+                    <Bot className="w-4 h-4 mr-2" />
+                    Models
+                  </TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="votes">
@@ -886,7 +1898,10 @@ export default function AnalyticsDashboard() {
                   {reviewersLoading ? (
                     <Skeleton className="h-96" />
                   ) : reviewerStats && reviewerStats.length > 0 ? (
-                    <ReviewerStatsSection data={reviewerStats} />
+                    <div className="space-y-6">
+                      <ReviewerStatsSection data={reviewerStats} />
+                      {agreement && <AgreementHeatmapSection data={agreement} />}
+                    </div>
                   ) : (
                     <div className="text-center py-8 text-muted-foreground">No reviewers yet</div>
                   )}
@@ -911,6 +1926,71 @@ export default function AnalyticsDashboard() {
                     <div className="text-center py-8 text-muted-foreground">No data</div>
                   )}
                 </TabsContent>
+
+                <TabsContent value="rejections">
+                  {rejectionReasonsLoading ? (
+                    <Skeleton className="h-96" />
+                  ) : rejectionReasons ? (
+                    <RejectionReasonsSection data={rejectionReasons} />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">No data</div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="timing">
+                  {reviewTimesLoading ? (
+                    <Skeleton className="h-96" />
+                  ) : reviewTimes ? (
+                    <ReviewTimesSection data={reviewTimes} />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">No data</div>
+                  )}
+                </TabsContent>
+                
+                <TabsContent value="reliability">
+                  {alphaLoading ? (
+                    <Skeleton className="h-96" />
+                  ) : alphaReport ? (
+                    <ReliabilitySection data={alphaReport} metric={alphaMetric} onMetricChange={setAlphaMetric} />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">No data</div>
+                  )}
+                </TabsContent>
+                
+                <TabsContent value="calibration">
+                  {calibrationLoading ? (
+                    <Skeleton className="h-96" />
+                  ) : calibration ? (
+                    <CalibrationSection
+                      data={calibration}
+                      thresholdsInput={calibrationThresholds}
+                      onThresholdsChange={setCalibrationThresholds}
+                    />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground space-y-2">
+                      <p>{calibrationError ? "Thresholds must be comma-separated values from 0 to 1" : "No data"}</p>
+                      {calibrationError && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCalibrationThresholds(DEFAULT_CALIBRATION_THRESHOLDS)}
+                        >
+                          Reset thresholds
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="models">
+                  {modelComparisonLoading ? (
+                    <Skeleton className="h-96" />
+                  ) : modelComparison ? (
+                    <ModelComparisonSection data={modelComparison} />
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">No data</div>
+                  )}
+                </TabsContent>
               </Tabs>
             )}
           </TabsContent>
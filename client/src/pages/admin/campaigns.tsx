@@ -38,7 +38,16 @@ import {
   Loader2,
   Search,
 } from "lucide-react";
+import { AssignmentPlanDialog } from "@/components/AssignmentPlanDialog";
+import { ConsensusPolicyDialog } from "@/components/ConsensusPolicyDialog";
+import { GoldSettingsDialog } from "@/components/GoldSettingsDialog";
+import { AutoLabelRulesDialog } from "@/components/AutoLabelRulesDialog";
+import { SameSourceRulesDialog } from "@/components/SameSourceRulesDialog";
+import { ModelPredictionsDialog } from "@/components/ModelPredictionsDialog";
+import { RejectionReasonsDialog } from "@/components/RejectionReasonsDialog";
+import { PAIR_TYPE_IDS } from "@shared/pairTypes";
 import type { CampaignWithStats } from "@shared/schema";
+import { IMPORT_FILE_ACCEPT } from "@shared/importFormats";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -68,7 +77,7 @@ function CampaignTypeCombobox({ value, onChange }: { value: string; onChange: (v
     queryKey: ["/api/campaign-types"],
   });
 
-  const defaultSuggestions = ["match_validation", "classification_review", "recommendation_quality", "loinc_mapping", "custom"];
+  const defaultSuggestions = ["match_validation", "classification_review", "recommendation_quality", ...PAIR_TYPE_IDS, "custom"];
   const allTypes = Array.from(new Set([...existingTypes, ...defaultSuggestions])).sort();
 
   const filtered = allTypes.filter(t =>
@@ -317,7 +326,7 @@ function UploadPairsDialog({ campaignId, onSuccess }: { campaignId: string; onSu
         <DialogHeader>
           <DialogTitle>Upload Entity Pairs</DialogTitle>
           <DialogDescription>
-            Upload a CSV or JSON file containing entity pairs to review.
+            Upload a CSV, TSV, JSON, JSON Lines or Excel file containing entity pairs to review.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
@@ -331,12 +340,12 @@ function UploadPairsDialog({ campaignId, onSuccess }: { campaignId: string; onSu
               <Input
                 id="file-upload"
                 type="file"
-                accept=".csv,.json"
+                accept={IMPORT_FILE_ACCEPT}
                 className="hidden"
                 onChange={(e) => setFile(e.target.files?.[0] || null)}
                 data-testid="input-file-upload"
               />
-              <p className="text-xs text-muted-foreground">CSV or JSON files</p>
+              <p className="text-xs text-muted-foreground">CSV, TSV, JSON, JSON Lines or Excel files (first sheet)</p>
             </div>
           </div>
           {file && (
@@ -514,6 +523,42 @@ function CampaignCard({ campaign, onUpdate }: { campaign: CampaignWithStats; onU
                 <Download className="w-4 h-4" />
                 Export
               </Button>
+              <AssignmentPlanDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                totalPairs={campaign.totalPairs}
+              />
+              <ConsensusPolicyDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                policy={campaign.consensusPolicy}
+              />
+              <GoldSettingsDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                goldPairRate={campaign.goldPairRate}
+                goldAccuracyThreshold={campaign.goldAccuracyThreshold}
+              />
+              <AutoLabelRulesDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                rules={campaign.autoLabelRules}
+              />
+              <SameSourceRulesDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                actions={campaign.sameSourceActions}
+              />
+              <ModelPredictionsDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                hideModelPredictions={campaign.hideModelPredictions}
+              />
+              <RejectionReasonsDialog
+                campaignId={campaign.id}
+                campaignName={campaign.name}
+                reasons={campaign.rejectionReasons}
+              />
             </>
           )}
         </div>
@@ -1,12 +1,16 @@
 import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { useLocation, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams, useSearch } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Table,
   TableBody,
@@ -42,8 +46,20 @@ import {
   AlertTriangle,
   Minus,
   Download,
+  Lock,
+  Gavel,
+  Loader2,
+  Target,
+  Bot,
+  History,
+  ListChecks,
 } from "lucide-react";
-import type { Campaign, Pair, Vote, User } from "@shared/schema";
+import type { ActivePairLease, AdjudicationWithAdjudicator, Campaign, Pair, PairCandidate, Vote, User } from "@shared/schema";
+import { getPairTypeLabel, getTargetCodeUrl } from "@shared/pairTypes";
+import { describeConsensusPolicy, resolveConsensusPolicy, type ConsensusOutcome } from "@shared/consensusPolicy";
+import type { AutoLabelAuditReport, AutoLabelVerdict } from "@shared/autoLabelRules";
+import type { ModelPredictionInput } from "@shared/modelPredictions";
+import type { CandidateListReport } from "@shared/candidateLists";
 
 type SortField = "sourceText" | "targetText" | "voteCount" | "positiveRate" | null;
 type SortDirection = "asc" | "desc";
@@ -55,6 +71,8 @@ type PairResult = {
   negativeVotes: number;
   skipCount: number;
   positiveRate: number | null;
+  adjudication: AdjudicationWithAdjudicator | null;
+  consensus: ConsensusOutcome;
 };
 
 type ResultsResponse = {
@@ -68,39 +86,65 @@ type PairDetails = {
   pair: Pair;
   votes: (Vote & { user: Pick<User, "id" | "email" | "displayName"> })[];
   skipCount: number;
+  adjudication: AdjudicationWithAdjudicator | null;
+  consensus: ConsensusOutcome;
+  predictions: ModelPredictionInput[];
+  candidates: (PairCandidate & { picks: number })[];
 };
 
-function ConsensusIndicator({ rate }: { rate: number | null }) {
-  if (rate === null) {
+function ConsensusIndicator({ consensus }: { consensus: ConsensusOutcome }) {
+  // An adjudicated decision is the gold label regardless of the vote split
+  if (consensus.source === "adjudication") {
+    const confirmed = consensus.label === "match";
     return (
-      <Badge variant="outline" className="gap-1">
-        <Minus className="w-3 h-3" />
-        Unreviewed
+      <Badge
+        className={`gap-1 ${confirmed
+          ? "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/40"
+          : "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/40"}`}
+        title={consensus.rule}
+      >
+        <Gavel className="w-3 h-3" />
+        {confirmed ? "Confirmed" : "Rejected"}
       </Badge>
     );
   }
-  if (rate > 0.6) {
-    return (
-      <Badge className="gap-1 bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
-        <ThumbsUp className="w-3 h-3" />
-        Confirmed
-      </Badge>
-    );
+  switch (consensus.label) {
+    case "unreviewed":
+      return (
+        <Badge variant="outline" className="gap-1" title={consensus.rule}>
+          <Minus className="w-3 h-3" />
+          Unreviewed
+        </Badge>
+      );
+    case "insufficient":
+      return (
+        <Badge variant="outline" className="gap-1 text-muted-foreground" title={consensus.rule}>
+          <HelpCircle className="w-3 h-3" />
+          Too few votes
+        </Badge>
+      );
+    case "match":
+      return (
+        <Badge className="gap-1 bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20" title={consensus.rule}>
+          <ThumbsUp className="w-3 h-3" />
+          Confirmed
+        </Badge>
+      );
+    case "no_match":
+      return (
+        <Badge className="gap-1 bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20" title={consensus.rule}>
+          <ThumbsDown className="w-3 h-3" />
+          Rejected
+        </Badge>
+      );
+    default:
+      return (
+        <Badge className="gap-1 bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20" title={consensus.rule}>
+          <AlertTriangle className="w-3 h-3" />
+          Disagreement
+        </Badge>
+      );
   }
-  if (rate < 0.4) {
-    return (
-      <Badge className="gap-1 bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20">
-        <ThumbsDown className="w-3 h-3" />
-        Rejected
-      </Badge>
-    );
-  }
-  return (
-    <Badge className="gap-1 bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20">
-      <AlertTriangle className="w-3 h-3" />
-      Disagreement
-    </Badge>
-  );
 }
 
 function SortIcon({
@@ -150,6 +194,214 @@ function SortableHead({
   );
 }
 
+function AdjudicationPanel({
+  pairId,
+  adjudication,
+  consensus,
+}: {
+  pairId: string;
+  adjudication: AdjudicationWithAdjudicator | null;
+  consensus: ConsensusOutcome;
+}) {
+  const { canAdjudicate } = useAuth();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [decision, setDecision] = useState<"match" | "no_match" | null>(adjudication?.decision ?? null);
+  const [rationale, setRationale] = useState(adjudication?.rationale ?? "");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pairs", pairId, "details"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/pairs/${pairId}/adjudication`, { decision, rationale }),
+    onSuccess: () => {
+      toast({ title: "Adjudication saved", description: "This decision is now the gold label for the pair." });
+      setIsEditing(false);
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save adjudication.", variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/pairs/${pairId}/adjudication`),
+    onSuccess: () => {
+      toast({ title: "Adjudication removed" });
+      setDecision(null);
+      setRationale("");
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove adjudication.", variant: "destructive" });
+    },
+  });
+
+  if (adjudication && !isEditing) {
+    return (
+      <div className="p-4 rounded-lg border border-border space-y-2" data-testid="panel-adjudication">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Gavel className="w-3 h-3" />
+            ADJUDICATED · GOLD LABEL
+          </p>
+          {canAdjudicate && (
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} data-testid="button-edit-adjudication">
+                Change
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-adjudication"
+              >
+                Remove
+              </Button>
+            </div>
+          )}
+        </div>
+        <ConsensusIndicator consensus={consensus} />
+        <p className="text-sm">{adjudication.rationale}</p>
+        <p className="text-xs text-muted-foreground">
+          {adjudication.adjudicator.displayName} · {new Date(adjudication.updatedAt ?? adjudication.createdAt).toLocaleString()}
+        </p>
+      </div>
+    );
+  }
+
+  if (!canAdjudicate) return null;
+
+  return (
+    <div className="p-4 rounded-lg border border-border space-y-3" data-testid="form-adjudication">
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <Gavel className="w-3 h-3" />
+        BINDING DECISION
+      </p>
+      <div className="flex gap-2">
+        <Button
+          variant={decision === "match" ? "default" : "outline"}
+          size="sm"
+          className="gap-1"
+          onClick={() => setDecision("match")}
+          data-testid="button-adjudicate-match"
+        >
+          <ThumbsUp className="w-4 h-4" />
+          Confirm
+        </Button>
+        <Button
+          variant={decision === "no_match" ? "default" : "outline"}
+          size="sm"
+          className="gap-1"
+          onClick={() => setDecision("no_match")}
+          data-testid="button-adjudicate-no-match"
+        >
+          <ThumbsDown className="w-4 h-4" />
+          Reject
+        </Button>
+      </div>
+      <Textarea
+        placeholder="Rationale for this decision (required)..."
+        value={rationale}
+        onChange={(e) => setRationale(e.target.value)}
+        className="resize-none"
+        rows={3}
+        maxLength={2000}
+        data-testid="input-adjudication-rationale"
+      />
+      <div className="flex justify-end gap-2">
+        {isEditing && (
+          <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={!decision || !rationale.trim() || saveMutation.isPending}
+          data-testid="button-save-adjudication"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Record Decision
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Admin-only: mark a pair as gold with its known label, or clear it
+function GoldLabelPanel({ pairId, knownLabel }: { pairId: string; knownLabel: Pair["knownLabel"] }) {
+  const { toast } = useToast();
+
+  const saveMutation = useMutation({
+    mutationFn: (label: Pair["knownLabel"]) =>
+      apiRequest("PUT", `/api/pairs/${pairId}/known-label`, { knownLabel: label }),
+    onSuccess: (_res, label) => {
+      toast({ title: label ? "Pair marked as gold" : "Gold label removed" });
+      queryClient.invalidateQueries({ queryKey: ["/api/pairs", pairId, "details"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update gold label.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-4 rounded-lg border border-border space-y-3" data-testid="panel-gold-label">
+      <div>
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <Target className="w-3 h-3" />
+          GOLD PAIR
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Gold pairs are mixed into review to score reviewer accuracy. Reviewers never see the known label.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant={knownLabel === "match" ? "default" : "outline"}
+          size="sm"
+          className="gap-1"
+          onClick={() => saveMutation.mutate("match")}
+          disabled={saveMutation.isPending}
+          data-testid="button-gold-match"
+        >
+          <ThumbsUp className="w-4 h-4" />
+          Known match
+        </Button>
+        <Button
+          variant={knownLabel === "no_match" ? "default" : "outline"}
+          size="sm"
+          className="gap-1"
+          onClick={() => saveMutation.mutate("no_match")}
+          disabled={saveMutation.isPending}
+          data-testid="button-gold-no-match"
+        >
+          <ThumbsDown className="w-4 h-4" />
+          Known non-match
+        </Button>
+        {knownLabel && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive"
+            onClick={() => saveMutation.mutate(null)}
+            disabled={saveMutation.isPending}
+            data-testid="button-gold-clear"
+          >
+            Not gold
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function PairDetailDialog({
   pairId,
   open,
@@ -159,6 +411,7 @@ function PairDetailDialog({
   open: boolean;
   onClose: () => void;
 }) {
+  const { isAdmin } = useAuth();
   const { data, isLoading } = useQuery<PairDetails>({
     queryKey: ["/api/pairs", pairId, "details"],
     queryFn: async () => {
@@ -169,7 +422,7 @@ function PairDetailDialog({
     enabled: !!pairId && open,
   });
 
-  const isLoinc = data?.pair.targetDataset?.toUpperCase() === "LOINC";
+  const targetUrl = data ? getTargetCodeUrl(data.pair, data.pair.targetId) : null;
 
   return (
     <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
@@ -195,14 +448,14 @@ function PairDetailDialog({
                 </p>
               </div>
               <div className="p-4 rounded-lg bg-muted/50">
-                <p className="text-xs text-muted-foreground mb-1">TARGET</p>
+                <p className="text-xs text-muted-foreground mb-1">TARGET · {getPairTypeLabel(data.pair.pairType)}</p>
                 <p className="text-sm font-medium mb-2">{data.pair.targetDataset}</p>
                 <p className="text-sm">{data.pair.targetText || "(No match)"}</p>
                 <p className="text-xs font-mono text-muted-foreground mt-2">
                   ID:{" "}
-                  {isLoinc ? (
+                  {targetUrl ? (
                     <a
-                      href={`https://loinc.org/${data.pair.targetId}`}
+                      href={targetUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary hover:underline inline-flex items-center gap-1"
@@ -217,6 +470,31 @@ function PairDetailDialog({
               </div>
             </div>
 
+            {data.candidates.length > 0 && (
+              <div className="p-4 rounded-lg bg-muted/50" data-testid="container-candidates">
+                <p className="text-xs text-muted-foreground mb-2">CANDIDATES</p>
+                <div className="space-y-1">
+                  {data.candidates.map((candidate) => (
+                    <div key={candidate.id} className="flex items-center gap-3 text-sm">
+                      <span className="font-mono text-xs text-muted-foreground w-5 shrink-0">{candidate.rank}</span>
+                      <span className="flex-1 min-w-0 truncate">
+                        {candidate.targetText || candidate.targetId}
+                        <span className="font-mono text-xs text-muted-foreground"> ({candidate.targetId})</span>
+                      </span>
+                      {candidate.score !== null && (
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {(candidate.score * 100).toFixed(0)}%
+                        </span>
+                      )}
+                      <Badge variant={candidate.picks > 0 ? "default" : "secondary"} className="text-xs shrink-0">
+                        {candidate.picks} pick{candidate.picks === 1 ? "" : "s"}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="p-4 rounded-lg bg-muted/50">
               <p className="text-xs text-muted-foreground mb-2">LLM INFO</p>
               <div className="flex items-center gap-4 text-sm">
@@ -228,9 +506,37 @@ function PairDetailDialog({
                   {data.pair.llmReasoning}
                 </p>
               )}
+              {data.predictions.length > 1 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3" data-testid="container-predictions">
+                  {data.predictions.map((prediction) => (
+                    <div key={prediction.model} className="p-2 rounded-md border border-border bg-background">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="font-medium truncate">{prediction.model}</span>
+                        <span className="font-mono text-xs">
+                          {prediction.confidence !== null ? `${(prediction.confidence * 100).toFixed(0)}%` : "N/A"}
+                        </span>
+                      </div>
+                      {prediction.reasoning && (
+                        <p className="text-xs text-muted-foreground mt-1 italic">{prediction.reasoning}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {data.pair.machineLabel && (
+                <p className="text-sm mt-2 flex items-center gap-1" data-testid="text-machine-label">
+                  <Bot className="w-4 h-4 text-muted-foreground" />
+                  {data.pair.machineLabel === "match" ? "Auto-accepted" : "Auto-rejected"} by an auto-label rule
+                  {data.pair.auditSampled && <span className="text-muted-foreground">(in the audit sample)</span>}
+                </p>
+              )}
             </div>
 
             <div>
+              <div className="flex items-center gap-2 mb-3 p-3 rounded-lg bg-muted/50" data-testid="text-consensus-rule">
+                <ConsensusIndicator consensus={data.consensus} />
+                <span className="text-xs text-muted-foreground">{data.consensus.rule}</span>
+              </div>
               <div className="flex items-center justify-between mb-3">
                 <p className="text-sm font-medium">
                   Votes ({data.votes.length}) | Skips ({data.skipCount})
@@ -282,7 +588,14 @@ function PairDetailDialog({
                           {vote.scoringMode}
                         </TableCell>
                         <TableCell className="text-xs font-mono">
-                          {vote.expertSelectedCode || "-"}
+                          {vote.selectedCandidates
+                            ? (vote.selectedCandidates.length > 0 ? vote.selectedCandidates.join(", ") : "None")
+                            : (vote.expertSelectedCode || "-")}
+                          {vote.expertSelectedLabel && (
+                            <span className="block font-sans text-muted-foreground truncate max-w-40">
+                              {vote.expertSelectedLabel}
+                            </span>
+                          )}
                         </TableCell>
                         <TableCell className="text-xs max-w-32 truncate">
                           {vote.reviewerNotes || "-"}
@@ -298,6 +611,15 @@ function PairDetailDialog({
                 <p className="text-sm text-muted-foreground">No votes yet.</p>
               )}
             </div>
+
+            <AdjudicationPanel
+              key={`${data.pair.id}-${data.adjudication?.id ?? "none"}`}
+              pairId={data.pair.id}
+              adjudication={data.adjudication}
+              consensus={data.consensus}
+            />
+
+            {isAdmin && <GoldLabelPanel pairId={data.pair.id} knownLabel={data.pair.knownLabel} />}
           </div>
         ) : null}
       </DialogContent>
@@ -305,12 +627,170 @@ function PairDetailDialog({
   );
 }
 
+function formatTimeLeft(expiresAt: Date | string) {
+  const seconds = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+const VERDICT_STYLES: Record<AutoLabelVerdict, { label: string; className: string }> = {
+  safe: { label: "Safe", className: "bg-green-600 text-white" },
+  unsafe: { label: "Unsafe", className: "bg-destructive text-destructive-foreground" },
+  inconclusive: { label: "Inconclusive", className: "bg-amber-500 text-white" },
+  insufficient: { label: "Needs audits", className: "bg-muted text-muted-foreground" },
+};
+
+function AutoLabelAuditCard({ report }: { report: AutoLabelAuditReport }) {
+  return (
+    <Card className="border-card-border" data-testid="card-auto-label-audit">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Bot className="w-4 h-4 text-muted-foreground" />
+          Auto-Label Audit
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          A rule is safe once reviewers agree with it on audited pairs at {Math.round(report.targetAgreement * 100)}%
+          or better (lower bound of the 95% interval), after at least {report.minAudited} audits.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead className="text-right">Labelled</TableHead>
+              <TableHead className="text-right">Audit sample</TableHead>
+              <TableHead className="text-right">Audited</TableHead>
+              <TableHead className="text-right">Agreement</TableHead>
+              <TableHead>Verdict</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.rules.map((audit) => (
+              <TableRow key={audit.rule.id} data-testid={`row-audit-${audit.rule.id}`}>
+                <TableCell className="text-sm">{audit.description}</TableCell>
+                <TableCell className="text-right">{audit.labelledPairs}</TableCell>
+                <TableCell className="text-right">{audit.auditSampled}</TableCell>
+                <TableCell className="text-right">{audit.audited}</TableCell>
+                <TableCell className="text-right font-mono text-sm">
+                  {audit.agreementRate !== null ? (
+                    <span title={audit.interval ? `95% CI ${Math.round(audit.interval.lower * 100)}–${Math.round(audit.interval.upper * 100)}%` : undefined}>
+                      {Math.round(audit.agreementRate * 100)}% ({audit.agreed}/{audit.audited})
+                    </span>
+                  ) : (
+                    "—"
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={VERDICT_STYLES[audit.verdict].className}>
+                    {VERDICT_STYLES[audit.verdict].label}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CandidateMetricsCard({ report }: { report: CandidateListReport }) {
+  const formatRate = (value: number | null) => (value !== null ? `${Math.round(value * 100)}%` : "—");
+
+  return (
+    <Card className="border-card-border" data-testid="card-candidate-metrics">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-muted-foreground" />
+          Candidate Lists
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          A candidate is accepted when at least half the reviewers of its list picked it. Top-k accuracy is the
+          share of reviewed lists with an accepted candidate at rank k or better.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <div>
+            <p className="text-2xl font-semibold" data-testid="text-reviewed-lists">
+              {report.reviewedLists}/{report.listCount}
+            </p>
+            <p className="text-xs text-muted-foreground">Lists reviewed</p>
+          </div>
+          {report.topK.map(({ k, accuracy }) => (
+            <div key={k}>
+              <p className="text-2xl font-semibold" data-testid={`text-top-${k}`}>{formatRate(accuracy)}</p>
+              <p className="text-xs text-muted-foreground">Top-{k} accuracy</p>
+            </div>
+          ))}
+          <div>
+            <p className="text-2xl font-semibold" data-testid="text-mrr">
+              {report.meanReciprocalRank !== null ? report.meanReciprocalRank.toFixed(3) : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">Mean reciprocal rank</p>
+          </div>
+          <div>
+            <p className="text-2xl font-semibold">{report.noCorrectCandidate}</p>
+            <p className="text-xs text-muted-foreground">No correct candidate</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LiveLeasesCard({ leases }: { leases: ActivePairLease[] }) {
+  return (
+    <Card className="border-card-border" data-testid="card-live-leases">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Lock className="w-4 h-4 text-muted-foreground" />
+          Live Leases
+          <Badge variant="secondary" className="text-xs">{leases.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {leases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pairs are currently reserved by reviewers.</p>
+        ) : (
+          <div className="space-y-2">
+            {leases.map((lease) => (
+              <div
+                key={lease.id}
+                className="flex items-center justify-between gap-4 text-sm"
+                data-testid={`row-lease-${lease.pairId}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">
+                    {lease.pair.sourceText}
+                    <span className="text-muted-foreground"> → </span>
+                    {lease.pair.targetText || "(No match)"}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{lease.user.displayName}</p>
+                </div>
+                <span className="text-xs font-mono text-muted-foreground shrink-0">
+                  expires in {formatTimeLeft(lease.expiresAt)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function ResultsBrowserPage() {
   const { id: campaignId } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
+  const searchString = useSearch();
+  const { isAdmin } = useAuth();
   const [search, setSearch] = useState("");
   const [searchInput, setSearchInput] = useState("");
-  const [consensus, setConsensus] = useState<string>("all");
+  const [consensus, setConsensus] = useState<string>(
+    () => new URLSearchParams(searchString).get("consensus") ?? "all"
+  );
   const [minVotesInput, setMinVotesInput] = useState("");
   const [maxVotesInput, setMaxVotesInput] = useState("");
   const [minVotes, setMinVotes] = useState<number | undefined>(undefined);
@@ -351,6 +831,42 @@ export default function ResultsBrowserPage() {
     enabled: !!campaignId,
   });
 
+  const { data: leases = [] } = useQuery<ActivePairLease[]>({
+    queryKey: ["/api/campaigns", campaignId, "leases"],
+    queryFn: async () => {
+      const res = await fetch(`/api/campaigns/${campaignId}/leases`);
+      if (!res.ok) throw new Error("Failed to fetch leases");
+      return res.json();
+    },
+    enabled: !!campaignId,
+    refetchInterval: 15000,
+  });
+
+  const { data: autoLabelAudit } = useQuery<AutoLabelAuditReport>({
+    queryKey: ["/api/campaigns", campaignId, "auto-label-audit"],
+    queryFn: async () => {
+      const res = await fetch(`/api/campaigns/${campaignId}/auto-label-audit`);
+      if (!res.ok) throw new Error("Failed to fetch auto-label audit");
+      return res.json();
+    },
+    enabled: !!campaignId,
+  });
+
+  const { data: candidateMetrics } = useQuery<CandidateListReport>({
+    queryKey: ["/api/campaigns", campaignId, "candidate-metrics"],
+    queryFn: async () => {
+      const res = await fetch(`/api/campaigns/${campaignId}/candidate-metrics`);
+      if (!res.ok) throw new Error("Failed to fetch candidate list metrics");
+      return res.json();
+    },
+    enabled: !!campaignId,
+  });
+
+  const leasesByPair = useMemo(
+    () => new Map(leases.map((lease) => [lease.pairId, lease])),
+    [leases]
+  );
+
   const sortedPairs = useMemo(() => {
     if (!results?.pairs) return [];
     if (!sortField) return results.pairs;
@@ -440,6 +956,7 @@ export default function ResultsBrowserPage() {
           currentPage++;
         } while (currentPage <= totalPages);
 
+        const candidateLists = new Map((candidateMetrics?.results ?? []).map((result) => [result.pairId, result]));
         const jsonContent = JSON.stringify(
           {
             campaign: campaign?.name ?? campaignId,
@@ -447,6 +964,8 @@ export default function ResultsBrowserPage() {
             total: allPairs.length,
             pairs: allPairs.map((row) => ({
               pair_id: row.pair.id,
+              pair_version: row.pair.version,
+              superseded_by: row.pair.supersededById,
               source_text: row.pair.sourceText,
               source_dataset: row.pair.sourceDataset,
               source_id: row.pair.sourceId,
@@ -459,6 +978,24 @@ export default function ResultsBrowserPage() {
               positive_votes: row.positiveVotes,
               negative_votes: row.negativeVotes,
               positive_rate: row.positiveRate,
+              consensus: row.consensus.label,
+              consensus_rule: row.consensus.rule,
+              gold_label: row.consensus.label === "match" || row.consensus.label === "no_match"
+                ? row.consensus.label
+                : row.pair.machineLabel,
+              gold_label_source: row.consensus.source === "adjudication"
+                ? "adjudication"
+                : (row.consensus.label === "match" || row.consensus.label === "no_match"
+                  ? "consensus_policy"
+                  : (row.pair.machineLabel ? "auto_label_rule" : null)),
+              machine_label: row.pair.machineLabel,
+              audit_sampled: row.pair.machineLabel ? row.pair.auditSampled : null,
+              adjudication_rationale: row.adjudication?.rationale ?? null,
+              ...(candidateLists.has(row.pair.id) && {
+                candidate_count: candidateLists.get(row.pair.id)!.candidateCount,
+                accepted_candidates: candidateLists.get(row.pair.id)!.accepted.map((c) => c.targetId),
+                best_candidate_rank: candidateLists.get(row.pair.id)!.bestRank,
+              }),
             })),
           },
           null,
@@ -486,7 +1023,7 @@ export default function ResultsBrowserPage() {
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => setLocation("/admin/campaigns")}
+            onClick={() => setLocation(isAdmin ? "/admin/campaigns" : "/adjudication")}
             data-testid="button-back"
           >
             <ArrowLeft className="w-4 h-4" />
@@ -498,6 +1035,11 @@ export default function ResultsBrowserPage() {
             <p className="text-sm text-muted-foreground">
               {campaign?.name || "Loading..."}
             </p>
+            {campaign && (
+              <p className="text-xs text-muted-foreground" data-testid="text-consensus-policy">
+                Consensus rule: {describeConsensusPolicy(resolveConsensusPolicy(campaign.consensusPolicy))}
+              </p>
+            )}
           </div>
         </div>
 
@@ -529,7 +1071,10 @@ export default function ResultsBrowserPage() {
                   <SelectItem value="match">Confirmed</SelectItem>
                   <SelectItem value="no_match">Rejected</SelectItem>
                   <SelectItem value="disagreement">Disagreement</SelectItem>
+                  <SelectItem value="insufficient">Too few votes</SelectItem>
                   <SelectItem value="unreviewed">Unreviewed</SelectItem>
+                  <SelectItem value="adjudicated">Adjudicated</SelectItem>
+                  <SelectItem value="auto_labelled">Auto-labelled</SelectItem>
                 </SelectContent>
               </Select>
               <div className="flex items-center gap-2">
@@ -571,6 +1116,12 @@ export default function ResultsBrowserPage() {
           </CardContent>
         </Card>
 
+        {autoLabelAudit && autoLabelAudit.rules.length > 0 && <AutoLabelAuditCard report={autoLabelAudit} />}
+
+        {candidateMetrics && candidateMetrics.listCount > 0 && <CandidateMetricsCard report={candidateMetrics} />}
+
+        <LiveLeasesCard leases={leases} />
+
         <Card className="border-card-border">
           <CardContent className="p-0">
             {isLoading ? (
@@ -633,7 +1184,15 @@ export default function ResultsBrowserPage() {
                         data-testid={`row-pair-${row.pair.id}`}
                       >
                         <TableCell className="max-w-xs">
-                          <p className="text-sm line-clamp-2">{row.pair.sourceText}</p>
+                          <p className="text-sm line-clamp-2">
+                            {leasesByPair.has(row.pair.id) && (
+                              <Lock
+                                className="w-3 h-3 inline mr-1 text-muted-foreground"
+                                aria-label={`Leased by ${leasesByPair.get(row.pair.id)!.user.displayName}`}
+                              />
+                            )}
+                            {row.pair.sourceText}
+                          </p>
                           <p className="text-xs font-mono text-muted-foreground mt-1">
                             {row.pair.sourceId}
                           </p>
@@ -655,7 +1214,42 @@ export default function ResultsBrowserPage() {
                           {row.skipCount}
                         </TableCell>
                         <TableCell>
-                          <ConsensusIndicator rate={row.positiveRate} />
+                          <div className="flex items-center gap-1">
+                            <ConsensusIndicator consensus={row.consensus} />
+                            {row.pair.machineLabel && (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 text-xs"
+                                title={row.pair.auditSampled ? "Auto-labelled, kept in review for audit" : "Auto-labelled"}
+                                data-testid={`badge-auto-${row.pair.id}`}
+                              >
+                                <Bot className="w-3 h-3" />
+                                {row.pair.machineLabel === "match" ? "Auto-accepted" : "Auto-rejected"}
+                                {row.pair.auditSampled && " · audit"}
+                              </Badge>
+                            )}
+                            {row.pair.knownLabel && (
+                              <Badge variant="outline" className="gap-1 text-xs" data-testid={`badge-gold-${row.pair.id}`}>
+                                <Target className="w-3 h-3" />
+                                Gold
+                              </Badge>
+                            )}
+                            {(row.pair.version > 1 || row.pair.supersededById) && (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 text-xs"
+                                title={row.pair.supersededById ? "Replaced by a newer version from a later import" : undefined}
+                                data-testid={`badge-version-${row.pair.id}`}
+                              >
+                                <History className="w-3 h-3" />
+                                v{row.pair.version}
+                                {row.pair.supersededById && " · superseded"}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1 max-w-48" data-testid={`text-rule-${row.pair.id}`}>
+                            {row.consensus.rule}
+                          </p>
                         </TableCell>
                         <TableCell className="text-right text-sm font-mono">
                           {row.positiveRate !== null
@@ -707,29 +1301,31 @@ export default function ResultsBrowserPage() {
           </CardContent>
         </Card>
 
-        <div className="flex items-center justify-end gap-2">
-          <Select
-            value={exportFormat}
-            onValueChange={(v) => setExportFormat(v as "csv" | "json")}
-          >
-            <SelectTrigger className="w-28" data-testid="select-export-format">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="csv">CSV</SelectItem>
-              <SelectItem value="json">JSON</SelectItem>
-            </SelectContent>
-          </Select>
-          <Button
-            variant="outline"
-            onClick={handleExport}
-            disabled={isExporting}
-            data-testid="button-export"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            {isExporting ? "Exporting..." : `Export ${exportFormat.toUpperCase()}`}
-          </Button>
-        </div>
+        {isAdmin && (
+          <div className="flex items-center justify-end gap-2">
+            <Select
+              value={exportFormat}
+              onValueChange={(v) => setExportFormat(v as "csv" | "json")}
+            >
+              <SelectTrigger className="w-28" data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={isExporting}
+              data-testid="button-export"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {isExporting ? "Exporting..." : `Export ${exportFormat.toUpperCase()}`}
+            </Button>
+          </div>
+        )}
       </div>
 
       <PairDetailDialog
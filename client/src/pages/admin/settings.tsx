@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -25,6 +26,13 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { 
@@ -32,10 +40,25 @@ import {
   Trash2, 
   Globe,
   Shield,
-  Loader2
+  Loader2,
+  GitCompare,
+  BookOpen,
+  Upload,
+  BookTemplate
 } from "lucide-react";
-import type { AllowedDomain } from "@shared/schema";
-import { format } from "date-fns";
+import type { AllowedDomain, ImportTemplate, SameSourceRule, Terminology } from "@shared/schema";
+import { TERMINOLOGY_CODE_SYSTEMS, type TerminologyUploadIssue } from "@shared/terminology";
+import {
+  SAME_SOURCE_ACTIONS,
+  SAME_SOURCE_ACTION_LABELS,
+  SAME_SOURCE_RULE_KINDS,
+  SAME_SOURCE_RULE_KIND_LABELS,
+  describeSameSourceRule,
+  sameSourcePatternError,
+  type SameSourceAction,
+  type SameSourceRuleKind,
+} from "@shared/sameSourceRules";
+import { differenceInDays, format, formatDistanceToNow } from "date-fns";
 
 function AddDomainDialog({ onSuccess }: { onSuccess: () => void }) {
   const [open, setOpen] = useState(false);
@@ -171,6 +194,629 @@ function DomainRow({ domain, onDelete }: { domain: AllowedDomain; onDelete: () =
   );
 }
 
+const SAME_SOURCE_RULES_KEY = ["/api/admin/same-source-rules"];
+
+const PATTERN_PLACEHOLDERS: Record<SameSourceRuleKind, string> = {
+  id_prefix: "e.g., arivale_",
+  id_regex: "e.g., ^([a-z0-9]+)_",
+  dataset_match: "",
+};
+
+function AddSameSourceRuleDialog() {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<SameSourceRuleKind>("id_prefix");
+  const [pattern, setPattern] = useState("");
+  const [defaultAction, setDefaultAction] = useState<SameSourceAction>("drop");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const patternError = pattern.trim() ? sameSourcePatternError({ kind, pattern: pattern.trim() }) : null;
+  const needsPattern = kind !== "dataset_match";
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/admin/same-source-rules", {
+        name: name.trim(),
+        kind,
+        pattern: needsPattern ? pattern.trim() : null,
+        defaultAction,
+      }),
+    onSuccess: () => {
+      toast({ title: "Rule added", description: `${name.trim()} applies to the next import.` });
+      queryClient.invalidateQueries({ queryKey: SAME_SOURCE_RULES_KEY });
+      setOpen(false);
+      setName("");
+      setPattern("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = name.trim() !== "" && (!needsPattern || (pattern.trim() !== "" && !patternError));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2" data-testid="button-add-same-source-rule">
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Same-Source Rule</DialogTitle>
+          <DialogDescription>
+            Pairs the rule matches are dropped, imported with a warning or allowed, depending on each
+            campaign's choice. Campaigns that have not chosen use the default action.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSubmit) addMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="same-source-name">Name</Label>
+            <Input
+              id="same-source-name"
+              placeholder="e.g., Arivale"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-same-source-name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Match on</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as SameSourceRuleKind)}>
+                <SelectTrigger data-testid="select-same-source-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAME_SOURCE_RULE_KINDS.map((k) => (
+                    <SelectItem key={k} value={k}>
+                      {SAME_SOURCE_RULE_KIND_LABELS[k]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Default action</Label>
+              <Select value={defaultAction} onValueChange={(v) => setDefaultAction(v as SameSourceAction)}>
+                <SelectTrigger data-testid="select-same-source-default-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAME_SOURCE_ACTIONS.map((a) => (
+                    <SelectItem key={a} value={a}>
+                      {SAME_SOURCE_ACTION_LABELS[a]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {needsPattern ? (
+            <div className="space-y-2">
+              <Label htmlFor="same-source-pattern">{kind === "id_prefix" ? "Prefix" : "Regular expression"}</Label>
+              <Input
+                id="same-source-pattern"
+                placeholder={PATTERN_PLACEHOLDERS[kind]}
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                className="font-mono"
+                data-testid="input-same-source-pattern"
+              />
+              <p className={`text-xs ${patternError ? "text-destructive" : "text-muted-foreground"}`}>
+                {patternError ??
+                  (kind === "id_prefix"
+                    ? "Matches pairs whose source and target IDs both start with this prefix"
+                    : "The first capture group (or the whole match) names an ID's source; pairs whose IDs name the same source match")}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Matches pairs whose source and target datasets are the same (ignoring case). Pairs without
+              datasets never match.
+            </p>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || addMutation.isPending}>
+              {addMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Rule
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SameSourceRuleRow({ rule }: { rule: SameSourceRule }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const updateMutation = useMutation({
+    mutationFn: (defaultAction: SameSourceAction) =>
+      apiRequest("PATCH", `/api/admin/same-source-rules/${rule.id}`, { defaultAction }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SAME_SOURCE_RULES_KEY });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update rule.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/admin/same-source-rules/${rule.id}`),
+    onSuccess: () => {
+      toast({ title: "Rule removed" });
+      queryClient.invalidateQueries({ queryKey: SAME_SOURCE_RULES_KEY });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove rule.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div
+      className="flex items-center justify-between gap-3 py-3 border-b border-border last:border-0"
+      data-testid={`same-source-rule-${rule.id}`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <div className="p-2 rounded-md bg-primary/10">
+          <GitCompare className="w-4 h-4 text-primary" />
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-foreground">{rule.name}</p>
+            <Badge variant="outline" className="text-xs font-normal">
+              {SAME_SOURCE_RULE_KIND_LABELS[rule.kind]}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{describeSameSourceRule(rule)}</p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        <Select
+          value={rule.defaultAction}
+          onValueChange={(v) => updateMutation.mutate(v as SameSourceAction)}
+          disabled={updateMutation.isPending}
+        >
+          <SelectTrigger className="w-28" data-testid={`select-default-action-${rule.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SAME_SOURCE_ACTIONS.map((a) => (
+              <SelectItem key={a} value={a}>
+                {SAME_SOURCE_ACTION_LABELS[a]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-destructive"
+              data-testid={`button-delete-same-source-rule-${rule.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove Rule?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Imports will stop checking pairs against {rule.name}, and campaign choices for it are
+                discarded. Setting the default action to Allow turns the rule off but keeps it.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteMutation.mutate()}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Remove Rule
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
+
+function SameSourceRulesCard() {
+  const { data: rules, isLoading } = useQuery<SameSourceRule[]>({
+    queryKey: SAME_SOURCE_RULES_KEY,
+  });
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <GitCompare className="w-4 h-4" />
+            Same-Source Rules
+          </CardTitle>
+          <CardDescription>
+            How imports recognise pairs whose two sides come from the same source. Campaigns can override
+            each rule's default action.
+          </CardDescription>
+        </div>
+        <AddSameSourceRuleDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12" />
+            <Skeleton className="h-12" />
+          </div>
+        ) : rules && rules.length > 0 ? (
+          <div>
+            {rules.map((rule) => (
+              <SameSourceRuleRow key={rule.id} rule={rule} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No rules. Imports keep every pair, whatever its sources.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const TERMINOLOGIES_KEY = ["/api/terminologies"];
+
+function UploadTerminologyDialog() {
+  const [open, setOpen] = useState(false);
+  const [codeSystem, setCodeSystem] = useState<string>(TERMINOLOGY_CODE_SYSTEMS[0]);
+  const [file, setFile] = useState<File | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("codeSystem", codeSystem);
+      formData.append("file", file!);
+      const response = await fetch("/api/admin/terminologies", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to upload terminology");
+      return data as { terminology: Terminology; skippedRows: number; issues: TerminologyUploadIssue[] };
+    },
+    onSuccess: ({ terminology, skippedRows, issues }) => {
+      toast({
+        title: "Terminology uploaded",
+        description: `${terminology.codeCount.toLocaleString()} ${terminology.codeSystem} codes loaded${
+          skippedRows > 0 ? `; ${skippedRows} row(s) skipped (first: row ${issues[0].row}, ${issues[0].reason})` : ""
+        }.`,
+      });
+      queryClient.invalidateQueries({ queryKey: TERMINOLOGIES_KEY });
+      setOpen(false);
+      setFile(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2" data-testid="button-upload-terminology">
+          <Upload className="w-4 h-4" />
+          Upload
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Upload Terminology</DialogTitle>
+          <DialogDescription>
+            A code table reviewers search when they propose a different code. Use the LOINC table CSV
+            (Loinc.csv), or any CSV, TSV, JSON Lines or Excel file with code, label and synonyms columns.
+            Uploading replaces the code system's current table.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (file) uploadMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label>Code system</Label>
+            <Select value={codeSystem} onValueChange={setCodeSystem}>
+              <SelectTrigger data-testid="select-terminology-code-system">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TERMINOLOGY_CODE_SYSTEMS.map((system) => (
+                  <SelectItem key={system} value={system}>
+                    {system}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="terminology-file">File</Label>
+            <Input
+              id="terminology-file"
+              type="file"
+              accept=".csv,.tsv,.txt,.jsonl,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              data-testid="input-terminology-file"
+            />
+            <p className="text-xs text-muted-foreground">
+              Synonyms are separated by semicolons or bars. Codes with a DEPRECATED status are kept but
+              listed last.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!file || uploadMutation.isPending}>
+              {uploadMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Upload
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TerminologyRow({ terminology }: { terminology: Terminology }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/admin/terminologies/${terminology.id}`),
+    onSuccess: () => {
+      toast({ title: "Terminology removed" });
+      queryClient.invalidateQueries({ queryKey: TERMINOLOGIES_KEY });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to remove terminology.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div
+      className="flex items-center justify-between gap-3 py-3 border-b border-border last:border-0"
+      data-testid={`terminology-${terminology.codeSystem}`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <div className="p-2 rounded-md bg-primary/10">
+          <BookOpen className="w-4 h-4 text-primary" />
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-foreground">{terminology.codeSystem}</p>
+            <Badge variant="outline" className="text-xs font-normal">
+              {terminology.codeCount.toLocaleString()} codes
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground truncate">
+            {terminology.fileName} · uploaded {format(new Date(terminology.createdAt), "MMM d, yyyy")}
+          </p>
+        </div>
+      </div>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-destructive shrink-0"
+            data-testid={`button-delete-terminology-${terminology.codeSystem}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Terminology?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Reviewers can no longer search {terminology.codeSystem}, and proposed codes are only checked
+              against the pair type's code format. Votes keep the labels they were saved with.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove Terminology
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function TerminologiesCard() {
+  const { data: terminologies, isLoading } = useQuery<Terminology[]>({
+    queryKey: TERMINOLOGIES_KEY,
+  });
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <BookOpen className="w-4 h-4" />
+            Terminologies
+          </CardTitle>
+          <CardDescription>
+            Code tables reviewers search when they propose a different target code. Proposed codes must
+            be in the table of the pair's code system.
+          </CardDescription>
+        </div>
+        <UploadTerminologyDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12" />
+          </div>
+        ) : terminologies && terminologies.length > 0 ? (
+          <div>
+            {terminologies.map((terminology) => (
+              <TerminologyRow key={terminology.id} terminology={terminology} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No terminologies. Reviewers pick proposed codes from each pair's alternatives.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const IMPORT_TEMPLATES_KEY = ["/api/import-templates"];
+
+// Templates not used for this long are marked as candidates for pruning
+const STALE_TEMPLATE_DAYS = 90;
+
+function ImportTemplateRow({ template }: { template: ImportTemplate }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/import-templates/${template.id}`),
+    onSuccess: () => {
+      toast({ title: "Template deleted" });
+      queryClient.invalidateQueries({ queryKey: IMPORT_TEMPLATES_KEY });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete template.", variant: "destructive" });
+    },
+  });
+
+  const lastUsed = template.lastUsedAt ? new Date(template.lastUsedAt) : null;
+  const stale = differenceInDays(new Date(), lastUsed ?? new Date(template.createdAt)) >= STALE_TEMPLATE_DAYS;
+
+  return (
+    <div
+      className="flex items-center justify-between gap-3 py-3 border-b border-border last:border-0"
+      data-testid={`import-template-${template.id}`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <div className="p-2 rounded-md bg-primary/10">
+          <BookTemplate className="w-4 h-4 text-primary" />
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-foreground truncate">{template.name}</p>
+            <Badge variant="outline" className="text-xs font-normal">v{template.version}</Badge>
+            {stale && (
+              <Badge variant="secondary" className="text-xs font-normal" data-testid={`badge-stale-template-${template.id}`}>
+                Stale
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground truncate">
+            Used {template.useCount} {template.useCount === 1 ? "time" : "times"} ·{" "}
+            {lastUsed ? `last used ${formatDistanceToNow(lastUsed, { addSuffix: true })}` : "never used"}
+          </p>
+        </div>
+      </div>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-destructive shrink-0"
+            data-testid={`button-delete-template-${template.id}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{template.name}" and all {template.version > 1 ? `${template.version} versions` : "its versions"} will
+              be deleted. Import jobs that used it keep the mappings they ran with.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Template
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function ImportTemplatesCard() {
+  const { data: templates, isLoading } = useQuery<ImportTemplate[]>({
+    queryKey: IMPORT_TEMPLATES_KEY,
+  });
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader>
+        <CardTitle className="text-base font-medium flex items-center gap-2">
+          <BookTemplate className="w-4 h-4" />
+          Import Templates
+        </CardTitle>
+        <CardDescription>
+          Column mappings saved in the upload wizard, which suggests the one matching a new file's columns.
+          Templates unused for {STALE_TEMPLATE_DAYS} days are marked stale.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12" />
+          </div>
+        ) : templates && templates.length > 0 ? (
+          <div>
+            {templates.map((template) => (
+              <ImportTemplateRow key={template.id} template={template} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No import templates. Save one from the upload wizard's column mapping step.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function AdminSettings() {
   const queryClient = useQueryClient();
 
@@ -231,6 +877,15 @@ export default function AdminSettings() {
           </CardContent>
         </Card>
 
+        {/* Same-source rules */}
+        <SameSourceRulesCard />
+
+        {/* Terminologies */}
+        <TerminologiesCard />
+
+        {/* Import templates */}
+        <ImportTemplatesCard />
+
         {/* Info card */}
         <Card className="border-card-border bg-muted/30">
           <CardContent className="p-6">
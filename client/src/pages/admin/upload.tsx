@@ -1,6 +1,6 @@
-import { useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { useParams, useLocation } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,16 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   Select,
   SelectContent,
@@ -24,7 +34,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Upload,
   FileUp,
@@ -38,8 +48,12 @@ import {
   AlertCircle,
   CheckCircle2,
   RefreshCw,
+  RotateCcw,
+  Download,
+  ListChecks,
+  Sparkles,
 } from "lucide-react";
-import type { Campaign, ImportTemplate } from "@shared/schema";
+import type { Campaign, ImportJob, ImportTemplate } from "@shared/schema";
 import {
   ColumnMapper,
   type ColumnMappings,
@@ -47,139 +61,163 @@ import {
   isMappingComplete,
 } from "@/components/ColumnMapper";
 import { MappingPreview } from "@/components/MappingPreview";
+import { TransformEditor } from "@/components/TransformEditor";
+import { matchTemplate, suggestTemplate, type TemplateMatch } from "@shared/importTemplateMatch";
 import { FilePreview } from "@/components/FilePreview";
+import { parse as parseCsv } from "csv-parse/browser/esm/sync";
+import {
+  IMPORT_FILE_ACCEPT,
+  detectDelimiter,
+  formatFromFileName,
+  sheetColumns,
+  sheetRecord,
+  sniffEncoding,
+  toCellString,
+  type Delimiter,
+  type ImportFileFormat,
+  type TextEncoding,
+} from "@shared/importFormats";
+import {
+  EXISTING_PAIR_MODES,
+  EXISTING_PAIR_MODE_DESCRIPTIONS,
+  EXISTING_PAIR_MODE_LABELS,
+  MATERIAL_CONFIDENCE_CHANGE,
+  CHANGED_PAIR_FIELDS,
+  CHANGED_PAIR_FIELD_LABELS,
+  type ExistingPairMode,
+  type ExistingPairOptions,
+  type PairChange,
+} from "@shared/existingPairs";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type WizardStep = 1 | 2 | 3;
+type WizardStep = 1 | 2 | 3 | 4;
 
 type ParsedData = {
   columns: string[];
   rows: Record<string, string>[];
+  format: ImportFileFormat;
+  // How delimited text was read
+  delimiter?: Delimiter;
+  encoding?: TextEncoding;
+  // A spreadsheet's worksheets and the one being imported
+  sheetNames?: string[];
+  sheetName?: string;
 };
 
-type ImportResult = {
-  success: boolean;
-  count: number;
-  message?: string;
-};
+const IMPORT_JOB_POLL_MS = 1000;
 
-// ─── CSV Parsing Utility ──────────────────────────────────────────────────────
+// ─── File Parsing ─────────────────────────────────────────────────────────────
+// The browser only parses the file for the preview and column mapper; the
+// server reads the original file again when it imports it.
 
-function detectDelimiter(firstLine: string): "," | "\t" {
-  const tabCount = (firstLine.match(/\t/g) || []).length;
-  const commaCount = (firstLine.match(/,/g) || []).length;
-  return tabCount > commaCount ? "\t" : ",";
-}
-
-function parseCSV(
-  text: string,
-  delimiter: "," | "\t"
-): { columns: string[]; rows: Record<string, string>[] } {
-  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
-  if (lines.length === 0) return { columns: [], rows: [] };
-
-  // Parse a single line respecting quoted fields
-  const parseLine = (line: string): string[] => {
-    const fields: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      if (inQuotes) {
-        if (ch === '"') {
-          // Check for escaped quote
-          if (i + 1 < line.length && line[i + 1] === '"') {
-            current += '"';
-            i++;
-          } else {
-            inQuotes = false;
-          }
-        } else {
-          current += ch;
-        }
-      } else {
-        if (ch === '"') {
-          inQuotes = true;
-        } else if (ch === delimiter) {
-          fields.push(current.trim());
-          current = "";
-        } else {
-          current += ch;
-        }
-      }
-    }
-    fields.push(current.trim());
-    return fields;
-  };
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
 
-  const columns = parseLine(lines[0]);
-  const rows: Record<string, string>[] = [];
+function recordsToParsedData(
+  records: Record<string, unknown>[],
+  format: ImportFileFormat
+): ParsedData {
+  // JSON records need not share keys, so every key seen becomes a column
+  const columns = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((col) => [col, toCellString(record[col])]))
+  );
+  return { columns, rows, format };
+}
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseLine(lines[i]);
+function parseDelimited(bytes: Uint8Array, format: "csv" | "tsv"): ParsedData {
+  const encoding = sniffEncoding(bytes.subarray(0, ENCODING_SAMPLE_SIZE));
+  // The decoder drops a byte order mark
+  const text = new TextDecoder(encoding).decode(bytes);
+  const delimiter = format === "tsv" ? "\t" : detectDelimiter(text.split(/\r?\n/)[0] || "");
+
+  const [header = [], ...values]: string[][] = parseCsv(text, {
+    delimiter,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+    relax_quotes: true,
+  });
+  const rows = values.map((cells) => {
     const row: Record<string, string> = {};
-    columns.forEach((col, idx) => {
-      row[col] = values[idx] ?? "";
+    header.forEach((col, idx) => {
+      row[col] = cells[idx] ?? "";
     });
-    rows.push(row);
+    return row;
+  });
+  return { columns: header, rows, format, delimiter, encoding };
+}
+
+function parseJson(bytes: Uint8Array): ParsedData {
+  const parsed = JSON.parse(new TextDecoder(sniffEncoding(bytes)).decode(bytes));
+  const records = Array.isArray(parsed) ? parsed : parsed?.pairs;
+  if (!Array.isArray(records)) {
+    throw new Error("JSON file must contain an array of pairs or a 'pairs' array");
   }
+  return recordsToParsedData(records, "json");
+}
 
-  return { columns, rows };
+// Lines that are not JSON objects are left out of the preview; validation
+// reports them by line
+function parseJsonLines(bytes: Uint8Array): ParsedData {
+  const text = new TextDecoder(sniffEncoding(bytes.subarray(0, ENCODING_SAMPLE_SIZE))).decode(bytes);
+  const records: Record<string, unknown>[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === "") continue;
+    try {
+      const record = JSON.parse(line);
+      if (record !== null && typeof record === "object" && !Array.isArray(record)) records.push(record);
+    } catch {
+      // Reported by validation
+    }
+  }
+  return recordsToParsedData(records, "jsonl");
 }
 
-// ─── Transform rows to pair objects using mappings ────────────────────────────
+// ExcelJS is only needed for spreadsheets, so it is loaded on demand
+async function parseSpreadsheet(buffer: ArrayBuffer, sheetName?: string): Promise<ParsedData> {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
 
-function resolveEntryValue(
-  row: Record<string, string>,
-  entry: { type: "column" | "manual" | "none"; value: string } | undefined
-): string {
-  if (!entry || entry.type === "none") return "";
-  if (entry.type === "manual") return entry.value;
-  return row[entry.value] ?? "";
-}
+  const sheetNames = workbook.worksheets.map((worksheet) => worksheet.name);
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(sheetName ? `The workbook has no sheet named "${sheetName}"` : "The workbook has no sheets");
+  }
 
-function transformRowsToPairs(
-  rows: Record<string, string>[],
-  mappings: ColumnMappings,
-  campaignType: string
-) {
-  return rows.map((row) => {
-    const sourceMetadata: Record<string, string> = {};
-    for (const col of mappings.sourceMetadataColumns) {
-      if (row[col] !== undefined && row[col] !== "") {
-        sourceMetadata[col] = row[col];
-      }
+  // The first row holds the column names; row values are indexed from 1
+  let columns: string[] | null = null;
+  const rows: Record<string, string>[] = [];
+  worksheet.eachRow((row) => {
+    const cells = Array.from((row.values as unknown[]).slice(1));
+    if (!columns) {
+      columns = sheetColumns(cells);
+      return;
     }
+    const record = sheetRecord(columns, cells);
+    if (record) rows.push(record);
+  });
+  return { columns: columns ?? [], rows, format: "xlsx", sheetNames, sheetName: worksheet.name };
+}
 
-    const targetMetadata: Record<string, string> = {};
-    for (const col of mappings.targetMetadataColumns) {
-      if (row[col] !== undefined && row[col] !== "") {
-        targetMetadata[col] = row[col];
-      }
-    }
+async function parseImportFile(file: File, sheetName?: string): Promise<ParsedData> {
+  const format = formatFromFileName(file.name);
+  if (!format) {
+    throw new Error("Unsupported file type. Upload a .csv, .tsv, .json, .jsonl or .xlsx file.");
+  }
 
-    const pairType = resolveEntryValue(row, mappings.pairType) || campaignType;
-    const llmConfidence = resolveEntryValue(row, mappings.llmConfidence);
-
-    return {
-      source_text: resolveEntryValue(row, mappings.sourceText),
-      source_id: resolveEntryValue(row, mappings.sourceId),
-      source_dataset: resolveEntryValue(row, mappings.sourceDataset),
-      target_text: resolveEntryValue(row, mappings.targetText),
-      target_id: resolveEntryValue(row, mappings.targetId),
-      target_dataset: resolveEntryValue(row, mappings.targetDataset),
-      pair_type: pairType,
-      llm_confidence: llmConfidence !== "" ? llmConfidence : undefined,
-      llm_model: resolveEntryValue(row, mappings.llmModel) || undefined,
-      llm_reasoning: resolveEntryValue(row, mappings.llmReasoning) || undefined,
-      source_metadata:
-        Object.keys(sourceMetadata).length > 0 ? sourceMetadata : undefined,
-      target_metadata:
-        Object.keys(targetMetadata).length > 0 ? targetMetadata : undefined,
-    };
-  });
+  const buffer = await file.arrayBuffer();
+  switch (format) {
+    case "xlsx":
+      return parseSpreadsheet(buffer, sheetName);
+    case "json":
+      return parseJson(new Uint8Array(buffer));
+    case "jsonl":
+      return parseJsonLines(new Uint8Array(buffer));
+    default:
+      return parseDelimited(new Uint8Array(buffer), format);
+  }
 }
 
 // ─── Step Indicator ───────────────────────────────────────────────────────────
@@ -188,7 +226,8 @@ function StepIndicator({ step }: { step: WizardStep }) {
   const steps = [
     { number: 1, label: "Upload File" },
     { number: 2, label: "Map Columns" },
-    { number: 3, label: "Results" },
+    { number: 3, label: "Validate" },
+    { number: 4, label: "Import" },
   ];
 
   return (
@@ -236,14 +275,21 @@ function SaveTemplateDialog({
   open,
   onOpenChange,
   onSave,
+  defaultName,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSave: (name: string, description: string) => void;
+  defaultName: string;
 }) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
 
+  // Saving under the loaded template's name adds its next version
+  useEffect(() => {
+    if (open) setName(defaultName);
+  }, [open, defaultName]);
+
   const handleSave = () => {
     if (!name.trim()) return;
     onSave(name.trim(), description.trim());
@@ -258,7 +304,8 @@ function SaveTemplateDialog({
         <DialogHeader>
           <DialogTitle>Save as Template</DialogTitle>
           <DialogDescription>
-            Save the current column mappings as a reusable template for future imports.
+            Save the current column mappings and transforms as a reusable template for future imports.
+            Saving under an existing template's name adds a new version; earlier versions are kept.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-2">
@@ -310,14 +357,16 @@ function SaveTemplateDialog({
 function FileUploadStep({
   file,
   parsedData,
-  delimiter,
+  parseError,
   onFileChange,
+  onSheetChange,
   onNext,
 }: {
   file: File | null;
   parsedData: ParsedData | null;
-  delimiter: "," | "\t";
+  parseError: string | null;
   onFileChange: (file: File | null) => void;
+  onSheetChange: (sheetName: string) => void;
   onNext: () => void;
 }) {
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -329,10 +378,7 @@ function FileUploadStep({
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     const dropped = e.dataTransfer.files[0];
-    if (
-      dropped &&
-      (dropped.name.endsWith(".csv") || dropped.name.endsWith(".tsv"))
-    ) {
+    if (dropped && formatFromFileName(dropped.name)) {
       handleFileSelect(dropped);
     }
   };
@@ -358,7 +404,7 @@ function FileUploadStep({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.tsv"
+          accept={IMPORT_FILE_ACCEPT}
           className="hidden"
           onChange={(e) => {
             const f = e.target.files?.[0];
@@ -380,19 +426,46 @@ function FileUploadStep({
               Click to upload or drag and drop
             </p>
             <p className="text-xs text-muted-foreground">
-              Supports .csv and .tsv files
+              Supports .csv, .tsv, .json, .jsonl and .xlsx files
             </p>
           </div>
         )}
       </div>
 
+      {/* Sheet selection for workbooks with more than one sheet */}
+      {parsedData?.sheetNames && parsedData.sheetNames.length > 1 && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="select-sheet" className="text-sm shrink-0">
+            Sheet
+          </Label>
+          <Select value={parsedData.sheetName} onValueChange={onSheetChange}>
+            <SelectTrigger id="select-sheet" className="w-64" data-testid="select-sheet">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {parsedData.sheetNames.map((name) => (
+                <SelectItem key={name} value={name} data-testid={`option-sheet-${name}`}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* File preview */}
       {file && parsedData && parsedData.rows.length > 0 && (
-        <FilePreview
-          file={file}
-          rows={parsedData.rows}
-          delimiter={delimiter}
-        />
+        <FilePreview file={file} rows={parsedData.rows} source={parsedData} />
+      )}
+
+      {/* Parse failure */}
+      {parseError && (
+        <div className="flex items-center gap-2 p-4 rounded-lg border border-destructive/30 bg-destructive/5">
+          <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+          <p className="text-sm text-destructive" data-testid="text-parse-error">
+            {parseError}
+          </p>
+        </div>
       )}
 
       {/* Error state */}
@@ -421,14 +494,82 @@ function FileUploadStep({
   );
 }
 
+// ─── Template Match Notice ────────────────────────────────────────────────────
+
+// Columns shown by name before the rest are only counted
+const MAX_LISTED_COLUMNS = 6;
+
+function ColumnList({ label, columns }: { label: string; columns: string[] }) {
+  if (columns.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-muted-foreground">{label}:</span>
+      {columns.slice(0, MAX_LISTED_COLUMNS).map((column) => (
+        <Badge key={column} variant="outline" className="text-xs font-mono font-normal">
+          {column}
+        </Badge>
+      ))}
+      {columns.length > MAX_LISTED_COLUMNS && (
+        <span className="text-xs text-muted-foreground">+{columns.length - MAX_LISTED_COLUMNS} more</span>
+      )}
+    </div>
+  );
+}
+
+function TemplateMatchNotice({
+  title,
+  match,
+  onApply,
+  onDismiss,
+}: {
+  title: string;
+  match: TemplateMatch;
+  onApply?: () => void;
+  onDismiss?: () => void;
+}) {
+  return (
+    <div
+      className="flex flex-wrap items-start justify-between gap-3 p-3 rounded-lg border border-primary/30 bg-primary/5"
+      data-testid="template-match"
+    >
+      <div className="space-y-1.5 min-w-0">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-primary shrink-0" />
+          <p className="text-sm font-medium text-foreground">{title}</p>
+          <Badge variant="secondary" className="text-xs" data-testid="text-template-match-score">
+            {Math.round(match.score * 100)}% match
+          </Badge>
+        </div>
+        <ColumnList label="Missing from this file" columns={match.missingColumns} />
+        <ColumnList label="Not in the template" columns={match.extraColumns} />
+      </div>
+      {(onApply || onDismiss) && (
+        <div className="flex items-center gap-2 shrink-0">
+          {onDismiss && (
+            <Button variant="ghost" size="sm" onClick={onDismiss} data-testid="button-dismiss-template-match">
+              Dismiss
+            </Button>
+          )}
+          {onApply && (
+            <Button size="sm" onClick={onApply} data-testid="button-apply-template-match">
+              Apply Template
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Step 2: Column Mapping ────────────────────────────────────────────────────
 
 function ColumnMappingStep({
   parsedData,
   file,
-  delimiter,
   mappings,
   onMappingsChange,
+  templateId,
+  onTemplateChange,
   onBack,
   onImport,
   importing,
@@ -436,9 +577,10 @@ function ColumnMappingStep({
 }: {
   parsedData: ParsedData;
   file: File;
-  delimiter: "," | "\t";
   mappings: ColumnMappings;
   onMappingsChange: (m: ColumnMappings) => void;
+  templateId: string | null;
+  onTemplateChange: (id: string | null) => void;
   onBack: () => void;
   onImport: () => void;
   importing: boolean;
@@ -446,12 +588,36 @@ function ColumnMappingStep({
 }) {
   const { toast } = useToast();
   const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
-  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
 
+  // Latest version of each template
   const { data: templates = [] } = useQuery<ImportTemplate[]>({
     queryKey: ["/api/import-templates"],
   });
 
+  // Earlier versions of the loaded template's name can be loaded instead
+  const { data: templateVersions = [] } = useQuery<ImportTemplate[]>({
+    queryKey: [`/api/import-templates/${templateId}/versions`],
+    enabled: !!templateId,
+  });
+  const loadedTemplate = templateVersions.find((t) => t.id === templateId);
+  const latestTemplateId = (id: string | null) => {
+    const name = templateVersions.find((t) => t.id === id)?.name;
+    return templates.find((t) => t.name === name)?.id ?? id ?? "";
+  };
+
+  // Until a template is loaded, suggest the one closest to the file's columns
+  const [suggestionDismissed, setSuggestionDismissed] = useState(false);
+  const suggestion = useMemo(
+    () => (templateId ? null : suggestTemplate(parsedData.columns, templates)),
+    [templateId, parsedData.columns, templates]
+  );
+  const loadedMatch = useMemo(
+    () => (loadedTemplate
+      ? matchTemplate(parsedData.columns, loadedTemplate.columnMappings as ColumnMappings)
+      : null),
+    [loadedTemplate, parsedData.columns]
+  );
+
   const saveTemplateMutation = useMutation({
     mutationFn: (data: {
       name: string;
@@ -463,11 +629,16 @@ function ColumnMappingStep({
         description: data.description || null,
         columnMappings: data.columnMappings,
       }),
-    onSuccess: () => {
+    onSuccess: async (res) => {
+      const saved: ImportTemplate = await res.json();
       toast({
         title: "Template saved",
-        description: "Column mappings saved as a reusable template.",
+        description: saved.version > 1
+          ? `Saved as version ${saved.version} of "${saved.name}".`
+          : "Column mappings saved as a reusable template.",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/import-templates"] });
+      onTemplateChange(saved.id);
     },
     onError: () => {
       toast({
@@ -478,17 +649,17 @@ function ColumnMappingStep({
     },
   });
 
-  const handleLoadTemplate = (templateId: string) => {
-    const template = templates.find((t) => t.id === templateId);
+  const handleLoadTemplate = (template: ImportTemplate | undefined) => {
     if (!template) return;
 
     // The stored columnMappings must conform to the ColumnMappings shape
     const stored = template.columnMappings as unknown as ColumnMappings;
     if (stored && typeof stored === "object") {
       onMappingsChange(stored);
+      onTemplateChange(template.id);
       toast({
         title: "Template loaded",
-        description: `Applied mappings from "${template.name}".`,
+        description: `Applied mappings from "${template.name}" (version ${template.version}).`,
       });
     }
   };
@@ -507,11 +678,8 @@ function ColumnMappingStep({
         <span className="text-sm font-medium text-foreground">Templates</span>
         <div className="flex items-center gap-2 flex-1 min-w-0">
           <Select
-            value={selectedTemplateId}
-            onValueChange={(val) => {
-              setSelectedTemplateId(val);
-              handleLoadTemplate(val);
-            }}
+            value={latestTemplateId(templateId)}
+            onValueChange={(val) => handleLoadTemplate(templates.find((t) => t.id === val))}
           >
             <SelectTrigger
               className="flex-1 min-w-[180px] max-w-xs"
@@ -533,6 +701,23 @@ function ColumnMappingStep({
               )}
             </SelectContent>
           </Select>
+          {templateVersions.length > 1 && (
+            <Select
+              value={templateId ?? ""}
+              onValueChange={(val) => handleLoadTemplate(templateVersions.find((t) => t.id === val))}
+            >
+              <SelectTrigger className="w-40 shrink-0" data-testid="select-template-version">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templateVersions.map((t, index) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    Version {t.version}{index === 0 ? " (latest)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
         <Button
           variant="outline"
@@ -546,6 +731,21 @@ function ColumnMappingStep({
         </Button>
       </div>
 
+      {suggestion && !suggestionDismissed && (
+        <TemplateMatchNotice
+          title={`This file looks like "${suggestion.template.name}"`}
+          match={suggestion}
+          onApply={() => handleLoadTemplate(suggestion.template)}
+          onDismiss={() => setSuggestionDismissed(true)}
+        />
+      )}
+      {loadedTemplate && loadedMatch && loadedMatch.score < 1 && (
+        <TemplateMatchNotice
+          title={`The file's columns differ from "${loadedTemplate.name}"`}
+          match={loadedMatch}
+        />
+      )}
+
       {/* Column mapper */}
       <Card className="border-card-border">
         <CardHeader className="pb-3">
@@ -563,11 +763,29 @@ function ColumnMappingStep({
         </CardContent>
       </Card>
 
+      {/* Transforms */}
+      <Card className="border-card-border">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-medium">Transforms</CardTitle>
+          <CardDescription>
+            Steps applied in order to a mapped value, such as joining columns, tagging IDs or scaling
+            confidence. They are saved with templates and shown in the preview below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TransformEditor
+            columns={parsedData.columns}
+            mappings={mappings}
+            onMappingsChange={onMappingsChange}
+          />
+        </CardContent>
+      </Card>
+
       {/* File preview with mapping highlights */}
       <FilePreview
         file={file}
         rows={parsedData.rows}
-        delimiter={delimiter}
+        source={parsedData}
         mappings={mappings}
       />
 
@@ -599,17 +817,17 @@ function ColumnMappingStep({
           onClick={onImport}
           disabled={!canImport || importing}
           className="gap-2"
-          data-testid="button-import"
+          data-testid="button-validate"
         >
           {importing ? (
             <>
               <Loader2 className="w-4 h-4 animate-spin" />
-              Importing...
+              Uploading...
             </>
           ) : (
             <>
-              <Upload className="w-4 h-4" />
-              Import {parsedData.rows.length} Pairs
+              <ListChecks className="w-4 h-4" />
+              Validate {parsedData.rows.length} Rows
             </>
           )}
         </Button>
@@ -619,30 +837,468 @@ function ColumnMappingStep({
         open={saveTemplateOpen}
         onOpenChange={setSaveTemplateOpen}
         onSave={handleSaveTemplate}
+        defaultName={loadedTemplate?.name ?? ""}
       />
     </div>
   );
 }
 
-// ─── Step 3: Import Results ────────────────────────────────────────────────────
+// ─── Import Job Helpers ───────────────────────────────────────────────────────
+
+const JOB_PHASE_LABELS: Record<ImportJob["status"], string> = {
+  queued: "Waiting to start",
+  validating: "Validating rows",
+  validated: "Validation complete",
+  importing: "Importing pairs",
+  completed: "Import complete",
+  failed: "Import failed",
+};
+
+const JOB_RESTING_STATUSES: ImportJob["status"][] = ["validated", "completed", "failed"];
+
+// Polls the job until it reaches a state that waits on the admin or is final
+function useImportJob(jobId: string | null) {
+  return useQuery<ImportJob>({
+    queryKey: ["/api/import-jobs", jobId],
+    queryFn: async () => {
+      const res = await fetch(`/api/import-jobs/${jobId}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch import status");
+      return res.json();
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status && JOB_RESTING_STATUSES.includes(status) ? false : IMPORT_JOB_POLL_MS;
+    },
+  });
+}
+
+function jobProgressPercent(job: ImportJob): number {
+  if (job.status === "completed" || job.status === "validated") return 100;
+  // Importing is measured in rows; validation only knows how far into the file it is
+  if (job.status === "importing" && job.totalRows) {
+    return Math.round((job.rowsCommitted / job.totalRows) * 100);
+  }
+  return job.fileSize > 0 ? Math.round((job.bytesProcessed / job.fileSize) * 100) : 0;
+}
+
+function JobProgress({ job }: { job: ImportJob }) {
+  return (
+    <div className="w-full max-w-md space-y-1.5">
+      <Progress value={jobProgressPercent(job)} data-testid="progress-import" />
+      <p className="text-xs text-muted-foreground">
+        {job.status === "importing" && job.totalRows
+          ? `${job.rowsCommitted.toLocaleString()} of ${job.totalRows.toLocaleString()} rows`
+          : `${jobProgressPercent(job)}%`}
+      </p>
+    </div>
+  );
+}
+
+function ReportStat({ label, value, testId }: { label: string; value: number; testId: string }) {
+  return (
+    <div className="rounded-lg border border-border p-3 text-center">
+      <p className="text-2xl font-semibold text-foreground" data-testid={testId}>
+        {value.toLocaleString()}
+      </p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
 
-function ImportResultsStep({
-  result,
+function RowErrorsReport({ job }: { job: ImportJob }) {
+  if (job.invalidCount === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-medium text-foreground">
+          {job.invalidCount.toLocaleString()} invalid {job.invalidCount === 1 ? "row" : "rows"}
+          {job.rowErrors.length < job.invalidCount && (
+            <span className="text-muted-foreground font-normal"> (first problems shown)</span>
+          )}
+        </p>
+        {job.rejectedRowsPath && (
+          <Button variant="outline" size="sm" className="gap-2" asChild>
+            <a href={`/api/import-jobs/${job.id}/rejected-rows`} download data-testid="link-rejected-rows">
+              <Download className="w-3.5 h-3.5" />
+              Download Rejected Rows
+            </a>
+          </Button>
+        )}
+      </div>
+      <div className="max-h-72 overflow-y-auto rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20">Row</TableHead>
+              <TableHead className="w-40">Field</TableHead>
+              <TableHead>Problem</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {job.rowErrors.map((rowError, idx) => (
+              <TableRow key={`${rowError.row}-${rowError.field}-${idx}`} data-testid={`row-import-error-${rowError.row}`}>
+                <TableCell className="font-mono text-muted-foreground">{rowError.row}</TableCell>
+                <TableCell className="font-mono text-xs">{rowError.field}</TableCell>
+                <TableCell className="text-sm">{rowError.reason}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// Which rule dropped or warned about each same-source pair
+function SameSourceReport({ job }: { job: ImportJob }) {
+  const total = job.sameSourceCount + job.sameSourceWarningCount;
+  if (total === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">
+        {job.sameSourceCount.toLocaleString()} same-source {job.sameSourceCount === 1 ? "pair" : "pairs"} dropped,{" "}
+        {job.sameSourceWarningCount.toLocaleString()} imported with a warning
+        {job.sameSourceMatches.length < total && (
+          <span className="text-muted-foreground font-normal"> (first pairs shown)</span>
+        )}
+      </p>
+      <div className="max-h-72 overflow-y-auto rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20">Row</TableHead>
+              <TableHead>Pair</TableHead>
+              <TableHead className="w-40">Rule</TableHead>
+              <TableHead className="w-28">Action</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {job.sameSourceMatches.map((match) => (
+              <TableRow key={match.row} data-testid={`row-same-source-${match.row}`}>
+                <TableCell className="font-mono text-muted-foreground">{match.row}</TableCell>
+                <TableCell className="font-mono text-xs">
+                  {match.sourceId} ↔ {match.targetId}
+                </TableCell>
+                <TableCell className="text-sm">{match.ruleName}</TableCell>
+                <TableCell>
+                  <Badge variant={match.action === "drop" ? "destructive" : "secondary"} className="text-xs">
+                    {match.action === "drop" ? "Dropped" : "Warning"}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// How the import treats pairs the campaign already has
+function ExistingPairOptionsPicker({
+  options,
+  onChange,
+}: {
+  options: ExistingPairOptions;
+  onChange: (options: ExistingPairOptions) => void;
+}) {
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <Label htmlFor="select-existing-pair-mode">Existing pairs</Label>
+          <p className="text-xs text-muted-foreground">{EXISTING_PAIR_MODE_DESCRIPTIONS[options.existingPairMode]}</p>
+        </div>
+        <Select
+          value={options.existingPairMode}
+          onValueChange={(v) => onChange({ ...options, existingPairMode: v as ExistingPairMode })}
+        >
+          <SelectTrigger id="select-existing-pair-mode" className="w-48 shrink-0" data-testid="select-existing-pair-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXISTING_PAIR_MODES.map((mode) => (
+              <SelectItem key={mode} value={mode}>
+                {EXISTING_PAIR_MODE_LABELS[mode]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {options.existingPairMode === "update" && (
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label htmlFor="switch-requeue-changed">Re-queue material changes</Label>
+            <p className="text-xs text-muted-foreground">
+              Pairs with votes whose confidence moves by {MATERIAL_CONFIDENCE_CHANGE} or more, or crosses 50%, are
+              added as a new version for review instead.
+            </p>
+          </div>
+          <Switch
+            id="switch-requeue-changed"
+            checked={options.requeueChanged}
+            onCheckedChange={(requeueChanged) => onChange({ ...options, requeueChanged })}
+            data-testid="switch-requeue-changed"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+const PAIR_CHANGE_OUTCOME_LABELS: Record<PairChange["outcome"], string> = {
+  updated: "Updated",
+  versioned: "New version",
+  requeued: "Re-queued",
+};
+
+function formatConfidence(confidence: number | null): string {
+  return confidence === null ? "–" : `${(confidence * 100).toFixed(0)}%`;
+}
+
+// What the import changed on pairs the campaign already had
+function PairChangesReport({ job }: { job: ImportJob }) {
+  const total = job.updatedCount + job.versionedCount + job.requeuedCount;
+  if (total === 0) return null;
+
+  const fieldSummary = CHANGED_PAIR_FIELDS
+    .filter((field) => job.fieldChangeCounts[field])
+    .map((field) => `${CHANGED_PAIR_FIELD_LABELS[field]} ${job.fieldChangeCounts[field]!.toLocaleString()}`)
+    .join(" · ");
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium text-foreground">
+          {total.toLocaleString()} existing {total === 1 ? "pair" : "pairs"} changed
+          {job.pairChanges.length < total && (
+            <span className="text-muted-foreground font-normal"> (first pairs shown)</span>
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground" data-testid="text-field-changes">
+          Fields changed: {fieldSummary}
+        </p>
+      </div>
+      <div className="max-h-72 overflow-y-auto rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-20">Row</TableHead>
+              <TableHead>Pair</TableHead>
+              <TableHead className="w-32">Confidence</TableHead>
+              <TableHead className="w-48">Fields</TableHead>
+              <TableHead className="w-28">Outcome</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {job.pairChanges.map((change) => (
+              <TableRow key={change.row} data-testid={`row-pair-change-${change.row}`}>
+                <TableCell className="font-mono text-muted-foreground">{change.row}</TableCell>
+                <TableCell className="font-mono text-xs">
+                  {change.sourceId} ↔ {change.targetId}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {change.fields.includes("llmConfidence")
+                    ? `${formatConfidence(change.previousConfidence)} → ${formatConfidence(change.confidence)}`
+                    : formatConfidence(change.confidence)}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {change.fields.map((field) => CHANGED_PAIR_FIELD_LABELS[field]).join(", ")}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={change.outcome === "updated" ? "secondary" : "outline"} className="text-xs">
+                    {PAIR_CHANGE_OUTCOME_LABELS[change.outcome]}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+function JobStartError({ message }: { message: string }) {
+  return (
+    <div className="flex flex-col items-center text-center space-y-4 py-4">
+      <div className="w-14 h-14 rounded-full bg-destructive/10 flex items-center justify-center">
+        <AlertCircle className="w-7 h-7 text-destructive" />
+      </div>
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold text-foreground">Upload Failed</h3>
+        <p className="text-sm text-muted-foreground" data-testid="text-import-error">{message}</p>
+      </div>
+    </div>
+  );
+}
+
+// ─── Step 3: Validation Report ────────────────────────────────────────────────
+
+function ValidationStep({
+  jobId,
+  startError,
+  onBack,
+  onStarted,
+}: {
+  jobId: string | null;
+  startError: string | null;
+  onBack: () => void;
+  onStarted: () => void;
+}) {
+  const { toast } = useToast();
+  const { data: job } = useImportJob(jobId);
+  const [existingPairOptions, setExistingPairOptions] = useState<ExistingPairOptions>({
+    existingPairMode: "skip",
+    requeueChanged: false,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: (skipInvalidRows: boolean) =>
+      apiRequest("POST", `/api/import-jobs/${jobId}/start`, { skipInvalidRows, ...existingPairOptions }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs", jobId] });
+      onStarted();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed to start", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const validated = job?.status === "validated";
+  const validRows = job && job.totalRows !== null ? job.totalRows - job.invalidCount : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-card-border">
+        <CardContent className="pt-6 space-y-6">
+          {startError ? (
+            <JobStartError message={startError} />
+          ) : job?.status === "failed" ? (
+            <JobStartError message={job.errorMessage || "The file could not be validated."} />
+          ) : !validated || !job ? (
+            <div className="flex flex-col items-center text-center space-y-4 py-4">
+              <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center">
+                <Loader2 className="w-7 h-7 text-primary animate-spin" />
+              </div>
+              <div className="space-y-1">
+                <h3 className="text-lg font-semibold text-foreground">
+                  {job ? JOB_PHASE_LABELS[job.status] : "Uploading file"}
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Every row is checked before anything is imported.
+                </p>
+              </div>
+              {job && <JobProgress job={job} />}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                {job.invalidCount === 0 ? (
+                  <CheckCircle2 className="w-6 h-6 text-green-600 dark:text-green-400 shrink-0" />
+                ) : (
+                  <AlertCircle className="w-6 h-6 text-amber-500 shrink-0" />
+                )}
+                <div>
+                  <h3 className="text-base font-semibold text-foreground">
+                    {job.invalidCount === 0 ? "All rows are valid" : "Some rows cannot be imported"}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Nothing has been imported yet. Same-source pairs are handled by the campaign's rules during the
+                    import, and pairs the campaign already has as chosen below.
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <ReportStat label="Rows in file" value={job.totalRows ?? 0} testId="text-total-rows" />
+                <ReportStat label="Valid rows" value={validRows} testId="text-valid-rows" />
+                <ReportStat label="Invalid rows" value={job.invalidCount} testId="text-invalid-rows" />
+              </div>
+              <RowErrorsReport job={job} />
+              <ExistingPairOptionsPicker options={existingPairOptions} onChange={setExistingPairOptions} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          onClick={onBack}
+          disabled={startMutation.isPending}
+          className="gap-2"
+          data-testid="button-back-to-mapping"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back to Mapping
+        </Button>
+        {validated && job && (
+          <Button
+            onClick={() => startMutation.mutate(job.invalidCount > 0)}
+            disabled={startMutation.isPending || validRows === 0}
+            className="gap-2"
+            data-testid="button-import"
+          >
+            {startMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            {job.invalidCount > 0
+              ? `Skip ${job.invalidCount.toLocaleString()} Invalid and Import ${validRows.toLocaleString()}`
+              : `Import ${validRows.toLocaleString()} Pairs`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Step 4: Import Progress and Report ────────────────────────────────────────
+
+function ImportJobStep({
+  jobId,
   campaignId,
   onImportMore,
 }: {
-  result: ImportResult;
+  jobId: string | null;
   campaignId: string;
   onImportMore: () => void;
 }) {
   const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { data: job } = useImportJob(jobId);
+
+  // Campaign stats change once the job has written its pairs
+  const finished = job?.status === "completed";
+  useEffect(() => {
+    if (!finished) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaignId}`] });
+  }, [finished, campaignId]);
+
+  const resumeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/import-jobs/${jobId}/resume`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-jobs", jobId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Resume failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const failed = job?.status === "failed";
+  const running = !!job && !failed && !finished;
 
   return (
     <div className="space-y-6">
       <Card className="border-card-border">
         <CardContent className="pt-6">
           <div className="flex flex-col items-center text-center space-y-4 py-4">
-            {result.success ? (
+            {finished && job ? (
               <>
                 <div className="w-14 h-14 rounded-full bg-green-500/10 flex items-center justify-center">
                   <CheckCircle2 className="w-7 h-7 text-green-600 dark:text-green-400" />
@@ -652,15 +1308,20 @@ function ImportResultsStep({
                     Import Successful
                   </h3>
                   <p className="text-sm text-muted-foreground">
-                    Successfully imported{" "}
+                    Imported{" "}
                     <span className="font-semibold text-foreground">
-                      {result.count}
+                      {job.importedCount.toLocaleString()}
                     </span>{" "}
-                    {result.count === 1 ? "pair" : "pairs"} into the campaign.
+                    {job.importedCount === 1 ? "pair" : "pairs"} from {job.fileName}.
                   </p>
+                  {job.requeuedCount + job.versionedCount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      New versions are back in the review queue; the versions they replace keep their votes.
+                    </p>
+                  )}
                 </div>
               </>
-            ) : (
+            ) : failed ? (
               <>
                 <div className="w-14 h-14 rounded-full bg-destructive/10 flex items-center justify-center">
                   <AlertCircle className="w-7 h-7 text-destructive" />
@@ -669,17 +1330,86 @@ function ImportResultsStep({
                   <h3 className="text-lg font-semibold text-foreground">
                     Import Failed
                   </h3>
+                  <p className="text-sm text-muted-foreground" data-testid="text-import-error">
+                    {job?.errorMessage || "An error occurred during import."}
+                  </p>
+                  {job && job.rowsCommitted > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {job.rowsCommitted.toLocaleString()} of {job.totalRows?.toLocaleString()} rows were committed
+                      before the failure.
+                    </p>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center">
+                  <Loader2 className="w-7 h-7 text-primary animate-spin" />
+                </div>
+                <div className="space-y-1">
+                  <h3 className="text-lg font-semibold text-foreground">
+                    {job ? JOB_PHASE_LABELS[job.status] : "Starting import"}
+                  </h3>
                   <p className="text-sm text-muted-foreground">
-                    {result.message || "An error occurred during import."}
+                    The import runs on the server; you can leave this page and come back later.
                   </p>
                 </div>
               </>
             )}
+
+            {job && (running || failed) && <JobProgress job={job} />}
           </div>
+
+          {job && (finished || job.rowsCommitted > 0) && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <ReportStat label="Imported" value={job.importedCount} testId="text-imported-count" />
+              {job.existingPairMode !== "skip" && (
+                <>
+                  <ReportStat label="Updated" value={job.updatedCount} testId="text-updated-count" />
+                  <ReportStat
+                    label="New versions"
+                    value={job.versionedCount + job.requeuedCount}
+                    testId="text-versioned-count"
+                  />
+                </>
+              )}
+              <ReportStat
+                label={job.existingPairMode === "skip" ? "Duplicates skipped" : "Unchanged or duplicate"}
+                value={job.duplicateCount}
+                testId="text-duplicate-count"
+              />
+              <ReportStat label="Same-source skipped" value={job.sameSourceCount} testId="text-same-source-count" />
+              <ReportStat label="Invalid rows skipped" value={job.invalidCount} testId="text-invalid-count" />
+            </div>
+          )}
+
+          {job && finished && (
+            <div className="mt-4 space-y-4">
+              <PairChangesReport job={job} />
+              <SameSourceReport job={job} />
+              <RowErrorsReport job={job} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
       <div className="flex flex-col sm:flex-row items-center gap-3 justify-center">
+        {failed && job?.filePath && (
+          <Button
+            variant="outline"
+            onClick={() => resumeMutation.mutate()}
+            disabled={resumeMutation.isPending}
+            className="gap-2 w-full sm:w-auto"
+            data-testid="button-resume-import"
+          >
+            {resumeMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RotateCcw className="w-4 h-4" />
+            )}
+            Resume Import
+          </Button>
+        )}
         <Button
           variant="outline"
           onClick={onImportMore}
@@ -710,16 +1440,18 @@ export default function UploadPage() {
   const { id: campaignId } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const queryClientHook = useQueryClient();
 
   // Wizard state
   const [step, setStep] = useState<WizardStep>(1);
   const [file, setFile] = useState<File | null>(null);
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
-  const [delimiter, setDelimiter] = useState<"," | "\t">(",");
+  const [parseError, setParseError] = useState<string | null>(null);
   const [mappings, setMappings] = useState<ColumnMappings | null>(null);
+  // Template version the mappings were loaded from, recorded on the import job
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [importing, setImporting] = useState(false);
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [startError, setStartError] = useState<string | null>(null);
 
   // Fetch campaign details
   const { data: campaign } = useQuery<Campaign>({
@@ -732,65 +1464,80 @@ export default function UploadPage() {
     if (!selectedFile) {
       setFile(null);
       setParsedData(null);
+      setParseError(null);
       setMappings(null);
+      setTemplateId(null);
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      if (!text) return;
-
-      const firstLine = text.split(/\r?\n/)[0] || "";
-      const detectedDelimiter = detectDelimiter(firstLine);
-      setDelimiter(detectedDelimiter);
+    loadFile(selectedFile);
+  };
 
-      const parsed = parseCSV(text, detectedDelimiter);
-      setFile(selectedFile);
+  const loadFile = async (selectedFile: File, sheetName?: string) => {
+    setFile(selectedFile);
+    try {
+      const parsed = await parseImportFile(selectedFile, sheetName);
       setParsedData(parsed);
+      setParseError(null);
 
       // Auto-detect mappings
       const autoMappings = createDefaultMappings(parsed.columns);
       setMappings(autoMappings);
-    };
-    reader.readAsText(selectedFile);
+      setTemplateId(null);
+    } catch (err: any) {
+      setParsedData(null);
+      setMappings(null);
+      setParseError(`The file could not be read: ${err?.message || "unknown error"}`);
+    }
   };
 
-  // Import handler
-  const handleImport = async () => {
-    if (!parsedData || !mappings || !campaignId) return;
+  // Another worksheet has other columns, so mapping starts over
+  const handleSheetChange = (sheetName: string) => {
+    if (file) loadFile(file, sheetName);
+  };
+
+  // Validation handler: the server streams the original file through a dry-run
+  // import job, applying the mappings row by row. Nothing is imported until
+  // the report has been reviewed in step 3.
+  const handleValidate = async () => {
+    if (!file || !mappings || !campaignId) return;
 
     setImporting(true);
     try {
-      const pairs = transformRowsToPairs(
-        parsedData.rows,
-        mappings,
-        campaign?.campaignType ?? "loinc_mapping"
-      );
-
-      const response = await apiRequest(
-        "POST",
-        `/api/campaigns/${campaignId}/pairs`,
-        { pairs }
-      );
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("mappings", JSON.stringify(mappings));
+      if (templateId) formData.append("templateId", templateId);
+      if (parsedData?.sheetName) formData.append("sheetName", parsedData.sheetName);
+      formData.append("dryRun", "true");
+
+      const response = await fetch(`/api/campaigns/${campaignId}/import-jobs`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
       const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to upload file");
 
-      setImportResult({ success: true, count: data.count ?? pairs.length });
-      setStep(3);
-
-      // Invalidate campaign queries so stats refresh
-      queryClientHook.invalidateQueries({ queryKey: ["/api/campaigns"] });
-      queryClientHook.invalidateQueries({
-        queryKey: [`/api/campaigns/${campaignId}`],
-      });
+      setJobId(data.id);
+      setStartError(null);
     } catch (err: any) {
-      const message =
-        err?.message || "An unexpected error occurred during import.";
-      setImportResult({ success: false, count: 0, message });
-      setStep(3);
+      setJobId(null);
+      setStartError(err?.message || "An unexpected error occurred during upload.");
     } finally {
       setImporting(false);
+      setStep(3);
+    }
+  };
+
+  // Leaving the report discards the validated job and its uploaded file
+  const handleBackToMapping = () => {
+    if (jobId) {
+      apiRequest("DELETE", `/api/import-jobs/${jobId}`).catch(() => undefined);
     }
+    setJobId(null);
+    setStartError(null);
+    setStep(2);
   };
 
   // Reset wizard for another import
@@ -798,8 +1545,10 @@ export default function UploadPage() {
     setStep(1);
     setFile(null);
     setParsedData(null);
+    setParseError(null);
     setMappings(null);
-    setImportResult(null);
+    setJobId(null);
+    setStartError(null);
   };
 
   const handleNextFromStep1 = () => {
@@ -838,7 +1587,7 @@ export default function UploadPage() {
               )}
             </div>
             <p className="text-sm text-muted-foreground mt-0.5">
-              Upload a CSV or TSV file and map columns to import entity pairs.
+              Upload a CSV, TSV, JSON, JSON Lines or Excel file and map columns to import entity pairs.
             </p>
           </div>
         </div>
@@ -852,8 +1601,9 @@ export default function UploadPage() {
             <FileUploadStep
               file={file}
               parsedData={parsedData}
-              delimiter={delimiter}
+              parseError={parseError}
               onFileChange={handleFileChange}
+              onSheetChange={handleSheetChange}
               onNext={handleNextFromStep1}
             />
           )}
@@ -862,19 +1612,29 @@ export default function UploadPage() {
             <ColumnMappingStep
               parsedData={parsedData}
               file={file}
-              delimiter={delimiter}
               mappings={mappings}
               onMappingsChange={setMappings}
+              templateId={templateId}
+              onTemplateChange={setTemplateId}
               onBack={handleBackToStep1}
-              onImport={handleImport}
+              onImport={handleValidate}
               importing={importing}
               campaignId={campaignId ?? ""}
             />
           )}
 
-          {step === 3 && importResult && (
-            <ImportResultsStep
-              result={importResult}
+          {step === 3 && (
+            <ValidationStep
+              jobId={jobId}
+              startError={startError}
+              onBack={handleBackToMapping}
+              onStarted={() => setStep(4)}
+            />
+          )}
+
+          {step === 4 && (
+            <ImportJobStep
+              jobId={jobId}
               campaignId={campaignId ?? ""}
               onImportMore={handleImportMore}
             />
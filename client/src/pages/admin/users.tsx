@@ -25,17 +25,28 @@ import {
   Shield, 
   User as UserIcon,
   Search,
-  Users
+  Users,
+  Gavel,
+  AlertTriangle
 } from "lucide-react";
 import { useState } from "react";
-import type { User } from "@shared/schema";
+import type { GoldAccuracy, GoldAccuracyAlert, User } from "@shared/schema";
 import { format } from "date-fns";
 
 type UserWithStats = User & {
   voteCount?: number;
+  gold?: GoldAccuracy;
 };
 
-function UserRow({ user, onUpdate }: { user: UserWithStats; onUpdate: () => void }) {
+function UserRow({
+  user,
+  hasGoldAlert,
+  onUpdate,
+}: {
+  user: UserWithStats;
+  hasGoldAlert: boolean;
+  onUpdate: () => void;
+}) {
   const { toast } = useToast();
 
   const updateRoleMutation = useMutation({
@@ -69,6 +80,8 @@ function UserRow({ user, onUpdate }: { user: UserWithStats; onUpdate: () => void
         <Badge variant={user.role === "admin" ? "default" : "secondary"} data-testid={`badge-user-role-${user.id}`}>
           {user.role === "admin" ? (
             <><Shield className="w-3 h-3 mr-1" /> Admin</>
+          ) : user.role === "adjudicator" ? (
+            <><Gavel className="w-3 h-3 mr-1" /> Adjudicator</>
           ) : (
             <><UserIcon className="w-3 h-3 mr-1" /> Reviewer</>
           )}
@@ -77,6 +90,17 @@ function UserRow({ user, onUpdate }: { user: UserWithStats; onUpdate: () => void
       <TableCell className="font-mono text-sm" data-testid={`text-user-votes-${user.id}`}>
         {user.voteCount ?? 0}
       </TableCell>
+      <TableCell className="text-sm" data-testid={`text-user-gold-${user.id}`}>
+        {user.gold && user.gold.accuracy !== null ? (
+          <span className={`flex items-center gap-1 ${hasGoldAlert ? "text-destructive" : ""}`}>
+            {hasGoldAlert && <AlertTriangle className="w-3 h-3" />}
+            <span className="font-mono">{Math.round(user.gold.accuracy * 100)}%</span>
+            <span className="text-xs text-muted-foreground">({user.gold.correct}/{user.gold.answered})</span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">—</span>
+        )}
+      </TableCell>
       <TableCell className="text-sm text-muted-foreground">
         {user.lastActive ? format(new Date(user.lastActive), "MMM d, yyyy") : "Never"}
       </TableCell>
@@ -91,12 +115,19 @@ function UserRow({ user, onUpdate }: { user: UserWithStats; onUpdate: () => void
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            {user.role === "reviewer" ? (
+            {user.role !== "admin" && (
               <DropdownMenuItem onClick={() => updateRoleMutation.mutate("admin")}>
                 <Shield className="w-4 h-4 mr-2" />
                 Promote to Admin
               </DropdownMenuItem>
-            ) : (
+            )}
+            {user.role !== "adjudicator" && (
+              <DropdownMenuItem onClick={() => updateRoleMutation.mutate("adjudicator")}>
+                <Gavel className="w-4 h-4 mr-2" />
+                {user.role === "admin" ? "Change to Adjudicator" : "Make Adjudicator"}
+              </DropdownMenuItem>
+            )}
+            {user.role !== "reviewer" && (
               <DropdownMenuItem onClick={() => updateRoleMutation.mutate("reviewer")}>
                 <UserIcon className="w-4 h-4 mr-2" />
                 Demote to Reviewer
@@ -117,6 +148,12 @@ export default function AdminUsers() {
     queryKey: ["/api/users"],
   });
 
+  const { data: goldAlerts } = useQuery<GoldAccuracyAlert[]>({
+    queryKey: ["/api/admin/gold-alerts"],
+  });
+
+  const alertedUserIds = new Set((goldAlerts ?? []).map(alert => alert.userId));
+
   const handleRefresh = () => {
     queryClient.invalidateQueries({ queryKey: ["/api/users"] });
   };
@@ -183,6 +220,38 @@ export default function AdminUsers() {
           </Card>
         </div>
 
+        {/* Gold accuracy alerts */}
+        {goldAlerts && goldAlerts.length > 0 && (
+          <Card className="border-card-border border-destructive/50" data-testid="card-gold-alerts">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                Low Gold Accuracy
+              </CardTitle>
+              <CardDescription>
+                Reviewers below a campaign's gold accuracy threshold
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {goldAlerts.map((alert) => (
+                <div
+                  key={`${alert.campaignId}-${alert.userId}`}
+                  className="flex items-center justify-between gap-4 text-sm"
+                  data-testid={`row-gold-alert-${alert.campaignId}-${alert.userId}`}
+                >
+                  <span className="truncate">
+                    {alert.displayName || alert.email}
+                    <span className="text-muted-foreground"> · {alert.campaignName}</span>
+                  </span>
+                  <span className="font-mono text-destructive whitespace-nowrap">
+                    {Math.round(alert.accuracy * 100)}% of {alert.answered} (min {Math.round(alert.threshold * 100)}%)
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Search */}
         <div className="relative max-w-sm">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
@@ -212,6 +281,7 @@ export default function AdminUsers() {
                     <TableHead>User</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead>Votes</TableHead>
+                    <TableHead>Gold Accuracy</TableHead>
                     <TableHead>Last Active</TableHead>
                     <TableHead>Joined</TableHead>
                     <TableHead className="w-12"></TableHead>
@@ -219,7 +289,12 @@ export default function AdminUsers() {
                 </TableHeader>
                 <TableBody>
                   {filteredUsers.map((user) => (
-                    <UserRow key={user.id} user={user} onUpdate={handleRefresh} />
+                    <UserRow
+                      key={user.id}
+                      user={user}
+                      hasGoldAlert={alertedUserIds.has(user.id)}
+                      onUpdate={handleRefresh}
+                    />
                   ))}
                 </TableBody>
               </Table>
@@ -15,6 +15,7 @@ import {
 import { Link } from "wouter";
 import { useAuth } from "@/lib/auth";
 import type { CampaignWithStats, UserStats } from "@shared/schema";
+import { getPairTypeLabel } from "@shared/pairTypes";
 
 function CampaignCard({ campaign }: { campaign: CampaignWithStats }) {
   const progress = campaign.totalPairs > 0 
@@ -36,7 +37,7 @@ function CampaignCard({ campaign }: { campaign: CampaignWithStats }) {
       case "questionnaire_match": return "Match Validation";
       case "loinc_mapping": return "Mapping Review";
       case "custom": return "Custom";
-      default: return type.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+      default: return getPairTypeLabel(type);
     }
   };
 
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
@@ -32,9 +32,11 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { ToastAction } from "@/components/ui/toast";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CodeSearch, type ProposedCode } from "@/components/CodeSearch";
 import {
   ThumbsUp,
   ThumbsDown,
@@ -50,34 +52,40 @@ import {
   HelpCircle,
   FileText,
   Bot,
+  ListChecks,
+  Ban,
+  WifiOff,
+  RefreshCw,
+  Clock,
+  ChevronLeft,
+  ChevronRight,
+  History,
+  Undo2,
+  Inbox,
 } from "lucide-react";
-import type { Campaign, Pair } from "@shared/schema";
-
-type NextPairResponse = {
-  pair: Pair | null;
-  progress: {
-    reviewed: number;
-    total: number;
-  };
-  sessionStats: {
-    reviewCount: number;
-    streak: number;
-  };
-};
+import type { Campaign, Pair, PairCandidate, SkippedPair, Terminology, Vote } from "@shared/schema";
+import { getPairType, getTargetCodeSystem, getTargetCodeUrl } from "@shared/pairTypes";
+import type { ModelPredictionInput } from "@shared/modelPredictions";
+import type { OutboxResult } from "@shared/reviewOutbox";
+import type { ReviewSessionStats } from "@shared/reviewSessions";
+import { UNDO_WINDOW_MS } from "@shared/voteWithdrawals";
+import { SKIP_REASONS, SKIP_REASON_LABELS, type SkipReason } from "@shared/skipReasons";
+import { resolveRejectionReasons } from "@shared/rejectionReasons";
+import { useReviewQueue, type RecordResult, type ReviewPairView } from "@/hooks/use-review-queue";
+import { apiRequest } from "@/lib/queryClient";
 
-function LoincLink({ code, className }: { code: string; className?: string }) {
-  // Don't render as a link for special values like NO_MATCH
-  if (!code || code === "NO_MATCH" || code.startsWith("NO_")) {
+function CodeLink({ code, url, className }: { code: string; url: string | null; className?: string }) {
+  // Don't render as a link for special values like NO_MATCH or unlinkable code systems
+  if (!url) {
     return <span className={`font-mono ${className || ""}`}>{code}</span>;
   }
-  const loincUrl = `https://loinc.org/${code}`;
   return (
     <a 
-      href={loincUrl} 
+      href={url} 
       target="_blank" 
       rel="noopener noreferrer"
       className={`inline-flex items-center gap-1 text-primary hover:underline ${className || ""}`}
-      data-testid={`link-loinc-${code}`}
+      data-testid={`link-code-${code}`}
     >
       {code}
       <ExternalLink className="w-3 h-3" />
@@ -85,14 +93,14 @@ function LoincLink({ code, className }: { code: string; className?: string }) {
   );
 }
 
-type LoincAlternative = {
+type CodeAlternative = {
   code: string;
   name?: string;
   confidence?: number;
   vector_similarity?: number;
 };
 
-function parseTop5Loinc(value: unknown): LoincAlternative[] {
+function parseAlternatives(value: unknown): CodeAlternative[] {
   if (!value) return [];
   try {
     if (typeof value === "string") {
@@ -105,10 +113,10 @@ function parseTop5Loinc(value: unknown): LoincAlternative[] {
             return { code: item };
           }
           if (typeof item === "object" && item !== null && item.code) {
-            return item as LoincAlternative;
+            return item as CodeAlternative;
           }
           return null;
-        }).filter((item): item is LoincAlternative => item !== null);
+        }).filter((item): item is CodeAlternative => item !== null);
       }
     }
     if (Array.isArray(value)) {
@@ -117,10 +125,10 @@ function parseTop5Loinc(value: unknown): LoincAlternative[] {
           return { code: item };
         }
         if (typeof item === "object" && item !== null && (item as any).code) {
-          return item as LoincAlternative;
+          return item as CodeAlternative;
         }
         return null;
-      }).filter((item): item is LoincAlternative => item !== null);
+      }).filter((item): item is CodeAlternative => item !== null);
     }
   } catch {
     return [];
@@ -128,25 +136,41 @@ function parseTop5Loinc(value: unknown): LoincAlternative[] {
   return [];
 }
 
+// Metadata key holding ranked alternative target codes for a pair type
+function getAlternativesField(pairType: string): string {
+  return getPairType(pairType)?.alternativesField ?? "top_5_loinc";
+}
+
 function EntityCard({
   type,
+  pairType,
   text,
   dataset,
   id,
   metadata,
 }: {
   type: "source" | "target";
+  pairType: string;
   text: string;
   dataset: string;
   id: string;
   metadata?: Record<string, unknown> | null;
 }) {
-  const isLoinc = dataset.toUpperCase() === "LOINC";
-  const top5Loinc = parseTop5Loinc(metadata?.top_5_loinc);
+  const pairTypeDef = getPairType(pairType);
+  const alternativesField = getAlternativesField(pairType);
+  const isTarget = type === "target";
+  const codeUrl = (code: string) => isTarget ? getTargetCodeUrl({ pairType, targetDataset: dataset }, code) : null;
+  const alternatives = isTarget ? parseAlternatives(metadata?.[alternativesField]) : [];
   
-  // Filter out top_5_loinc from displayed metadata since we show it separately
-  const displayMetadata = metadata 
-    ? Object.entries(metadata).filter(([key]) => key !== "top_5_loinc").slice(0, 3)
+  // Show the pair type's configured metadata fields, otherwise the first few keys.
+  // Alternatives are filtered out since we show them separately.
+  const configuredFields = pairTypeDef?.metadataFields[type] ?? [];
+  const displayMetadata = metadata
+    ? configuredFields.length > 0
+      ? configuredFields
+          .filter((key) => metadata[key] !== undefined && metadata[key] !== null && metadata[key] !== "")
+          .map((key): [string, unknown] => [key, metadata[key]])
+      : Object.entries(metadata).filter(([key]) => key !== alternativesField).slice(0, 3)
     : [];
 
   return (
@@ -167,7 +191,7 @@ function EntityCard({
         </p>
         <div className="mt-4 pt-3 border-t border-border space-y-2">
           <p className="text-sm font-mono text-muted-foreground" data-testid={`text-entity-id-${type}`}>
-            ID: {isLoinc ? <LoincLink code={id} /> : id}
+            ID: {codeUrl(id) ? <CodeLink code={id} url={codeUrl(id)} /> : id}
           </p>
           {displayMetadata.length > 0 && (
             <div className="flex flex-wrap gap-1">
@@ -178,13 +202,13 @@ function EntityCard({
               ))}
             </div>
           )}
-          {top5Loinc.length > 0 && (
+          {alternatives.length > 0 && (
             <div className="pt-2">
               <p className="text-xs text-muted-foreground mb-1">Alternative suggestions:</p>
               <div className="flex flex-col gap-1">
-                {top5Loinc.map((alt) => (
+                {alternatives.map((alt) => (
                   <div key={alt.code} className="flex items-center gap-2 text-xs">
-                    <LoincLink code={alt.code} className="font-mono shrink-0" />
+                    <CodeLink code={alt.code} url={codeUrl(alt.code)} className="font-mono shrink-0" />
                     {alt.name && (
                       <span className="text-muted-foreground truncate">{alt.name}</span>
                     )}
@@ -238,7 +262,127 @@ function ConfidenceIndicator({ confidence, model }: { confidence: number | null;
   );
 }
 
-function KeyboardShortcuts({ isNumericMode }: { isNumericMode: boolean }) {
+function PredictionCard({ prediction }: { prediction: ModelPredictionInput }) {
+  return (
+    <div className="rounded-md border border-border p-3 space-y-2" data-testid={`card-prediction-${prediction.model}`}>
+      <p className="text-sm font-medium text-foreground truncate">{prediction.model}</p>
+      {prediction.confidence !== null && (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${
+                prediction.confidence >= 0.8 ? "bg-green-500" :
+                prediction.confidence >= 0.6 ? "bg-yellow-500" : "bg-red-500"
+              }`}
+              style={{ width: `${prediction.confidence * 100}%` }}
+            />
+          </div>
+          <span className="font-mono text-xs">{(prediction.confidence * 100).toFixed(0)}%</span>
+        </div>
+      )}
+      {prediction.reasoning && (
+        <div className="text-sm text-muted-foreground whitespace-pre-wrap bg-muted/50 rounded-md p-3">
+          {prediction.reasoning}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Ranked candidate targets to pick from, in place of the target card
+function CandidateListCard({
+  pairType,
+  dataset,
+  candidates,
+  selected,
+  showScores,
+  onToggle,
+}: {
+  pairType: string;
+  dataset: string;
+  candidates: PairCandidate[];
+  selected: string[];
+  showScores: boolean;
+  onToggle: (targetId: string) => void;
+}) {
+  const codeUrl = (code: string) => getTargetCodeUrl({ pairType, targetDataset: dataset }, code);
+
+  return (
+    <Card className="border-card-border h-full flex flex-col" data-testid="card-candidates">
+      <CardHeader className="pb-3 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs font-medium uppercase tracking-wide">
+            candidates
+          </Badge>
+          <span className="text-sm text-muted-foreground truncate">{dataset}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">Pick every candidate that matches the source, or none.</p>
+      </CardHeader>
+      <CardContent className="flex-1 space-y-1">
+        {candidates.map((candidate) => {
+          const isSelected = selected.includes(candidate.targetId);
+          return (
+            <label
+              key={candidate.id}
+              className={`flex items-start gap-3 p-2 rounded-md border cursor-pointer ${
+                isSelected ? "border-primary bg-primary/5" : "border-transparent hover:bg-muted/50"
+              }`}
+              data-testid={`candidate-${candidate.rank}`}
+            >
+              <Checkbox
+                checked={isSelected}
+                onCheckedChange={() => onToggle(candidate.targetId)}
+                className="mt-1"
+              />
+              <span className="text-xs font-mono text-muted-foreground mt-0.5 w-5 shrink-0">{candidate.rank}</span>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-foreground break-words">{candidate.targetText || candidate.targetId}</p>
+                <p className="text-xs font-mono text-muted-foreground">
+                  <CodeLink code={candidate.targetId} url={codeUrl(candidate.targetId)} />
+                </p>
+              </div>
+              {showScores && candidate.score !== null && (
+                <Badge variant="secondary" className="text-xs shrink-0">
+                  {(candidate.score * 100).toFixed(0)}%
+                </Badge>
+              )}
+            </label>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function KeyboardShortcuts({ isNumericMode, isCandidateList }: { isNumericMode: boolean; isCandidateList: boolean }) {
+  if (isCandidateList) {
+    return (
+      <div className="flex items-center justify-center gap-6 py-3 text-xs text-muted-foreground flex-wrap">
+        <div className="flex items-center gap-1.5">
+          <Keyboard className="w-3.5 h-3.5" />
+          <span>Keyboard shortcuts:</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">1-9</kbd>
+          <span>Toggle candidate</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">0</kbd>
+          <span>None of these</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">Enter</kbd>
+          <span>Submit selection</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">↓</kbd>
+          <span>Skip</span>
+        </div>
+        <HistoryShortcuts />
+      </div>
+    );
+  }
+
   if (isNumericMode) {
     return (
       <div className="flex items-center justify-center gap-6 py-3 text-xs text-muted-foreground flex-wrap">
@@ -256,6 +400,7 @@ function KeyboardShortcuts({ isNumericMode }: { isNumericMode: boolean }) {
           <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">↓</kbd>
           <span>Skip</span>
         </div>
+        <HistoryShortcuts />
       </div>
     );
   }
@@ -282,37 +427,230 @@ function KeyboardShortcuts({ isNumericMode }: { isNumericMode: boolean }) {
         <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">↓</kbd>
         <span>Skip</span>
       </div>
+      <HistoryShortcuts />
     </div>
   );
 }
 
-function SessionStats({ reviewCount, streak }: { reviewCount: number; streak: number }) {
+function HistoryShortcuts() {
+  return (
+    <>
+      <div className="flex items-center gap-1">
+        <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">[</kbd>
+        <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">]</kbd>
+        <span>Previous / next pair</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs font-mono">Ctrl+Z</kbd>
+        <span>Undo vote</span>
+      </div>
+    </>
+  );
+}
+
+// The form as the reviewer left it on a pair, or as a vote had it
+type VoteForm = {
+  expertSelection: ProposedCode | null;
+  reviewerNotes: string;
+  selectedCandidates: string[];
+  isNumericMode: boolean;
+  // Rejection reason IDs picked for a no_match vote
+  rejectionReasons: string[];
+};
+
+function voteForm(vote: Vote): VoteForm {
+  return {
+    expertSelection: vote.expertSelectedCode
+      ? { code: vote.expertSelectedCode, label: vote.expertSelectedLabel }
+      : null,
+    reviewerNotes: vote.reviewerNotes ?? "",
+    selectedCandidates: vote.selectedCandidates ?? [],
+    isNumericMode: vote.scoringMode === "numeric",
+    rejectionReasons: vote.rejectionReasons ?? [],
+  };
+}
+
+function describeVote(vote: Vote): string {
+  if (vote.selectedCandidates) {
+    const picked = vote.selectedCandidates.length;
+    return picked === 0 ? "None of the candidates" : `${picked} candidate${picked === 1 ? "" : "s"}`;
+  }
+  if (vote.scoringMode === "numeric") return `Score ${vote.scoreNumeric}`;
+  return vote.scoreBinary === "match" ? "Match" : vote.scoreBinary === "no_match" ? "No Match" : "Unsure";
+}
+
+// A pair from the review history, with the reviewer's vote on it
+type HistoryItem = ReviewPairView & { vote: Vote };
+
+// A vote as submitted from the page, with the pair and form it was cast on
+type VoteArgs = {
+  pairId: string;
+  view: ReviewPairView;
+  form: VoteForm;
+  scoreBinary: "match" | "no_match" | "unsure" | null;
+  scoreNumeric: number | null;
+  expertCode: string | null;
+  notes: string;
+  scoringMode: "binary" | "numeric";
+  candidates?: string[];
+  rejectionReasons: string[] | null;
+};
+
+// Shown in place of the queue while the reviewer revisits an earlier vote
+function HistoryBanner({
+  position,
+  total,
+  vote,
+  onWithdraw,
+  onReturn,
+  isBusy,
+}: {
+  position: number;
+  total: number;
+  vote: Vote;
+  onWithdraw: () => void;
+  onReturn: () => void;
+  isBusy: boolean;
+}) {
+  return (
+    <div
+      className="flex items-center justify-between gap-4 flex-wrap rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 p-3"
+      data-testid="banner-review-history"
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <History className="w-4 h-4 text-amber-600 dark:text-amber-400 shrink-0" />
+        <span>
+          Earlier vote {position} of {total} this session: you voted{" "}
+          <strong data-testid="text-history-vote">{describeVote(vote)}</strong>. Choose an answer to change it.
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onWithdraw}
+          disabled={isBusy}
+          data-testid="button-withdraw-vote"
+        >
+          <Undo2 className="w-4 h-4 mr-1" />
+          Withdraw Vote
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onReturn} disabled={isBusy} data-testid="button-history-return">
+          Back to Queue
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function formatSessionTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// The reviewer's server-side session on this campaign and their day streak
+function SessionStats({ stats }: { stats: ReviewSessionStats | undefined }) {
+  const reviewCount = stats?.reviewCount ?? 0;
+  const streak = stats?.streak ?? 0;
   return (
     <div className="flex items-center gap-4 text-sm text-muted-foreground">
       <div className="flex items-center gap-1.5">
         <CheckCircle2 className="w-4 h-4" />
         <span data-testid="text-session-reviews">{reviewCount} reviews</span>
       </div>
+      {stats?.sessionId && (
+        <div
+          className="flex items-center gap-1.5"
+          title={stats.medianReviewSeconds !== null ? `Median ${stats.medianReviewSeconds}s per pair` : undefined}
+        >
+          <Clock className="w-4 h-4" />
+          <span data-testid="text-session-time">{formatSessionTime(stats.activeSeconds)}</span>
+        </div>
+      )}
       {streak > 1 && (
-        <div className="flex items-center gap-1.5">
+        <div className="flex items-center gap-1.5" title={`Longest streak: ${stats?.longestStreak ?? streak} days`}>
           <Zap className="w-4 h-4 text-yellow-500" />
-          <span data-testid="text-session-streak">Streak: {streak}</span>
+          <span data-testid="text-session-streak">{streak}-day streak</span>
         </div>
       )}
     </div>
   );
 }
 
+// Connection state and votes waiting in the outbox
+function OutboxStatus({
+  online,
+  pendingCount,
+  isSyncing,
+  onSync,
+}: {
+  online: boolean;
+  pendingCount: number;
+  isSyncing: boolean;
+  onSync: () => void;
+}) {
+  if (online && pendingCount === 0) return null;
+  return (
+    <div className="flex items-center gap-2 text-sm" data-testid="outbox-status">
+      {!online && (
+        <Badge variant="outline" className="gap-1 text-amber-600 border-amber-500/40">
+          <WifiOff className="w-3 h-3" />
+          Offline
+        </Badge>
+      )}
+      {pendingCount > 0 && (
+        <>
+          <span className="text-muted-foreground" data-testid="text-outbox-pending">
+            {pendingCount} waiting to sync
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1"
+            onClick={onSync}
+            disabled={isSyncing}
+            data-testid="button-sync-outbox"
+          >
+            <RefreshCw className={`w-3 h-3 ${isSyncing ? "animate-spin" : ""}`} />
+            Sync now
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
 export default function ReviewPage() {
   const { id: campaignId } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   
-  const [sessionStats, setSessionStats] = useState({ reviewCount: 0, streak: 0 });
-  const [expertSelectedCode, setExpertSelectedCode] = useState<string | null>(null);
+  // Code the reviewer proposes instead of the target, with its official label
+  const [expertSelection, setExpertSelection] = useState<ProposedCode | null>(null);
   const [reviewerNotes, setReviewerNotes] = useState("");
   const [isNumericMode, setIsNumericMode] = useState(false);
+  // Target IDs picked on a candidate list
+  const [selectedCandidates, setSelectedCandidates] = useState<string[]>([]);
+  // Reasons picked in the vote dialog for a no_match vote
+  const [rejectionReasons, setRejectionReasons] = useState<string[]>([]);
+
+  // Earlier votes of the session being revisited, latest first; null while
+  // working through the queue
+  const [history, setHistory] = useState<{ items: HistoryItem[]; index: number; predictionsHidden: boolean } | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // The form on the queue's current pair, restored on returning from history
+  const liveFormRef = useRef<VoteForm | null>(null);
+  // The last vote cast, which can be undone until the window closes
+  const [lastVote, setLastVote] = useState<{ view: ReviewPairView; form: VoteForm; until: number } | null>(null);
+
+  const applyForm = useCallback((form: VoteForm) => {
+    setExpertSelection(form.expertSelection);
+    setReviewerNotes(form.reviewerNotes);
+    setSelectedCandidates(form.selectedCandidates);
+    setIsNumericMode(form.isNumericMode);
+    setRejectionReasons(form.rejectionReasons);
+  }, []);
 
   // Accordion panel state with localStorage persistence
   const [expandedPanels, setExpandedPanels] = useState<string[]>(() => {
@@ -329,6 +667,15 @@ export default function ReviewPage() {
     localStorage.setItem("review-expanded-panels", JSON.stringify(expandedPanels));
   }, [expandedPanels]);
 
+  // Reviewers can hide model predictions to judge pairs unanchored
+  const [hidePredictions, setHidePredictions] = useState(
+    () => localStorage.getItem("review-hide-predictions") === "true"
+  );
+
+  useEffect(() => {
+    localStorage.setItem("review-hide-predictions", String(hidePredictions));
+  }, [hidePredictions]);
+
   // Pending vote state for confirmation dialog
   const [pendingVote, setPendingVote] = useState<{
     type: 'binary';
@@ -336,80 +683,311 @@ export default function ReviewPage() {
   } | {
     type: 'numeric';
     value: number;
+  } | {
+    type: 'candidates';
+    value: string[];
   } | null>(null);
 
   const [pendingSkip, setPendingSkip] = useState(false);
+  // Optional reason picked in the skip dialog
+  const [skipReason, setSkipReason] = useState<SkipReason | null>(null);
 
   const { data: campaign } = useQuery<Campaign>({
     queryKey: [`/api/campaigns/${campaignId}`, "detail", campaignId],
     enabled: !!campaignId,
   });
 
-  const { 
-    data: pairData, 
-    isLoading: pairLoading, 
-    refetch: refetchPair,
-    isError: pairError,
-  } = useQuery<NextPairResponse>({
-    queryKey: [`/api/campaigns/${campaignId}/next-pair`, "next-pair", campaignId],
+  // The campaign's rejection reasons, offered when voting no_match
+  const rejectionOptions = useMemo(
+    () => (campaign ? resolveRejectionReasons(campaign.rejectionReasons) : []),
+    [campaign]
+  );
+  const isRejectionPending = pendingVote?.type === "binary" && pendingVote.value === "no_match" && rejectionOptions.length > 0;
+
+  // Entries sent in the background, e.g. after the connection came back, only
+  // need attention when they did not count
+  const reportSynced = useCallback((results: OutboxResult[]) => {
+    const conflicts = results.filter((result) => result.status === "conflict").length;
+    const invalid = results.filter((result) => result.status === "invalid");
+    if (conflicts > 0) {
+      toast({
+        title: `${conflicts} offline ${conflicts === 1 ? "vote was" : "votes were"} not needed`,
+        description: "You had already voted on these pairs, e.g. in another tab. Your earlier votes were kept.",
+      });
+    }
+    if (invalid.length > 0) {
+      toast({
+        title: `${invalid.length} offline ${invalid.length === 1 ? "vote" : "votes"} could not be recorded`,
+        description: invalid[0].message ?? undefined,
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const reviewQueue = useReviewQueue(campaignId, { onSynced: reportSynced });
+  const queryClient = useQueryClient();
+
+  // Refreshed whenever a vote or skip reaches the server
+  const { data: sessionStats } = useQuery<ReviewSessionStats>({
+    queryKey: [`/api/campaigns/${campaignId}/review-session`],
     enabled: !!campaignId,
   });
+  const pairLoading = reviewQueue.isLoading;
+  const pairError = reviewQueue.isError;
+  const refetchPair = reviewQueue.retry;
+  const historyItem = history ? history.items[history.index] : null;
+  const pairData = history && historyItem
+    ? { ...historyItem, predictionsHidden: history.predictionsHidden }
+    : reviewQueue.current && {
+        ...reviewQueue.current,
+        predictionsHidden: reviewQueue.predictionsHidden,
+      };
+
+  // A revisited pair shows the vote as it was cast
+  useEffect(() => {
+    if (historyItem) applyForm(voteForm(historyItem.vote));
+  }, [historyItem, applyForm]);
+
+  // Once the queue runs out, pairs skipped earlier can be brought back
+  const caughtUp = !pairLoading && !pairData?.pair && reviewQueue.online;
+  const { data: skippedPairs = [] } = useQuery<(SkippedPair & { pair: Pair })[]>({
+    queryKey: [`/api/campaigns/${campaignId}/skipped`],
+    enabled: !!campaignId && caughtUp,
+  });
+
+  const unskipAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/campaigns/${campaignId}/skipped`, {});
+      const { restored }: { restored: number } = await res.json();
+      return restored;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaignId}/skipped`] });
+      reviewQueue.retry();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to bring back skipped pairs. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Code systems with an uploaded terminology can be searched for a better code
+  const { data: terminologies = [] } = useQuery<Terminology[]>({
+    queryKey: ["/api/terminologies"],
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (last: { view: ReviewPairView; form: VoteForm }) => {
+      await reviewQueue.withdraw(last.view, "undo");
+      return last;
+    },
+    onSuccess: (last) => {
+      // The pair is current again, with the form as it was voted
+      setHistory(null);
+      liveFormRef.current = null;
+      applyForm(last.form);
+      setLastVote(null);
+      toast({
+        title: "Vote undone",
+        description: "The pair is back for you to review.",
+        duration: 1500,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to undo the vote. You can still change it by going back to the pair.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUndo = useCallback(() => {
+    if (!lastVote || Date.now() > lastVote.until || undoMutation.isPending) return;
+    undoMutation.mutate(lastVote);
+  }, [lastVote, undoMutation]);
 
   const voteMutation = useMutation({
-    mutationFn: async ({ pairId, scoreBinary, scoreNumeric, expertCode, notes, scoringMode }: {
-      pairId: string;
-      scoreBinary: "match" | "no_match" | "unsure" | null;
-      scoreNumeric: number | null;
-      expertCode: string | null;
-      notes: string;
-      scoringMode: "binary" | "numeric";
-    }) => {
-      return apiRequest("POST", `/api/pairs/${pairId}/vote`, {
+    mutationFn: async ({ pairId, scoreBinary, scoreNumeric, expertCode, notes, scoringMode, candidates, rejectionReasons }: VoteArgs) => {
+      const result = await reviewQueue.record({
+        pairId,
+        action: "vote",
+        vote: {
+          scoreBinary,
+          scoreNumeric,
+          scoringMode,
+          expertSelectedCode: expertCode,
+          selectedCandidates: candidates ?? null,
+          reviewerNotes: notes || null,
+          rejectionReasons,
+        },
+      });
+      // A rejected vote (e.g. a proposed code the terminology does not have)
+      // comes back with the reason, and the pair stays up for correcting
+      if (result.status === "invalid") {
+        throw new Error(result.message ?? "Failed to submit vote. Please try again.");
+      }
+      return result;
+    },
+    onSuccess: (result: RecordResult, { view, form }: VoteArgs) => {
+      // Reset expert selection, candidate picks, reasons and notes for next pair
+      setExpertSelection(null);
+      setSelectedCandidates([]);
+      setRejectionReasons([]);
+      setReviewerNotes("");
+      if (result.status === "conflict") {
+        toast({
+          title: "Already voted",
+          description: "You had already voted on this pair, e.g. in another tab. Your earlier vote was kept.",
+        });
+        return;
+      }
+
+      setLastVote({ view, form, until: Date.now() + UNDO_WINDOW_MS });
+      toast({
+        ...(result.status === "queued"
+          ? { title: "Vote saved offline", description: "It will be sent when the connection is back." }
+          : { title: "Vote recorded", description: "Moving to next pair..." }),
+        duration: UNDO_WINDOW_MS,
+        action: (
+          <ToastAction altText="Undo vote" onClick={() => undoMutation.mutate({ view, form })} data-testid="button-undo-vote">
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to submit vote. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Changes a vote revisited from the history
+  const reviseMutation = useMutation({
+    mutationFn: async ({ pairId, scoreBinary, scoreNumeric, expertCode, notes, scoringMode, candidates, rejectionReasons }: VoteArgs) => {
+      const res = await apiRequest("PUT", `/api/pairs/${pairId}/vote`, {
         scoreBinary,
         scoreNumeric,
         scoringMode,
         expertSelectedCode: expertCode,
+        selectedCandidates: candidates ?? null,
         reviewerNotes: notes || null,
+        rejectionReasons,
       });
+      const vote: Vote = await res.json();
+      return vote;
     },
-    onSuccess: () => {
-      setSessionStats(prev => ({
-        reviewCount: prev.reviewCount + 1,
-        streak: prev.streak + 1,
-      }));
-      // Reset expert selection and notes for next pair
-      setExpertSelectedCode(null);
-      setReviewerNotes("");
+    onError: () => {
       toast({
-        title: "Vote recorded",
-        description: "Moving to next pair...",
+        title: "Error",
+        description: "Failed to change vote. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Withdraws a vote revisited from the history; the pair goes back to the
+  // front of the queue
+  const withdrawMutation = useMutation({
+    mutationFn: async ({ pair, predictions, candidates, vote }: HistoryItem) => {
+      await reviewQueue.withdraw({ pair, predictions, candidates }, "withdrawn");
+      return vote;
+    },
+    onSuccess: (vote) => {
+      setHistory(null);
+      liveFormRef.current = null;
+      applyForm(voteForm(vote));
+      setLastVote(null);
+      toast({
+        title: "Vote withdrawn",
+        description: "The pair is back in your queue.",
         duration: 1500,
       });
-      refetchPair();
-      queryClient.invalidateQueries({ queryKey: ["/api/users/me/stats"] });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to submit vote. Please try again.",
+        description: "Failed to withdraw vote. Please try again.",
         variant: "destructive",
       });
     },
   });
 
+  const returnToQueue = useCallback(() => {
+    setHistory(null);
+    if (liveFormRef.current) applyForm(liveFormRef.current);
+    liveFormRef.current = null;
+  }, [applyForm]);
+
+  // Steps back through the session's votes, loading them on the first step
+  const goBack = useCallback(async () => {
+    if (history) {
+      if (history.index < history.items.length - 1) setHistory({ ...history, index: history.index + 1 });
+      return;
+    }
+    if (isLoadingHistory || !campaignId) return;
+    setIsLoadingHistory(true);
+    try {
+      // Votes still in the outbox are only in the history once sent
+      if (reviewQueue.pendingCount > 0 && (await reviewQueue.sync()) === null) {
+        toast({
+          title: "You're offline",
+          description: "Going back to earlier pairs needs a connection. Your votes are saved on this device.",
+        });
+        return;
+      }
+      const res = await apiRequest("GET", `/api/campaigns/${campaignId}/review-history`);
+      const { items, predictionsHidden }: { items: HistoryItem[]; predictionsHidden: boolean } = await res.json();
+      if (items.length === 0) {
+        toast({
+          title: "No earlier votes",
+          description: "You haven't voted on any pairs in this session yet.",
+          duration: 1500,
+        });
+        return;
+      }
+      liveFormRef.current = { expertSelection, reviewerNotes, selectedCandidates, isNumericMode, rejectionReasons };
+      setHistory({ items, index: 0, predictionsHidden });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to load your earlier votes. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [history, isLoadingHistory, campaignId, reviewQueue, toast, expertSelection, reviewerNotes, selectedCandidates, isNumericMode, rejectionReasons]);
+
+  const goForward = useCallback(() => {
+    if (!history) return;
+    if (history.index === 0) {
+      returnToQueue();
+    } else {
+      setHistory({ ...history, index: history.index - 1 });
+    }
+  }, [history, returnToQueue]);
+
   const skipMutation = useMutation({
-    mutationFn: async (pairId: string) => {
-      return apiRequest("POST", `/api/pairs/${pairId}/skip`, {});
+    mutationFn: async ({ pairId, reason }: { pairId: string; reason: SkipReason | null }) => {
+      const result = await reviewQueue.record({ pairId, action: "skip", reason });
+      if (result.status === "invalid") {
+        throw new Error(result.message ?? "Failed to skip pair. Please try again.");
+      }
+      return result;
     },
     onSuccess: () => {
-      setSessionStats(prev => ({
-        ...prev,
-        streak: 0,
-      }));
-      // Reset expert selection and notes for next pair
-      setExpertSelectedCode(null);
+      // Reset expert selection, candidate picks, reasons and notes for next pair
+      setExpertSelection(null);
+      setSelectedCandidates([]);
+      setRejectionReasons([]);
       setReviewerNotes("");
-      refetchPair();
     },
     onError: () => {
       toast({
@@ -432,43 +1010,85 @@ export default function ReviewPage() {
     }
   }, [pairData?.pair]);
 
-  const handleSkip = useCallback(() => {
+  const toggleCandidate = useCallback((targetId: string) => {
+    setSelectedCandidates((prev) =>
+      prev.includes(targetId) ? prev.filter((id) => id !== targetId) : [...prev, targetId]
+    );
+  }, []);
+
+  const toggleRejectionReason = useCallback((id: string) => {
+    setRejectionReasons((prev) => (prev.includes(id) ? prev.filter((reason) => reason !== id) : [...prev, id]));
+  }, []);
+
+  // An empty selection records that none of the candidates is right
+  const handleCandidateVote = useCallback((selected: string[]) => {
     if (pairData?.pair) {
-      setPendingSkip(true);
+      setPendingVote({ type: 'candidates', value: selected });
     }
   }, [pairData?.pair]);
 
+  // Pairs revisited from the history were voted on, not skipped
+  const handleSkip = useCallback(() => {
+    if (pairData?.pair && !historyItem) {
+      setSkipReason(null);
+      setPendingSkip(true);
+    }
+  }, [pairData?.pair, historyItem]);
+
   // Confirmation handlers that execute the actual mutations
   const confirmVote = useCallback(() => {
     if (!pendingVote || !pairData?.pair) return;
 
-    if (pendingVote.type === 'binary') {
-      voteMutation.mutate({
-        pairId: pairData.pair.id,
-        scoreBinary: pendingVote.value,
-        scoreNumeric: null,
-        scoringMode: "binary",
-        expertCode: expertSelectedCode,
-        notes: reviewerNotes,
+    const base = {
+      pairId: pairData.pair.id,
+      view: { pair: pairData.pair, predictions: pairData.predictions, candidates: pairData.candidates },
+      form: { expertSelection, reviewerNotes, selectedCandidates, isNumericMode, rejectionReasons },
+      notes: reviewerNotes,
+      rejectionReasons: null,
+    };
+    const args: VoteArgs = pendingVote.type === 'candidates'
+      ? { ...base, scoreBinary: null, scoreNumeric: null, scoringMode: "binary", expertCode: null, candidates: pendingVote.value }
+      : pendingVote.type === 'binary'
+        ? {
+            ...base,
+            scoreBinary: pendingVote.value,
+            scoreNumeric: null,
+            scoringMode: "binary",
+            expertCode: expertSelection?.code ?? null,
+            // Reasons removed from the campaign since the vote was cast are dropped
+            rejectionReasons: isRejectionPending
+              ? rejectionReasons.filter((id) => rejectionOptions.some((option) => option.id === id))
+              : null,
+          }
+        : { ...base, scoreBinary: null, scoreNumeric: pendingVote.value, scoringMode: "numeric", expertCode: expertSelection?.code ?? null };
+
+    if (history) {
+      // A changed earlier vote moves on to the next pair of the history
+      reviseMutation.mutate(args, {
+        onSuccess: (vote) => {
+          toast({ title: "Vote changed", duration: 1500 });
+          if (history.index === 0) {
+            returnToQueue();
+            return;
+          }
+          setHistory((current) => current && {
+            ...current,
+            index: current.index - 1,
+            items: current.items.map((item) => (item.pair.id === vote.pairId ? { ...item, vote } : item)),
+          });
+        },
       });
     } else {
-      voteMutation.mutate({
-        pairId: pairData.pair.id,
-        scoreBinary: null,
-        scoreNumeric: pendingVote.value,
-        scoringMode: "numeric",
-        expertCode: expertSelectedCode,
-        notes: reviewerNotes,
-      });
+      voteMutation.mutate(args);
     }
     setPendingVote(null);
-  }, [pendingVote, pairData?.pair, voteMutation, expertSelectedCode, reviewerNotes]);
+  }, [pendingVote, pairData, history, voteMutation, reviseMutation, returnToQueue, toast, expertSelection, reviewerNotes, selectedCandidates, isNumericMode, rejectionReasons, rejectionOptions, isRejectionPending]);
 
   const confirmSkip = useCallback(() => {
     if (!pairData?.pair) return;
-    skipMutation.mutate(pairData.pair.id);
+    skipMutation.mutate({ pairId: pairData.pair.id, reason: skipReason });
     setPendingSkip(false);
-  }, [pairData?.pair, skipMutation]);
+  }, [pairData?.pair, skipMutation, skipReason]);
 
   const cancelPendingAction = useCallback(() => {
     setPendingVote(null);
@@ -490,6 +1110,17 @@ export default function ReviewPage() {
           cancelPendingAction();
           return;
         }
+        // Number keys pick a skip reason, or the reasons for a no_match vote
+        const index = parseInt(e.key) - 1;
+        const reason = pendingSkip ? SKIP_REASONS[index] : undefined;
+        const rejection = isRejectionPending ? rejectionOptions[index] : undefined;
+        if (reason) {
+          e.preventDefault();
+          setSkipReason((current) => (current === reason ? null : reason));
+        } else if (rejection) {
+          e.preventDefault();
+          toggleRejectionReason(rejection.id);
+        }
         return; // Block all other shortcuts while dialog is open
       }
 
@@ -499,9 +1130,46 @@ export default function ReviewPage() {
         return;
       }
 
-      if (voteMutation.isPending || skipMutation.isPending || !pairData?.pair) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        handleUndo();
+        return;
+      }
+      if (e.key === "[") {
+        e.preventDefault();
+        goBack();
+        return;
+      }
+      if (e.key === "]") {
+        e.preventDefault();
+        goForward();
+        return;
+      }
 
-      if (isNumericMode) {
+      if (voteMutation.isPending || skipMutation.isPending || reviseMutation.isPending || !pairData?.pair) return;
+
+      if (pairData.candidates.length > 0) {
+        // Candidate list: number keys toggle candidates by rank
+        const numKey = parseInt(e.key);
+        if (numKey >= 1 && numKey <= 9) {
+          const candidate = pairData.candidates.find((c) => c.rank === numKey);
+          if (candidate) {
+            e.preventDefault();
+            toggleCandidate(candidate.targetId);
+          }
+          return;
+        }
+        if (e.key === "0") {
+          e.preventDefault();
+          handleCandidateVote([]);
+          return;
+        }
+        if (e.key === "Enter" && selectedCandidates.length > 0) {
+          e.preventDefault();
+          handleCandidateVote(selectedCandidates);
+          return;
+        }
+      } else if (isNumericMode) {
         // Numeric mode: 1-5 keys for scoring
         const numKey = parseInt(e.key);
         if (numKey >= 1 && numKey <= 5) {
@@ -535,13 +1203,20 @@ export default function ReviewPage() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [handleBinaryVote, handleNumericVote, handleSkip, voteMutation.isPending, skipMutation.isPending, pairData?.pair, isNumericMode, pendingVote, pendingSkip, confirmVote, confirmSkip, cancelPendingAction]);
+  }, [handleBinaryVote, handleNumericVote, handleCandidateVote, toggleCandidate, handleSkip, handleUndo, goBack, goForward, voteMutation.isPending, skipMutation.isPending, reviseMutation.isPending, pairData?.pair, pairData?.candidates, selectedCandidates, isNumericMode, pendingVote, pendingSkip, confirmVote, confirmSkip, cancelPendingAction, isRejectionPending, rejectionOptions, toggleRejectionReason]);
 
-  const progress = pairData?.progress 
-    ? Math.round((pairData.progress.reviewed / Math.max(pairData.progress.total, 1)) * 100)
+  const progress = reviewQueue.progress 
+    ? Math.round((reviewQueue.progress.reviewed / Math.max(reviewQueue.progress.total, 1)) * 100)
     : 0;
 
-  const isSubmitting = voteMutation.isPending || skipMutation.isPending;
+  const isSubmitting = voteMutation.isPending || skipMutation.isPending || reviseMutation.isPending
+    || withdrawMutation.isPending || undoMutation.isPending;
+  const isCandidateList = (pairData?.candidates.length ?? 0) > 0;
+  const pairCodeSystem = pairData?.pair ? getTargetCodeSystem(pairData.pair) : null;
+  const searchableCodeSystem = terminologies.some((t) => t.codeSystem === pairCodeSystem) ? pairCodeSystem : null;
+  const alternatives = pairData?.pair
+    ? parseAlternatives((pairData.pair.targetMetadata as Record<string, unknown> | null)?.[getAlternativesField(pairData.pair.pairType)])
+    : [];
 
   if (pairError) {
     return (
@@ -584,26 +1259,91 @@ export default function ReviewPage() {
               </h1>
               <div className="flex items-center gap-2 mt-0.5">
                 <span className="text-sm text-muted-foreground" data-testid="text-progress">
-                  Progress: {pairData?.progress?.reviewed || 0}/{pairData?.progress?.total || 0} pairs
+                  Progress: {reviewQueue.progress?.reviewed || 0}/{reviewQueue.progress?.total || 0} pairs
                 </span>
                 <span className="text-sm text-muted-foreground" data-testid="text-progress-percent">({progress}%)</span>
               </div>
             </div>
           </div>
-          <SessionStats 
-            reviewCount={sessionStats.reviewCount} 
-            streak={sessionStats.streak} 
-          />
+          <div className="flex items-center gap-4 flex-wrap">
+            <OutboxStatus
+              online={reviewQueue.online}
+              pendingCount={reviewQueue.pendingCount}
+              isSyncing={reviewQueue.isSyncing}
+              onSync={() => reviewQueue.sync()}
+            />
+            <SessionStats stats={sessionStats} />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1.5 text-muted-foreground"
+              onClick={() => setLocation(`/review/${campaignId}/skipped`)}
+              data-testid="button-skipped-pairs"
+            >
+              <Inbox className="w-4 h-4" />
+              Skipped
+            </Button>
+          </div>
         </div>
 
         {/* Progress bar */}
         <Progress value={progress} className="h-2" />
 
+        {/* Going back through the session's votes */}
+        {!pairLoading && (
+          <div className="flex items-center justify-between gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1 text-muted-foreground"
+              onClick={goBack}
+              disabled={
+                isLoadingHistory || isSubmitting || (history
+                  ? history.index >= history.items.length - 1
+                  : !sessionStats?.reviewCount && reviewQueue.pendingCount === 0)
+              }
+              data-testid="button-history-back"
+            >
+              {isLoadingHistory ? <Loader2 className="w-4 h-4 animate-spin" /> : <ChevronLeft className="w-4 h-4" />}
+              Previous
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-1 text-muted-foreground"
+              onClick={goForward}
+              disabled={!history || isSubmitting}
+              data-testid="button-history-forward"
+            >
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
         {pairLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <Skeleton className="h-64" />
             <Skeleton className="h-64" />
           </div>
+        ) : !pairData?.pair && !reviewQueue.online ? (
+          <Card className="border-card-border">
+            <CardContent className="flex flex-col items-center py-16">
+              <div className="p-4 rounded-full bg-muted mb-4">
+                <WifiOff className="w-10 h-10 text-muted-foreground" />
+              </div>
+              <h2 className="text-xl font-semibold text-foreground mb-2">
+                You're Offline
+              </h2>
+              <p className="text-muted-foreground text-center max-w-md mb-6">
+                You've reviewed every pair loaded before the connection dropped. Your votes are saved on this
+                device and will be sent, and more pairs loaded, when you're back online.
+              </p>
+              <Button onClick={() => refetchPair()} data-testid="button-retry-offline">
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
         ) : !pairData?.pair ? (
           <Card className="border-card-border">
             <CardContent className="flex flex-col items-center py-16">
@@ -615,31 +1355,73 @@ export default function ReviewPage() {
               </h2>
               <p className="text-muted-foreground text-center max-w-md mb-6">
                 You've reviewed all available pairs in this campaign. 
-                Check back later for more or explore other campaigns.
+                {skippedPairs.length > 0
+                  ? ` You skipped ${skippedPairs.length} ${skippedPairs.length === 1 ? "pair" : "pairs"} along the way.`
+                  : " Check back later for more or explore other campaigns."}
               </p>
-              <Button onClick={() => setLocation("/")} data-testid="button-back-to-campaigns">
-                Back to Campaigns
-              </Button>
+              <div className="flex items-center gap-2 flex-wrap justify-center">
+                {skippedPairs.length > 0 && (
+                  <Button
+                    onClick={() => unskipAllMutation.mutate()}
+                    disabled={unskipAllMutation.isPending}
+                    data-testid="button-review-skipped"
+                  >
+                    {unskipAllMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Review Skipped Pairs
+                  </Button>
+                )}
+                <Button
+                  variant={skippedPairs.length > 0 ? "outline" : "default"}
+                  onClick={() => setLocation("/")}
+                  data-testid="button-back-to-campaigns"
+                >
+                  Back to Campaigns
+                </Button>
+              </div>
             </CardContent>
           </Card>
         ) : (
           <>
+            {history && historyItem && (
+              <HistoryBanner
+                position={history.index + 1}
+                total={history.items.length}
+                vote={historyItem.vote}
+                onWithdraw={() => withdrawMutation.mutate(historyItem)}
+                onReturn={returnToQueue}
+                isBusy={isSubmitting}
+              />
+            )}
+
             {/* Entity comparison */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <EntityCard
                 type="source"
+                pairType={pairData.pair.pairType}
                 text={pairData.pair.sourceText}
                 dataset={pairData.pair.sourceDataset}
                 id={pairData.pair.sourceId}
                 metadata={pairData.pair.sourceMetadata as Record<string, unknown> | null}
               />
-              <EntityCard
-                type="target"
-                text={pairData.pair.targetText}
-                dataset={pairData.pair.targetDataset}
-                id={pairData.pair.targetId}
-                metadata={pairData.pair.targetMetadata as Record<string, unknown> | null}
-              />
+              {isCandidateList ? (
+                <CandidateListCard
+                  pairType={pairData.pair.pairType}
+                  dataset={pairData.pair.targetDataset}
+                  candidates={pairData.candidates}
+                  selected={selectedCandidates}
+                  showScores={!hidePredictions}
+                  onToggle={toggleCandidate}
+                />
+              ) : (
+                <EntityCard
+                  type="target"
+                  pairType={pairData.pair.pairType}
+                  text={pairData.pair.targetText}
+                  dataset={pairData.pair.targetDataset}
+                  id={pairData.pair.targetId}
+                  metadata={pairData.pair.targetMetadata as Record<string, unknown> | null}
+                />
+              )}
             </div>
 
             {/* Collapsible context panels */}
@@ -666,13 +1448,17 @@ export default function ReviewPage() {
                 </AccordionItem>
               )}
 
-              {/* LLM Reasoning Panel */}
-              {(pairData.pair.llmReasoning || pairData.pair.llmConfidence !== null) && (
+              {/* Model Predictions Panel */}
+              {!hidePredictions && pairData.predictions.length > 0 && (
                 <AccordionItem value="llm-reasoning" className="border rounded-lg px-4">
                   <AccordionTrigger className="hover:no-underline py-3">
                     <div className="flex items-center gap-2 text-sm font-medium">
                       <Bot className="w-4 h-4 text-muted-foreground" />
-                      <span>LLM Reasoning</span>
+                      <span>
+                        {pairData.predictions.length > 1
+                          ? `Model Predictions (${pairData.predictions.length})`
+                          : "LLM Reasoning"}
+                      </span>
                       {!expandedPanels.includes("llm-reasoning") && (
                         <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 font-normal ml-2">
                           <AlertTriangle className="w-3 h-3" />
@@ -690,78 +1476,99 @@ export default function ReviewPage() {
                       </p>
                     </div>
 
-                    {pairData.pair.llmConfidence !== null && (
-                      <div className="flex items-center gap-3 text-sm">
-                        <span className="text-muted-foreground">Confidence:</span>
-                        <div className="flex items-center gap-2">
-                          <div className="w-24 h-2 bg-muted rounded-full overflow-hidden">
-                            <div
-                              className={`h-full transition-all ${
-                                pairData.pair.llmConfidence >= 0.8 ? "bg-green-500" :
-                                pairData.pair.llmConfidence >= 0.6 ? "bg-yellow-500" : "bg-red-500"
-                              }`}
-                              style={{ width: `${pairData.pair.llmConfidence * 100}%` }}
-                            />
-                          </div>
-                          <span className="font-mono text-xs">
-                            {(pairData.pair.llmConfidence * 100).toFixed(0)}%
-                          </span>
-                        </div>
-                        {pairData.pair.llmModel && (
-                          <span className="text-xs text-muted-foreground">
-                            ({pairData.pair.llmModel})
-                          </span>
-                        )}
-                      </div>
-                    )}
-
-                    {pairData.pair.llmReasoning && (
-                      <div className="text-sm text-muted-foreground whitespace-pre-wrap bg-muted/50 rounded-md p-3">
-                        {pairData.pair.llmReasoning}
-                      </div>
-                    )}
+                    <div
+                      className={`grid grid-cols-1 gap-3 ${
+                        pairData.predictions.length > 2 ? "md:grid-cols-3" :
+                        pairData.predictions.length > 1 ? "md:grid-cols-2" : ""
+                      }`}
+                    >
+                      {pairData.predictions.map((prediction) => (
+                        <PredictionCard key={prediction.model} prediction={prediction} />
+                      ))}
+                    </div>
                   </AccordionContent>
                 </AccordionItem>
               )}
             </Accordion>
 
             {/* Confidence indicator */}
-            <ConfidenceIndicator
-              confidence={pairData.pair.llmConfidence}
-              model={pairData.pair.llmModel}
-            />
+            {!hidePredictions && (
+              <ConfidenceIndicator
+                confidence={pairData.pair.llmConfidence}
+                model={pairData.pair.llmModel}
+              />
+            )}
+
+            {pairData.predictionsHidden ? (
+              <p className="text-xs text-center text-muted-foreground" data-testid="text-predictions-hidden">
+                Model predictions are hidden for this campaign.
+              </p>
+            ) : pairData.predictions.length > 0 && (
+              <div className="flex items-center justify-center gap-2">
+                <Switch
+                  id="hide-predictions"
+                  checked={hidePredictions}
+                  onCheckedChange={setHidePredictions}
+                  data-testid="switch-hide-predictions"
+                />
+                <Label htmlFor="hide-predictions" className="text-sm text-muted-foreground">
+                  Hide model predictions
+                </Label>
+              </div>
+            )}
 
             {/* Expert selection and notes */}
             <Card className="border-card-border">
               <CardContent className="p-4 space-y-4">
-                {/* Expert alternative selection */}
-                <div className="space-y-2">
-                  <label className="text-sm font-medium text-foreground">
-                    Suggest alternative match (optional)
-                  </label>
-                  <Select
-                    value={expertSelectedCode || "none"}
-                    onValueChange={(value) => setExpertSelectedCode(value === "none" ? null : value)}
-                  >
-                    <SelectTrigger data-testid="select-expert-code">
-                      <SelectValue placeholder="Select from alternatives..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">None (use AI suggestion)</SelectItem>
-                      {parseTop5Loinc((pairData.pair.targetMetadata as Record<string, unknown> | null)?.top_5_loinc).map((alt) => (
-                        <SelectItem key={alt.code} value={alt.code}>
-                          <span className="flex items-center gap-2">
-                            <span className="font-mono">{alt.code}</span>
-                            {alt.name && <span className="text-muted-foreground text-xs truncate max-w-48">{alt.name}</span>}
-                          </span>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <p className="text-xs text-muted-foreground">
-                    If the AI's suggestion isn't correct, select a better match from the alternatives
-                  </p>
-                </div>
+                {/* Expert alternative selection (a candidate list replaces it) */}
+                {!isCandidateList && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-foreground">
+                      Suggest alternative match (optional)
+                    </label>
+                    {searchableCodeSystem ? (
+                      <>
+                        <CodeSearch
+                          codeSystem={searchableCodeSystem}
+                          value={expertSelection}
+                          onChange={setExpertSelection}
+                          suggestions={alternatives.map((alt) => ({ code: alt.code, label: alt.name ?? null }))}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          If the AI's suggestion isn't correct, search {searchableCodeSystem} for a better match
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <Select
+                          value={expertSelection?.code || "none"}
+                          onValueChange={(value) => {
+                            const alt = alternatives.find((a) => a.code === value);
+                            setExpertSelection(alt ? { code: alt.code, label: alt.name ?? null } : null);
+                          }}
+                        >
+                          <SelectTrigger data-testid="select-expert-code">
+                            <SelectValue placeholder="Select from alternatives..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None (use AI suggestion)</SelectItem>
+                            {alternatives.map((alt) => (
+                              <SelectItem key={alt.code} value={alt.code}>
+                                <span className="flex items-center gap-2">
+                                  <span className="font-mono">{alt.code}</span>
+                                  {alt.name && <span className="text-muted-foreground text-xs truncate max-w-48">{alt.name}</span>}
+                                </span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          If the AI's suggestion isn't correct, select a better match from the alternatives
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
 
                 {/* Notes field */}
                 <div className="space-y-2">
@@ -787,24 +1594,58 @@ export default function ReviewPage() {
             <Separator />
 
             {/* Scoring mode toggle */}
-            <div className="flex items-center justify-center gap-4">
-              <Label htmlFor="scoring-mode" className="text-sm text-muted-foreground">
-                Binary Mode
-              </Label>
-              <Switch
-                id="scoring-mode"
-                checked={isNumericMode}
-                onCheckedChange={setIsNumericMode}
-                data-testid="switch-scoring-mode"
-              />
-              <Label htmlFor="scoring-mode" className="text-sm text-muted-foreground">
-                Numeric Mode (1-5)
-              </Label>
-            </div>
+            {!isCandidateList && (
+              <div className="flex items-center justify-center gap-4">
+                <Label htmlFor="scoring-mode" className="text-sm text-muted-foreground">
+                  Binary Mode
+                </Label>
+                <Switch
+                  id="scoring-mode"
+                  checked={isNumericMode}
+                  onCheckedChange={setIsNumericMode}
+                  data-testid="switch-scoring-mode"
+                />
+                <Label htmlFor="scoring-mode" className="text-sm text-muted-foreground">
+                  Numeric Mode (1-5)
+                </Label>
+              </div>
+            )}
 
             {/* Voting buttons */}
             <div className="space-y-4">
-              {isNumericMode ? (
+              {isCandidateList ? (
+                <div className="flex items-center justify-center gap-3 flex-wrap">
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    className="h-14 px-6 gap-2"
+                    onClick={() => handleCandidateVote([])}
+                    disabled={isSubmitting}
+                    data-testid="button-no-candidate"
+                  >
+                    {isSubmitting ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Ban className="w-5 h-5" />
+                    )}
+                    None of These
+                  </Button>
+                  <Button
+                    size="lg"
+                    className="h-14 px-6 gap-2"
+                    onClick={() => handleCandidateVote(selectedCandidates)}
+                    disabled={isSubmitting || selectedCandidates.length === 0}
+                    data-testid="button-submit-candidates"
+                  >
+                    {isSubmitting ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <ListChecks className="w-5 h-5" />
+                    )}
+                    Submit Selection ({selectedCandidates.length})
+                  </Button>
+                </div>
+              ) : isNumericMode ? (
                 <div className="space-y-3">
                   <div className="flex items-center justify-center gap-2">
                     {[1, 2, 3, 4, 5].map((score) => (
@@ -882,23 +1723,25 @@ export default function ReviewPage() {
                 </div>
               )}
 
-              <div className="flex justify-center">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="gap-2 text-muted-foreground"
-                  onClick={handleSkip}
-                  disabled={isSubmitting}
-                  data-testid="button-skip"
-                >
-                  <SkipForward className="w-4 h-4" />
-                  Skip
-                </Button>
-              </div>
+              {!historyItem && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2 text-muted-foreground"
+                    onClick={handleSkip}
+                    disabled={isSubmitting}
+                    data-testid="button-skip"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                    Skip
+                  </Button>
+                </div>
+              )}
             </div>
 
             {/* Keyboard shortcuts */}
-            <KeyboardShortcuts isNumericMode={isNumericMode} />
+            <KeyboardShortcuts isNumericMode={isNumericMode} isCandidateList={isCandidateList} />
           </>
         )}
       </div>
@@ -907,12 +1750,16 @@ export default function ReviewPage() {
       <AlertDialog open={!!pendingVote} onOpenChange={() => setPendingVote(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Confirm Vote</AlertDialogTitle>
+            <AlertDialogTitle>{historyItem ? "Change Vote" : "Confirm Vote"}</AlertDialogTitle>
             <AlertDialogDescription asChild>
               <div className="space-y-3">
                 <p>You are about to submit:</p>
                 <p className="text-2xl font-semibold text-center py-2">
-                  {pendingVote?.type === 'binary' ? (
+                  {pendingVote?.type === 'candidates' ? (
+                    pendingVote.value.length === 0
+                      ? '🚫 None of the candidates'
+                      : `✅ ${pendingVote.value.length} candidate${pendingVote.value.length === 1 ? '' : 's'}`
+                  ) : pendingVote?.type === 'binary' ? (
                     pendingVote.value === 'match' ? '👍 Match' :
                     pendingVote.value === 'no_match' ? '👎 No Match' : '🤷 Unsure'
                   ) : (
@@ -924,16 +1771,50 @@ export default function ReviewPage() {
                     }`
                   )}
                 </p>
+                {pendingVote?.type === 'candidates' && pendingVote.value.length > 0 && (
+                  <p className="text-sm text-muted-foreground font-mono text-center">
+                    {pendingVote.value.join(", ")}
+                  </p>
+                )}
+                {pendingVote?.type !== 'candidates' && expertSelection && (
+                  <p className="text-sm text-muted-foreground">
+                    <strong>Suggested code:</strong>{' '}
+                    <span className="font-mono">{expertSelection.code}</span>
+                    {expertSelection.label && ` (${expertSelection.label})`}
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground">
                   <strong>Notes:</strong> {reviewerNotes.trim() || 'No notes'}
                 </p>
               </div>
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {isRejectionPending && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Why doesn't it match? (optional)</p>
+              <div className="flex gap-2 flex-wrap">
+                {rejectionOptions.map((reason, index) => (
+                  <Button
+                    key={reason.id}
+                    type="button"
+                    size="sm"
+                    variant={rejectionReasons.includes(reason.id) ? "default" : "outline"}
+                    onClick={() => toggleRejectionReason(reason.id)}
+                    data-testid={`button-rejection-reason-${reason.id}`}
+                  >
+                    <kbd className="mr-1.5 font-mono text-xs opacity-70">{index + 1}</kbd>
+                    {reason.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmVote} disabled={voteMutation.isPending}>
-              {voteMutation.isPending ? 'Submitting...' : 'Submit Vote'}
+            <AlertDialogAction onClick={confirmVote} disabled={voteMutation.isPending || reviseMutation.isPending}>
+              {voteMutation.isPending || reviseMutation.isPending
+                ? 'Submitting...'
+                : historyItem ? 'Change Vote' : 'Submit Vote'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -945,9 +1826,27 @@ export default function ReviewPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Skip This Pair?</AlertDialogTitle>
             <AlertDialogDescription>
-              This pair will be removed from your queue. You can find it later in your skipped pairs if needed.
+              This pair will be removed from your queue. You can bring it back later from your skipped pairs.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Reason (optional)</p>
+            <div className="flex gap-2 flex-wrap">
+              {SKIP_REASONS.map((reason, index) => (
+                <Button
+                  key={reason}
+                  type="button"
+                  size="sm"
+                  variant={skipReason === reason ? "default" : "outline"}
+                  onClick={() => setSkipReason(skipReason === reason ? null : reason)}
+                  data-testid={`button-skip-reason-${reason}`}
+                >
+                  <kbd className="mr-1.5 font-mono text-xs opacity-70">{index + 1}</kbd>
+                  {SKIP_REASON_LABELS[reason]}
+                </Button>
+              ))}
+            </div>
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={confirmSkip} disabled={skipMutation.isPending}>
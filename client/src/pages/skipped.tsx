@@ -0,0 +1,212 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, AlertCircle, RotateCcw, Inbox } from "lucide-react";
+import type { Campaign, Pair, SkippedPair } from "@shared/schema";
+import { SKIP_REASON_LABELS } from "@shared/skipReasons";
+
+type SkippedPairWithPair = SkippedPair & { pair: Pair };
+
+function SkippedPairCard({
+  skipped,
+  onRestore,
+  isRestoring,
+}: {
+  skipped: SkippedPairWithPair;
+  onRestore: (pairId: string) => void;
+  isRestoring: boolean;
+}) {
+  return (
+    <Card className="border-card-border" data-testid={`card-skipped-${skipped.pairId}`}>
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-2">
+              {skipped.reason ? (
+                <Badge variant="secondary" data-testid={`badge-skip-reason-${skipped.pairId}`}>
+                  {SKIP_REASON_LABELS[skipped.reason]}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-muted-foreground">
+                  No reason given
+                </Badge>
+              )}
+              <span className="text-xs text-muted-foreground">
+                skipped {formatDistanceToNow(new Date(skipped.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Source</p>
+                <p className="text-sm line-clamp-2">{skipped.pair.sourceText}</p>
+                <p className="text-xs font-mono text-muted-foreground mt-1">{skipped.pair.sourceId}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Target</p>
+                <p className="text-sm line-clamp-2">{skipped.pair.targetText || "(No match)"}</p>
+                <p className="text-xs font-mono text-muted-foreground mt-1">{skipped.pair.targetId}</p>
+              </div>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRestore(skipped.pairId)}
+            disabled={isRestoring}
+            data-testid={`button-unskip-${skipped.pairId}`}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Un-skip
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SkippedPairsPage() {
+  const { id: campaignId } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: campaign } = useQuery<Campaign>({
+    queryKey: [`/api/campaigns/${campaignId}`, "detail", campaignId],
+    enabled: !!campaignId,
+  });
+
+  const { data: skipped, isLoading, isError } = useQuery<SkippedPairWithPair[]>({
+    queryKey: [`/api/campaigns/${campaignId}/skipped`],
+    enabled: !!campaignId,
+  });
+
+  // Without pairIds every skipped pair returns to the queue
+  const unskipMutation = useMutation({
+    mutationFn: async (pairIds?: string[]) => {
+      const res = await apiRequest("DELETE", `/api/campaigns/${campaignId}/skipped`, pairIds ? { pairIds } : {});
+      const { restored }: { restored: number } = await res.json();
+      return restored;
+    },
+    onSuccess: (restored, pairIds) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaignId}/skipped`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/campaigns/${campaignId}/review-session`] });
+      toast({
+        title: pairIds ? "Pair un-skipped" : `${restored} ${restored === 1 ? "pair" : "pairs"} un-skipped`,
+        description: "They will come up again in your review queue.",
+        duration: 1500,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to un-skip. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="max-w-4xl mx-auto p-6 space-y-6">
+          <div className="flex items-center gap-3">
+            <Skeleton className="h-10 w-10" />
+            <Skeleton className="h-8 w-48" />
+          </div>
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-32" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="max-w-md w-full border-card-border">
+          <CardContent className="flex flex-col items-center py-12">
+            <AlertCircle className="w-12 h-12 text-destructive mb-4" />
+            <h2 className="text-lg font-medium text-foreground mb-2">
+              Unable to Load Skipped Pairs
+            </h2>
+            <p className="text-sm text-muted-foreground text-center mb-4">
+              There was an error loading your skipped pairs. Please try again.
+            </p>
+            <Button onClick={() => setLocation(`/review/${campaignId}`)} data-testid="button-back">
+              Back to Review
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation(`/review/${campaignId}`)}
+              data-testid="button-back-review"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-xl font-semibold text-foreground">
+                Skipped Pairs
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {campaign?.name ? `${campaign.name} · ` : ""}{skipped?.length || 0} skipped
+              </p>
+            </div>
+          </div>
+          {skipped && skipped.length > 0 && (
+            <Button
+              onClick={() => unskipMutation.mutate(undefined)}
+              disabled={unskipMutation.isPending}
+              data-testid="button-unskip-all"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Un-skip All
+            </Button>
+          )}
+        </div>
+
+        {skipped && skipped.length === 0 ? (
+          <Card className="border-card-border">
+            <CardContent className="flex flex-col items-center py-12">
+              <Inbox className="w-10 h-10 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground mb-4">
+                You haven't skipped any pairs in this campaign.
+              </p>
+              <Button onClick={() => setLocation(`/review/${campaignId}`)} data-testid="button-continue-reviewing">
+                Continue Reviewing
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {skipped?.map((item) => (
+              <SkippedPairCard
+                key={item.id}
+                skipped={item}
+                onRestore={(pairId) => unskipMutation.mutate([pairId])}
+                isRestoring={unskipMutation.isPending}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -33,6 +33,7 @@ import {
   AlertCircle,
 } from "lucide-react";
 import type { Vote, Pair } from "@shared/schema";
+import { getTargetCodeUrl } from "@shared/pairTypes";
 
 type VoteWithPair = Vote & { pair: Pair };
 
@@ -53,7 +54,7 @@ function VoteCard({
   vote: VoteWithPair;
   onEdit: (vote: VoteWithPair) => void;
 }) {
-  const isLoinc = vote.pair.targetDataset?.toUpperCase() === "LOINC";
+  const targetUrl = getTargetCodeUrl(vote.pair, vote.pair.targetId);
 
   return (
     <Card className="border-card-border" data-testid={`card-vote-${vote.id}`}>
@@ -104,9 +105,9 @@ function VoteCard({
                 <p className="text-xs text-muted-foreground mb-1">Target</p>
                 <p className="text-sm line-clamp-2">{vote.pair.targetText || "(No match)"}</p>
                 <p className="text-xs font-mono text-muted-foreground mt-1">
-                  {isLoinc ? (
+                  {targetUrl ? (
                     <a
-                      href={`https://loinc.org/${vote.pair.targetId}`}
+                      href={targetUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center gap-1 text-primary hover:underline"
@@ -120,10 +121,20 @@ function VoteCard({
                 </p>
               </div>
             </div>
+            {vote.selectedCandidates && (
+              <div className="mt-2">
+                <Badge variant="outline" className="text-xs">
+                  {vote.selectedCandidates.length > 0
+                    ? `Picked: ${vote.selectedCandidates.join(", ")}`
+                    : "Picked: none of the candidates"}
+                </Badge>
+              </div>
+            )}
             {vote.expertSelectedCode && (
               <div className="mt-2">
                 <Badge variant="outline" className="text-xs">
                   Expert suggestion: {vote.expertSelectedCode}
+                  {vote.expertSelectedLabel && ` (${vote.expertSelectedLabel})`}
                 </Badge>
               </div>
             )}
@@ -182,6 +193,11 @@ function EditVoteDialog({
   const updateMutation = useMutation({
     mutationFn: async () => {
       if (!vote) return;
+      if (vote.selectedCandidates) {
+        return apiRequest("PATCH", `/api/pairs/${vote.pairId}/vote`, {
+          reviewerNotes: reviewerNotes || null,
+        });
+      }
       return apiRequest("PATCH", `/api/pairs/${vote.pairId}/vote`, {
         scoringMode,
         scoreBinary: scoringMode === "binary" ? scoreBinary : null,
@@ -229,23 +245,29 @@ function EditVoteDialog({
             </p>
           </div>
 
-          <div className="space-y-2">
-            <Label>Scoring Mode</Label>
-            <Select
-              value={scoringMode}
-              onValueChange={(v) => setScoringMode(v as "binary" | "numeric")}
-            >
-              <SelectTrigger data-testid="select-scoring-mode">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="binary">Binary (Yes/No)</SelectItem>
-                <SelectItem value="numeric">Numeric (1-5)</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+          {!vote.selectedCandidates && (
+            <div className="space-y-2">
+              <Label>Scoring Mode</Label>
+              <Select
+                value={scoringMode}
+                onValueChange={(v) => setScoringMode(v as "binary" | "numeric")}
+              >
+                <SelectTrigger data-testid="select-scoring-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="binary">Binary (Yes/No)</SelectItem>
+                  <SelectItem value="numeric">Numeric (1-5)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
 
-          {scoringMode === "binary" ? (
+          {vote.selectedCandidates ? (
+            <p className="text-sm text-muted-foreground">
+              This vote was cast on a candidate list, so its score follows from the candidates you picked. Only the notes can be edited.
+            </p>
+          ) : scoringMode === "binary" ? (
             <div className="space-y-2">
               <Label>Your Vote</Label>
               <div className="flex gap-2">
@@ -0,0 +1,84 @@
+// Assignment planner
+//
+// Spreads the remaining votes each pair needs across a fixed set of reviewers,
+// keeping per-reviewer queues as even as possible. Existing votes and open
+// assignments count toward a pair's quota, and reviewers who already voted on
+// or skipped a pair are never assigned it again.
+
+export type AssignmentPlannerInput = {
+  pairIds: string[];
+  reviewerIds: string[];
+  votesPerPair: number;
+  // pairId -> users who have voted on the pair (any reviewer, in or out of the plan)
+  voters: Map<string, Set<string>>;
+  // pairId -> users who skipped the pair
+  skippers: Map<string, Set<string>>;
+  // pairId -> users with an open (not yet voted) assignment for the pair
+  openAssignments: Map<string, Set<string>>;
+  // userId -> next free queue position
+  nextPosition: Map<string, number>;
+};
+
+export type PlannedAssignment = {
+  pairId: string;
+  userId: string;
+  position: number;
+};
+
+export type AssignmentPlannerResult = {
+  assignments: PlannedAssignment[];
+  // Votes that could not be assigned because too few eligible reviewers remain
+  unfilledSlots: number;
+};
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function planAssignments(input: AssignmentPlannerInput): AssignmentPlannerResult {
+  const { reviewerIds, votesPerPair, voters, skippers, openAssignments } = input;
+
+  // Current open workload per reviewer, used to keep queues balanced
+  const load = new Map<string, number>(reviewerIds.map((id) => [id, 0]));
+  openAssignments.forEach((userIds) => {
+    userIds.forEach((userId) => {
+      if (load.has(userId)) load.set(userId, load.get(userId)! + 1);
+    });
+  });
+
+  const nextPosition = new Map(input.nextPosition);
+  const assignments: PlannedAssignment[] = [];
+  let unfilledSlots = 0;
+
+  // Shuffle so each reviewer's queue order and overlap partners are spread randomly
+  for (const pairId of shuffle(input.pairIds)) {
+    const pairVoters = voters.get(pairId) ?? new Set<string>();
+    const pairSkippers = skippers.get(pairId) ?? new Set<string>();
+    const pairOpen = openAssignments.get(pairId) ?? new Set<string>();
+
+    const covered = new Set([...Array.from(pairVoters), ...Array.from(pairOpen)]).size;
+    const needed = votesPerPair - covered;
+    if (needed <= 0) continue;
+
+    const eligible = shuffle(
+      reviewerIds.filter((id) => !pairVoters.has(id) && !pairSkippers.has(id) && !pairOpen.has(id))
+    ).sort((a, b) => load.get(a)! - load.get(b)!);
+
+    const chosen = eligible.slice(0, needed);
+    unfilledSlots += needed - chosen.length;
+
+    for (const userId of chosen) {
+      const position = nextPosition.get(userId) ?? 0;
+      nextPosition.set(userId, position + 1);
+      load.set(userId, load.get(userId)! + 1);
+      assignments.push({ pairId, userId, position });
+    }
+  }
+
+  return { assignments, unfilledSlots };
+}
@@ -13,7 +13,7 @@ declare global {
       id: string;
       email: string;
       displayName: string;
-      role: "reviewer" | "admin";
+      role: "reviewer" | "admin" | "adjudicator";
       createdAt: Date;
       lastActive: Date;
     }
@@ -139,3 +139,14 @@ export const requireAdmin: RequestHandler = (req, res, next) => {
   }
   next();
 };
+
+// Adjudicators resolve disputed pairs; admins can always adjudicate
+export const requireAdjudicator: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (req.user?.role !== "admin" && req.user?.role !== "adjudicator") {
+    return res.status(403).json({ message: "Forbidden: Adjudicator access required" });
+  }
+  next();
+};
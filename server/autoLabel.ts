@@ -0,0 +1,87 @@
+// Auto-labelling
+//
+// Evaluates a campaign's auto-label rules against each pair's LLM confidence
+// and summarises how audited pairs were labelled by reviewers. Audit sampling
+// hashes the rule and pair ids instead of drawing random numbers, so
+// re-applying rules keeps the same sample and raising a rule's audit rate only
+// adds pairs to it.
+
+import {
+  AUTO_LABEL_MIN_AUDITED,
+  AUTO_LABEL_TARGET_AGREEMENT,
+  autoLabelFor,
+  describeAutoLabelRule,
+  ruleMatches,
+  type AutoLabelRule,
+  type AutoLabelRuleAudit,
+  type AutoLabelVerdict,
+} from "@shared/autoLabelRules";
+
+export type AutoLabelDecision = {
+  ruleId: string;
+  label: "match" | "no_match";
+  auditSampled: boolean;
+};
+
+// FNV-1a, scaled to [0, 1)
+function stableFraction(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+export function evaluateAutoLabel(
+  rules: AutoLabelRule[],
+  pair: { id: string; llmConfidence: number | null; llmModel: string | null }
+): AutoLabelDecision | null {
+  if (pair.llmConfidence === null) return null;
+  const rule = rules.find((r) => ruleMatches(r, pair.llmConfidence!, pair.llmModel || null));
+  if (!rule) return null;
+  return {
+    ruleId: rule.id,
+    label: autoLabelFor(rule.action),
+    auditSampled: stableFraction(`${rule.id}:${pair.id}`) < rule.auditRate,
+  };
+}
+
+function wilsonInterval(successes: number, n: number, z = 1.96): { lower: number; upper: number } | null {
+  if (n === 0) return null;
+  const p = successes / n;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) };
+}
+
+function auditVerdict(audited: number, interval: { lower: number; upper: number } | null): AutoLabelVerdict {
+  if (audited < AUTO_LABEL_MIN_AUDITED || !interval) return "insufficient";
+  if (interval.lower >= AUTO_LABEL_TARGET_AGREEMENT) return "safe";
+  if (interval.upper < AUTO_LABEL_TARGET_AGREEMENT) return "unsafe";
+  return "inconclusive";
+}
+
+// humanLabel is the pair's adjudicated or consensus label, when it has one
+export function summarizeRuleAudit(
+  rule: AutoLabelRule,
+  pairs: { machineLabel: "match" | "no_match"; auditSampled: boolean; humanLabel: "match" | "no_match" | null }[]
+): AutoLabelRuleAudit {
+  const sampled = pairs.filter((p) => p.auditSampled);
+  const audited = sampled.filter((p) => p.humanLabel !== null);
+  const agreed = audited.filter((p) => p.humanLabel === p.machineLabel).length;
+  const interval = wilsonInterval(agreed, audited.length);
+
+  return {
+    rule,
+    description: describeAutoLabelRule(rule),
+    labelledPairs: pairs.length,
+    auditSampled: sampled.length,
+    audited: audited.length,
+    agreed,
+    agreementRate: audited.length > 0 ? agreed / audited.length : null,
+    interval,
+    verdict: auditVerdict(audited.length, interval),
+  };
+}
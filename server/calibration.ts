@@ -0,0 +1,99 @@
+// LLM calibration
+//
+// Compares the confidence an upstream model gave each pair with the label
+// human review settled on. A well-calibrated model's 0.8 predictions turn out
+// to be matches about 80% of the time. Expected calibration error (ECE) is the
+// pair-weighted gap between mean confidence and observed match rate across
+// equal-width confidence bins; the Brier score is the mean squared error of
+// the confidence read as a match probability. Precision and recall treat
+// every pair at or above a threshold as an automatic match.
+
+import type { CalibrationBin, CalibrationThresholdMetrics, ModelCalibration } from "@shared/schema";
+
+export const DEFAULT_CALIBRATION_BINS = 10;
+export const DEFAULT_CALIBRATION_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+
+export type CalibrationPoint = {
+  confidence: number;
+  isMatch: boolean;
+};
+
+function buildBins(points: CalibrationPoint[], binCount: number): CalibrationBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    confidenceSum: 0,
+    matches: 0,
+  }));
+
+  for (const point of points) {
+    // Confidence 1.0 belongs in the top bin rather than one past it
+    const index = Math.min(binCount - 1, Math.floor(point.confidence * binCount));
+    const bin = bins[index];
+    bin.count++;
+    bin.confidenceSum += point.confidence;
+    if (point.isMatch) bin.matches++;
+  }
+
+  return bins.map((bin) => ({
+    lower: bin.lower,
+    upper: bin.upper,
+    count: bin.count,
+    meanConfidence: bin.count > 0 ? bin.confidenceSum / bin.count : null,
+    observedMatchRate: bin.count > 0 ? bin.matches / bin.count : null,
+  }));
+}
+
+function thresholdMetrics(points: CalibrationPoint[], threshold: number): CalibrationThresholdMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  for (const point of points) {
+    const predicted = point.confidence >= threshold;
+    if (predicted && point.isMatch) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (point.isMatch) falseNegatives++;
+  }
+
+  const predictedMatches = truePositives + falsePositives;
+  const actualMatches = truePositives + falseNegatives;
+  return {
+    threshold,
+    predictedMatches,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: predictedMatches > 0 ? truePositives / predictedMatches : null,
+    recall: actualMatches > 0 ? truePositives / actualMatches : null,
+    coverage: points.length > 0 ? predictedMatches / points.length : 0,
+  };
+}
+
+export function computeCalibration(
+  points: CalibrationPoint[],
+  options: { bins: number; thresholds: number[] }
+): ModelCalibration {
+  const bins = buildBins(points, options.bins);
+  const n = points.length;
+
+  let ece: number | null = null;
+  let brier: number | null = null;
+  if (n > 0) {
+    ece = bins.reduce(
+      (sum, bin) =>
+        bin.count > 0 ? sum + (bin.count / n) * Math.abs(bin.meanConfidence! - bin.observedMatchRate!) : sum,
+      0
+    );
+    brier = points.reduce((sum, p) => sum + (p.confidence - (p.isMatch ? 1 : 0)) ** 2, 0) / n;
+  }
+
+  return {
+    pairCount: n,
+    matchRate: n > 0 ? points.filter((p) => p.isMatch).length / n : null,
+    ece,
+    brier,
+    bins,
+    thresholds: options.thresholds.map((threshold) => thresholdMetrics(points, threshold)),
+  };
+}
@@ -0,0 +1,155 @@
+// Consensus evaluation
+//
+// Applies a campaign's consensus policy to its votes. Every place that labels
+// a pair (results browser, export, analytics, reviewer stats, adjudication
+// queue) goes through computeCampaignConsensus so they can never disagree.
+// Adjudicated decisions are binding and replace the vote-based label.
+
+import type { Vote, AdjudicationWithAdjudicator } from "@shared/schema";
+import type { ConsensusOutcome, ConsensusPolicy } from "@shared/consensusPolicy";
+
+export type ConsensusVote = Pick<Vote, "pairId" | "userId" | "scoreBinary" | "scoringMode">;
+
+// Reliability of a reviewer with nothing to compare yet: the Laplace prior
+export const PRIOR_RELIABILITY = 0.5;
+
+type Tally = {
+  matchWeight: number;
+  noMatchWeight: number;
+  totalWeight: number;
+  counted: number;
+};
+
+function tallyVotes(votes: ConsensusVote[], policy: ConsensusPolicy, weights?: Map<string, number>): Tally {
+  const tally: Tally = { matchWeight: 0, noMatchWeight: 0, totalWeight: 0, counted: 0 };
+  for (const vote of votes) {
+    if (vote.scoringMode !== "binary" || !vote.scoreBinary) continue;
+    if (vote.scoreBinary === "unsure" && policy.unsureHandling === "ignore") continue;
+
+    // Unweighted policies count every vote as 1; weighted ones start a
+    // reviewer with no definitive votes at the prior
+    const weight = weights ? weights.get(vote.userId) ?? PRIOR_RELIABILITY : 1;
+    tally.counted++;
+    tally.totalWeight += weight;
+    if (vote.scoreBinary === "match") {
+      tally.matchWeight += weight;
+    } else if (vote.scoreBinary === "no_match" || policy.unsureHandling === "no_match") {
+      tally.noMatchWeight += weight;
+    }
+  }
+  return tally;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function evaluateConsensus(
+  votes: ConsensusVote[],
+  policy: ConsensusPolicy,
+  weights?: Map<string, number>
+): ConsensusOutcome {
+  if (votes.length === 0) {
+    return { label: "unreviewed", source: "policy", matchShare: null, countedVotes: 0, rule: "No votes yet" };
+  }
+
+  const tally = tallyVotes(votes, policy, weights);
+  const matchShare = tally.totalWeight > 0 ? tally.matchWeight / tally.totalWeight : null;
+  const base = { source: "policy" as const, matchShare, countedVotes: tally.counted };
+
+  if (tally.counted < policy.minVotes || matchShare === null) {
+    return {
+      ...base,
+      label: "insufficient",
+      rule: `${tally.counted} of ${policy.minVotes} required vote${policy.minVotes === 1 ? "" : "s"} counted`,
+    };
+  }
+
+  const weighted = weights ? " (reliability-weighted)" : "";
+  const noMatchShare = tally.noMatchWeight / tally.totalWeight;
+  const threshold = formatPercent(policy.threshold);
+
+  if (matchShare >= policy.threshold) {
+    return { ...base, label: "match", rule: `${formatPercent(matchShare)} confirmed, threshold ${threshold}${weighted}` };
+  }
+  if (noMatchShare >= policy.threshold) {
+    return { ...base, label: "no_match", rule: `${formatPercent(noMatchShare)} rejected, threshold ${threshold}${weighted}` };
+  }
+  return {
+    ...base,
+    label: "disagreement",
+    rule: `Neither side reached ${threshold} (${formatPercent(matchShare)} confirmed)${weighted}`,
+  };
+}
+
+export function adjudicatedOutcome(
+  adjudication: AdjudicationWithAdjudicator,
+  voteOutcome: ConsensusOutcome
+): ConsensusOutcome {
+  return {
+    label: adjudication.decision,
+    source: "adjudication",
+    matchShare: voteOutcome.matchShare,
+    countedVotes: voteOutcome.countedVotes,
+    rule: `Adjudicated by ${adjudication.adjudicator.displayName}`,
+  };
+}
+
+// Reviewer reliability is their agreement with the reference label of each
+// pair they gave a definitive vote on: the adjudicated decision when there is
+// one, otherwise the unweighted policy label. Laplace smoothing keeps new
+// reviewers near 0.5 instead of at either extreme.
+export function computeReliabilityWeights(
+  votesByPair: Map<string, ConsensusVote[]>,
+  policy: ConsensusPolicy,
+  adjudications: Map<string, AdjudicationWithAdjudicator>
+): Map<string, number> {
+  const agreement = new Map<string, { agreed: number; compared: number }>();
+
+  votesByPair.forEach((pairVotes, pairId) => {
+    const reference = adjudications.get(pairId)?.decision ?? evaluateConsensus(pairVotes, policy).label;
+    if (reference !== "match" && reference !== "no_match") return;
+
+    for (const vote of pairVotes) {
+      if (vote.scoringMode !== "binary") continue;
+      if (vote.scoreBinary !== "match" && vote.scoreBinary !== "no_match") continue;
+      const stats = agreement.get(vote.userId) ?? { agreed: 0, compared: 0 };
+      stats.compared++;
+      if (vote.scoreBinary === reference) stats.agreed++;
+      agreement.set(vote.userId, stats);
+    }
+  });
+
+  const weights = new Map<string, number>();
+  agreement.forEach((stats, userId) => {
+    weights.set(userId, (stats.agreed + 1) / (stats.compared + 2));
+  });
+  return weights;
+}
+
+export function computeCampaignConsensus(input: {
+  pairIds: string[];
+  votes: ConsensusVote[];
+  policy: ConsensusPolicy;
+  adjudications: AdjudicationWithAdjudicator[];
+}): Map<string, ConsensusOutcome> {
+  const { policy } = input;
+
+  const votesByPair = new Map<string, ConsensusVote[]>(input.pairIds.map((id) => [id, []]));
+  input.votes.forEach((vote) => {
+    votesByPair.get(vote.pairId)?.push(vote);
+  });
+  const adjudicationsByPair = new Map(input.adjudications.map((a) => [a.pairId, a]));
+
+  const weights = policy.reliabilityWeighting
+    ? computeReliabilityWeights(votesByPair, policy, adjudicationsByPair)
+    : undefined;
+
+  const outcomes = new Map<string, ConsensusOutcome>();
+  votesByPair.forEach((pairVotes, pairId) => {
+    const outcome = evaluateConsensus(pairVotes, policy, weights);
+    const adjudication = adjudicationsByPair.get(pairId);
+    outcomes.set(pairId, adjudication ? adjudicatedOutcome(adjudication, outcome) : outcome);
+  });
+  return outcomes;
+}
@@ -0,0 +1,183 @@
+// Import file readers
+//
+// Streams the records of an uploaded file for the importers, whatever its
+// format. Delimited text is decoded with the encoding sniffed from its first
+// bytes and split on the delimiter its header line uses; rows with missing or
+// extra cells and stray quotes are read as best they can rather than failing
+// the whole file. JSON Lines and spreadsheets are read one record at a time.
+// A JSON Lines line that cannot be parsed is passed on with its parse error
+// so the validation report can point at it.
+
+import fs from "fs";
+import readline from "readline";
+import { Transform, type Readable } from "stream";
+import { parse } from "csv-parse";
+import ExcelJS from "exceljs";
+import {
+  detectDelimiter, formatFromFileName, sheetColumns, sheetRecord, sniffEncoding,
+  type ImportFileFormat, type TextEncoding,
+} from "@shared/importFormats";
+
+const SAMPLE_SIZE = 64 * 1024;
+
+export type FileRecord = {
+  record: Record<string, any>;
+  // Bytes of the file read so far, for progress reporting
+  bytesRead: number;
+  // Why the record could not be read, for JSON Lines lines that are not JSON
+  parseError?: string;
+};
+
+export type ReadImportFileOptions = {
+  fileSize: number;
+  // Worksheet to read from a spreadsheet; the first one when not given
+  sheetName?: string | null;
+};
+
+async function readSample(filePath: string): Promise<Uint8Array> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SAMPLE_SIZE), 0, SAMPLE_SIZE, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function firstLine(sample: Uint8Array, encoding: TextEncoding): string {
+  // The decoder drops a byte order mark
+  return new TextDecoder(encoding).decode(sample).split(/\r?\n/)[0] || "";
+}
+
+// Text of a file stream in UTF-8, whatever encoding it was written in
+function decodeStream(input: Readable, encoding: TextEncoding): Transform {
+  const decoder = new TextDecoder(encoding);
+  const output = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, decoder.decode(chunk, { stream: true }));
+    },
+    flush(callback) {
+      callback(null, decoder.decode());
+    },
+  });
+  input.on("error", (error) => output.destroy(error));
+  return input.pipe(output);
+}
+
+// Format of an upload from its name. Tab-separated files often carry a .csv
+// name, so delimited files are told apart by their header line.
+export async function detectImportFormat(filePath: string, fileName: string): Promise<ImportFileFormat | null> {
+  const format = formatFromFileName(fileName);
+  if (format !== "csv") return format;
+
+  const sample = await readSample(filePath);
+  return detectDelimiter(firstLine(sample, sniffEncoding(sample))) === "\t" ? "tsv" : "csv";
+}
+
+async function* readDelimited(filePath: string, format: "csv" | "tsv"): AsyncGenerator<FileRecord> {
+  const sample = await readSample(filePath);
+  const encoding = sniffEncoding(sample);
+
+  const input = fs.createReadStream(filePath);
+  const parser = parse({
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+    delimiter: format === "tsv" ? "\t" : detectDelimiter(firstLine(sample, encoding)),
+    relax_column_count: true,
+    relax_quotes: true,
+  });
+  const text = decodeStream(input, encoding);
+  text.on("error", (error) => parser.destroy(error));
+  text.pipe(parser);
+
+  for await (const record of parser) {
+    yield { record, bytesRead: input.bytesRead };
+  }
+}
+
+async function* readJsonLines(filePath: string): AsyncGenerator<FileRecord> {
+  const input = fs.createReadStream(filePath);
+  const lines = readline.createInterface({
+    input: decodeStream(input, sniffEncoding(await readSample(filePath))),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (line.trim() === "") continue;
+    try {
+      const record = JSON.parse(line);
+      if (record === null || typeof record !== "object" || Array.isArray(record)) {
+        yield { record: { line }, bytesRead: input.bytesRead, parseError: "Line is not a JSON object" };
+      } else {
+        yield { record, bytesRead: input.bytesRead };
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Line is not valid JSON";
+      yield { record: { line }, bytesRead: input.bytesRead, parseError: reason };
+    }
+  }
+}
+
+// JSON has no record boundaries to stream on, so JSON files are read whole;
+// use one of the other formats for very large imports
+async function* readJson(filePath: string, fileSize: number): AsyncGenerator<FileRecord> {
+  const sample = await readSample(filePath);
+  const text = new TextDecoder(sniffEncoding(sample)).decode(await fs.promises.readFile(filePath));
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed.pairs;
+  if (!Array.isArray(records)) {
+    throw new Error("JSON file must contain an array of pairs or a 'pairs' array");
+  }
+  for (const record of records) yield { record, bytesRead: fileSize };
+}
+
+// The first row of the sheet holds the column names
+async function* readSpreadsheet(filePath: string, sheetName: string | null | undefined): AsyncGenerator<FileRecord> {
+  const input = fs.createReadStream(filePath);
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    // Needed to tell dates from numbers
+    styles: "cache",
+    hyperlinks: "ignore",
+    entries: "ignore",
+  });
+
+  for await (const worksheet of workbook) {
+    // The reader sets the sheet name from the workbook, but its types leave it out
+    const name = (worksheet as unknown as { name: string }).name;
+    if (sheetName && name !== sheetName) continue;
+
+    let columns: string[] | null = null;
+    for await (const row of worksheet) {
+      // Row values are indexed from 1
+      const cells = Array.from((row.values as unknown[]).slice(1));
+      if (!columns) {
+        columns = sheetColumns(cells);
+        continue;
+      }
+      const record = sheetRecord(columns, cells);
+      if (record) yield { record, bytesRead: input.bytesRead };
+    }
+    return;
+  }
+  throw new Error(sheetName ? `The workbook has no sheet named "${sheetName}"` : "The workbook has no sheets");
+}
+
+export function readImportFile(
+  filePath: string,
+  format: ImportFileFormat,
+  options: ReadImportFileOptions
+): AsyncGenerator<FileRecord> {
+  switch (format) {
+    case "json":
+      return readJson(filePath, options.fileSize);
+    case "jsonl":
+      return readJsonLines(filePath);
+    case "xlsx":
+      return readSpreadsheet(filePath, options.sheetName);
+    default:
+      return readDelimited(filePath, format);
+  }
+}
@@ -0,0 +1,307 @@
+// Background pair imports
+//
+// Large files are imported by jobs instead of inside the upload request. The
+// upload is written to disk and the job streams it twice: a validation pass
+// that checks every row and writes the rejected ones to a CSV, then an import
+// pass that inserts the rows in batches. A dry run, or a file with invalid
+// rows, stops between the passes until an admin starts the import (skipping
+// the invalid rows if there are any).
+// Each batch commits together with the job's checkpoint, so a job that fails
+// part-way resumes after the last committed row. Existing pairs are looked up
+// for the identifiers in the current batch only, never the whole campaign, and
+// skipped, updated or versioned as the job's existing-pair mode says; a pair
+// the file repeats counts as a duplicate, whichever batch the repeat is in.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { stringify } from "csv-stringify";
+import type { Campaign, ImportJob, ImportRowError, InsertPair } from "@shared/schema";
+import { mapRowToPairRecord } from "@shared/importMapping";
+import { toCellString } from "@shared/importFormats";
+import { sameSourceChecker, type SameSourceMatch, type SameSourceVerdict } from "@shared/sameSourceRules";
+import { storage } from "./storage";
+import { readImportFile, type FileRecord } from "./importFiles";
+import {
+  pairFromLegacyCsvRow, pairFromRecord, pairKey, unreadableRecord,
+  type ConvertedRecord, type ImportRowIssue,
+} from "./pairImport";
+import { planPairImport, type ImportRow } from "./pairUpsert";
+
+export const IMPORT_UPLOAD_DIR = process.env.IMPORT_UPLOAD_DIR || path.join(os.tmpdir(), "pair-imports");
+
+export const IMPORT_BATCH_SIZE = 1000;
+// Rows between progress updates during validation
+const VALIDATION_PROGRESS_INTERVAL = 5000;
+// Failed rows kept on the job for the report
+const MAX_ROW_ERRORS = 100;
+// Same-source pairs kept on the job for the report
+const MAX_SAME_SOURCE_MATCHES = 100;
+// Changed existing pairs kept on the job for the report
+const MAX_PAIR_CHANGES = 100;
+
+function readRecords(job: ImportJob): AsyncGenerator<FileRecord> {
+  return readImportFile(job.filePath!, job.fileFormat, { fileSize: job.fileSize, sheetName: job.sheetName });
+}
+
+function convertRecord(job: ImportJob, campaign: Campaign, { record, parseError }: FileRecord): ConvertedRecord {
+  if (parseError) return unreadableRecord(campaign, parseError);
+  if (job.columnMappings) {
+    // The mapper works on cell text, so JSON values are flattened first
+    const row = Object.fromEntries(Object.entries(record).map(([key, value]) => [key, toCellString(value)]));
+    return pairFromRecord(campaign, mapRowToPairRecord(row, job.columnMappings, campaign.campaignType));
+  }
+  return job.fileFormat === "json" || job.fileFormat === "jsonl"
+    ? pairFromRecord(campaign, record)
+    : pairFromLegacyCsvRow(campaign, record);
+}
+
+async function removeUpload(job: ImportJob): Promise<void> {
+  if (job.filePath) await fs.promises.rm(job.filePath, { force: true });
+}
+
+// Removes everything a job left on disk, for jobs that are being discarded
+export async function removeImportJobFiles(job: ImportJob): Promise<void> {
+  await removeUpload(job);
+  if (job.rejectedRowsPath) await fs.promises.rm(job.rejectedRowsPath, { force: true });
+}
+
+// The rejected rows as they appeared in the upload, plus an import_error
+// column listing each problem as "field: reason"
+function openRejectedRowsFile(filePath: string, columns: string[]) {
+  const stringifier = stringify({ header: true, columns: [...columns, "import_error"] });
+  const output = fs.createWriteStream(filePath);
+  stringifier.pipe(output);
+
+  return {
+    async write(record: Record<string, any>, issues: ImportRowIssue[]): Promise<void> {
+      const row: Record<string, string> = {};
+      for (const [key, value] of Object.entries(record)) {
+        row[key] = value !== null && typeof value === "object" ? JSON.stringify(value) : String(value ?? "");
+      }
+      row.import_error = issues.map((issue) => `${issue.field}: ${issue.reason}`).join("; ");
+      if (!stringifier.write(row)) await new Promise((resolve) => stringifier.once("drain", resolve));
+    },
+    close(): Promise<void> {
+      return new Promise((resolve, reject) => {
+        output.on("finish", resolve);
+        output.on("error", reject);
+        stringifier.end();
+      });
+    },
+  };
+}
+
+// Returns true when the import pass should follow straight away
+async function validateFile(job: ImportJob, campaign: Campaign): Promise<boolean> {
+  if (job.rejectedRowsPath) await fs.promises.rm(job.rejectedRowsPath, { force: true });
+  await storage.updateImportJob(job.id, {
+    status: "validating",
+    bytesProcessed: 0,
+    invalidCount: 0,
+    rowErrors: [],
+    rejectedRowsPath: null,
+    errorMessage: null,
+  });
+
+  const rejectedRowsPath = `${job.filePath}.rejected.csv`;
+  let rejected: ReturnType<typeof openRejectedRowsFile> | null = null;
+  const rowErrors: ImportRowError[] = [];
+  let invalidCount = 0;
+  let row = 0;
+  for await (const fileRecord of readRecords(job)) {
+    const { record, bytesRead } = fileRecord;
+    row++;
+    const { issues } = convertRecord(job, campaign, fileRecord);
+    if (issues.length > 0) {
+      invalidCount++;
+      for (const issue of issues) {
+        if (rowErrors.length < MAX_ROW_ERRORS) rowErrors.push({ row, ...issue });
+      }
+      rejected ??= openRejectedRowsFile(rejectedRowsPath, Object.keys(record));
+      await rejected.write(record, issues);
+    }
+    if (row % VALIDATION_PROGRESS_INTERVAL === 0) {
+      await storage.updateImportJob(job.id, { bytesProcessed: bytesRead });
+    }
+  }
+  await rejected?.close();
+
+  if (row === 0) {
+    // Nothing about the file will change, so there is nothing to resume
+    await removeUpload(job);
+    await storage.updateImportJob(job.id, {
+      status: "failed",
+      filePath: null,
+      errorMessage: "The file contains no data rows",
+    });
+    return false;
+  }
+
+  // Invalid rows are only left out when the admin asked for it
+  const awaitingDecision = job.dryRun || (invalidCount > 0 && !job.skipInvalidRows);
+  await storage.updateImportJob(job.id, {
+    status: awaitingDecision ? "validated" : "validating",
+    totalRows: row,
+    bytesProcessed: job.fileSize,
+    invalidCount,
+    rowErrors,
+    rejectedRowsPath: rejected ? rejectedRowsPath : null,
+  });
+  return !awaitingDecision;
+}
+
+type SameSourceCheck = (pair: InsertPair) => SameSourceVerdict | null;
+
+// Entries the job's report still has room for
+type ReportRoom = { sameSourceMatches: number; pairChanges: number };
+
+async function commitBatch(
+  job: ImportJob,
+  checkSameSource: SameSourceCheck,
+  seenKeys: Set<string>,
+  batch: ImportRow[],
+  rowsCommitted: number,
+  bytesProcessed: number,
+  room: ReportRoom
+): Promise<void> {
+  let sameSource = 0;
+  let sameSourceWarnings = 0;
+  const sameSourceMatches: SameSourceMatch[] = [];
+  const repeats: string[] = [];
+  const rows = batch.filter(({ row, pair }) => {
+    const verdict = checkSameSource(pair);
+    if (verdict) {
+      if (sameSourceMatches.length < room.sameSourceMatches) {
+        sameSourceMatches.push({ ...verdict, row, sourceId: pair.sourceId, targetId: pair.targetId });
+      }
+      if (verdict.action === "drop") {
+        sameSource++;
+        return false;
+      }
+      sameSourceWarnings++;
+    }
+    // A pair the file named in an earlier batch is a duplicate, just as a
+    // repeat within the batch is, rather than an existing pair to act on
+    const key = pairKey(pair);
+    if (seenKeys.has(key)) {
+      repeats.push(key);
+      return false;
+    }
+    seenKeys.add(key);
+    return true;
+  });
+
+  const current = await storage.getCurrentPairs(job.campaignId, rows.map(({ pair }) => pair));
+  const plan = planPairImport(rows, current, job);
+  plan.duplicateKeys.push(...repeats);
+  const pairChanges = plan.changes.slice(0, room.pairChanges);
+
+  await storage.commitImportBatch(job.id, plan, {
+    rowsCommitted,
+    bytesProcessed,
+    sameSource,
+    sameSourceWarnings,
+    sameSourceMatches,
+    pairChanges,
+  });
+  room.sameSourceMatches -= sameSourceMatches.length;
+  room.pairChanges -= pairChanges.length;
+}
+
+async function importFile(job: ImportJob, campaign: Campaign): Promise<void> {
+  await storage.startImportPass(job.id);
+
+  const checkSameSource = sameSourceChecker(await storage.getSameSourceRules(), campaign.sameSourceActions);
+  // A resumed job already reported on the rows it committed
+  const room: ReportRoom = {
+    sameSourceMatches: MAX_SAME_SOURCE_MATCHES - job.sameSourceMatches.length,
+    pairChanges: MAX_PAIR_CHANGES - job.pairChanges.length,
+  };
+
+  // Pairs the file has named so far, so later rows for them are duplicates
+  const seenKeys = new Set<string>();
+  let row = 0;
+  let batch: ImportRow[] = [];
+  for await (const fileRecord of readRecords(job)) {
+    row++;
+
+    // Validation only lets a file with invalid rows through when they are to be skipped
+    const { pair, predictions, candidates, issues } = convertRecord(job, campaign, fileRecord);
+    if (issues.length > 0) continue;
+
+    // Rows up to the checkpoint were committed by an earlier run; their pairs
+    // are remembered so the result doesn't depend on where the job resumed
+    if (row <= job.rowsCommitted) {
+      if (checkSameSource(pair)?.action !== "drop") seenKeys.add(pairKey(pair));
+      continue;
+    }
+
+    batch.push({ row, pair, predictions, candidates });
+    if (batch.length === IMPORT_BATCH_SIZE) {
+      await commitBatch(job, checkSameSource, seenKeys, batch, row, fileRecord.bytesRead, room);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await commitBatch(job, checkSameSource, seenKeys, batch, row, job.fileSize, room);
+  }
+}
+
+async function runImportJob(jobId: string): Promise<void> {
+  try {
+    const job = await storage.getImportJob(jobId);
+    if (!job || !job.filePath) return;
+
+    const campaign = await storage.getCampaign(job.campaignId);
+    if (!campaign) throw new Error("Campaign not found");
+
+    // A job resumed after validation goes straight to importing
+    if (job.totalRows === null && !(await validateFile(job, campaign))) return;
+    await importFile(job, campaign);
+
+    // Label confident predictions with the campaign's auto-label rules
+    await storage.applyAutoLabelRules(campaign.id);
+    // Queue newly imported pairs for reviewers when the campaign has an assignment plan
+    await storage.rebuildAssignments(campaign.id);
+
+    await removeUpload(job);
+    await storage.updateImportJob(job.id, {
+      status: "completed",
+      filePath: null,
+      bytesProcessed: job.fileSize,
+      completedAt: new Date(),
+    });
+  } catch (error) {
+    console.error("Error running import job:", error);
+    await storage
+      .updateImportJob(jobId, {
+        status: "failed",
+        errorMessage: error instanceof Error ? error.message : "Import failed",
+      })
+      .catch((updateError) => console.error("Error recording import job failure:", updateError));
+  }
+}
+
+// Jobs run one at a time so that several large uploads don't compete for
+// memory and database connections
+let queue: Promise<void> = Promise.resolve();
+
+export function enqueueImportJob(jobId: string): void {
+  queue = queue.then(() => runImportJob(jobId));
+}
+
+// Imports a validated job's file, leaving out invalid rows when asked to and
+// handling existing pairs as chosen
+export async function startValidatedImportJob(
+  job: ImportJob,
+  options: Pick<ImportJob, "skipInvalidRows" | "existingPairMode" | "requeueChanged">
+): Promise<void> {
+  await storage.updateImportJob(job.id, { status: "queued", dryRun: false, ...options });
+  enqueueImportJob(job.id);
+}
+
+export async function resumeImportJob(job: ImportJob): Promise<void> {
+  await storage.updateImportJob(job.id, { status: "queued", errorMessage: null });
+  enqueueImportJob(job.id);
+}
@@ -0,0 +1,99 @@
+// Model comparison
+//
+// Scores each model's predictions against the label human review settled on
+// (adjudicated decision or consensus). Models rarely cover exactly the same
+// pairs, so alongside each model's own accuracy the report gives its accuracy
+// on the pairs every model predicted, which is the fair comparison.
+
+import {
+  PREDICTION_MATCH_THRESHOLD,
+  type ModelAccuracy,
+  type ModelComparisonReport,
+  type ModelPredictionInput,
+} from "@shared/modelPredictions";
+
+type ScoredPrediction = {
+  pairId: string;
+  confidence: number;
+  isMatch: boolean;
+};
+
+function accuracyOf(points: ScoredPrediction[]): number | null {
+  if (points.length === 0) return null;
+  const correct = points.filter((p) => p.confidence >= PREDICTION_MATCH_THRESHOLD === p.isMatch).length;
+  return correct / points.length;
+}
+
+function scoreModel(model: string, points: ScoredPrediction[], sharedPairIds: Set<string>): ModelAccuracy {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correct = 0;
+  for (const point of points) {
+    const predicted = point.confidence >= PREDICTION_MATCH_THRESHOLD;
+    if (predicted === point.isMatch) correct++;
+    if (predicted && point.isMatch) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (point.isMatch) falseNegatives++;
+  }
+
+  const n = points.length;
+  return {
+    model,
+    pairCount: n,
+    correct,
+    accuracy: n > 0 ? correct / n : null,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : null,
+    brier: n > 0 ? points.reduce((sum, p) => sum + (p.confidence - (p.isMatch ? 1 : 0)) ** 2, 0) / n : null,
+    sharedAccuracy: accuracyOf(points.filter((p) => sharedPairIds.has(p.pairId))),
+  };
+}
+
+// predictionsByPair holds every pair's predictions; labels holds the pairs
+// whose match/no_match label is settled (true for match)
+export function computeModelComparison(
+  predictionsByPair: Map<string, ModelPredictionInput[]>,
+  labels: Map<string, boolean>
+): ModelComparisonReport {
+  const pointsByModel = new Map<string, ScoredPrediction[]>();
+  const modelsByPair = new Map<string, Set<string>>();
+  let unlabelledPairs = 0;
+
+  predictionsByPair.forEach((predictions, pairId) => {
+    // Confidences outside 0–1 are not probabilities and are left out
+    const scorable = predictions.filter(
+      (p) => p.confidence !== null && p.confidence >= 0 && p.confidence <= 1
+    );
+    if (scorable.length === 0) return;
+    const isMatch = labels.get(pairId);
+    if (isMatch === undefined) {
+      unlabelledPairs++;
+      return;
+    }
+    modelsByPair.set(pairId, new Set(scorable.map((p) => p.model)));
+    for (const prediction of scorable) {
+      if (!pointsByModel.has(prediction.model)) pointsByModel.set(prediction.model, []);
+      pointsByModel.get(prediction.model)!.push({ pairId, confidence: prediction.confidence!, isMatch });
+    }
+  });
+
+  const modelCount = pointsByModel.size;
+  const sharedPairIds = new Set(
+    Array.from(modelsByPair.entries())
+      .filter(([, models]) => models.size === modelCount)
+      .map(([pairId]) => pairId)
+  );
+
+  const models = Array.from(pointsByModel.entries())
+    .map(([model, points]) => scoreModel(model, points, sharedPairIds))
+    .sort((a, b) => (b.sharedAccuracy ?? -1) - (a.sharedAccuracy ?? -1) || b.pairCount - a.pairCount);
+
+  return {
+    threshold: PREDICTION_MATCH_THRESHOLD,
+    labelledPairs: modelsByPair.size,
+    sharedPairs: sharedPairIds.size,
+    unlabelledPairs,
+    models,
+  };
+}
@@ -0,0 +1,323 @@
+// Pair import records
+//
+// Turns one record of an uploaded file into a pair and checks it, reporting
+// every problem with the field it was found in. Used by the synchronous upload
+// route and by background import jobs, so a row is read and judged the same
+// way whichever path imports it. Records come in two shapes: the
+// JSON/pre-mapped format (snake_case or camelCase keys) and the legacy CSV
+// format, which also understands the Arivale/LOINC column names.
+// Candidate lists come as a "candidates" list (a JSON string in delimited
+// files) or, in legacy CSV files, as candidate_<n>_id / _text / _score columns.
+
+import type { Campaign, ImportRowError, InsertPair, Pair } from "@shared/schema";
+import { PAIR_TYPE_IDS, findPairIdIssue, isValidPairType } from "@shared/pairTypes";
+import { detectPredictionColumns, type ModelPredictionInput } from "@shared/modelPredictions";
+import { MAX_CANDIDATES, type CandidateInput } from "@shared/candidateLists";
+
+export type ImportRowIssue = Omit<ImportRowError, "row">;
+
+export type ConvertedRecord = {
+  pair: InsertPair;
+  // Further models' predictions for the pair
+  predictions: ModelPredictionInput[];
+  // Ranked candidate targets, in rank order; empty for single-target pairs
+  candidates: CandidateInput[];
+  // Why the record cannot be imported; empty when it can
+  issues: ImportRowIssue[];
+};
+
+// Known labels for gold pairs in imported files. Accepts the export's
+// match/no_match values and yes/no style spellings; blank means not gold.
+// Returns undefined for values that cannot be read as a label.
+export function parseKnownLabel(value: unknown): Pair["knownLabel"] | undefined {
+  if (value === undefined || value === null) return null;
+  const normalized = String(value).trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (normalized === "") return null;
+  if (["match", "yes", "true", "1"].includes(normalized)) return "match";
+  if (["no_match", "nomatch", "no", "false", "0"].includes(normalized)) return "no_match";
+  return undefined;
+}
+
+function parseConfidence(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// Metadata columns in CSV files hold JSON objects; undefined when the cell
+// cannot be parsed
+function parseMetadataColumn(
+  value: string | undefined,
+  fallback: Record<string, unknown>
+): Record<string, unknown> | null | undefined {
+  if (!value) return Object.keys(fallback).length > 0 ? fallback : null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed !== null && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Model predictions as a list of { model, confidence, reasoning } objects or
+// an object keyed by model whose values are such objects or bare confidences
+function parsePredictions(value: unknown): { predictions: ModelPredictionInput[]; issues: ImportRowIssue[] } {
+  const predictions: ModelPredictionInput[] = [];
+  const issues: ImportRowIssue[] = [];
+  if (value === undefined || value === null || value === "") return { predictions, issues };
+
+  let entries: unknown[];
+  if (Array.isArray(value)) {
+    entries = value;
+  } else if (typeof value === "object") {
+    entries = Object.entries(value).map(([model, entry]) =>
+      entry !== null && typeof entry === "object" ? { model, ...entry } : { model, confidence: entry }
+    );
+  } else {
+    return { predictions, issues: [{ field: "predictions", reason: "Not a list of model predictions" }] };
+  }
+
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const raw = (entry ?? {}) as Record<string, unknown>;
+    const model = String(raw.model ?? raw.llm_model ?? raw.llmModel ?? "").trim();
+    if (!model) {
+      issues.push({ field: "predictions", reason: "A prediction has no model name" });
+      continue;
+    }
+    if (seen.has(model)) {
+      issues.push({ field: "predictions", reason: `Model "${model}" has more than one prediction` });
+      continue;
+    }
+    seen.add(model);
+
+    const rawConfidence = raw.confidence ?? raw.llm_confidence ?? raw.llmConfidence;
+    const confidence = parseConfidence(rawConfidence);
+    if (confidence === undefined) {
+      issues.push({ field: "predictions", reason: `Confidence for model "${model}" ("${rawConfidence}") is not a number` });
+      continue;
+    }
+    const reasoning = raw.reasoning ?? raw.llm_reasoning ?? raw.llmReasoning;
+    // A model with blank cells made no prediction for the pair
+    if (confidence === null && !reasoning) continue;
+    predictions.push({ model, confidence, reasoning: reasoning ? String(reasoning) : null });
+  }
+  return { predictions, issues };
+}
+
+// Candidates as a list (or JSON list) of target IDs or { id, text, score }
+// objects, best first
+function parseCandidates(value: unknown): { candidates: CandidateInput[]; issues: ImportRowIssue[] } {
+  const candidates: CandidateInput[] = [];
+  const issues: ImportRowIssue[] = [];
+  if (value === undefined || value === null || value === "") return { candidates, issues };
+
+  let entries = value;
+  if (typeof value === "string") {
+    try {
+      entries = JSON.parse(value);
+    } catch {
+      return { candidates, issues: [{ field: "candidates", reason: "Not a valid JSON list" }] };
+    }
+  }
+  if (!Array.isArray(entries)) {
+    return { candidates, issues: [{ field: "candidates", reason: "Not a list of candidates" }] };
+  }
+  if (entries.length > MAX_CANDIDATES) {
+    issues.push({ field: "candidates", reason: `More than ${MAX_CANDIDATES} candidates` });
+  }
+
+  const seen = new Set<string>();
+  for (const entry of entries.slice(0, MAX_CANDIDATES)) {
+    const raw: Record<string, unknown> =
+      entry !== null && typeof entry === "object" ? entry : { id: entry };
+    const targetId = String(raw.target_id ?? raw.targetId ?? raw.id ?? raw.code ?? "").trim();
+    if (!targetId) {
+      issues.push({ field: "candidates", reason: "A candidate has no ID" });
+      continue;
+    }
+    if (seen.has(targetId)) {
+      issues.push({ field: "candidates", reason: `Candidate "${targetId}" is listed more than once` });
+      continue;
+    }
+    seen.add(targetId);
+
+    const rawScore = raw.score ?? raw.confidence;
+    const score = parseConfidence(rawScore);
+    if (score === undefined) {
+      issues.push({ field: "candidates", reason: `Score for candidate "${targetId}" ("${rawScore}") is not a number` });
+      continue;
+    }
+    const targetText = raw.target_text ?? raw.targetText ?? raw.text ?? raw.name;
+    candidates.push({ targetId, targetText: targetText ? String(targetText) : "", score });
+  }
+  return { candidates, issues };
+}
+
+// The pair's target is its top candidate: a row may leave the target out and
+// let the first candidate fill it in, but may not name a different one
+function applyCandidates(pair: InsertPair, value: unknown): { candidates: CandidateInput[]; issues: ImportRowIssue[] } {
+  const parsed = parseCandidates(value);
+  const [top] = parsed.candidates;
+  if (!top) return parsed;
+  if (!pair.targetId) pair.targetId = top.targetId;
+  if (!pair.targetText) pair.targetText = top.targetText;
+  if (pair.targetId !== top.targetId) {
+    parsed.issues.push({
+      field: "candidates",
+      reason: `The first candidate ("${top.targetId}") is not the pair's target ("${pair.targetId}")`,
+    });
+  }
+  return parsed;
+}
+
+// candidate_<n>_id, candidate_<n>_text and candidate_<n>_score columns, by n
+function numberedCandidateColumns(row: Record<string, string>): Record<string, string>[] {
+  const byNumber = new Map<number, Record<string, string>>();
+  for (const [column, value] of Object.entries(row)) {
+    const match = /^candidate_(\d+)_(id|text|score)$/i.exec(column);
+    if (!match || value === "") continue;
+    const n = parseInt(match[1], 10);
+    if (!byNumber.has(n)) byNumber.set(n, {});
+    byNumber.get(n)![match[2].toLowerCase()] = value;
+  }
+  return Array.from(byNumber.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, candidate]) => candidate);
+}
+
+const REQUIRED_FIELDS = [
+  ["source_text", "sourceText"],
+  ["source_id", "sourceId"],
+  ["target_text", "targetText"],
+  ["target_id", "targetId"],
+] as const;
+
+function checkPair(pair: InsertPair, raw: { knownLabel: unknown; confidence: unknown }): ImportRowIssue[] {
+  const issues: ImportRowIssue[] = [];
+  for (const [field, key] of REQUIRED_FIELDS) {
+    if (!pair[key]) issues.push({ field, reason: "Required value is missing" });
+  }
+  if (!isValidPairType(pair.pairType)) {
+    issues.push({
+      field: "pair_type",
+      reason: `Unknown pair type "${pair.pairType}". Valid types: ${PAIR_TYPE_IDS.join(", ")}`,
+    });
+  } else if (issues.length === 0) {
+    // ID rules only make sense once both IDs are present and the type is known
+    const idIssue = findPairIdIssue(pair);
+    if (idIssue) issues.push(idIssue);
+  }
+  if (parseConfidence(raw.confidence) === undefined) {
+    issues.push({ field: "llm_confidence", reason: `"${raw.confidence}" is not a number` });
+  }
+  if (parseKnownLabel(raw.knownLabel) === undefined) {
+    issues.push({ field: "known_label", reason: `"${raw.knownLabel}" is not "match" or "no_match"` });
+  }
+  return issues;
+}
+
+// JSON files, JSON bodies and rows mapped by the upload wizard
+export function pairFromRecord(campaign: Campaign, record: Record<string, any>): ConvertedRecord {
+  const rawKnownLabel = record.known_label ?? record.knownLabel;
+  const rawConfidence = record.llm_confidence ?? record.llmConfidence;
+  const pair: InsertPair = {
+    campaignId: campaign.id,
+    pairType: record.pair_type || record.pairType || campaign.campaignType,
+    sourceText: record.source_text || record.sourceText || "",
+    sourceDataset: record.source_dataset || record.sourceDataset || "Unknown",
+    sourceId: record.source_id || record.sourceId || "",
+    sourceMetadata: record.source_metadata || record.sourceMetadata || null,
+    targetText: record.target_text || record.targetText || "",
+    targetDataset: record.target_dataset || record.targetDataset || "Unknown",
+    targetId: record.target_id || record.targetId || "",
+    targetMetadata: record.target_metadata || record.targetMetadata || null,
+    llmConfidence: parseConfidence(rawConfidence) ?? null,
+    llmModel: record.llm_model || record.llmModel || null,
+    llmReasoning: record.llm_reasoning || record.llmReasoning || null,
+    knownLabel: parseKnownLabel(rawKnownLabel) ?? null,
+  };
+  const { candidates, issues: candidateIssues } = applyCandidates(pair, record.candidates);
+  const { predictions, issues: predictionIssues } = parsePredictions(record.predictions);
+  return {
+    pair,
+    predictions,
+    candidates,
+    issues: [
+      ...checkPair(pair, { knownLabel: rawKnownLabel, confidence: rawConfidence }),
+      ...predictionIssues,
+      ...candidateIssues,
+    ],
+  };
+}
+
+// A JSON Lines line that could not be parsed. The pair is a placeholder: a
+// record with issues is never imported.
+export function unreadableRecord(campaign: Campaign, reason: string): ConvertedRecord {
+  return { pair: pairFromRecord(campaign, {}).pair, predictions: [], candidates: [], issues: [{ field: "line", reason }] };
+}
+
+// CSV files uploaded without a column mapping
+export function pairFromLegacyCsvRow(campaign: Campaign, row: Record<string, string>): ConvertedRecord {
+  // Build metadata from extra columns
+  const sourceMetadata: Record<string, unknown> = {};
+  const targetMetadata: Record<string, unknown> = {};
+
+  if (row.category) sourceMetadata.category = row.category;
+  if (row.units) sourceMetadata.units = row.units;
+  if (row.data_type) sourceMetadata.data_type = row.data_type;
+  if (row.query_source) sourceMetadata.query_source = row.query_source;
+  if (row.num_queries) sourceMetadata.num_queries = row.num_queries;
+  if (row.top_5_loinc) targetMetadata.top_5_loinc = row.top_5_loinc;
+
+  const parsedSourceMetadata = parseMetadataColumn(row.source_metadata, sourceMetadata);
+  const parsedTargetMetadata = parseMetadataColumn(row.target_metadata, targetMetadata);
+  const rawConfidence = row.llm_confidence || row.confidence_score;
+
+  const pair: InsertPair = {
+    campaignId: campaign.id,
+    pairType: row.pair_type || campaign.campaignType,
+    // Support both standard names and Arivale/LOINC format
+    sourceText: row.source_text || row.description || "",
+    sourceDataset: row.source_dataset || row.cohort || "Unknown",
+    sourceId: row.source_id || row.field_name || "",
+    sourceMetadata: parsedSourceMetadata ?? null,
+    targetText: row.target_text || row.loinc_name || "",
+    targetDataset: row.target_dataset || (row.loinc_code ? "LOINC" : "Unknown"),
+    targetId: row.target_id || row.loinc_code || "",
+    targetMetadata: parsedTargetMetadata ?? null,
+    llmConfidence: parseConfidence(rawConfidence) ?? null,
+    llmModel: row.llm_model || null,
+    llmReasoning: row.llm_reasoning || null,
+    knownLabel: parseKnownLabel(row.known_label) ?? null,
+  };
+
+  const numbered = numberedCandidateColumns(row);
+  const { candidates, issues: candidateIssues } = applyCandidates(
+    pair,
+    row.candidates || (numbered.length > 0 ? numbered : undefined)
+  );
+
+  // <model>_confidence and <model>_reasoning columns hold further models' predictions
+  const { predictions, issues: predictionIssues } = parsePredictions(
+    detectPredictionColumns(Object.keys(row)).map((columns) => ({
+      model: columns.model,
+      confidence: row[columns.confidenceColumn],
+      reasoning: columns.reasoningColumn ? row[columns.reasoningColumn] : null,
+    }))
+  );
+
+  const issues = checkPair(pair, { knownLabel: row.known_label, confidence: rawConfidence });
+  issues.push(...predictionIssues, ...candidateIssues);
+  if (parsedSourceMetadata === undefined) {
+    issues.push({ field: "source_metadata", reason: "Not a valid JSON object" });
+  }
+  if (parsedTargetMetadata === undefined) {
+    issues.push({ field: "target_metadata", reason: "Not a valid JSON object" });
+  }
+  return { pair, predictions, candidates, issues };
+}
+
+export function pairKey(pair: Pick<InsertPair, "sourceId" | "targetId">): string {
+  return `${pair.sourceId}::${pair.targetId}`;
+}
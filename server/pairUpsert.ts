@@ -0,0 +1,242 @@
+// Import planning for existing pairs
+//
+// Decides what an import does with each valid row: insert a new pair, update
+// an existing one in place, add a new version of it, or leave the row out.
+// Works on one batch of rows at a time (for both the synchronous route and
+// import jobs) against the current versions of the pairs those rows name, so
+// the database writes can happen in one transaction.
+
+import type { InsertPair, ModelPrediction, Pair, PairCandidate } from "@shared/schema";
+import {
+  UPDATABLE_PAIR_FIELDS, isMaterialConfidenceChange,
+  type ChangedPairField, type ExistingPairOptions, type FieldChangeCounts, type PairChange, type UpdatablePairField,
+} from "@shared/existingPairs";
+import type { ModelPredictionInput } from "@shared/modelPredictions";
+import type { CandidateInput } from "@shared/candidateLists";
+import { pairKey } from "./pairImport";
+
+export type ImportRow = {
+  // 1-based data row in the uploaded file
+  row: number;
+  pair: InsertPair;
+  predictions: ModelPredictionInput[];
+  candidates: CandidateInput[];
+};
+
+// The version of a pair that is not superseded, with its vote count, its
+// further models' predictions and its candidate list in rank order
+export type CurrentPair = Pair & { voteCount: number; predictions: ModelPrediction[]; candidates: PairCandidate[] };
+
+export type NewPair = {
+  pair: InsertPair;
+  predictions: ModelPredictionInput[];
+  candidates: CandidateInput[];
+};
+
+export type PairUpdate = {
+  id: string;
+  values: Partial<Pick<InsertPair, UpdatablePairField>>;
+  // Predictions to add or replace, by model
+  predictions: ModelPredictionInput[];
+  // Replacement candidate list; null leaves the list as it is
+  candidates: CandidateInput[] | null;
+};
+
+export type PairVersion = NewPair & {
+  previousId: string;
+};
+
+export type PairImportPlan = {
+  inserts: NewPair[];
+  updates: PairUpdate[];
+  versions: PairVersion[];
+  // Keys of rows for existing pairs that were skipped or had nothing to
+  // change, and of repeats of a pair earlier in the same rows
+  duplicateKeys: string[];
+  updated: number;
+  versioned: number;
+  requeued: number;
+  fieldChangeCounts: FieldChangeCounts;
+  changes: PairChange[];
+};
+
+// JSON with object keys sorted, so metadata read back from the database
+// compares equal to the same metadata in a file
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.keys(nested).sort().map((key) => [key, nested[key]]))
+      : nested
+  );
+}
+
+function fieldChanged(field: UpdatablePairField, previous: unknown, next: unknown): boolean {
+  if (field === "llmConfidence") {
+    // Confidence is stored as a single-precision float
+    return previous === null || Math.abs((previous as number) - (next as number)) > 1e-6;
+  }
+  if (field === "sourceMetadata" || field === "targetMetadata") {
+    return canonicalJson(previous) !== canonicalJson(next);
+  }
+  return previous !== next;
+}
+
+// The fields the row provides that differ from the current version. A row
+// leaves a field alone by not giving it a value.
+function changedFields(current: CurrentPair, pair: InsertPair): UpdatablePairField[] {
+  return UPDATABLE_PAIR_FIELDS.filter((field) => {
+    const next = pair[field];
+    return next !== null && next !== undefined && fieldChanged(field, current[field], next);
+  });
+}
+
+// The row's predictions that add a model or change what a model said
+function changedPredictions(current: CurrentPair, predictions: ModelPredictionInput[]): ModelPredictionInput[] {
+  const byModel = new Map(current.predictions.map((prediction) => [prediction.model, prediction]));
+  return predictions.filter((prediction) => {
+    const previous = byModel.get(prediction.model);
+    if (!previous) return true;
+    const confidenceChanged = prediction.confidence !== null &&
+      (previous.confidence === null || Math.abs(previous.confidence - prediction.confidence) > 1e-6);
+    return confidenceChanged || (prediction.reasoning !== null && prediction.reasoning !== previous.reasoning);
+  });
+}
+
+// A candidate list is replaced as a whole, so any difference in order, IDs,
+// text or scores is a change
+function candidatesChanged(current: CurrentPair, candidates: CandidateInput[]): boolean {
+  if (candidates.length === 0) return false;
+  if (candidates.length !== current.candidates.length) return true;
+  return candidates.some((candidate, index) => {
+    const previous = current.candidates[index];
+    return (
+      candidate.targetId !== previous.targetId ||
+      candidate.targetText !== previous.targetText ||
+      (candidate.score === null) !== (previous.score === null) ||
+      (candidate.score !== null && Math.abs(candidate.score - previous.score!) > 1e-6)
+    );
+  });
+}
+
+// The row as the next version of a pair, with the fields, known label,
+// predictions and candidates it does not provide carried over from the
+// current version
+function nextVersion(current: CurrentPair, { pair, predictions, candidates }: ImportRow): NewPair {
+  // The metadata columns read back as unknown, but hold the JSON an import wrote
+  const stored = current as Pick<InsertPair, UpdatablePairField>;
+  const carried: Partial<Pick<InsertPair, UpdatablePairField>> = {};
+  const carry = <K extends UpdatablePairField>(field: K) => {
+    if (pair[field] === null || pair[field] === undefined) carried[field] = stored[field];
+  };
+  UPDATABLE_PAIR_FIELDS.forEach(carry);
+  const provided = new Map(predictions.map((prediction) => [prediction.model, prediction]));
+  const merged = current.predictions.map(({ model, confidence, reasoning }) => {
+    const next = provided.get(model);
+    provided.delete(model);
+    return next
+      ? { model, confidence: next.confidence ?? confidence, reasoning: next.reasoning ?? reasoning }
+      : { model, confidence, reasoning };
+  });
+  return {
+    pair: {
+      ...pair,
+      ...carried,
+      knownLabel: pair.knownLabel ?? current.knownLabel,
+      version: current.version + 1,
+    },
+    predictions: [...merged, ...Array.from(provided.values())],
+    candidates: candidates.length > 0
+      ? candidates
+      : current.candidates.map(({ targetId, targetText, score }) => ({ targetId, targetText, score })),
+  };
+}
+
+export function planPairImport(
+  rows: ImportRow[],
+  current: Map<string, CurrentPair>,
+  options: ExistingPairOptions
+): PairImportPlan {
+  const plan: PairImportPlan = {
+    inserts: [],
+    updates: [],
+    versions: [],
+    duplicateKeys: [],
+    updated: 0,
+    versioned: 0,
+    requeued: 0,
+    fieldChangeCounts: {},
+    changes: [],
+  };
+
+  // Each pair is acted on once; later rows for it count as duplicates
+  const seen = new Set<string>();
+  for (const importRow of rows) {
+    const { row, pair, predictions, candidates } = importRow;
+    const key = pairKey(pair);
+    if (seen.has(key)) {
+      plan.duplicateKeys.push(key);
+      continue;
+    }
+    seen.add(key);
+
+    const existing = current.get(key);
+    if (!existing) {
+      plan.inserts.push({ pair, predictions, candidates });
+      continue;
+    }
+
+    const predictionChanges = options.existingPairMode === "skip" ? [] : changedPredictions(existing, predictions);
+    const fields: ChangedPairField[] = options.existingPairMode === "skip" ? [] : changedFields(existing, pair);
+    if (predictionChanges.length > 0) fields.push("predictions");
+    if (options.existingPairMode !== "skip" && candidatesChanged(existing, candidates)) fields.push("candidates");
+    if (fields.length === 0) {
+      plan.duplicateKeys.push(key);
+      continue;
+    }
+
+    // Votes were cast on the old output, so a material change goes back to
+    // reviewers as a new version instead of changing under the votes
+    const requeue =
+      options.existingPairMode === "update" &&
+      options.requeueChanged &&
+      existing.voteCount > 0 &&
+      fields.includes("llmConfidence") &&
+      isMaterialConfidenceChange(existing.llmConfidence, pair.llmConfidence ?? null);
+
+    let outcome: PairChange["outcome"];
+    if (options.existingPairMode === "version" || requeue) {
+      plan.versions.push({ previousId: existing.id, ...nextVersion(existing, importRow) });
+      outcome = requeue ? "requeued" : "versioned";
+      if (requeue) plan.requeued++;
+      else plan.versioned++;
+    } else {
+      const values = Object.fromEntries(
+        fields
+          .filter((field) => field !== "predictions" && field !== "candidates")
+          .map((field) => [field, pair[field as UpdatablePairField]])
+      );
+      plan.updates.push({
+        id: existing.id,
+        values,
+        predictions: predictionChanges,
+        candidates: fields.includes("candidates") ? candidates : null,
+      });
+      outcome = "updated";
+      plan.updated++;
+    }
+
+    fields.forEach((field) => {
+      plan.fieldChangeCounts[field] = (plan.fieldChangeCounts[field] ?? 0) + 1;
+    });
+    plan.changes.push({
+      row,
+      sourceId: pair.sourceId,
+      targetId: pair.targetId,
+      outcome,
+      fields,
+      previousConfidence: existing.llmConfidence,
+      confidence: fields.includes("llmConfidence") ? pair.llmConfidence ?? null : existing.llmConfidence,
+    });
+  }
+  return plan;
+}
@@ -0,0 +1,88 @@
+// Rejection analysis
+//
+// Adds up the reasons reviewers gave for no_match votes, overall and for each
+// model that predicted the rejected pair, split by that model's confidence.
+// Many "broader concept" rejections in a model's top band say more about
+// what to fix than its accuracy does.
+
+import {
+  CONFIDENCE_BANDS,
+  NO_CONFIDENCE_BAND,
+  UNSPECIFIED_REASON,
+  confidenceBand,
+  type RejectionBreakdown,
+  type RejectionReason,
+  type RejectionReasonReport,
+} from "@shared/rejectionReasons";
+import type { ModelPredictionInput } from "@shared/modelPredictions";
+
+export type Rejection = {
+  // Reason IDs on the vote; null or empty when none was given
+  reasons: string[] | null;
+  // Every model's prediction on the rejected pair
+  predictions: ModelPredictionInput[];
+};
+
+function emptyBreakdown(): RejectionBreakdown {
+  return { rejections: 0, counts: {} };
+}
+
+function addRejection(breakdown: RejectionBreakdown, reasons: string[]) {
+  breakdown.rejections++;
+  for (const reason of reasons.length > 0 ? reasons : [UNSPECIFIED_REASON]) {
+    breakdown.counts[reason] = (breakdown.counts[reason] ?? 0) + 1;
+  }
+}
+
+export function computeRejectionReasonReport(
+  campaignReasons: RejectionReason[],
+  rejections: Rejection[]
+): RejectionReasonReport {
+  const overall = emptyBreakdown();
+  let withReasons = 0;
+  const models = new Map<string, { total: RejectionBreakdown; bands: Map<string, RejectionBreakdown> }>();
+  const retired = new Set<string>();
+  const known = new Set(campaignReasons.map((reason) => reason.id));
+
+  for (const rejection of rejections) {
+    const reasons = Array.from(new Set(rejection.reasons ?? []));
+    if (reasons.length > 0) withReasons++;
+    for (const reason of reasons) {
+      if (!known.has(reason)) retired.add(reason);
+    }
+    addRejection(overall, reasons);
+
+    for (const prediction of rejection.predictions) {
+      if (!models.has(prediction.model)) {
+        models.set(prediction.model, { total: emptyBreakdown(), bands: new Map() });
+      }
+      const model = models.get(prediction.model)!;
+      const band = confidenceBand(prediction.confidence);
+      if (!model.bands.has(band)) model.bands.set(band, emptyBreakdown());
+      addRejection(model.total, reasons);
+      addRejection(model.bands.get(band)!, reasons);
+    }
+  }
+
+  const bandOrder: string[] = [...CONFIDENCE_BANDS.map((band) => band.label), NO_CONFIDENCE_BAND];
+  const byModel = Array.from(models.entries())
+    .map(([model, { total, bands }]) => ({
+      model,
+      ...total,
+      bands: bandOrder
+        .filter((band) => band !== NO_CONFIDENCE_BAND || bands.has(band))
+        .map((band) => ({ band, ...(bands.get(band) ?? emptyBreakdown()) })),
+    }))
+    .sort((a, b) => b.rejections - a.rejections || a.model.localeCompare(b.model));
+
+  return {
+    reasons: [
+      ...campaignReasons,
+      ...Array.from(retired).sort().map((id) => ({ id, label: id })),
+    ],
+    rejections: overall.rejections,
+    withReasons,
+    counts: overall.counts,
+    byModel,
+  };
+}
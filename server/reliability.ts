@@ -0,0 +1,232 @@
+// Inter-rater reliability
+//
+// Krippendorff's alpha computed from the coincidence matrix, so it handles
+// any number of reviewers per pair and missing ratings. Nominal, ordinal and
+// interval difference functions follow Krippendorff (2011), "Computing
+// Krippendorff's Alpha-Reliability". Confidence intervals come from a
+// bootstrap over pairs using a seeded generator, so repeated requests on the
+// same data return the same interval.
+
+import type { AlphaMetric } from "@shared/schema";
+
+export type ReliabilityRating = {
+  raterId: string;
+  value: number;
+};
+
+// One rated item (a pair) with every reviewer's value for it
+export type ReliabilityUnit = ReliabilityRating[];
+
+type Coincidences = {
+  values: number[];
+  // matrix[c][k] for values[c], values[k]
+  matrix: number[][];
+  marginals: number[];
+  total: number;
+};
+
+function buildCoincidences(units: ReliabilityUnit[]): Coincidences {
+  const values = Array.from(new Set(units.flatMap((unit) => unit.map((r) => r.value)))).sort((a, b) => a - b);
+  const index = new Map(values.map((v, i) => [v, i]));
+  const matrix = values.map(() => values.map(() => 0));
+
+  for (const unit of units) {
+    const m = unit.length;
+    // Units rated by a single reviewer carry no pairable information
+    if (m < 2) continue;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < m; j++) {
+        if (i === j) continue;
+        matrix[index.get(unit[i].value)!][index.get(unit[j].value)!] += 1 / (m - 1);
+      }
+    }
+  }
+
+  const marginals = matrix.map((row) => row.reduce((sum, v) => sum + v, 0));
+  const total = marginals.reduce((sum, v) => sum + v, 0);
+  return { values, matrix, marginals, total };
+}
+
+function squaredDifference(metric: AlphaMetric, coincidences: Coincidences, c: number, k: number): number {
+  if (c === k) return 0;
+  const { values, marginals } = coincidences;
+  switch (metric) {
+    case "nominal":
+      return 1;
+    case "interval":
+      return (values[c] - values[k]) ** 2;
+    case "ordinal": {
+      const [low, high] = c < k ? [c, k] : [k, c];
+      let between = 0;
+      for (let g = low; g <= high; g++) between += marginals[g];
+      return (between - (marginals[low] + marginals[high]) / 2) ** 2;
+    }
+  }
+}
+
+export function krippendorffAlpha(units: ReliabilityUnit[], metric: AlphaMetric): number | null {
+  const coincidences = buildCoincidences(units);
+  const { values, matrix, marginals, total } = coincidences;
+  if (total < 2) return null;
+
+  let observed = 0;
+  let expected = 0;
+  for (let c = 0; c < values.length; c++) {
+    for (let k = 0; k < values.length; k++) {
+      const delta = squaredDifference(metric, coincidences, c, k);
+      observed += matrix[c][k] * delta;
+      expected += marginals[c] * marginals[k] * delta;
+    }
+  }
+
+  // Every pairable rating has the same value: no variation to disagree about
+  if (expected === 0) return null;
+  return 1 - ((total - 1) * observed) / expected;
+}
+
+// Mulberry32: small deterministic PRNG for reproducible bootstrap samples
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function bootstrapAlphaInterval(
+  units: ReliabilityUnit[],
+  metric: AlphaMetric,
+  options: { samples: number; level: number; seed?: number }
+): { lower: number; upper: number } | null {
+  const pairable = units.filter((unit) => unit.length >= 2);
+  if (pairable.length < 2) return null;
+
+  const random = seededRandom(options.seed ?? 0x5eed);
+  const estimates: number[] = [];
+  for (let s = 0; s < options.samples; s++) {
+    const resampled: ReliabilityUnit[] = [];
+    for (let i = 0; i < pairable.length; i++) {
+      resampled.push(pairable[Math.floor(random() * pairable.length)]);
+    }
+    const alpha = krippendorffAlpha(resampled, metric);
+    if (alpha !== null) estimates.push(alpha);
+  }
+  if (estimates.length === 0) return null;
+
+  estimates.sort((a, b) => a - b);
+  const tail = (1 - options.level) / 2;
+  const at = (q: number) => estimates[Math.min(estimates.length - 1, Math.max(0, Math.floor(q * estimates.length)))];
+  return { lower: at(tail), upper: at(1 - tail) };
+}
+
+// Alpha recomputed without each reviewer's ratings. A reviewer whose removal
+// raises alpha noticeably is pulling agreement down.
+export function alphaIfRemoved(units: ReliabilityUnit[], metric: AlphaMetric): Map<string, number | null> {
+  const raterIds = new Set(units.flatMap((unit) => unit.map((r) => r.raterId)));
+  const result = new Map<string, number | null>();
+  raterIds.forEach((raterId) => {
+    const remaining = units.map((unit) => unit.filter((r) => r.raterId !== raterId));
+    result.set(raterId, krippendorffAlpha(remaining, metric));
+  });
+  return result;
+}
+
+// Fleiss' kappa for the whole panel. Pairs may have different numbers of
+// ratings, so each pair's observed agreement uses its own rating count.
+export function fleissKappa(units: ReliabilityUnit[]): number | null {
+  const pairable = units.filter((unit) => unit.length >= 2);
+  if (pairable.length === 0) return null;
+
+  const categoryTotals = new Map<number, number>();
+  let totalRatings = 0;
+  let observedSum = 0;
+
+  for (const unit of pairable) {
+    const counts = new Map<number, number>();
+    unit.forEach((r) => counts.set(r.value, (counts.get(r.value) || 0) + 1));
+
+    const n = unit.length;
+    let agreeingPairs = 0;
+    counts.forEach((count, value) => {
+      agreeingPairs += count * (count - 1);
+      categoryTotals.set(value, (categoryTotals.get(value) || 0) + count);
+    });
+    observedSum += agreeingPairs / (n * (n - 1));
+    totalRatings += n;
+  }
+
+  const observed = observedSum / pairable.length;
+  let expected = 0;
+  categoryTotals.forEach((count) => {
+    expected += (count / totalRatings) ** 2;
+  });
+
+  if (expected === 1) return null;
+  return (observed - expected) / (1 - expected);
+}
+
+export type PairwiseAgreement = {
+  raterA: string;
+  raterB: string;
+  sharedItems: number;
+  percentAgreement: number | null;
+  cohenKappa: number | null;
+};
+
+// Cohen's kappa for every pair of reviewers over the pairs both rated
+export function pairwiseCohensKappa(units: ReliabilityUnit[]): PairwiseAgreement[] {
+  const ratingsByRater = new Map<string, Map<number, number>>();
+  units.forEach((unit, unitIndex) => {
+    unit.forEach((r) => {
+      if (!ratingsByRater.has(r.raterId)) ratingsByRater.set(r.raterId, new Map());
+      ratingsByRater.get(r.raterId)!.set(unitIndex, r.value);
+    });
+  });
+
+  const raterIds = Array.from(ratingsByRater.keys()).sort();
+  const result: PairwiseAgreement[] = [];
+
+  for (let a = 0; a < raterIds.length; a++) {
+    for (let b = a + 1; b < raterIds.length; b++) {
+      const ratingsA = ratingsByRater.get(raterIds[a])!;
+      const ratingsB = ratingsByRater.get(raterIds[b])!;
+
+      const marginalsA = new Map<number, number>();
+      const marginalsB = new Map<number, number>();
+      let shared = 0;
+      let agreed = 0;
+      ratingsA.forEach((valueA, unitIndex) => {
+        const valueB = ratingsB.get(unitIndex);
+        if (valueB === undefined) return;
+        shared++;
+        if (valueA === valueB) agreed++;
+        marginalsA.set(valueA, (marginalsA.get(valueA) || 0) + 1);
+        marginalsB.set(valueB, (marginalsB.get(valueB) || 0) + 1);
+      });
+
+      let cohenKappa: number | null = null;
+      if (shared > 0) {
+        const observed = agreed / shared;
+        let expected = 0;
+        marginalsA.forEach((countA, value) => {
+          expected += (countA / shared) * ((marginalsB.get(value) || 0) / shared);
+        });
+        // Both reviewers gave one identical value throughout: kappa is undefined
+        if (expected !== 1) cohenKappa = (observed - expected) / (1 - expected);
+      }
+
+      result.push({
+        raterA: raterIds[a],
+        raterB: raterIds[b],
+        sharedItems: shared,
+        percentAgreement: shared > 0 ? agreed / shared : null,
+        cohenKappa,
+      });
+    }
+  }
+
+  return result;
+}
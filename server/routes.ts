@@ -1,15 +1,219 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import passport from "passport";
+import fs from "fs";
 import multer from "multer";
-import { parse } from "csv-parse/sync";
+import { CsvError } from "csv-parse";
 import { stringify } from "csv-stringify/sync";
 import { storage } from "./storage";
-import { setupAuth, requireAuth, requireAdmin } from "./auth";
-import { insertCampaignSchema, insertVoteSchema, type InsertPair } from "@shared/schema";
+import { setupAuth, requireAuth, requireAdmin, requireAdjudicator } from "./auth";
+import {
+  insertCampaignSchema,
+  insertVoteSchema,
+  insertAssignmentPlanSchema,
+  insertAdjudicationSchema,
+  goldSettingsSchema,
+  insertSameSourceRuleSchema,
+  type ImportRowError,
+  type ImportValidationReport,
+  type InsertVote,
+  type Pair,
+  type AlphaMetric,
+} from "@shared/schema";
+import {
+  getPairType, getTargetCodeSystem, getTargetCodeUrl, isNoMatchCode, proposedCodeIssue,
+} from "@shared/pairTypes";
+import { consensusPolicySchema, type ConsensusOutcome } from "@shared/consensusPolicy";
+import { autoLabelRulesSchema, describeAutoLabelRule } from "@shared/autoLabelRules";
+import { columnMappingsSchema } from "@shared/importMapping";
+import {
+  addFieldChangeCounts, existingPairOptionsSchema, type FieldChangeCounts, type PairChange,
+} from "@shared/existingPairs";
+import { pairPredictions } from "@shared/modelPredictions";
+import { candidateVoteScore, type CandidateListResult } from "@shared/candidateLists";
+import { TERMINOLOGY_CODE_SYSTEMS, TERMINOLOGY_SEARCH_LIMIT } from "@shared/terminology";
+import {
+  MAX_REVIEW_BATCH_SIZE, REVIEW_BATCH_SIZE, outboxBatchSchema, renewLeasesSchema,
+  type OutboxResult, type OutboxResultStatus,
+} from "@shared/reviewOutbox";
+import { UNDO_WINDOW_MS, withdrawVoteSchema } from "@shared/voteWithdrawals";
+import { skipReasonSchema, unskipPairsSchema } from "@shared/skipReasons";
+import { rejectionReasonsSchema, resolveRejectionReasons } from "@shared/rejectionReasons";
+import {
+  sameSourceActionsSchema, sameSourceChecker, sameSourcePatternError, type SameSourceMatch,
+} from "@shared/sameSourceRules";
+import { DEFAULT_CALIBRATION_BINS, DEFAULT_CALIBRATION_THRESHOLDS } from "./calibration";
+import {
+  pairFromLegacyCsvRow, pairFromRecord, pairKey, unreadableRecord, type ConvertedRecord,
+} from "./pairImport";
+import { planPairImport, type ImportRow } from "./pairUpsert";
+import { detectImportFormat, readImportFile } from "./importFiles";
+import { readTerminologyFile } from "./terminologyImport";
+import {
+  IMPORT_BATCH_SIZE, IMPORT_UPLOAD_DIR, enqueueImportJob, removeImportJobFiles, resumeImportJob, startValidatedImportJob,
+} from "./importJobs";
 import { z } from "zod";
 
-const upload = multer({ storage: multer.memoryStorage() });
+// Uploads are streamed from disk; import jobs keep the file until they have
+// finished with it
+const importUpload = multer({ dest: IMPORT_UPLOAD_DIR });
+
+const UNSUPPORTED_FILE_MESSAGE = "Unsupported file type. Upload a .csv, .tsv, .json, .jsonl or .xlsx file.";
+
+// How long a pair handed out by next-pair stays reserved for that reviewer
+const DEFAULT_PAIR_LEASE_TTL_SECONDS = 300;
+const PAIR_LEASE_TTL_SECONDS = leaseTtlSeconds(process.env.PAIR_LEASE_TTL_SECONDS);
+
+// A whole number of seconds, or the default when unset or unusable
+function leaseTtlSeconds(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") return DEFAULT_PAIR_LEASE_TTL_SECONDS;
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    console.warn(`Ignoring PAIR_LEASE_TTL_SECONDS="${value}"; using ${DEFAULT_PAIR_LEASE_TTL_SECONDS}`);
+    return DEFAULT_PAIR_LEASE_TTL_SECONDS;
+  }
+  return seconds;
+}
+
+// Extra time an undo gets beyond UNDO_WINDOW_MS, for the vote's and the undo's
+// trips to the server
+const UNDO_GRACE_MS = 5000;
+
+// Checks a code a reviewer proposed instead of the pair's target against the
+// uploaded terminology of the pair's code system, or against the pair type's
+// code pattern when there is none, and finds its official label
+async function checkProposedCode(pair: Pair, code: string): Promise<{ label: string | null; error: string | null }> {
+  if (isNoMatchCode(code)) return { label: null, error: null };
+  const codeSystem = getTargetCodeSystem(pair);
+  const terminology = codeSystem ? await storage.getTerminology(codeSystem) : undefined;
+  if (!terminology) return { label: null, error: proposedCodeIssue(pair, code) };
+  const found = await storage.getTerminologyCode(terminology.id, code);
+  return found
+    ? { label: found.label, error: null }
+    : { label: null, error: `"${code}" is not in the uploaded ${codeSystem} terminology` };
+}
+
+// Validates a reviewer's vote on a pair. Votes on a candidate list send
+// selectedCandidates (the target IDs picked, empty for none) instead of a
+// score; the binary score follows from whether the top candidate was picked.
+// Rejection reasons are kept only on no_match votes and must be on the
+// campaign's list. Throws a ZodError for malformed votes.
+async function prepareVote(
+  pairId: string,
+  userId: string,
+  body: Record<string, any>
+): Promise<{ vote: InsertVote | null; error: string | null; status: number }> {
+  let voteData = insertVoteSchema.parse({
+    pairId,
+    userId,
+    scoreBinary: body.scoreBinary,
+    scoreNumeric: body.scoreNumeric || null,
+    scoringMode: body.scoringMode || "binary",
+    // Expert selection and notes
+    expertSelectedCode: typeof body.expertSelectedCode === "string"
+      ? body.expertSelectedCode.trim() || null
+      : null,
+    selectedCandidates: body.selectedCandidates ?? null,
+    reviewerNotes: body.reviewerNotes || null,
+    rejectionReasons: body.rejectionReasons ?? null,
+    clientId: body.clientId ?? null,
+    // On-screen time measured by the review page
+    reviewMs: typeof body.reviewMs === "number" && Number.isFinite(body.reviewMs)
+      ? Math.max(0, Math.round(body.reviewMs))
+      : null,
+  });
+
+  if (voteData.selectedCandidates) {
+    const candidates = await storage.getPairCandidates(pairId);
+    if (candidates.length === 0) {
+      return { vote: null, error: "This pair has no candidate list", status: 400 };
+    }
+    const known = new Set(candidates.map((candidate) => candidate.targetId));
+    const selected = Array.from(new Set(voteData.selectedCandidates));
+    if (selected.some((targetId) => !known.has(targetId))) {
+      return { vote: null, error: "Selected candidates must come from the pair's candidate list", status: 400 };
+    }
+    voteData = {
+      ...voteData,
+      selectedCandidates: selected,
+      scoringMode: "binary",
+      scoreBinary: candidateVoteScore(selected, candidates[0].targetId),
+      scoreNumeric: null,
+    };
+  }
+
+  if (voteData.expertSelectedCode) {
+    const pair = await storage.getPair(pairId);
+    if (!pair) {
+      return { vote: null, error: "Pair not found", status: 404 };
+    }
+    const { label, error } = await checkProposedCode(pair, voteData.expertSelectedCode);
+    if (error) {
+      return { vote: null, error, status: 400 };
+    }
+    voteData = { ...voteData, expertSelectedLabel: label };
+  }
+
+  if (voteData.scoreBinary === "no_match" && voteData.rejectionReasons?.length) {
+    const pair = await storage.getPair(pairId);
+    if (!pair) {
+      return { vote: null, error: "Pair not found", status: 404 };
+    }
+    const campaign = await storage.getCampaign(pair.campaignId);
+    const known = new Set(resolveRejectionReasons(campaign?.rejectionReasons ?? null).map((reason) => reason.id));
+    const reasons = Array.from(new Set(voteData.rejectionReasons));
+    if (reasons.some((reason) => !known.has(reason))) {
+      return { vote: null, error: "Rejection reasons must come from the campaign's list", status: 400 };
+    }
+    voteData = { ...voteData, rejectionReasons: reasons };
+  } else {
+    voteData = { ...voteData, rejectionReasons: null };
+  }
+
+  return { vote: voteData, error: null, status: 201 };
+}
+
+// A pair as the review page shows it, with its predictions and candidates
+async function reviewPairView(pair: Pair, predictionsHidden: boolean) {
+  const predictions = predictionsHidden ? [] : pairPredictions(pair, await storage.getPairPredictions(pair.id));
+  // Candidate scores are model output too
+  const candidates = (await storage.getPairCandidates(pair.id)).map((candidate) =>
+    predictionsHidden ? { ...candidate, score: null } : candidate
+  );
+  return {
+    pair: predictionsHidden ? withoutPredictions(blindPair(pair)) : blindPair(pair),
+    predictions,
+    candidates,
+  };
+}
+
+// Gold pairs must look like any other pair to anyone but admins
+function hideKnownLabel<T extends { knownLabel: Pair["knownLabel"] }>(pair: T): Omit<T, "knownLabel"> {
+  const { knownLabel: _knownLabel, ...rest } = pair;
+  return rest;
+}
+
+// Reviewers also must not see auto-labels, or audit votes would be anchored by them
+function blindPair(pair: Pair) {
+  const { machineLabel: _machineLabel, machineLabelRuleId: _ruleId, auditSampled: _auditSampled, ...rest } = hideKnownLabel(pair);
+  return rest;
+}
+
+// Export columns for a pair reviewed as a candidate list; blank otherwise
+function candidateListColumns(result: CandidateListResult | undefined) {
+  return {
+    candidate_count: result?.candidateCount ?? "",
+    candidate_votes: result?.voteCount ?? "",
+    accepted_candidates: result ? result.accepted.map((candidate) => candidate.targetId).join("; ") : "",
+    best_candidate_rank: result?.bestRank ?? "",
+    reciprocal_rank: result && result.voteCount > 0 ? (result.bestRank ? 1 / result.bestRank : 0).toFixed(3) : "",
+  };
+}
+
+// Campaigns can hide every model's output from reviewers to avoid anchoring
+function withoutPredictions<T extends Pick<Pair, "llmConfidence" | "llmModel" | "llmReasoning">>(pair: T): T {
+  return { ...pair, llmConfidence: null, llmModel: null, llmReasoning: null };
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -18,6 +222,19 @@ export async function registerRoutes(
   // Setup authentication
   setupAuth(app);
 
+  // Import jobs cut off by the last shutdown can be resumed from the wizard
+  try {
+    await storage.failInterruptedImportJobs();
+  } catch (error) {
+    console.error("Error marking interrupted import jobs:", error);
+  }
+
+  try {
+    await storage.ensureDefaultSameSourceRules();
+  } catch (error) {
+    console.error("Error creating default same-source rules:", error);
+  }
+
   // ==================== AUTH ROUTES ====================
 
   // Google OAuth - initiate login
@@ -145,11 +362,152 @@ export async function registerRoutes(
     }
   });
 
+  // Update a campaign's consensus policy (admin only)
+  app.put("/api/campaigns/:id/consensus-policy", requireAdmin, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const policy = consensusPolicySchema.parse(req.body);
+      await storage.updateCampaignConsensusPolicy(campaign.id, policy);
+      res.json(policy);
+    } catch (error) {
+      console.error("Error updating consensus policy:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid consensus policy", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update consensus policy" });
+    }
+  });
+
+  // Replace a campaign's auto-label rules and relabel its pairs (admin only)
+  app.put("/api/campaigns/:id/auto-label-rules", requireAdmin, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const rules = autoLabelRulesSchema.parse(req.body.rules);
+      await storage.updateCampaignAutoLabelRules(campaign.id, rules);
+      const result = await storage.applyAutoLabelRules(campaign.id);
+      // Pairs that left or rejoined the review queue change the assignment plan
+      await storage.rebuildAssignments(campaign.id);
+      res.json({ rules, ...result });
+    } catch (error) {
+      console.error("Error updating auto-label rules:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid auto-label rules", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update auto-label rules" });
+    }
+  });
+
+  // Set a campaign's action for each same-source rule (admin only). Body:
+  // { actions: { [ruleId]: "drop" | "warn" | "allow" } }; rules left out use
+  // their default. Applies to later imports.
+  app.put("/api/campaigns/:id/same-source-actions", requireAdmin, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const actions = sameSourceActionsSchema.parse(req.body.actions);
+      await storage.updateCampaignSameSourceActions(campaign.id, actions);
+      res.json({ actions });
+    } catch (error) {
+      console.error("Error updating same-source actions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid same-source actions", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update same-source actions" });
+    }
+  });
+
+  // Show or hide model predictions from reviewers (admin only). Body:
+  // { hideModelPredictions: boolean }
+  app.put("/api/campaigns/:id/prediction-display", requireAdmin, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const { hideModelPredictions } = z.object({ hideModelPredictions: z.boolean() }).parse(req.body);
+      await storage.updateCampaignPredictionDisplay(campaign.id, hideModelPredictions);
+      res.json({ hideModelPredictions });
+    } catch (error) {
+      console.error("Error updating prediction display:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid prediction display setting", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update prediction display" });
+    }
+  });
+
+  // Replace the reasons reviewers pick from when voting no_match (admin only).
+  // Body: { reasons: [{ id, label }] }, or { reasons: null } for the defaults.
+  // Votes keep the reason IDs they were cast with.
+  app.put("/api/campaigns/:id/rejection-reasons", requireAdmin, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const reasons = rejectionReasonsSchema.nullable().parse(req.body.reasons);
+      await storage.updateCampaignRejectionReasons(campaign.id, reasons);
+      res.json({ reasons: resolveRejectionReasons(reasons) });
+    } catch (error) {
+      console.error("Error updating rejection reasons:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rejection reasons", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rejection reasons" });
+    }
+  });
+
+  // Audit results per auto-label rule (admins and adjudicators)
+  app.get("/api/campaigns/:id/auto-label-audit", requireAdjudicator, async (req, res) => {
+    try {
+      const report = await storage.getAutoLabelAuditReport(req.params.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching auto-label audit:", error);
+      res.status(500).json({ message: "Failed to fetch auto-label audit" });
+    }
+  });
+
+  // Update how often gold pairs are served and the accuracy alert threshold (admin only)
+  app.put("/api/campaigns/:id/gold-settings", requireAdmin, async (req, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      const settings = goldSettingsSchema.parse(req.body);
+      await storage.updateCampaignGoldSettings(campaign.id, settings);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating gold settings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid gold settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update gold settings" });
+    }
+  });
+
   // Upload pairs to campaign (admin only)
   // Accepts two formats:
-  //   1. multipart/form-data with a "file" field (CSV or JSON file upload)
-  //   2. application/json body with a "pairs" array (pre-mapped data from the column mapping wizard)
-  app.post("/api/campaigns/:id/pairs", requireAdmin, upload.single("file"), async (req, res) => {
+  //   1. multipart/form-data with a "file" field (CSV, TSV, JSON, JSON Lines
+  //      or Excel file upload; an optional "sheetName" picks the worksheet)
+  //   2. application/json body with a "pairs" array (pre-mapped data)
+  // Imports within the request, committing IMPORT_BATCH_SIZE rows at a time;
+  // large files should go through an import job, which can resume.
+  // ?dryRun=true only validates and returns the row report; ?skipInvalidRows=true
+  // imports the valid rows instead of rejecting the whole upload.
+  // ?existingPairMode=skip|update|version says what to do with pairs the
+  // campaign already has; ?requeueChanged=true re-queues updated pairs whose
+  // confidence changed materially.
+  app.post("/api/campaigns/:id/pairs", requireAdmin, importUpload.single("file"), async (req, res) => {
     try {
       const campaignId = req.params.id;
       const campaign = await storage.getCampaign(campaignId);
@@ -158,200 +516,215 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Campaign not found" });
       }
 
-      let pairsData: InsertPair[] = [];
+      const existingPairOptions = existingPairOptionsSchema.parse({
+        existingPairMode: req.query.existingPairMode,
+        requeueChanged: req.query.requeueChanged === "true",
+      });
+
+      // Read afresh for each pass, so a file is never held in memory whole
+      let readRecords: () => AsyncIterable<ConvertedRecord>;
 
       if (req.is("application/json")) {
-        // ── JSON body path (pre-mapped pairs from column mapping wizard) ──────
+        // ── JSON body path (pre-mapped pairs from API clients) ──────────────
         const { pairs: rawPairs } = req.body;
 
         if (!Array.isArray(rawPairs) || rawPairs.length === 0) {
           return res.status(400).json({ message: "Request body must contain a non-empty 'pairs' array" });
         }
 
-        // Validate each pair has the required fields
-        const validPairTypes = ["questionnaire_match", "loinc_mapping"];
-        const invalidPairs: number[] = [];
-
-        pairsData = rawPairs.map((p: any, idx: number) => {
-          const pairType = p.pair_type || p.pairType || campaign.campaignType;
-          const sourceText = p.source_text || p.sourceText;
-          const sourceDataset = p.source_dataset || p.sourceDataset;
-          const sourceId = p.source_id || p.sourceId;
-          const targetText = p.target_text || p.targetText;
-          const targetDataset = p.target_dataset || p.targetDataset;
-          const targetId = p.target_id || p.targetId;
-
-          if (!sourceText || !sourceId || !targetText || !targetId || !validPairTypes.includes(pairType)) {
-            invalidPairs.push(idx);
-          }
-
-          return {
-            campaignId,
-            pairType: pairType as "questionnaire_match" | "loinc_mapping",
-            sourceText: sourceText || "",
-            sourceDataset: sourceDataset || "Unknown",
-            sourceId: sourceId || "",
-            sourceMetadata: p.source_metadata || p.sourceMetadata || null,
-            targetText: targetText || "",
-            targetDataset: targetDataset || "Unknown",
-            targetId: targetId || "",
-            targetMetadata: p.target_metadata || p.targetMetadata || null,
-            llmConfidence: p.llm_confidence !== undefined
-              ? parseFloat(p.llm_confidence)
-              : (p.llmConfidence !== undefined ? parseFloat(p.llmConfidence) : null),
-            llmModel: p.llm_model || p.llmModel || null,
-            llmReasoning: p.llm_reasoning || p.llmReasoning || null,
-          };
-        });
-
-        if (invalidPairs.length > 0) {
-          return res.status(400).json({
-            message: `${invalidPairs.length} pair(s) are missing required fields (sourceText, sourceId, targetText, targetId) or have an invalid pairType. Valid types: ${validPairTypes.join(", ")}`,
-            invalidIndices: invalidPairs,
-          });
-        }
+        readRecords = async function* () {
+          for (const p of rawPairs) yield pairFromRecord(campaign, p);
+        };
       } else {
         // ── File upload path (existing behavior) ────────────────────────────
         if (!req.file) {
           return res.status(400).json({ message: "No file uploaded" });
         }
 
-        const fileContent = req.file.buffer.toString("utf-8");
-
-        if (req.file.mimetype === "application/json" || req.file.originalname.endsWith(".json")) {
-          // Parse JSON file
-          const parsed = JSON.parse(fileContent);
-          const rawPairs = parsed.pairs || parsed;
-
-          pairsData = rawPairs.map((p: any) => ({
-            campaignId,
-            pairType: p.pair_type || p.pairType || campaign.campaignType,
-            sourceText: p.source_text || p.sourceText,
-            sourceDataset: p.source_dataset || p.sourceDataset,
-            sourceId: p.source_id || p.sourceId,
-            sourceMetadata: p.source_metadata || p.sourceMetadata || null,
-            targetText: p.target_text || p.targetText,
-            targetDataset: p.target_dataset || p.targetDataset,
-            targetId: p.target_id || p.targetId,
-            targetMetadata: p.target_metadata || p.targetMetadata || null,
-            llmConfidence: p.llm_confidence !== undefined ? parseFloat(p.llm_confidence) : (p.llmConfidence !== undefined ? p.llmConfidence : null),
-            llmModel: p.llm_model || p.llmModel || null,
-            llmReasoning: p.llm_reasoning || p.llmReasoning || null,
-          }));
-        } else {
-          // Parse CSV file
-          const records = parse(fileContent, {
-            columns: true,
-            skip_empty_lines: true,
-            trim: true,
-          });
-
-          pairsData = records.map((row: any) => {
-            // Build metadata from extra columns
-            const sourceMetadata: Record<string, unknown> = {};
-            const targetMetadata: Record<string, unknown> = {};
-
-            if (row.category) sourceMetadata.category = row.category;
-            if (row.units) sourceMetadata.units = row.units;
-            if (row.data_type) sourceMetadata.data_type = row.data_type;
-            if (row.query_source) sourceMetadata.query_source = row.query_source;
-            if (row.num_queries) sourceMetadata.num_queries = row.num_queries;
-            if (row.top_5_loinc) targetMetadata.top_5_loinc = row.top_5_loinc;
-
-            return {
-              campaignId,
-              pairType: row.pair_type || campaign.campaignType,
-              // Support both standard names and Arivale/LOINC format
-              sourceText: row.source_text || row.description,
-              sourceDataset: row.source_dataset || row.cohort || "Unknown",
-              sourceId: row.source_id || row.field_name,
-              sourceMetadata: row.source_metadata
-                ? JSON.parse(row.source_metadata)
-                : (Object.keys(sourceMetadata).length > 0 ? sourceMetadata : null),
-              targetText: row.target_text || row.loinc_name,
-              targetDataset: row.target_dataset || (row.loinc_code ? "LOINC" : "Unknown"),
-              targetId: row.target_id || row.loinc_code,
-              targetMetadata: row.target_metadata
-                ? JSON.parse(row.target_metadata)
-                : (Object.keys(targetMetadata).length > 0 ? targetMetadata : null),
-              llmConfidence: row.llm_confidence
-                ? parseFloat(row.llm_confidence)
-                : (row.confidence_score ? parseFloat(row.confidence_score) : null),
-              llmModel: row.llm_model || null,
-              llmReasoning: row.llm_reasoning || null,
-            };
-          });
+        const fileFormat = await detectImportFormat(req.file.path, req.file.originalname);
+        if (!fileFormat) {
+          return res.status(400).json({ message: UNSUPPORTED_FILE_MESSAGE });
         }
+
+        const { path: filePath, size: fileSize } = req.file;
+        const sheetName = req.body.sheetName || null;
+        readRecords = async function* () {
+          for await (const { record, parseError } of readImportFile(filePath, fileFormat, { fileSize, sheetName })) {
+            if (parseError) {
+              yield unreadableRecord(campaign, parseError);
+            } else if (fileFormat === "json" || fileFormat === "jsonl") {
+              yield pairFromRecord(campaign, record);
+            } else {
+              yield pairFromLegacyCsvRow(campaign, record);
+            }
+          }
+        };
       }
 
-      // ── Same-source pair detection ───────────────────────────────────────
-      // Helper function to extract source prefix from question ID
-      const getSourcePrefix = (id: string): string => {
-        if (id.startsWith("arivale_")) return "arivale";
-        if (id.startsWith("il10k_")) return "il10k";
-        if (id.startsWith("ukbb_")) return "ukbb";
-        return "unknown";
+      // ── Row validation ───────────────────────────────────────────────────
+      // Required fields, pair type and its ID rules, confidence, known labels
+      // and metadata, reported per row and field
+      const invalidIndices: number[] = [];
+      const rowErrors: ImportRowError[] = [];
+      let totalRows = 0;
+      for await (const record of readRecords()) {
+        const index = totalRows++;
+        if (record.issues.length === 0) continue;
+        invalidIndices.push(index);
+        record.issues.forEach((issue) => {
+          if (rowErrors.length < 100) rowErrors.push({ row: index + 1, ...issue });
+        });
+      }
+      const validation: ImportValidationReport = {
+        totalRows,
+        validRows: totalRows - invalidIndices.length,
+        invalidCount: invalidIndices.length,
+        rowErrors,
       };
 
-      // Filter out same-source pairs (invalid for cross-source harmonization)
-      const sameSourcePairs: string[] = [];
-      const crossSourcePairsData = pairsData.filter((p) => {
-        const sourcePrefix = getSourcePrefix(p.sourceId);
-        const targetPrefix = getSourcePrefix(p.targetId);
-        if (sourcePrefix !== "unknown" && sourcePrefix === targetPrefix) {
-          sameSourcePairs.push(`${p.sourceId} ↔ ${p.targetId}`);
-          return false;
-        }
-        return true;
-      });
+      if (req.query.dryRun === "true") {
+        return res.json({ dryRun: true, ...validation });
+      }
 
-      // ── Duplicate detection ───────────────────────────────────────────────
-      // Fetch all existing source_id + target_id combinations for this campaign
-      const existingPairsRaw = await storage.getPairIdentifiers(campaignId);
-      const existingSet = new Set(
-        existingPairsRaw.map((p) => `${p.sourceId}::${p.targetId}`)
-      );
+      const skipInvalidRows = req.query.skipInvalidRows === "true";
+      if (invalidIndices.length > 0 && !skipInvalidRows) {
+        const first = rowErrors[0];
+        return res.status(400).json({
+          message: `${invalidIndices.length} pair(s) failed validation. First error (row ${first.row}, ${first.field}): ${first.reason}`,
+          invalidIndices,
+          ...validation,
+        });
+      }
 
+      // ── Import ───────────────────────────────────────────────────────────
+      // The valid rows are committed in batches, as import jobs do. Same-source
+      // pairs are dropped or imported with a warning, as the admin-managed
+      // rules and the campaign's choices say. Rows for pairs the campaign
+      // already has (by source_id + target_id) are skipped, update the pair,
+      // or add a new version of it; a pair repeated later in the upload counts
+      // as a duplicate, in whichever batch the repeat falls.
+      const checkSameSource = sameSourceChecker(await storage.getSameSourceRules(), campaign.sameSourceActions);
+      const sameSourceMatches: SameSourceMatch[] = [];
+      let sameSourceCount = 0;
+      let sameSourceWarningCount = 0;
+      const seenKeys = new Set<string>();
       const duplicates: string[] = [];
-      const uniquePairsData = crossSourcePairsData.filter((p) => {
-        const key = `${p.sourceId}::${p.targetId}`;
-        if (existingSet.has(key)) {
+      let count = 0;
+      let changedCount = 0;
+      const existingPairReport = {
+        updatedCount: 0,
+        versionedCount: 0,
+        requeuedCount: 0,
+        fieldChangeCounts: {} as FieldChangeCounts,
+        pairChanges: [] as PairChange[],
+      };
+
+      const commitBatch = async (rows: ImportRow[]) => {
+        const currentPairs = await storage.getCurrentPairs(campaignId, rows.map(({ pair }) => pair));
+        const plan = planPairImport(rows, currentPairs, existingPairOptions);
+        duplicates.push(...plan.duplicateKeys);
+        existingPairReport.updatedCount += plan.updated;
+        existingPairReport.versionedCount += plan.versioned;
+        existingPairReport.requeuedCount += plan.requeued;
+        existingPairReport.fieldChangeCounts = addFieldChangeCounts(existingPairReport.fieldChangeCounts, plan.fieldChangeCounts);
+        existingPairReport.pairChanges.push(...plan.changes.slice(0, 100 - existingPairReport.pairChanges.length));
+        if (plan.inserts.length === 0 && plan.updates.length === 0 && plan.versions.length === 0) return;
+        count += await storage.importPairs(plan);
+        changedCount += plan.inserts.length + plan.updates.length + plan.versions.length;
+      };
+
+      let row = 0;
+      let batch: ImportRow[] = [];
+      for await (const { pair, predictions, candidates, issues } of readRecords()) {
+        row++;
+        if (issues.length > 0) continue;
+        const verdict = checkSameSource(pair);
+        if (verdict) {
+          if (sameSourceMatches.length < 100) {
+            sameSourceMatches.push({ ...verdict, row, sourceId: pair.sourceId, targetId: pair.targetId });
+          }
+          if (verdict.action === "drop") {
+            sameSourceCount++;
+            continue;
+          }
+          sameSourceWarningCount++;
+        }
+        const key = pairKey(pair);
+        if (seenKeys.has(key)) {
           duplicates.push(key);
-          return false;
+          continue;
         }
-        return true;
-      });
+        seenKeys.add(key);
+        batch.push({ row, pair, predictions, candidates });
+        if (batch.length === IMPORT_BATCH_SIZE) {
+          await commitBatch(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) await commitBatch(batch);
 
-      if (uniquePairsData.length === 0) {
+      if (changedCount === 0) {
         const reasons: string[] = [];
         if (duplicates.length > 0) reasons.push(`${duplicates.length} duplicate(s)`);
-        if (sameSourcePairs.length > 0) reasons.push(`${sameSourcePairs.length} same-source pair(s)`);
+        if (sameSourceCount > 0) reasons.push(`${sameSourceCount} same-source pair(s)`);
+        if (invalidIndices.length > 0) reasons.push(`${invalidIndices.length} invalid row(s)`);
         return res.status(409).json({
-          message: `No new pairs were imported. Skipped: ${reasons.join(", ")}.`,
+          message: `No pairs were imported or changed. Skipped: ${reasons.join(", ")}.`,
           duplicateCount: duplicates.length,
-          sameSourceCount: sameSourcePairs.length,
+          sameSourceCount,
+          sameSourceWarningCount,
+          sameSourceMatches,
           importedCount: 0,
+          ...existingPairReport,
+          validation,
         });
       }
 
-      const count = await storage.createPairs(uniquePairsData);
+      // Label confident predictions with the campaign's auto-label rules
+      await storage.applyAutoLabelRules(campaignId);
 
+      // Queue newly imported pairs for reviewers when the campaign has an assignment plan
+      await storage.rebuildAssignments(campaignId);
+
+      const changedMessages: string[] = [];
+      const { updatedCount, versionedCount, requeuedCount } = existingPairReport;
+      if (updatedCount > 0) changedMessages.push(`updated ${updatedCount} existing pair(s)`);
+      if (versionedCount > 0) changedMessages.push(`added ${versionedCount} new version(s)`);
+      if (requeuedCount > 0) changedMessages.push(`re-queued ${requeuedCount} changed pair(s)`);
       const skippedMessages: string[] = [];
       if (duplicates.length > 0) skippedMessages.push(`${duplicates.length} duplicate(s)`);
-      if (sameSourcePairs.length > 0) skippedMessages.push(`${sameSourcePairs.length} same-source pair(s)`);
+      if (sameSourceCount > 0) skippedMessages.push(`${sameSourceCount} same-source pair(s)`);
+      if (invalidIndices.length > 0) skippedMessages.push(`${invalidIndices.length} invalid row(s)`);
 
       res.json({
         count,
-        message: `Successfully imported ${count} pair(s)${skippedMessages.length > 0 ? `. Skipped: ${skippedMessages.join(", ")}.` : "."}`,
+        message: `Successfully imported ${count} pair(s)${changedMessages.map((m) => `, ${m}`).join("")}${
+          skippedMessages.length > 0 ? `. Skipped: ${skippedMessages.join(", ")}.` : "."
+        }${
+          sameSourceWarningCount > 0 ? ` ${sameSourceWarningCount} imported pair(s) matched a same-source warning rule.` : ""
+        }`,
         importedCount: count,
         duplicateCount: duplicates.length,
-        sameSourceCount: sameSourcePairs.length,
+        sameSourceCount,
+        sameSourceWarningCount,
+        ...existingPairReport,
         skippedDuplicates: duplicates.length > 0 ? duplicates : undefined,
-        skippedSameSource: sameSourcePairs.length > 0 ? sameSourcePairs : undefined,
+        // Which rule dropped or warned about each same-source pair
+        sameSourceMatches: sameSourceMatches.length > 0 ? sameSourceMatches : undefined,
+        validation: invalidIndices.length > 0 ? validation : undefined,
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid existing pair options", errors: error.errors });
+      }
+      // Files that cannot be parsed at all have no rows to report on
+      if (error instanceof SyntaxError || error instanceof CsvError) {
+        return res.status(400).json({ message: `The file could not be parsed: ${error.message}` });
+      }
       console.error("Error uploading pairs:", error);
       res.status(500).json({ message: "Failed to upload pairs" });
+    } finally {
+      if (req.file) await fs.promises.rm(req.file.path, { force: true });
     }
   });
 
@@ -361,156 +734,904 @@ export async function registerRoutes(
       const campaignId = req.params.id;
       const userId = req.user!.id;
 
-      const pair = await storage.getNextPairForUser(campaignId, userId);
-      const progress = await storage.getCampaignProgress(campaignId);
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const leased = await storage.leaseNextPair(campaignId, userId, PAIR_LEASE_TTL_SECONDS);
+      const pair = leased?.pair ?? null;
+      const lease = leased?.lease ?? null;
+      await storage.touchReviewSession(userId, campaignId);
+      const progress = await storage.getCampaignProgress(campaignId);
+      const predictionsHidden = campaign.hideModelPredictions;
+      const view = pair
+        ? await reviewPairView(pair, predictionsHidden)
+        : { pair: null, predictions: [], candidates: [] };
+
+      res.json({
+        ...view,
+        predictionsHidden,
+        progress,
+        lease: lease ? { expiresAt: lease.expiresAt } : null,
+        sessionStats: await storage.getReviewSessionStats(userId, campaignId),
+      });
+    } catch (error) {
+      console.error("Error getting next pair:", error);
+      res.status(500).json({ message: "Failed to get next pair" });
+    }
+  });
+
+  // A batch of the next pairs for the review page to work through offline.
+  // ?count= sets the batch size; ?exclude= (comma-separated pair IDs) leaves
+  // out pairs the page already holds or has votes queued for. Every pair of the
+  // batch is leased; leaseSeconds tells the page how often to renew them.
+  app.get("/api/campaigns/:id/next-pairs", requireAuth, async (req, res) => {
+    try {
+      const campaignId = req.params.id;
+      const userId = req.user!.id;
+      const count = Math.min(parseInt(req.query.count as string) || REVIEW_BATCH_SIZE, MAX_REVIEW_BATCH_SIZE);
+      const exclude = typeof req.query.exclude === "string"
+        ? req.query.exclude.split(",").filter((id) => z.string().uuid().safeParse(id).success)
+        : [];
+
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const batch = await storage.leaseNextPairs(campaignId, userId, count, exclude, PAIR_LEASE_TTL_SECONDS);
+      await storage.touchReviewSession(userId, campaignId);
+      const progress = await storage.getCampaignProgress(campaignId);
+      const pairs = [];
+      for (const pair of batch) {
+        pairs.push(await reviewPairView(pair, campaign.hideModelPredictions));
+      }
+
+      res.json({
+        pairs,
+        predictionsHidden: campaign.hideModelPredictions,
+        progress,
+        leaseSeconds: PAIR_LEASE_TTL_SECONDS,
+        sessionStats: await storage.getReviewSessionStats(userId, campaignId),
+      });
+    } catch (error) {
+      console.error("Error getting next pairs:", error);
+      res.status(500).json({ message: "Failed to get next pairs" });
+    }
+  });
+
+  // Keep the pairs the review page holds reserved for the reviewer. Body:
+  // { pairIds }; leases on pairs left out are released.
+  app.post("/api/campaigns/:id/leases/renew", requireAuth, async (req, res) => {
+    try {
+      const { pairIds } = renewLeasesSchema.parse(req.body);
+      const leases = await storage.renewPairLeases(req.params.id, req.user!.id, pairIds, PAIR_LEASE_TTL_SECONDS);
+      res.json({ renewed: leases.length });
+    } catch (error) {
+      console.error("Error renewing pair leases:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid lease renewal", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to renew pair leases" });
+    }
+  });
+
+  // The reviewer's current review session on the campaign, with day streaks
+  app.get("/api/campaigns/:id/review-session", requireAuth, async (req, res) => {
+    try {
+      const stats = await storage.getReviewSessionStats(req.user!.id, req.params.id);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching review session:", error);
+      res.status(500).json({ message: "Failed to fetch review session" });
+    }
+  });
+
+  // The reviewer's votes in their current session on the campaign, latest
+  // first, each with its pair as the review page shows it, for going back
+  app.get("/api/campaigns/:id/review-history", requireAuth, async (req, res) => {
+    try {
+      const campaignId = req.params.id;
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const history = await storage.getReviewHistory(req.user!.id, campaignId);
+      const items = [];
+      for (const { pair, ...vote } of history) {
+        items.push({ ...(await reviewPairView(pair, campaign.hideModelPredictions)), vote });
+      }
+      res.json({ items, predictionsHidden: campaign.hideModelPredictions });
+    } catch (error) {
+      console.error("Error fetching review history:", error);
+      res.status(500).json({ message: "Failed to fetch review history" });
+    }
+  });
+
+  // The reviewer's skipped pairs on the campaign, latest first
+  app.get("/api/campaigns/:id/skipped", requireAuth, async (req, res) => {
+    try {
+      const skipped = await storage.getSkippedPairs(req.user!.id, req.params.id);
+      res.json(skipped.map(({ pair, ...skip }) => ({ ...skip, pair: blindPair(pair) })));
+    } catch (error) {
+      console.error("Error fetching skipped pairs:", error);
+      res.status(500).json({ message: "Failed to fetch skipped pairs" });
+    }
+  });
+
+  // Return skipped pairs to the reviewer's queue. Body: { pairIds } for some,
+  // or {} for every pair they skipped on the campaign
+  app.delete("/api/campaigns/:id/skipped", requireAuth, async (req, res) => {
+    try {
+      const { pairIds } = unskipPairsSchema.parse(req.body ?? {});
+      const restored = await storage.unskipPairs(req.user!.id, req.params.id, pairIds);
+      // Skipping released the pairs' assignments; plan them again
+      if (restored > 0) await storage.rebuildAssignments(req.params.id);
+      res.json({ restored });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pair IDs", errors: error.errors });
+      }
+      console.error("Error un-skipping pairs:", error);
+      res.status(500).json({ message: "Failed to un-skip pairs" });
+    }
+  });
+
+  // Audit trail of votes reviewers withdrew or changed (see voteWithdrawals.ts)
+  app.get("/api/campaigns/:id/vote-withdrawals", requireAdmin, async (req, res) => {
+    try {
+      const withdrawals = await storage.getVoteWithdrawals(req.params.id);
+      res.json(withdrawals);
+    } catch (error) {
+      console.error("Error fetching vote withdrawals:", error);
+      res.status(500).json({ message: "Failed to fetch vote withdrawals" });
+    }
+  });
+
+  // Get campaign results with pagination and filters (admins and adjudicators)
+  app.get("/api/campaigns/:id/results", requireAdjudicator, async (req, res) => {
+    try {
+      const campaignId = req.params.id;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const search = req.query.search as string | undefined;
+      const consensus = req.query.consensus as ConsensusOutcome["label"] | "adjudicated" | "auto_labelled" | undefined;
+      const minVotes = req.query.minVotes ? parseInt(req.query.minVotes as string) : undefined;
+      const maxVotes = req.query.maxVotes ? parseInt(req.query.maxVotes as string) : undefined;
+
+      const results = await storage.getCampaignResults(campaignId, {
+        page,
+        limit,
+        search,
+        consensus: consensus || null,
+        minVotes,
+        maxVotes,
+      });
+
+      if (req.user!.role !== "admin") {
+        return res.json({ ...results, pairs: results.pairs.map((row) => ({ ...row, pair: hideKnownLabel(row.pair) })) });
+      }
+      res.json(results);
+    } catch (error) {
+      console.error("Error fetching campaign results:", error);
+      res.status(500).json({ message: "Failed to fetch campaign results" });
+    }
+  });
+
+  // Top-k accuracy and mean reciprocal rank over the campaign's candidate
+  // lists, with each list's accepted candidates (admins and adjudicators)
+  app.get("/api/campaigns/:id/candidate-metrics", requireAdjudicator, async (req, res) => {
+    try {
+      const report = await storage.getCandidateListReport(req.params.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching candidate list metrics:", error);
+      res.status(500).json({ message: "Failed to fetch candidate list metrics" });
+    }
+  });
+
+  // Get live pair leases for a campaign (admins and adjudicators)
+  app.get("/api/campaigns/:id/leases", requireAdjudicator, async (req, res) => {
+    try {
+      const leases = await storage.getActiveLeases(req.params.id);
+      res.json(leases);
+    } catch (error) {
+      console.error("Error fetching pair leases:", error);
+      res.status(500).json({ message: "Failed to fetch pair leases" });
+    }
+  });
+
+  // Get pair details with all votes (admins and adjudicators)
+  app.get("/api/pairs/:id/details", requireAdjudicator, async (req, res) => {
+    try {
+      const pairId = req.params.id;
+      const details = await storage.getPairDetails(pairId);
+
+      if (!details) {
+        return res.status(404).json({ message: "Pair not found" });
+      }
+
+      if (req.user!.role !== "admin") {
+        return res.json({ ...details, pair: hideKnownLabel(details.pair) });
+      }
+      res.json(details);
+    } catch (error) {
+      console.error("Error fetching pair details:", error);
+      res.status(500).json({ message: "Failed to fetch pair details" });
+    }
+  });
+
+  // Export campaign results (admin only)
+  app.get("/api/campaigns/:id/export", requireAdmin, async (req, res) => {
+    try {
+      const campaignId = req.params.id;
+      const campaign = await storage.getCampaign(campaignId);
+      
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const exportData = await storage.getCampaignExportData(campaignId);
+      const candidateLists = new Map(
+        (await storage.getCandidateListReport(campaignId)).results.map((result) => [result.pairId, result])
+      );
+      const rulesById = new Map((campaign.autoLabelRules ?? []).map((rule) => [rule.id, rule]));
+      const reasonLabels = new Map(
+        resolveRejectionReasons(campaign.rejectionReasons).map((reason) => [reason.id, reason.label])
+      );
+      const isFinal = (label: string) => label === "match" || label === "no_match";
+
+      const csvData = exportData.map((item) => ({
+        pair_id: item.pair.id,
+        // Superseded versions keep their votes and point at the version that replaced them
+        pair_version: item.pair.version,
+        superseded_by: item.pair.supersededById ?? "",
+        pair_type: item.pair.pairType,
+        pair_type_name: getPairType(item.pair.pairType)?.displayName ?? item.pair.pairType,
+        source_text: item.pair.sourceText,
+        source_dataset: item.pair.sourceDataset,
+        source_id: item.pair.sourceId,
+        target_text: item.pair.targetText,
+        target_dataset: item.pair.targetDataset,
+        target_id: item.pair.targetId,
+        target_url: getTargetCodeUrl(item.pair, item.pair.targetId) ?? "",
+        llm_confidence: item.pair.llmConfidence,
+        llm_model: item.pair.llmModel,
+        vote_count: item.votes.length,
+        positive_votes: item.votes.filter((v) => v.scoreBinary === "match").length,
+        negative_votes: item.votes.filter((v) => v.scoreBinary === "no_match").length,
+        unsure_votes: item.votes.filter((v) => v.scoreBinary === "unsure").length,
+        positive_rate: item.positiveRate !== null ? item.positiveRate.toFixed(3) : "",
+        consensus: item.consensus.label,
+        consensus_rule: item.consensus.rule,
+        // Adjudicated decisions are binding and override the consensus policy;
+        // auto-labels fill in only where reviewers have not settled a label
+        gold_label: isFinal(item.consensus.label) ? item.consensus.label : (item.pair.machineLabel ?? ""),
+        gold_label_source: item.consensus.source === "adjudication"
+          ? "adjudication"
+          : (isFinal(item.consensus.label) ? "consensus_policy" : (item.pair.machineLabel ? "auto_label_rule" : "")),
+        adjudicated_by: item.adjudication?.adjudicator.email ?? "",
+        adjudication_rationale: item.adjudication?.rationale ?? "",
+        known_label: item.pair.knownLabel ?? "",
+        machine_label: item.pair.machineLabel ?? "",
+        machine_label_rule: item.pair.machineLabelRuleId
+          ? (rulesById.has(item.pair.machineLabelRuleId) ? describeAutoLabelRule(rulesById.get(item.pair.machineLabelRuleId)!) : item.pair.machineLabelRuleId)
+          : "",
+        audit_sampled: item.pair.machineLabel ? item.pair.auditSampled : "",
+        expert_selections: item.votes.filter(v => v.expertSelectedCode).map(v => v.expertSelectedCode).join("; "),
+        // Official labels in the same order, blank where no terminology had the code
+        expert_selection_labels: item.votes
+          .filter(v => v.expertSelectedCode)
+          .map(v => v.expertSelectedLabel ?? "")
+          .join("; "),
+        expert_selection_urls: item.votes
+          .filter(v => v.expertSelectedCode)
+          .map(v => getTargetCodeUrl(item.pair, v.expertSelectedCode) ?? "")
+          .filter(Boolean)
+          .join("; "),
+        reviewer_notes: item.votes.filter(v => v.reviewerNotes).map(v => v.reviewerNotes).join(" | "),
+        // One entry per no_match vote that gave reasons; removed reasons show their ID
+        rejection_reasons: item.votes
+          .filter(v => v.rejectionReasons?.length)
+          .map(v => v.rejectionReasons!.map((id) => reasonLabels.get(id) ?? id).join("; "))
+          .join(" | "),
+        ...candidateListColumns(candidateLists.get(item.pair.id)),
+      }));
+
+      const csv = stringify(csvData, { header: true });
+      
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="${campaign.name.replace(/\s+/g, "_")}_export.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting campaign:", error);
+      res.status(500).json({ message: "Failed to export campaign" });
+    }
+  });
+
+  // ==================== IMPORT JOB ROUTES ====================
+
+  // Start a background import (admin only). multipart/form-data with a "file"
+  // field and, for files mapped in the upload wizard, a "mappings" field
+  // holding the column mappings as JSON. "dryRun" set to "true" stops after
+  // validation; "skipInvalidRows" set to "true" imports around invalid rows.
+  // "sheetName" picks the worksheet of an Excel file (the first by default).
+  // "existingPairMode" and "requeueChanged" work as on the upload route.
+  app.post("/api/campaigns/:id/import-jobs", requireAdmin, importUpload.single("file"), async (req, res) => {
+    // The upload is ours to clean up until a job takes it over
+    const discardUpload = () => req.file && fs.promises.rm(req.file.path, { force: true });
+
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign) {
+        await discardUpload();
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const fileFormat = await detectImportFormat(req.file.path, req.file.originalname);
+      if (!fileFormat) {
+        await discardUpload();
+        return res.status(400).json({ message: UNSUPPORTED_FILE_MESSAGE });
+      }
+
+      const columnMappings = req.body.mappings
+        ? columnMappingsSchema.parse(JSON.parse(req.body.mappings))
+        : null;
+      const existingPairOptions = existingPairOptionsSchema.parse({
+        existingPairMode: req.body.existingPairMode || undefined,
+        requeueChanged: req.body.requeueChanged === "true",
+      });
+      const template = columnMappings && req.body.templateId
+        ? await storage.getImportTemplate(req.body.templateId)
+        : undefined;
+
+      const job = await storage.createImportJob({
+        campaignId: campaign.id,
+        createdBy: req.user!.id,
+        fileName: req.file.originalname,
+        filePath: req.file.path,
+        fileFormat,
+        fileSize: req.file.size,
+        sheetName: fileFormat === "xlsx" ? req.body.sheetName || null : null,
+        columnMappings,
+        templateId: template?.id ?? null,
+        templateVersion: template?.version ?? null,
+        dryRun: req.body.dryRun === "true",
+        skipInvalidRows: req.body.skipInvalidRows === "true",
+        ...existingPairOptions,
+      });
+      // The template's use is counted once the job starts importing
+      enqueueImportJob(job.id);
+
+      res.status(202).json(job);
+    } catch (error) {
+      await discardUpload();
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import options", errors: error.errors });
+      }
+      if (error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Column mappings must be valid JSON" });
+      }
+      console.error("Error starting import job:", error);
+      res.status(500).json({ message: "Failed to start import" });
+    }
+  });
+
+  // Recent import jobs for a campaign (admin only)
+  app.get("/api/campaigns/:id/import-jobs", requireAdmin, async (req, res) => {
+    try {
+      const jobs = await storage.getCampaignImportJobs(req.params.id);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching import jobs:", error);
+      res.status(500).json({ message: "Failed to fetch import jobs" });
+    }
+  });
+
+  // Job status and progress, polled by the upload wizard (admin only)
+  app.get("/api/import-jobs/:id", requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching import job:", error);
+      res.status(500).json({ message: "Failed to fetch import job" });
+    }
+  });
+
+  // Import a validated job's file (admin only).
+  // Body: { skipInvalidRows, existingPairMode, requeueChanged }
+  app.post("/api/import-jobs/:id/start", requireAdmin, async (req, res) => {
+    try {
+      const { skipInvalidRows, ...existingPairOptions } = existingPairOptionsSchema
+        .extend({ skipInvalidRows: z.boolean().default(false) })
+        .parse(req.body ?? {});
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (job.status !== "validated" || !job.filePath) {
+        return res.status(409).json({ message: "Only validated imports can be started" });
+      }
+      if (job.invalidCount > 0 && !skipInvalidRows) {
+        return res.status(409).json({
+          message: `${job.invalidCount} row(s) failed validation. Skip them or upload a corrected file.`,
+        });
+      }
+
+      await startValidatedImportJob(job, { skipInvalidRows, ...existingPairOptions });
+      const started = await storage.getImportJob(job.id);
+      res.status(202).json(started);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Error starting import job:", error);
+      res.status(500).json({ message: "Failed to start import" });
+    }
+  });
+
+  // Rows that failed validation as CSV, with an import_error column (admin only)
+  app.get("/api/import-jobs/:id/rejected-rows", requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (!job.rejectedRowsPath || !fs.existsSync(job.rejectedRowsPath)) {
+        return res.status(404).json({ message: "This import has no rejected rows" });
+      }
+
+      const baseName = job.fileName.replace(/\.[^.]+$/, "");
+      res.download(job.rejectedRowsPath, `${baseName}_rejected_rows.csv`);
+    } catch (error) {
+      console.error("Error downloading rejected rows:", error);
+      res.status(500).json({ message: "Failed to download rejected rows" });
+    }
+  });
+
+  // Discard a job that is not running, with its files (admin only)
+  app.delete("/api/import-jobs/:id", requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (!["validated", "failed", "completed"].includes(job.status)) {
+        return res.status(409).json({ message: "A running import cannot be discarded" });
+      }
+
+      await removeImportJobFiles(job);
+      await storage.deleteImportJob(job.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error discarding import job:", error);
+      res.status(500).json({ message: "Failed to discard import" });
+    }
+  });
+
+  // Resume a failed job from its last committed batch (admin only)
+  app.post("/api/import-jobs/:id/resume", requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (job.status !== "failed") {
+        return res.status(409).json({ message: "Only failed imports can be resumed" });
+      }
+      if (!job.filePath) {
+        return res.status(409).json({ message: "The uploaded file is no longer available. Start a new import." });
+      }
+
+      await resumeImportJob(job);
+      const resumed = await storage.getImportJob(job.id);
+      res.status(202).json(resumed);
+    } catch (error) {
+      console.error("Error resuming import job:", error);
+      res.status(500).json({ message: "Failed to resume import" });
+    }
+  });
+
+  // ==================== ASSIGNMENT ROUTES ====================
+
+  // Get a campaign's assignment plan with per-reviewer quotas (null when the campaign is open to all reviewers)
+  app.get("/api/campaigns/:id/assignment-plan", requireAdmin, async (req, res) => {
+    try {
+      const plan = await storage.getAssignmentPlan(req.params.id);
+      if (!plan) {
+        return res.json(null);
+      }
+      const quotas = await storage.getReviewerQuotas(req.params.id);
+      const unfilledSlots = await storage.getUnfilledSlots(req.params.id);
+      res.json({ ...plan, quotas, unfilledSlots });
+    } catch (error) {
+      console.error("Error fetching assignment plan:", error);
+      res.status(500).json({ message: "Failed to fetch assignment plan" });
+    }
+  });
+
+  // Create or replace an assignment plan and regenerate open reviewer queues
+  app.put("/api/campaigns/:id/assignment-plan", requireAdmin, async (req, res) => {
+    try {
+      const campaignId = req.params.id;
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const planData = insertAssignmentPlanSchema.parse({
+        campaignId,
+        votesPerPair: req.body.votesPerPair,
+        reviewerIds: Array.from(new Set(req.body.reviewerIds ?? [])),
+        createdBy: req.user!.id,
+      });
+
+      if (planData.votesPerPair > planData.reviewerIds.length) {
+        return res.status(400).json({
+          message: `Votes per pair (${planData.votesPerPair}) cannot exceed the number of reviewers (${planData.reviewerIds.length})`,
+        });
+      }
+
+      for (const reviewerId of planData.reviewerIds) {
+        if (!(await storage.getUser(reviewerId))) {
+          return res.status(400).json({ message: `Unknown reviewer: ${reviewerId}` });
+        }
+      }
+
+      const plan = await storage.saveAssignmentPlan(planData);
+      const result = await storage.rebuildAssignments(campaignId, { resetOpen: true });
+      res.json({ ...plan, ...result });
+    } catch (error) {
+      console.error("Error saving assignment plan:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment plan", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save assignment plan" });
+    }
+  });
+
+  // Rebalance queues, optionally dropping reviewers; their open assignments are redistributed
+  app.post("/api/campaigns/:id/assignment-plan/rebalance", requireAdmin, async (req, res) => {
+    try {
+      const campaignId = req.params.id;
+      const plan = await storage.getAssignmentPlan(campaignId);
+      if (!plan) {
+        return res.status(404).json({ message: "Campaign has no assignment plan" });
+      }
+
+      const dropReviewerIds: string[] = Array.isArray(req.body.dropReviewerIds) ? req.body.dropReviewerIds : [];
+      const reviewerIds = plan.reviewerIds.filter((id) => !dropReviewerIds.includes(id));
+
+      if (reviewerIds.length === 0) {
+        return res.status(400).json({ message: "An assignment plan needs at least one reviewer" });
+      }
+
+      const updated = dropReviewerIds.length > 0
+        ? await storage.saveAssignmentPlan({
+            campaignId,
+            votesPerPair: Math.min(plan.votesPerPair, reviewerIds.length),
+            reviewerIds,
+            createdBy: plan.createdBy,
+          })
+        : plan;
+      const result = await storage.rebuildAssignments(campaignId);
+      res.json({ ...updated, ...result });
+    } catch (error) {
+      console.error("Error rebalancing assignments:", error);
+      res.status(500).json({ message: "Failed to rebalance assignments" });
+    }
+  });
+
+  // Remove the assignment plan; the campaign returns to open review
+  app.delete("/api/campaigns/:id/assignment-plan", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteAssignmentPlan(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting assignment plan:", error);
+      res.status(500).json({ message: "Failed to delete assignment plan" });
+    }
+  });
+
+  // ==================== PAIR/VOTE ROUTES ====================
+
+  // Submit vote for a pair (see prepareVote for candidate-list votes)
+  app.post("/api/pairs/:id/vote", requireAuth, async (req, res) => {
+    try {
+      const pairId = req.params.id;
+      const userId = req.user!.id;
+
+      const { vote: voteData, error, status } = await prepareVote(pairId, userId, req.body);
+      if (!voteData) {
+        return res.status(status).json({ message: error });
+      }
+      const pair = await storage.getPair(pairId);
+      if (!pair) {
+        return res.status(404).json({ message: "Pair not found" });
+      }
+
+      const session = await storage.touchReviewSession(userId, pair.campaignId);
+      const vote = await storage.createVote({ ...voteData, sessionId: session.id });
+      await storage.releasePairLease(pairId, userId);
+      await storage.updateUserLastActive(userId);
+
+      res.status(201).json(vote);
+    } catch (error: any) {
+      console.error("Error creating vote:", error);
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "You have already voted on this pair" });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vote data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to submit vote" });
+    }
+  });
+
+  // Skip a pair. Body: { reason } (optional, see skipReasons.ts)
+  app.post("/api/pairs/:id/skip", requireAuth, async (req, res) => {
+    try {
+      const pairId = req.params.id;
+      const userId = req.user!.id;
+      const reason = skipReasonSchema.parse(req.body?.reason) ?? null;
+
+      const pair = await storage.getPair(pairId);
+      if (!pair) {
+        return res.status(404).json({ message: "Pair not found" });
+      }
 
-      res.json({
-        pair,
-        progress,
-        sessionStats: {
-          reviewCount: 0, // Client tracks this
-          streak: 0,
-        },
-      });
+      const session = await storage.touchReviewSession(userId, pair.campaignId);
+      await storage.skipPair(pairId, userId, session.id, reason);
+      await storage.releasePairLease(pairId, userId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error getting next pair:", error);
-      res.status(500).json({ message: "Failed to get next pair" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid skip reason", errors: error.errors });
+      }
+      console.error("Error skipping pair:", error);
+      res.status(500).json({ message: "Failed to skip pair" });
     }
   });
 
-  // Get campaign results with pagination and filters (admin only)
-  app.get("/api/campaigns/:id/results", requireAdmin, async (req, res) => {
+  // Withdraw your vote on a pair: right after voting (reason "undo") or from
+  // the review history ("withdrawn"). The pair returns to your queue; the vote
+  // is kept in the audit trail. Body: { reason }
+  app.delete("/api/pairs/:id/vote", requireAuth, async (req, res) => {
     try {
-      const campaignId = req.params.id;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-      const search = req.query.search as string | undefined;
-      const consensus = req.query.consensus as "match" | "no_match" | "disagreement" | "unreviewed" | undefined;
-      const minVotes = req.query.minVotes ? parseInt(req.query.minVotes as string) : undefined;
-      const maxVotes = req.query.maxVotes ? parseInt(req.query.maxVotes as string) : undefined;
+      const pairId = req.params.id;
+      const userId = req.user!.id;
+      const { reason } = withdrawVoteSchema.parse(req.body ?? {});
 
-      const results = await storage.getCampaignResults(campaignId, {
-        page,
-        limit,
-        search,
-        consensus: consensus || null,
-        minVotes,
-        maxVotes,
-      });
+      const pair = await storage.getPair(pairId);
+      if (!pair) {
+        return res.status(404).json({ message: "Pair not found" });
+      }
 
-      res.json(results);
+      // An undo is only offered right after voting; later, the vote is
+      // withdrawn from the review history instead
+      if (reason === "undo") {
+        const vote = (await storage.getVotesByPair(pairId)).find((v) => v.userId === userId);
+        if (vote && Date.now() - vote.createdAt.getTime() > UNDO_WINDOW_MS + UNDO_GRACE_MS) {
+          return res.status(409).json({ message: "The vote can no longer be undone" });
+        }
+      }
+
+      const withdrawal = await storage.withdrawVote(pairId, userId, reason);
+      if (!withdrawal) {
+        return res.status(404).json({ message: "Vote not found" });
+      }
+      await storage.touchReviewSession(userId, pair.campaignId);
+      res.json(withdrawal);
     } catch (error) {
-      console.error("Error fetching campaign results:", error);
-      res.status(500).json({ message: "Failed to fetch campaign results" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid withdrawal", errors: error.errors });
+      }
+      console.error("Error withdrawing vote:", error);
+      res.status(500).json({ message: "Failed to withdraw vote" });
     }
   });
 
-  // Get pair details with all votes (admin only)
-  app.get("/api/pairs/:id/details", requireAdmin, async (req, res) => {
+  // Change your vote on a pair from the review history. Takes the same body
+  // as a new vote; the version it replaces is kept in the audit trail.
+  app.put("/api/pairs/:id/vote", requireAuth, async (req, res) => {
     try {
       const pairId = req.params.id;
-      const details = await storage.getPairDetails(pairId);
+      const userId = req.user!.id;
 
-      if (!details) {
+      const { vote: voteData, error, status } = await prepareVote(pairId, userId, req.body);
+      if (!voteData) {
+        return res.status(status).json({ message: error });
+      }
+      const pair = await storage.getPair(pairId);
+      if (!pair) {
         return res.status(404).json({ message: "Pair not found" });
       }
 
-      res.json(details);
+      const vote = await storage.reviseVote(voteData);
+      if (!vote) {
+        return res.status(404).json({ message: "Vote not found" });
+      }
+      await storage.touchReviewSession(userId, pair.campaignId);
+      res.json(vote);
     } catch (error) {
-      console.error("Error fetching pair details:", error);
-      res.status(500).json({ message: "Failed to fetch pair details" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vote data", errors: error.errors });
+      }
+      console.error("Error revising vote:", error);
+      res.status(500).json({ message: "Failed to change vote" });
     }
   });
 
-  // Export campaign results (admin only)
-  app.get("/api/campaigns/:id/export", requireAdmin, async (req, res) => {
+  // Record the review page's outbox of votes and skips (see reviewOutbox.ts).
+  // Body: { entries }. Each entry gets a result; sending an entry again is
+  // reported as a duplicate, and an entry for a pair the reviewer already
+  // voted on some other way as a conflict.
+  app.post("/api/review/outbox", requireAuth, async (req, res) => {
     try {
-      const campaignId = req.params.id;
-      const campaign = await storage.getCampaign(campaignId);
-      
-      if (!campaign) {
-        return res.status(404).json({ message: "Campaign not found" });
-      }
+      const userId = req.user!.id;
+      const { entries } = outboxBatchSchema.parse(req.body);
 
-      const exportData = await storage.getCampaignExportData(campaignId);
+      const results: OutboxResult[] = [];
+      for (const entry of entries) {
+        const result = (status: OutboxResultStatus, message: string | null = null) =>
+          results.push({ clientId: entry.clientId, pairId: entry.pairId, status, message });
 
-      const csvData = exportData.map((item) => ({
-        pair_id: item.pair.id,
-        source_text: item.pair.sourceText,
-        source_dataset: item.pair.sourceDataset,
-        source_id: item.pair.sourceId,
-        target_text: item.pair.targetText,
-        target_dataset: item.pair.targetDataset,
-        target_id: item.pair.targetId,
-        llm_confidence: item.pair.llmConfidence,
-        llm_model: item.pair.llmModel,
-        vote_count: item.votes.length,
-        positive_votes: item.votes.filter((v) => v.scoreBinary === "match").length,
-        negative_votes: item.votes.filter((v) => v.scoreBinary === "no_match").length,
-        unsure_votes: item.votes.filter((v) => v.scoreBinary === "unsure").length,
-        positive_rate: item.positiveRate !== null ? item.positiveRate.toFixed(3) : "",
-        consensus: item.positiveRate !== null ? (item.positiveRate > 0.5 ? "match" : "no_match") : "",
-        expert_selections: item.votes.filter(v => v.expertSelectedCode).map(v => v.expertSelectedCode).join("; "),
-        reviewer_notes: item.votes.filter(v => v.reviewerNotes).map(v => v.reviewerNotes).join(" | "),
-      }));
+        const pair = await storage.getPair(entry.pairId);
+        if (!pair) {
+          result("invalid", "Pair not found");
+          continue;
+        }
+        const existing = (await storage.getVotesByPair(entry.pairId)).find((vote) => vote.userId === userId);
+        if (existing) {
+          if (entry.action === "vote" && existing.clientId === entry.clientId) {
+            result("duplicate");
+          } else {
+            result("conflict", "You had already voted on this pair; your earlier vote was kept");
+          }
+          continue;
+        }
 
-      const csv = stringify(csvData, { header: true });
-      
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="${campaign.name.replace(/\s+/g, "_")}_export.csv"`);
-      res.send(csv);
+        // Offline entries count in the session they were recorded in
+        const recordedAt = entry.recordedAt ? new Date(Math.min(Date.parse(entry.recordedAt), Date.now())) : new Date();
+        if (entry.action === "skip") {
+          const session = await storage.touchReviewSession(userId, pair.campaignId, recordedAt);
+          await storage.skipPair(entry.pairId, userId, session.id, entry.reason ?? null);
+          await storage.releasePairLease(entry.pairId, userId);
+          result("applied");
+          continue;
+        }
+
+        let prepared: Awaited<ReturnType<typeof prepareVote>>;
+        try {
+          prepared = await prepareVote(entry.pairId, userId, { ...entry.vote, clientId: entry.clientId });
+        } catch (voteError) {
+          if (!(voteError instanceof z.ZodError)) throw voteError;
+          result("invalid", "Invalid vote data");
+          continue;
+        }
+        const { vote, error } = prepared;
+        if (!vote) {
+          result("invalid", error);
+          continue;
+        }
+        try {
+          const session = await storage.touchReviewSession(userId, pair.campaignId, recordedAt);
+          await storage.createVote({ ...vote, sessionId: session.id });
+        } catch (createError: any) {
+          // Another request recorded a vote on the pair in the meantime
+          if (createError.code !== "23505") throw createError;
+          result("conflict", "You had already voted on this pair; your earlier vote was kept");
+          continue;
+        }
+        await storage.releasePairLease(entry.pairId, userId);
+        result("applied");
+      }
+
+      await storage.updateUserLastActive(userId);
+      res.json({ results });
     } catch (error) {
-      console.error("Error exporting campaign:", error);
-      res.status(500).json({ message: "Failed to export campaign" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid outbox entries", errors: error.errors });
+      }
+      console.error("Error recording review outbox:", error);
+      res.status(500).json({ message: "Failed to record votes" });
     }
   });
 
-  // ==================== PAIR/VOTE ROUTES ====================
+  // ==================== ADJUDICATION ROUTES ====================
 
-  // Submit vote for a pair
-  app.post("/api/pairs/:id/vote", requireAuth, async (req, res) => {
+  // Open disputes per campaign for the adjudication queue
+  app.get("/api/adjudication/queue", requireAdjudicator, async (req, res) => {
+    try {
+      const queue = await storage.getAdjudicationQueue();
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching adjudication queue:", error);
+      res.status(500).json({ message: "Failed to fetch adjudication queue" });
+    }
+  });
+
+  // Record or replace the binding decision for a pair
+  app.put("/api/pairs/:id/adjudication", requireAdjudicator, async (req, res) => {
     try {
       const pairId = req.params.id;
-      const userId = req.user!.id;
+      const pair = await storage.getPair(pairId);
+      if (!pair) {
+        return res.status(404).json({ message: "Pair not found" });
+      }
 
-      const voteData = insertVoteSchema.parse({
+      const adjudicationData = insertAdjudicationSchema.parse({
         pairId,
-        userId,
-        scoreBinary: req.body.scoreBinary,
-        scoreNumeric: req.body.scoreNumeric || null,
-        scoringMode: req.body.scoringMode || "binary",
-        // Expert selection and notes
-        expertSelectedCode: req.body.expertSelectedCode || null,
-        reviewerNotes: req.body.reviewerNotes || null,
+        adjudicatorId: req.user!.id,
+        decision: req.body.decision,
+        rationale: req.body.rationale,
       });
 
-      const vote = await storage.createVote(voteData);
-      await storage.updateUserLastActive(userId);
+      await storage.saveAdjudication(adjudicationData);
+      const adjudication = await storage.getAdjudication(pairId);
+      res.json(adjudication);
+    } catch (error) {
+      console.error("Error saving adjudication:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid adjudication", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save adjudication" });
+    }
+  });
 
-      res.status(201).json(vote);
-    } catch (error: any) {
-      console.error("Error creating vote:", error);
-      if (error.code === "23505") {
-        return res.status(409).json({ message: "You have already voted on this pair" });
+  // Remove an adjudication; the pair falls back to the vote-based label
+  app.delete("/api/pairs/:id/adjudication", requireAdjudicator, async (req, res) => {
+    try {
+      await storage.deleteAdjudication(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting adjudication:", error);
+      res.status(500).json({ message: "Failed to delete adjudication" });
+    }
+  });
+
+  // ==================== GOLD PAIR ROUTES ====================
+
+  // Flag a pair as gold with its known label, or clear it with null (admin only)
+  app.put("/api/pairs/:id/known-label", requireAdmin, async (req, res) => {
+    try {
+      const pair = await storage.getPair(req.params.id);
+      if (!pair) {
+        return res.status(404).json({ message: "Pair not found" });
       }
+      const { knownLabel } = z
+        .object({ knownLabel: z.enum(["match", "no_match"]).nullable() })
+        .parse(req.body);
+      await storage.setPairKnownLabel(pair.id, knownLabel);
+      // Unflagged pairs rejoin the assignment plan, if there is one
+      await storage.rebuildAssignments(pair.campaignId);
+      res.json({ knownLabel });
+    } catch (error) {
+      console.error("Error updating known label:", error);
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid vote data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid known label", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to submit vote" });
+      res.status(500).json({ message: "Failed to update known label" });
     }
   });
 
-  // Skip a pair
-  app.post("/api/pairs/:id/skip", requireAuth, async (req, res) => {
+  // Reviewers whose gold accuracy fell below a campaign's alert threshold (admin only)
+  app.get("/api/admin/gold-alerts", requireAdmin, async (req, res) => {
     try {
-      const pairId = req.params.id;
-      const userId = req.user!.id;
-
-      await storage.skipPair(pairId, userId);
-      res.json({ success: true });
+      const alerts = await storage.getGoldAccuracyAlerts();
+      res.json(alerts);
     } catch (error) {
-      console.error("Error skipping pair:", error);
-      res.status(500).json({ message: "Failed to skip pair" });
+      console.error("Error fetching gold accuracy alerts:", error);
+      res.status(500).json({ message: "Failed to fetch gold accuracy alerts" });
     }
   });
 
@@ -531,7 +1652,7 @@ export async function registerRoutes(
   app.patch("/api/users/:id/role", requireAdmin, async (req, res) => {
     try {
       const { role } = req.body;
-      if (!["reviewer", "admin"].includes(role)) {
+      if (!["reviewer", "adjudicator", "admin"].includes(role)) {
         return res.status(400).json({ message: "Invalid role" });
       }
       await storage.updateUserRole(req.params.id, role);
@@ -559,7 +1680,7 @@ export async function registerRoutes(
     try {
       const userId = req.user!.id;
       const userVotes = await storage.getUserVotes(userId);
-      res.json(userVotes);
+      res.json(userVotes.map((vote) => ({ ...vote, pair: blindPair(vote.pair) })));
     } catch (error) {
       console.error("Error fetching user votes:", error);
       res.status(500).json({ message: "Failed to fetch vote history" });
@@ -573,13 +1694,43 @@ export async function registerRoutes(
       const userId = req.user!.id;
       
       const { scoreBinary, scoreNumeric, scoringMode, expertSelectedCode, reviewerNotes } = req.body;
+
+      // A candidate vote's score follows from the candidates picked, so only
+      // its notes can be edited
+      const existing = (await storage.getVotesByPair(pairId)).find((vote) => vote.userId === userId);
+      if (existing?.selectedCandidates) {
+        const updated = await storage.updateVote(pairId, userId, {
+          reviewerNotes: reviewerNotes !== undefined ? reviewerNotes : undefined,
+        });
+        return res.json(updated);
+      }
+      
+      let expertSelectedLabel: string | null | undefined = undefined;
+      if (typeof expertSelectedCode === "string" && expertSelectedCode.trim()) {
+        const pair = await storage.getPair(pairId);
+        if (!pair) {
+          return res.status(404).json({ message: "Pair not found" });
+        }
+        const checked = await checkProposedCode(pair, expertSelectedCode.trim());
+        if (checked.error) {
+          return res.status(400).json({ message: checked.error });
+        }
+        expertSelectedLabel = checked.label;
+      } else if (expertSelectedCode !== undefined) {
+        expertSelectedLabel = null;
+      }
       
       const updated = await storage.updateVote(pairId, userId, {
         scoreBinary: scoreBinary !== undefined ? scoreBinary : undefined,
         scoreNumeric: scoreNumeric !== undefined ? scoreNumeric : undefined,
         scoringMode: scoringMode !== undefined ? scoringMode : undefined,
-        expertSelectedCode: expertSelectedCode !== undefined ? expertSelectedCode : undefined,
+        expertSelectedCode: expertSelectedCode !== undefined
+          ? (typeof expertSelectedCode === "string" ? expertSelectedCode.trim() || null : null)
+          : undefined,
+        expertSelectedLabel,
         reviewerNotes: reviewerNotes !== undefined ? reviewerNotes : undefined,
+        // Reasons only explain a no_match vote
+        rejectionReasons: scoreBinary !== undefined && scoreBinary !== "no_match" ? null : undefined,
       });
       
       if (!updated) {
@@ -656,12 +1807,172 @@ export async function registerRoutes(
     }
   });
 
+  // ==================== SAME-SOURCE RULES ====================
+
+  // Rules imports use to recognise same-source pairs, in the order they are checked
+  app.get("/api/admin/same-source-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getSameSourceRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching same-source rules:", error);
+      res.status(500).json({ message: "Failed to fetch same-source rules" });
+    }
+  });
+
+  // Add a same-source rule
+  app.post("/api/admin/same-source-rules", requireAdmin, async (req, res) => {
+    try {
+      const data = insertSameSourceRuleSchema.parse({ ...req.body, createdBy: req.user!.id });
+      const patternError = sameSourcePatternError({ kind: data.kind, pattern: data.pattern ?? null });
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+      const rule = await storage.createSameSourceRule({
+        ...data,
+        pattern: data.kind === "dataset_match" ? null : data.pattern,
+      });
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating same-source rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid same-source rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create same-source rule" });
+    }
+  });
+
+  // Edit a same-source rule's name, kind, pattern or default action
+  app.patch("/api/admin/same-source-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const existing = await storage.getSameSourceRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rule not found" });
+      }
+      const updates = insertSameSourceRuleSchema.omit({ createdBy: true }).partial().parse(req.body);
+      const kind = updates.kind ?? existing.kind;
+      const pattern = kind === "dataset_match" ? null : (updates.pattern !== undefined ? updates.pattern : existing.pattern);
+      const patternError = sameSourcePatternError({ kind, pattern });
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+      const rule = await storage.updateSameSourceRule(existing.id, { ...updates, pattern });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating same-source rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid same-source rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update same-source rule" });
+    }
+  });
+
+  // Delete a same-source rule; campaign choices for it are ignored from then on
+  app.delete("/api/admin/same-source-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteSameSourceRule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting same-source rule:", error);
+      res.status(500).json({ message: "Failed to delete same-source rule" });
+    }
+  });
+
+  // ==================== TERMINOLOGIES ====================
+
+  // Uploaded terminologies; reviewers use the list to know which code
+  // systems can be searched
+  app.get("/api/terminologies", requireAuth, async (req, res) => {
+    try {
+      const list = await storage.getTerminologies();
+      res.json(list);
+    } catch (error) {
+      console.error("Error fetching terminologies:", error);
+      res.status(500).json({ message: "Failed to fetch terminologies" });
+    }
+  });
+
+  // Search a code system's terminology by code, label or synonym
+  // (?codeSystem=LOINC&q=glucose serum)
+  app.get("/api/terminologies/search", requireAuth, async (req, res) => {
+    try {
+      const codeSystem = String(req.query.codeSystem || "");
+      const query = String(req.query.q || "");
+      const terminology = await storage.getTerminology(codeSystem);
+      if (!terminology) {
+        return res.status(404).json({ message: `No terminology has been uploaded for ${codeSystem || "this code system"}` });
+      }
+      const limit = Math.min(parseInt(String(req.query.limit || TERMINOLOGY_SEARCH_LIMIT), 10) || TERMINOLOGY_SEARCH_LIMIT, 50);
+      const matches = await storage.searchTerminology(terminology.id, query, limit);
+      res.json(matches);
+    } catch (error) {
+      console.error("Error searching terminology:", error);
+      res.status(500).json({ message: "Failed to search terminology" });
+    }
+  });
+
+  // Upload a code system's terminology (multipart "file" and "codeSystem"),
+  // replacing the one it had
+  app.post("/api/admin/terminologies", requireAdmin, importUpload.single("file"), async (req, res) => {
+    try {
+      const codeSystem = req.body.codeSystem;
+      if (!TERMINOLOGY_CODE_SYSTEMS.includes(codeSystem)) {
+        return res.status(400).json({ message: `Code system must be one of: ${TERMINOLOGY_CODE_SYSTEMS.join(", ")}` });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const fileFormat = await detectImportFormat(req.file.path, req.file.originalname);
+      if (!fileFormat) {
+        return res.status(400).json({ message: UNSUPPORTED_FILE_MESSAGE });
+      }
+
+      const file = await readTerminologyFile(req.file.path, fileFormat, req.file.size);
+      if (file.error) {
+        return res.status(400).json({ message: file.error });
+      }
+      const terminology = await storage.replaceTerminology(
+        { codeSystem, fileName: req.file.originalname, uploadedBy: req.user!.id },
+        file.codes
+      );
+      res.status(201).json({ terminology, skippedRows: file.skippedRows, issues: file.issues });
+    } catch (error) {
+      if (error instanceof SyntaxError || error instanceof CsvError) {
+        return res.status(400).json({ message: `The file could not be parsed: ${error.message}` });
+      }
+      console.error("Error uploading terminology:", error);
+      res.status(500).json({ message: "Failed to upload terminology" });
+    } finally {
+      if (req.file) await fs.promises.rm(req.file.path, { force: true });
+    }
+  });
+
+  // Delete a terminology; votes keep the labels they were saved with
+  app.delete("/api/admin/terminologies/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteTerminology(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting terminology:", error);
+      res.status(500).json({ message: "Failed to delete terminology" });
+    }
+  });
+
   // ==================== INTER-RATER RELIABILITY ====================
 
-  // Get Krippendorff's Alpha for a campaign
+  // Get Krippendorff's Alpha for a campaign with a bootstrap interval and
+  // alpha-if-removed per reviewer. `metric` (ordinal or interval) applies to
+  // numeric scores; binary votes always use the nominal metric.
   app.get("/api/campaigns/:id/alpha", requireAuth, async (req, res) => {
     try {
-      const result = await storage.calculateKrippendorffAlpha(req.params.id);
+      const metric = req.query.metric as string | undefined;
+      if (metric && !["nominal", "ordinal", "interval"].includes(metric)) {
+        return res.status(400).json({ message: "Invalid metric" });
+      }
+      const result = await storage.calculateKrippendorffAlpha(req.params.id, {
+        metric: metric as AlphaMetric | undefined,
+        detailed: true,
+      });
       res.json(result);
     } catch (error) {
       console.error("Error calculating alpha:", error);
@@ -671,7 +1982,7 @@ export async function registerRoutes(
 
   // ==================== IMPORT TEMPLATES ====================
 
-  // Get all import templates
+  // Latest version of each import template, with how often and when it was used
   app.get("/api/import-templates", requireAdmin, async (req, res) => {
     try {
       const templates = await storage.getImportTemplates();
@@ -682,7 +1993,7 @@ export async function registerRoutes(
     }
   });
 
-  // Create import template
+  // Create import template, or the next version of the template with that name
   app.post("/api/import-templates", requireAdmin, async (req, res) => {
     try {
       const { name, description, columnMappings } = req.body;
@@ -692,16 +2003,37 @@ export async function registerRoutes(
       const template = await storage.createImportTemplate({
         name,
         description: description || null,
-        columnMappings,
+        columnMappings: columnMappingsSchema.parse(columnMappings),
         createdBy: req.user!.id,
       });
       res.status(201).json(template);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error creating template:", error);
+      // Another version of the name was saved at the same moment
+      if (error.code === "23505") {
+        return res.status(409).json({ message: "The template was just saved by someone else. Please try again." });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid column mappings", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create template" });
     }
   });
 
+  // Every version of a template, newest first
+  app.get("/api/import-templates/:id/versions", requireAdmin, async (req, res) => {
+    try {
+      const versions = await storage.getImportTemplateVersions(req.params.id);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching template versions:", error);
+      res.status(500).json({ message: "Failed to fetch template versions" });
+    }
+  });
+
   // Get single import template by id
   app.get("/api/import-templates/:id", requireAdmin, async (req, res) => {
     try {
@@ -716,7 +2048,7 @@ export async function registerRoutes(
     }
   });
 
-  // Delete import template
+  // Delete import template with all its versions
   app.delete("/api/import-templates/:id", requireAdmin, async (req, res) => {
     try {
       await storage.deleteImportTemplate(req.params.id);
@@ -763,12 +2095,27 @@ export async function registerRoutes(
     }
   });
 
+  // Fleiss' kappa for the panel and Cohen's kappa for every reviewer pair
+  app.get("/api/analytics/campaigns/:id/agreement", requireAuth, async (req, res) => {
+    try {
+      const agreement = await storage.getReviewerAgreement(req.params.id);
+      res.json(agreement);
+    } catch (error) {
+      console.error("Error fetching reviewer agreement:", error);
+      res.status(500).json({ message: "Failed to fetch reviewer agreement" });
+    }
+  });
+
   // High disagreement pairs for a campaign
   app.get("/api/analytics/campaigns/:id/disagreements", requireAuth, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const pairs = await storage.getHighDisagreementPairs(req.params.id, limit);
       const byConfidence = await storage.getDisagreementByConfidence(req.params.id);
+      // Gold answers and machine labels stay hidden from everyone but admins
+      if (req.user!.role !== "admin") {
+        return res.json({ pairs: pairs.map((row) => ({ ...row, pair: blindPair(row.pair) })), byConfidence });
+      }
       res.json({ pairs, byConfidence });
     } catch (error) {
       console.error("Error fetching disagreement data:", error);
@@ -776,6 +2123,58 @@ export async function registerRoutes(
     }
   });
 
+  // LLM calibration against human labels, overall and per llmModel.
+  // `bins` sets the reliability diagram resolution; `thresholds` is a
+  // comma-separated list of confidences to report precision/recall at.
+  app.get("/api/analytics/campaigns/:id/calibration", requireAuth, async (req, res) => {
+    try {
+      const bins = req.query.bins ? parseInt(req.query.bins as string) : DEFAULT_CALIBRATION_BINS;
+      if (!Number.isInteger(bins) || bins < 2 || bins > 50) {
+        return res.status(400).json({ message: "bins must be an integer from 2 to 50" });
+      }
+
+      const thresholds = req.query.thresholds
+        ? (req.query.thresholds as string).split(",").map((t) => parseFloat(t.trim()))
+        : DEFAULT_CALIBRATION_THRESHOLDS;
+      if (thresholds.length === 0 || thresholds.length > 20 || thresholds.some((t) => isNaN(t) || t < 0 || t > 1)) {
+        return res.status(400).json({ message: "thresholds must be up to 20 comma-separated values from 0 to 1" });
+      }
+
+      const report = await storage.getCalibrationReport(req.params.id, {
+        bins,
+        thresholds: Array.from(new Set(thresholds)).sort((a, b) => a - b),
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching calibration report:", error);
+      res.status(500).json({ message: "Failed to fetch calibration report" });
+    }
+  });
+
+  // Each model's accuracy, precision, recall and Brier score against the
+  // human label, on all its predictions and on the pairs every model predicted
+  app.get("/api/analytics/campaigns/:id/model-comparison", requireAuth, async (req, res) => {
+    try {
+      const report = await storage.getModelComparisonReport(req.params.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching model comparison:", error);
+      res.status(500).json({ message: "Failed to fetch model comparison" });
+    }
+  });
+
+  // Time-per-pair distributions and sessions per reviewer, flagging
+  // suspiciously fast voting
+  app.get("/api/analytics/campaigns/:id/review-times", requireAuth, async (req, res) => {
+    try {
+      const report = await storage.getReviewTimeReport(req.params.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching review times:", error);
+      res.status(500).json({ message: "Failed to fetch review times" });
+    }
+  });
+
   // Skip analysis for a campaign
   app.get("/api/analytics/campaigns/:id/skips", requireAuth, async (req, res) => {
     try {
@@ -787,6 +2186,17 @@ export async function registerRoutes(
     }
   });
 
+  // Reasons given for no_match votes, by model and confidence band
+  app.get("/api/analytics/campaigns/:id/rejection-reasons", requireAuth, async (req, res) => {
+    try {
+      const report = await storage.getRejectionReasonReport(req.params.id);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching rejection reasons:", error);
+      res.status(500).json({ message: "Failed to fetch rejection reasons" });
+    }
+  });
+
   // Votes over time (optional campaignId)
   app.get("/api/analytics/votes-over-time", requireAuth, async (req, res) => {
     try {
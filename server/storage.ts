@@ -1,16 +1,245 @@
 import { 
   users, campaigns, pairs, votes, allowedDomains, skippedPairs, importTemplates,
+  assignmentPlans, pairAssignments, pairLeases, adjudications, importJobs, sameSourceRules, modelPredictions,
+  pairCandidates, terminologies, terminologyCodes, reviewSessions, voteWithdrawals,
   type User, type InsertUser,
   type Campaign, type InsertCampaign,
   type Pair, type InsertPair,
-  type Vote, type InsertVote,
+  type Vote, type InsertVote, type VoteWithdrawal, type VoteWithdrawalWithContext,
   type AllowedDomain, type InsertAllowedDomain,
-  type InsertSkippedPair,
-  type ImportTemplate, type InsertImportTemplate,
-  type CampaignWithStats, type UserStats
+  type SkippedPair, type InsertSkippedPair,
+  type ImportTemplate, type InsertImportTemplate, type ImportJob,
+  type SameSourceRule, type InsertSameSourceRule,
+  type Terminology, type TerminologyCode,
+  type AssignmentPlan, type InsertAssignmentPlan, type ReviewerQuota,
+  type PairLease, type ActivePairLease, type ReviewSession,
+  type Adjudication, type InsertAdjudication, type AdjudicationWithAdjudicator,
+  type CampaignWithStats, type UserStats,
+  type GoldSettings, type GoldAccuracy, type GoldAccuracyAlert,
+  type AlphaMetric, type KrippendorffAlphaReport, type ReviewerAgreementReport,
+  type CalibrationReport, type ModelPrediction, type PairCandidate
 } from "@shared/schema";
+import { resolveConsensusPolicy, type ConsensusPolicy, type ConsensusOutcome } from "@shared/consensusPolicy";
+import type { AutoLabelRule, AutoLabelAuditReport } from "@shared/autoLabelRules";
+import { AUTO_LABEL_MIN_AUDITED, AUTO_LABEL_TARGET_AGREEMENT } from "@shared/autoLabelRules";
+import { DEFAULT_SAME_SOURCE_RULES, type SameSourceActions, type SameSourceMatch } from "@shared/sameSourceRules";
+import { addFieldChangeCounts, type PairChange } from "@shared/existingPairs";
+import { pairPredictions, type ModelComparisonReport, type ModelPredictionInput } from "@shared/modelPredictions";
+import {
+  acceptedCandidates, computeCandidateListMetrics, type CandidateListReport, type CandidateListResult,
+} from "@shared/candidateLists";
+import {
+  terminologySearchTerms, terminologySearchText, type TerminologyCodeInput, type TerminologyMatch,
+} from "@shared/terminology";
+import {
+  FAST_REVIEW_MS, FAST_VOTING_MIN_VOTES, FAST_VOTING_SHARE, IDLE_GAP_MS, MAX_REVIEW_MS, SESSION_IDLE_TIMEOUT_MS,
+  dayStreaks, percentile, reviewTimeBuckets,
+  type ReviewSessionStats, type ReviewTimeReport, type ReviewerTimeStats,
+} from "@shared/reviewSessions";
+import { REVIEW_HISTORY_SIZE, type WithdrawalReason } from "@shared/voteWithdrawals";
+import { emptySkipReasonCounts, type SkipReason, type SkipReasonCounts } from "@shared/skipReasons";
+import {
+  resolveRejectionReasons, type RejectionReason, type RejectionReasonReport,
+} from "@shared/rejectionReasons";
 import { db } from "./db";
-import { eq, and, sql, desc, count, not, inArray, lt, gte, between } from "drizzle-orm";
+import { planAssignments } from "./assignmentPlanner";
+import { computeCampaignConsensus } from "./consensus";
+import { computeCalibration, type CalibrationPoint } from "./calibration";
+import { computeModelComparison } from "./modelComparison";
+import { computeRejectionReasonReport } from "./rejectionAnalysis";
+import { evaluateAutoLabel, summarizeRuleAudit } from "./autoLabel";
+import { pairKey } from "./pairImport";
+import type { CurrentPair, NewPair, PairImportPlan } from "./pairUpsert";
+import {
+  krippendorffAlpha, bootstrapAlphaInterval, alphaIfRemoved, fleissKappa, pairwiseCohensKappa,
+  type ReliabilityUnit,
+} from "./reliability";
+import { eq, and, sql, desc, count, not, inArray, lt, gte, between, isNull, isNotNull, asc } from "drizzle-orm";
+
+// Pairs a reviewer can be served: the current version of the pair, and not
+// auto-labelled or sampled for audit
+const inReviewQueue = sql`(${pairs.supersededById} IS NULL AND (${pairs.machineLabel} IS NULL OR ${pairs.auditSampled}))`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// The database, or a transaction on it
+type Executor = typeof db | Transaction;
+
+// Leases pairs to a reviewer, or extends the leases they already hold on
+// them. With replace, the reviewer's other leases on the campaign are released.
+async function writePairLeases(
+  tx: Executor,
+  campaignId: string,
+  pairIds: string[],
+  userId: string,
+  ttlSeconds: number,
+  { replace }: { replace: boolean }
+): Promise<PairLease[]> {
+  // Expired leases are only ever ignored by reads; clear them out opportunistically
+  await tx
+    .delete(pairLeases)
+    .where(and(eq(pairLeases.campaignId, campaignId), lt(pairLeases.expiresAt, new Date())));
+  if (replace) {
+    await tx.delete(pairLeases).where(
+      and(
+        eq(pairLeases.campaignId, campaignId),
+        eq(pairLeases.userId, userId),
+        pairIds.length > 0 ? not(inArray(pairLeases.pairId, pairIds)) : sql`true`
+      )
+    );
+  }
+  if (pairIds.length === 0) return [];
+
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  return tx
+    .insert(pairLeases)
+    .values(pairIds.map((pairId) => ({ campaignId, pairId, userId, expiresAt })))
+    .onConflictDoUpdate({
+      target: [pairLeases.pairId, pairLeases.userId],
+      set: { expiresAt },
+    })
+    .returning();
+}
+
+// Serialises pair picks on a campaign until the transaction ends, so a
+// reviewer picking at the same moment as another sees the other's new leases
+async function lockCampaignPicks(tx: Transaction, campaignId: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${campaignId}))`);
+}
+
+// Copies a vote into the withdrawal audit trail, locking it first
+async function recordWithdrawal(
+  tx: Transaction,
+  pairId: string,
+  userId: string,
+  reason: WithdrawalReason
+): Promise<{ vote: Vote; withdrawal: VoteWithdrawal } | null> {
+  const [vote] = await tx
+    .select()
+    .from(votes)
+    .where(and(eq(votes.pairId, pairId), eq(votes.userId, userId)))
+    .for("update");
+  if (!vote) return null;
+
+  const [withdrawal] = await tx
+    .insert(voteWithdrawals)
+    .values({
+      voteId: vote.id,
+      pairId,
+      userId,
+      reason,
+      vote: {
+        scoreBinary: vote.scoreBinary,
+        scoreNumeric: vote.scoreNumeric,
+        scoringMode: vote.scoringMode,
+        expertSelectedCode: vote.expertSelectedCode,
+        expertSelectedLabel: vote.expertSelectedLabel,
+        selectedCandidates: vote.selectedCandidates,
+        reviewerNotes: vote.reviewerNotes,
+        rejectionReasons: vote.rejectionReasons,
+        sessionId: vote.sessionId,
+        reviewMs: vote.reviewMs,
+        createdAt: vote.createdAt.toISOString(),
+        updatedAt: vote.updatedAt?.toISOString() ?? null,
+      },
+    })
+    .returning();
+  return { vote, withdrawal };
+}
+
+// Inserts pairs with their model predictions and candidate lists, returning
+// the new pair ids by "sourceId::targetId" key
+async function insertNewPairs(tx: Transaction, newPairs: NewPair[]): Promise<Map<string, string>> {
+  if (newPairs.length === 0) return new Map();
+  const created = await tx
+    .insert(pairs)
+    .values(newPairs.map(({ pair }) => pair))
+    .returning({ id: pairs.id, sourceId: pairs.sourceId, targetId: pairs.targetId });
+  const createdIds = new Map(created.map((pair) => [pairKey(pair), pair.id]));
+
+  const predictionRows = newPairs.flatMap(({ pair, predictions }) =>
+    predictions.map((prediction) => ({ pairId: createdIds.get(pairKey(pair))!, ...prediction }))
+  );
+  if (predictionRows.length > 0) await tx.insert(modelPredictions).values(predictionRows);
+
+  const candidateRows = newPairs.flatMap(({ pair, candidates }) =>
+    candidates.map((candidate, index) => ({ pairId: createdIds.get(pairKey(pair))!, rank: index + 1, ...candidate }))
+  );
+  if (candidateRows.length > 0) await tx.insert(pairCandidates).values(candidateRows);
+  return createdIds;
+}
+
+// Writes an import plan's new pairs, updates and new versions, returning the
+// number of new pairs. Superseded versions give up their open assignment slots.
+async function writePairImportPlan(tx: Transaction, plan: PairImportPlan): Promise<number> {
+  const inserted = await insertNewPairs(tx, plan.inserts);
+
+  for (const { id, values, predictions, candidates } of plan.updates) {
+    if (Object.keys(values).length > 0) {
+      await tx.update(pairs).set(values).where(eq(pairs.id, id));
+    }
+    if (predictions.length > 0) {
+      await tx
+        .insert(modelPredictions)
+        .values(predictions.map((prediction) => ({ pairId: id, ...prediction })))
+        .onConflictDoUpdate({
+          target: [modelPredictions.pairId, modelPredictions.model],
+          set: {
+            confidence: sql`COALESCE(excluded.confidence, ${modelPredictions.confidence})`,
+            reasoning: sql`COALESCE(excluded.reasoning, ${modelPredictions.reasoning})`,
+          },
+        });
+    }
+    if (candidates) {
+      await tx.delete(pairCandidates).where(eq(pairCandidates.pairId, id));
+      await tx.insert(pairCandidates).values(
+        candidates.map((candidate, index) => ({ pairId: id, rank: index + 1, ...candidate }))
+      );
+    }
+  }
+
+  if (plan.versions.length > 0) {
+    const createdIds = await insertNewPairs(tx, plan.versions);
+    for (const { previousId, pair } of plan.versions) {
+      await tx.update(pairs).set({ supersededById: createdIds.get(pairKey(pair)) }).where(eq(pairs.id, previousId));
+    }
+
+    const previousIds = plan.versions.map((version) => version.previousId);
+    await tx.delete(pairAssignments).where(
+      and(
+        inArray(pairAssignments.pairId, previousIds),
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${votes}
+          WHERE ${votes.pairId} = ${pairAssignments.pairId} AND ${votes.userId} = ${pairAssignments.userId}
+        )`
+      )
+    );
+  }
+
+  return inserted.size;
+}
+
+// Gold answers a reviewer needs in a campaign before low accuracy raises an alert
+const GOLD_ALERT_MIN_ANSWERS = 5;
+
+type GoldAnswer = {
+  campaignId: string;
+  userId: string;
+  scoreBinary: Vote["scoreBinary"];
+  knownLabel: Pair["knownLabel"];
+};
+
+// Unsure votes on a gold pair count as answered but not correct
+function summarizeGoldAnswers(answers: GoldAnswer[]): Map<string, GoldAccuracy> {
+  const byUser = new Map<string, GoldAccuracy>();
+  answers.forEach((answer) => {
+    const stats = byUser.get(answer.userId) ?? { answered: 0, correct: 0, accuracy: null };
+    stats.answered++;
+    if (answer.scoreBinary === answer.knownLabel) stats.correct++;
+    stats.accuracy = stats.correct / stats.answered;
+    byUser.set(answer.userId, stats);
+  });
+  return byUser;
+}
 
 export interface IStorage {
   // Users
@@ -18,8 +247,8 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUserLastActive(id: string): Promise<void>;
-  updateUserRole(id: string, role: "reviewer" | "admin"): Promise<void>;
-  getAllUsers(): Promise<(User & { voteCount: number })[]>;
+  updateUserRole(id: string, role: User["role"]): Promise<void>;
+  getAllUsers(): Promise<(User & { voteCount: number; gold: GoldAccuracy })[]>;
   getRecentUsers(limit: number): Promise<User[]>;
   
   // Campaigns
@@ -29,12 +258,28 @@ export interface IStorage {
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
   updateCampaignStatus(id: string, status: Campaign["status"]): Promise<void>;
   getDistinctCampaignTypes(): Promise<string[]>;
+  updateCampaignConsensusPolicy(id: string, policy: ConsensusPolicy): Promise<void>;
+  updateCampaignGoldSettings(id: string, settings: GoldSettings): Promise<void>;
+  updateCampaignAutoLabelRules(id: string, rules: AutoLabelRule[]): Promise<void>;
+  updateCampaignSameSourceActions(id: string, actions: SameSourceActions): Promise<void>;
+  updateCampaignPredictionDisplay(id: string, hideModelPredictions: boolean): Promise<void>;
+  updateCampaignRejectionReasons(id: string, reasons: RejectionReason[] | null): Promise<void>;
+  
+  // Consensus (pairId -> label under the campaign's policy, adjudications applied)
+  getCampaignConsensus(campaignId: string): Promise<Map<string, ConsensusOutcome>>;
   
   // Pairs
   getPair(id: string): Promise<Pair | undefined>;
-  createPairs(pairsData: InsertPair[]): Promise<number>;
-  getPairIdentifiers(campaignId: string): Promise<{ sourceId: string; targetId: string }[]>;
-  getNextPairForUser(campaignId: string, userId: string): Promise<Pair | null>;
+  getCurrentPairs(campaignId: string, keys: { sourceId: string; targetId: string }[]): Promise<Map<string, CurrentPair>>;
+  // Further models' predictions for a pair (the primary one stays on the pair)
+  getPairPredictions(pairId: string): Promise<ModelPrediction[]>;
+  // A pair's candidate list in rank order; empty for single-target pairs
+  getPairCandidates(pairId: string): Promise<PairCandidate[]>;
+  importPairs(plan: PairImportPlan): Promise<number>;
+  getNextPairForUser(campaignId: string, userId: string, excludePairIds?: string[]): Promise<Pair | null>;
+  getNextPairsForUser(campaignId: string, userId: string, count: number, excludePairIds?: string[]): Promise<Pair[]>;
+  getNextGoldPairs(campaignId: string, userId: string, limit: number, excludePairIds?: string[]): Promise<Pair[]>;
+  setPairKnownLabel(pairId: string, knownLabel: Pair["knownLabel"]): Promise<void>;
   getPairsCount(campaignId: string): Promise<number>;
   getReviewedPairsCount(campaignId: string): Promise<number>;
   getCampaignProgress(campaignId: string): Promise<{ reviewed: number; total: number }>;
@@ -43,7 +288,10 @@ export interface IStorage {
   createVote(vote: InsertVote): Promise<Vote>;
   getVotesByPair(pairId: string): Promise<Vote[]>;
   getUserVotes(userId: string): Promise<(Vote & { pair: Pair })[]>;
-  updateVote(pairId: string, userId: string, updates: Partial<Pick<Vote, "scoreBinary" | "scoreNumeric" | "scoringMode" | "expertSelectedCode" | "reviewerNotes">>): Promise<Vote | null>;
+  updateVote(pairId: string, userId: string, updates: Partial<Pick<Vote, "scoreBinary" | "scoreNumeric" | "scoringMode" | "expertSelectedCode" | "expertSelectedLabel" | "reviewerNotes" | "rejectionReasons">>): Promise<Vote | null>;
+  withdrawVote(pairId: string, userId: string, reason: WithdrawalReason): Promise<VoteWithdrawal | null>;
+  reviseVote(vote: InsertVote): Promise<Vote | null>;
+  getVoteWithdrawals(campaignId: string): Promise<VoteWithdrawalWithContext[]>;
   getUserVotesCount(userId: string): Promise<number>;
   getUserVotesPerCampaign(userId: string): Promise<{ campaignId: string; campaignName: string; voteCount: number }[]>;
   getUserRecentActivity(userId: string, days: number): Promise<{ date: string; count: number }[]>;
@@ -51,7 +299,57 @@ export interface IStorage {
   getUserStats(userId: string): Promise<UserStats>;
   
   // Skipped pairs
-  skipPair(pairId: string, userId: string): Promise<void>;
+  skipPair(pairId: string, userId: string, sessionId?: string | null, reason?: SkipReason | null): Promise<void>;
+  getSkippedPairs(userId: string, campaignId: string): Promise<(SkippedPair & { pair: Pair })[]>;
+  unskipPairs(userId: string, campaignId: string, pairIds?: string[]): Promise<number>;
+  
+  // Auto-labelling
+  applyAutoLabelRules(campaignId: string): Promise<{ labelled: number; auditSampled: number }>;
+  getAutoLabelAuditReport(campaignId: string): Promise<AutoLabelAuditReport>;
+  
+  // Gold pairs
+  getGoldAccuracy(campaignId?: string): Promise<Map<string, GoldAccuracy>>;
+  getGoldAccuracyAlerts(): Promise<GoldAccuracyAlert[]>;
+  
+  // Adjudications
+  getAdjudication(pairId: string): Promise<AdjudicationWithAdjudicator | undefined>;
+  saveAdjudication(adjudication: InsertAdjudication): Promise<Adjudication>;
+  deleteAdjudication(pairId: string): Promise<void>;
+  getCampaignAdjudications(campaignId: string): Promise<AdjudicationWithAdjudicator[]>;
+  getAdjudicationQueue(): Promise<{
+    campaignId: string;
+    campaignName: string;
+    status: string;
+    openDisputes: number;
+    adjudicatedCount: number;
+  }[]>;
+  
+  // Pair leases
+  acquirePairLease(campaignId: string, pairId: string, userId: string, ttlSeconds: number): Promise<PairLease>;
+  leaseNextPair(campaignId: string, userId: string, ttlSeconds: number): Promise<{ pair: Pair; lease: PairLease } | null>;
+  leaseNextPairs(campaignId: string, userId: string, count: number, excludePairIds: string[], ttlSeconds: number): Promise<Pair[]>;
+  renewPairLeases(campaignId: string, userId: string, pairIds: string[], ttlSeconds: number): Promise<PairLease[]>;
+  releasePairLease(pairId: string, userId: string): Promise<void>;
+  getActiveLeases(campaignId: string): Promise<ActivePairLease[]>;
+  
+  // Review sessions
+  touchReviewSession(userId: string, campaignId: string, at?: Date): Promise<ReviewSession>;
+  getReviewSessionStats(userId: string, campaignId: string): Promise<ReviewSessionStats>;
+  getReviewHistory(userId: string, campaignId: string): Promise<(Vote & { pair: Pair })[]>;
+  getReviewTimeReport(campaignId: string): Promise<ReviewTimeReport>;
+  
+  // Assignment plans
+  getAssignmentPlan(campaignId: string): Promise<AssignmentPlan | undefined>;
+  saveAssignmentPlan(plan: InsertAssignmentPlan): Promise<AssignmentPlan>;
+  deleteAssignmentPlan(campaignId: string): Promise<void>;
+  rebuildAssignments(campaignId: string, options?: { resetOpen?: boolean }): Promise<{
+    created: number;
+    released: number;
+    unfilledSlots: number;
+  }>;
+  getReviewerQuotas(campaignId: string): Promise<ReviewerQuota[]>;
+  getUnfilledSlots(campaignId: string): Promise<number>;
+  getNextAssignedPairs(campaignId: string, userId: string, limit: number, excludePairIds?: string[]): Promise<Pair[]>;
   
   // Allowed domains
   isDomainAllowed(domain: string): Promise<boolean>;
@@ -73,6 +371,8 @@ export interface IStorage {
     pair: Pair;
     votes: Vote[];
     positiveRate: number | null;
+    adjudication: AdjudicationWithAdjudicator | null;
+    consensus: ConsensusOutcome;
   }[]>;
   
   // Results Browser (paginated)
@@ -80,7 +380,7 @@ export interface IStorage {
     page: number;
     limit: number;
     search?: string;
-    consensus?: "match" | "no_match" | "disagreement" | "unreviewed" | null;
+    consensus?: ConsensusOutcome["label"] | "adjudicated" | "auto_labelled" | null;
     minVotes?: number;
     maxVotes?: number;
   }): Promise<{
@@ -91,6 +391,8 @@ export interface IStorage {
       negativeVotes: number;
       skipCount: number;
       positiveRate: number | null;
+      adjudication: AdjudicationWithAdjudicator | null;
+      consensus: ConsensusOutcome;
     }[];
     total: number;
     page: number;
@@ -102,6 +404,11 @@ export interface IStorage {
     pair: Pair;
     votes: (Vote & { user: Pick<User, "id" | "email" | "displayName"> })[];
     skipCount: number;
+    adjudication: AdjudicationWithAdjudicator | null;
+    consensus: ConsensusOutcome;
+    predictions: ModelPredictionInput[];
+    // With the number of candidate votes that picked each
+    candidates: (PairCandidate & { picks: number })[];
   } | null>;
   
   // Database explorer
@@ -111,18 +418,56 @@ export interface IStorage {
   }>;
   
   // Import Templates
+  // Latest version of each template
   getImportTemplates(): Promise<ImportTemplate[]>;
   getImportTemplate(id: string): Promise<ImportTemplate | undefined>;
+  // Every version of the template's name, newest first
+  getImportTemplateVersions(id: string): Promise<ImportTemplate[]>;
   createImportTemplate(template: InsertImportTemplate): Promise<ImportTemplate>;
   deleteImportTemplate(id: string): Promise<void>;
   
-  // Krippendorff's Alpha
-  calculateKrippendorffAlpha(campaignId: string): Promise<{
-    alpha: number | null;
-    raterCount: number;
-    pairCount: number;
-    voteCount: number;
-  }>;
+  // Same-source rules, in the order imports check them
+  getSameSourceRules(): Promise<SameSourceRule[]>;
+  getSameSourceRule(id: string): Promise<SameSourceRule | undefined>;
+  createSameSourceRule(rule: InsertSameSourceRule): Promise<SameSourceRule>;
+  updateSameSourceRule(id: string, updates: Partial<Omit<InsertSameSourceRule, "createdBy">>): Promise<SameSourceRule | undefined>;
+  deleteSameSourceRule(id: string): Promise<void>;
+  ensureDefaultSameSourceRules(): Promise<void>;
+  
+  // Target terminologies, one per code system
+  getTerminologies(): Promise<Terminology[]>;
+  getTerminology(codeSystem: string): Promise<Terminology | undefined>;
+  replaceTerminology(
+    upload: Pick<Terminology, "codeSystem" | "fileName" | "uploadedBy">,
+    codes: TerminologyCodeInput[]
+  ): Promise<Terminology>;
+  deleteTerminology(id: string): Promise<void>;
+  getTerminologyCode(terminologyId: string, code: string): Promise<TerminologyCode | undefined>;
+  searchTerminology(terminologyId: string, query: string, limit: number): Promise<TerminologyMatch[]>;
+  
+  // Import jobs
+  createImportJob(job: Pick<ImportJob, "campaignId" | "createdBy" | "fileName" | "filePath" | "fileFormat" | "fileSize" | "sheetName" | "columnMappings" | "templateId" | "templateVersion" | "dryRun" | "skipInvalidRows" | "existingPairMode" | "requeueChanged">): Promise<ImportJob>;
+  getImportJob(id: string): Promise<ImportJob | undefined>;
+  getCampaignImportJobs(campaignId: string): Promise<ImportJob[]>;
+  updateImportJob(id: string, updates: Partial<Omit<ImportJob, "id" | "campaignId" | "createdBy" | "createdAt">>): Promise<void>;
+  startImportPass(id: string): Promise<void>;
+  deleteImportJob(id: string): Promise<void>;
+  commitImportBatch(jobId: string, plan: PairImportPlan, progress: {
+    rowsCommitted: number;
+    bytesProcessed: number;
+    sameSource: number;
+    sameSourceWarnings: number;
+    // Appended to the job's report
+    sameSourceMatches: SameSourceMatch[];
+    pairChanges: PairChange[];
+  }): Promise<number>;
+  failInterruptedImportJobs(): Promise<number>;
+  
+  // Krippendorff's Alpha (detailed adds the bootstrap interval and per-reviewer diagnostics)
+  calculateKrippendorffAlpha(campaignId: string, options?: {
+    metric?: AlphaMetric;
+    detailed?: boolean;
+  }): Promise<KrippendorffAlphaReport>;
   
   // Analytics
   getCampaignAnalyticsSummary(): Promise<{
@@ -136,6 +481,7 @@ export interface IStorage {
     uniqueReviewers: number;
     avgVotesPerPair: number;
     alpha: number | null;
+    alphaMetric: AlphaMetric | null;
     disagreementCount: number;
     daysSinceLastActivity: number | null;
   }[]>;
@@ -160,9 +506,13 @@ export interface IStorage {
     positiveRate: number | null;
     avgTimeSeconds: number | null;
     skipCount: number;
+    goldAnswered: number;
+    goldAccuracy: number | null;
     flags: string[];
   }[]>;
   
+  getReviewerAgreement(campaignId: string): Promise<ReviewerAgreementReport>;
+  
   getHighDisagreementPairs(campaignId: string, limit?: number): Promise<{
     pair: Pair;
     voteCount: number;
@@ -181,20 +531,28 @@ export interface IStorage {
     disagreementRate: number;
   }[]>;
   
+  getCalibrationReport(campaignId: string, options: { bins: number; thresholds: number[] }): Promise<CalibrationReport>;
+  getModelComparisonReport(campaignId: string): Promise<ModelComparisonReport>;
+  getCandidateListReport(campaignId: string): Promise<CandidateListReport>;
+  getRejectionReasonReport(campaignId: string): Promise<RejectionReasonReport>;
+  
   getSkipAnalysis(campaignId: string): Promise<{
     totalSkips: number;
     uniquePairsSkipped: number;
     skipRate: number;
+    skipsByReason: SkipReasonCounts;
     mostSkippedPairs: {
       pair: Pair;
       skipCount: number;
       voteCount: number;
+      reasons: SkipReasonCounts;
     }[];
     skipsByReviewer: {
       userId: string;
       email: string;
       skipCount: number;
       skipRate: number;
+      reasons: SkipReasonCounts;
     }[];
   }>;
   
@@ -226,11 +584,11 @@ export class DatabaseStorage implements IStorage {
     await db.update(users).set({ lastActive: new Date() }).where(eq(users.id, id));
   }
 
-  async updateUserRole(id: string, role: "reviewer" | "admin"): Promise<void> {
+  async updateUserRole(id: string, role: User["role"]): Promise<void> {
     await db.update(users).set({ role }).where(eq(users.id, id));
   }
 
-  async getAllUsers(): Promise<(User & { voteCount: number })[]> {
+  async getAllUsers(): Promise<(User & { voteCount: number; gold: GoldAccuracy })[]> {
     const result = await db
       .select({
         id: users.id,
@@ -246,7 +604,11 @@ export class DatabaseStorage implements IStorage {
       .groupBy(users.id)
       .orderBy(desc(users.createdAt));
     
-    return result;
+    const goldByUser = await this.getGoldAccuracy();
+    return result.map(user => ({
+      ...user,
+      gold: goldByUser.get(user.id) ?? { answered: 0, correct: 0, accuracy: null },
+    }));
   }
 
   async getRecentUsers(limit: number): Promise<User[]> {
@@ -295,41 +657,196 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => r.campaignType);
   }
 
+  async updateCampaignConsensusPolicy(id: string, policy: ConsensusPolicy): Promise<void> {
+    await db.update(campaigns).set({ consensusPolicy: policy }).where(eq(campaigns.id, id));
+  }
+
+  async updateCampaignGoldSettings(id: string, settings: GoldSettings): Promise<void> {
+    await db.update(campaigns).set(settings).where(eq(campaigns.id, id));
+  }
+
+  async updateCampaignAutoLabelRules(id: string, rules: AutoLabelRule[]): Promise<void> {
+    await db.update(campaigns).set({ autoLabelRules: rules.length > 0 ? rules : null }).where(eq(campaigns.id, id));
+  }
+
+  async updateCampaignSameSourceActions(id: string, actions: SameSourceActions): Promise<void> {
+    await db
+      .update(campaigns)
+      .set({ sameSourceActions: Object.keys(actions).length > 0 ? actions : null })
+      .where(eq(campaigns.id, id));
+  }
+
+  async updateCampaignPredictionDisplay(id: string, hideModelPredictions: boolean): Promise<void> {
+    await db.update(campaigns).set({ hideModelPredictions }).where(eq(campaigns.id, id));
+  }
+
+  async updateCampaignRejectionReasons(id: string, reasons: RejectionReason[] | null): Promise<void> {
+    await db.update(campaigns).set({ rejectionReasons: reasons }).where(eq(campaigns.id, id));
+  }
+
+  // Consensus
+  async getCampaignConsensus(campaignId: string): Promise<Map<string, ConsensusOutcome>> {
+    const campaign = await this.getCampaign(campaignId);
+    const campaignPairs = await db
+      .select({ id: pairs.id })
+      .from(pairs)
+      .where(eq(pairs.campaignId, campaignId));
+    const campaignVotes = await db
+      .select({
+        pairId: votes.pairId,
+        userId: votes.userId,
+        scoreBinary: votes.scoreBinary,
+        scoringMode: votes.scoringMode,
+      })
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(eq(pairs.campaignId, campaignId));
+
+    return computeCampaignConsensus({
+      pairIds: campaignPairs.map(p => p.id),
+      votes: campaignVotes,
+      policy: resolveConsensusPolicy(campaign?.consensusPolicy),
+      adjudications: await this.getCampaignAdjudications(campaignId),
+    });
+  }
+
   // Pairs
   async getPair(id: string): Promise<Pair | undefined> {
     const [pair] = await db.select().from(pairs).where(eq(pairs.id, id));
     return pair || undefined;
   }
 
-  async createPairs(pairsData: InsertPair[]): Promise<number> {
-    if (pairsData.length === 0) return 0;
-    const inserted = await db.insert(pairs).values(pairsData).returning();
-    return inserted.length;
+  // The current versions of the given source/target combinations that the
+  // campaign already has, keyed by "sourceId::targetId". Lets imports check
+  // existing pairs one batch at a time instead of loading the whole campaign.
+  async getCurrentPairs(
+    campaignId: string,
+    keys: { sourceId: string; targetId: string }[]
+  ): Promise<Map<string, CurrentPair>> {
+    const current = new Map<string, CurrentPair>();
+    if (keys.length === 0) return current;
+
+    const wanted = new Set(keys.map(pairKey));
+    const sourceIds = Array.from(new Set(keys.map((k) => k.sourceId)));
+    const rows = await db
+      .select({ pair: pairs, voteCount: sql<number>`COUNT(${votes.id})::int` })
+      .from(pairs)
+      .leftJoin(votes, eq(votes.pairId, pairs.id))
+      .where(and(eq(pairs.campaignId, campaignId), inArray(pairs.sourceId, sourceIds), isNull(pairs.supersededById)))
+      .groupBy(pairs.id);
+    rows.forEach(({ pair, voteCount }) => {
+      const key = pairKey(pair);
+      if (wanted.has(key)) current.set(key, { ...pair, voteCount, predictions: [], candidates: [] });
+    });
+
+    const byId = new Map(Array.from(current.values()).map((pair) => [pair.id, pair]));
+    if (byId.size > 0) {
+      const predictions = await db
+        .select()
+        .from(modelPredictions)
+        .where(inArray(modelPredictions.pairId, Array.from(byId.keys())));
+      predictions.forEach((prediction) => byId.get(prediction.pairId)?.predictions.push(prediction));
+
+      const candidates = await db
+        .select()
+        .from(pairCandidates)
+        .where(inArray(pairCandidates.pairId, Array.from(byId.keys())))
+        .orderBy(asc(pairCandidates.rank));
+      candidates.forEach((candidate) => byId.get(candidate.pairId)?.candidates.push(candidate));
+    }
+    return current;
   }
 
-  async getPairIdentifiers(campaignId: string): Promise<{ sourceId: string; targetId: string }[]> {
+  async getPairPredictions(pairId: string): Promise<ModelPrediction[]> {
     return db
-      .select({ sourceId: pairs.sourceId, targetId: pairs.targetId })
-      .from(pairs)
-      .where(eq(pairs.campaignId, campaignId));
+      .select()
+      .from(modelPredictions)
+      .where(eq(modelPredictions.pairId, pairId))
+      .orderBy(asc(modelPredictions.model));
+  }
+
+  async getPairCandidates(pairId: string): Promise<PairCandidate[]> {
+    return db
+      .select()
+      .from(pairCandidates)
+      .where(eq(pairCandidates.pairId, pairId))
+      .orderBy(asc(pairCandidates.rank));
+  }
+
+  async importPairs(plan: PairImportPlan): Promise<number> {
+    return db.transaction((tx) => writePairImportPlan(tx, plan));
+  }
+
+  // The next pair in the order next-pairs would serve it
+  async getNextPairForUser(
+    campaignId: string,
+    userId: string,
+    excludePairIds: string[] = [],
+    executor: Executor = db
+  ): Promise<Pair | null> {
+    const [pair] = await this.getNextPairsForUser(campaignId, userId, 1, excludePairIds, executor);
+    return pair ?? null;
+  }
+
+  // The next pairs for the reviewer, best first. excludePairIds leaves out
+  // pairs the review page already holds, such as the rest of a prefetched
+  // batch or pairs with votes still in its outbox; executor runs the queries
+  // inside a caller's transaction (see leaseNextPairs).
+  async getNextPairsForUser(
+    campaignId: string,
+    userId: string,
+    count: number,
+    excludePairIds: string[] = [],
+    executor: Executor = db
+  ): Promise<Pair[]> {
+    const [campaign] = await executor.select().from(campaigns).where(eq(campaigns.id, campaignId));
+    if (!campaign || count <= 0) return [];
+
+    // Mix in gold pairs at the campaign's rate, drawn for each place in the
+    // batch. They come back as ordinary pairs so the review page cannot tell
+    // them apart.
+    const goldSlots = Array.from({ length: count }, () => Math.random() < campaign.goldPairRate);
+    const gold = await this.getNextGoldPairs(campaignId, userId, count, excludePairIds, executor);
+
+    // Campaigns with an assignment plan serve pairs from the reviewer's queue.
+    // Gold pairs the reviewer has not seen yet follow once the queue is empty.
+    const [plan] = await executor.select().from(assignmentPlans).where(eq(assignmentPlans.campaignId, campaignId));
+    const queued = plan
+      ? await this.getNextAssignedPairs(campaignId, userId, count, excludePairIds, executor)
+      : await this.getPriorityPairs(campaignId, userId, count, excludePairIds, executor);
+
+    const batch: Pair[] = [];
+    for (const wantsGold of goldSlots) {
+      const next = (wantsGold ? gold.shift() : undefined) ?? queued.shift() ?? gold.shift();
+      if (!next) break;
+      batch.push(next);
+    }
+    return batch;
   }
 
-  async getNextPairForUser(campaignId: string, userId: string): Promise<Pair | null> {
+  // Unlabelled pairs in review priority order (see docs/pair-selection-logic.md)
+  private async getPriorityPairs(
+    campaignId: string,
+    userId: string,
+    limit: number,
+    excludePairIds: string[],
+    executor: Executor
+  ): Promise<Pair[]> {
     // Get IDs of pairs user has already voted on or skipped
-    const userVotes = await db
+    const userVotes = await executor
       .select({ pairId: votes.pairId })
       .from(votes)
       .where(eq(votes.userId, userId));
     
-    const userSkips = await db
+    const userSkips = await executor
       .select({ pairId: skippedPairs.pairId })
       .from(skippedPairs)
-      .where(eq(skippedPairs.userId, userId));
+      .where(and(eq(skippedPairs.userId, userId), isNull(skippedPairs.unskippedAt)));
     
-    const excludedIds = [...userVotes.map(v => v.pairId), ...userSkips.map(s => s.pairId)];
+    const excludedIds = [...userVotes.map(v => v.pairId), ...userSkips.map(s => s.pairId), ...excludePairIds];
 
     // Priority 1: Pairs with 0 evaluations
-    const pairsWithVoteCounts = await db
+    const pairsWithVoteCounts = await executor
       .select({
         pair: pairs,
         voteCount: sql<number>`COALESCE(COUNT(${votes.id}), 0)::int`,
@@ -346,12 +863,27 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(pairs.campaignId, campaignId),
+          isNull(pairs.knownLabel),
+          inReviewQueue,
           excludedIds.length > 0 ? not(inArray(pairs.id, excludedIds)) : sql`true`
         )
       )
       .groupBy(pairs.id)
       .orderBy(
+        // Keep serving the pairs the reviewer holds leases on; push pairs
+        // leased by someone else behind everything else
         sql`
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM ${pairLeases}
+              WHERE ${pairLeases.pairId} = ${pairs.id} AND ${pairLeases.expiresAt} > NOW() AND ${pairLeases.userId} = ${userId}
+            ) THEN 0
+            WHEN EXISTS (
+              SELECT 1 FROM ${pairLeases}
+              WHERE ${pairLeases.pairId} = ${pairs.id} AND ${pairLeases.expiresAt} > NOW() AND ${pairLeases.userId} <> ${userId}
+            ) THEN 2
+            ELSE 1
+          END,
           CASE 
             WHEN COUNT(${votes.id}) = 0 THEN 0
             WHEN ${pairs.llmConfidence} < 0.7 AND COUNT(${votes.id}) < 3 THEN 1
@@ -363,20 +895,67 @@ export class DatabaseStorage implements IStorage {
           RANDOM()
         `
       )
-      .limit(1);
+      .limit(limit);
 
-    if (pairsWithVoteCounts.length === 0) {
-      return null;
-    }
+    return pairsWithVoteCounts.map((row) => row.pair);
+  }
+
+  // Gold pairs the reviewer has not answered yet, in random order
+  async getNextGoldPairs(
+    campaignId: string,
+    userId: string,
+    limit: number,
+    excludePairIds: string[] = [],
+    executor: Executor = db
+  ): Promise<Pair[]> {
+    const next = await executor
+      .select({ pair: pairs })
+      .from(pairs)
+      .leftJoin(votes, and(eq(votes.pairId, pairs.id), eq(votes.userId, userId)))
+      .leftJoin(skippedPairs, and(
+        eq(skippedPairs.pairId, pairs.id),
+        eq(skippedPairs.userId, userId),
+        isNull(skippedPairs.unskippedAt)
+      ))
+      .where(
+        and(
+          eq(pairs.campaignId, campaignId),
+          isNotNull(pairs.knownLabel),
+          isNull(pairs.supersededById),
+          sql`${votes.id} IS NULL`,
+          sql`${skippedPairs.id} IS NULL`,
+          excludePairIds.length > 0 ? not(inArray(pairs.id, excludePairIds)) : sql`true`
+        )
+      )
+      .orderBy(sql`RANDOM()`)
+      .limit(limit);
+
+    return next.map((row) => row.pair);
+  }
+
+  async setPairKnownLabel(pairId: string, knownLabel: Pair["knownLabel"]): Promise<void> {
+    await db.update(pairs).set({ knownLabel }).where(eq(pairs.id, pairId));
 
-    return pairsWithVoteCounts[0].pair;
+    // Gold pairs are served outside assignment plans; free their open slots
+    if (knownLabel) {
+      await db.delete(pairAssignments).where(
+        and(
+          eq(pairAssignments.pairId, pairId),
+          sql`NOT EXISTS (
+            SELECT 1 FROM ${votes}
+            WHERE ${votes.pairId} = ${pairAssignments.pairId} AND ${votes.userId} = ${pairAssignments.userId}
+          )`
+        )
+      );
+    }
   }
 
+  // Superseded versions are not counted: the version that replaced them is
   async getPairsCount(campaignId: string): Promise<number> {
     const [result] = await db
       .select({ count: count() })
       .from(pairs)
-      .where(eq(pairs.campaignId, campaignId));
+      .where(and(eq(pairs.campaignId, campaignId), isNull(pairs.supersededById)));
     return result?.count || 0;
   }
 
@@ -385,7 +964,7 @@ export class DatabaseStorage implements IStorage {
       .select({ count: sql<number>`COUNT(DISTINCT ${pairs.id})::int` })
       .from(pairs)
       .innerJoin(votes, eq(pairs.id, votes.pairId))
-      .where(eq(pairs.campaignId, campaignId));
+      .where(and(eq(pairs.campaignId, campaignId), isNull(pairs.supersededById)));
     return result?.count || 0;
   }
 
@@ -419,17 +998,74 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Edits some fields of a reviewer's vote. Like reviseVote, the version it
+  // replaces goes to the audit trail.
   async updateVote(
     pairId: string,
     userId: string,
-    updates: Partial<Pick<Vote, "scoreBinary" | "scoreNumeric" | "scoringMode" | "expertSelectedCode" | "reviewerNotes">>
+    updates: Partial<Pick<Vote, "scoreBinary" | "scoreNumeric" | "scoringMode" | "expertSelectedCode" | "expertSelectedLabel" | "reviewerNotes" | "rejectionReasons">>
   ): Promise<Vote | null> {
-    const [updated] = await db
-      .update(votes)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(and(eq(votes.pairId, pairId), eq(votes.userId, userId)))
-      .returning();
-    return updated || null;
+    return db.transaction(async (tx) => {
+      const recorded = await recordWithdrawal(tx, pairId, userId, "revised");
+      if (!recorded) return null;
+      const [updated] = await tx
+        .update(votes)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(votes.id, recorded.vote.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Takes a vote back: it stops counting and the pair returns to the
+  // reviewer's queue, with a copy kept in the audit trail
+  async withdrawVote(pairId: string, userId: string, reason: WithdrawalReason): Promise<VoteWithdrawal | null> {
+    return db.transaction(async (tx) => {
+      const recorded = await recordWithdrawal(tx, pairId, userId, reason);
+      if (!recorded) return null;
+      await tx.delete(votes).where(eq(votes.id, recorded.vote.id));
+      return recorded.withdrawal;
+    });
+  }
+
+  // Replaces a reviewer's vote with a changed one. The vote keeps its ID,
+  // session and time, and the version it replaces goes to the audit trail.
+  async reviseVote(vote: InsertVote): Promise<Vote | null> {
+    return db.transaction(async (tx) => {
+      const recorded = await recordWithdrawal(tx, vote.pairId, vote.userId, "revised");
+      if (!recorded) return null;
+      const [revised] = await tx
+        .update(votes)
+        .set({
+          scoreBinary: vote.scoreBinary ?? null,
+          scoreNumeric: vote.scoreNumeric ?? null,
+          scoringMode: vote.scoringMode,
+          expertSelectedCode: vote.expertSelectedCode ?? null,
+          expertSelectedLabel: vote.expertSelectedLabel ?? null,
+          selectedCandidates: vote.selectedCandidates ?? null,
+          reviewerNotes: vote.reviewerNotes ?? null,
+          rejectionReasons: vote.rejectionReasons ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(votes.id, recorded.vote.id))
+        .returning();
+      return revised;
+    });
+  }
+
+  async getVoteWithdrawals(campaignId: string): Promise<VoteWithdrawalWithContext[]> {
+    const rows = await db
+      .select({
+        withdrawal: voteWithdrawals,
+        user: { id: users.id, email: users.email, displayName: users.displayName },
+        pair: { id: pairs.id, sourceText: pairs.sourceText, targetText: pairs.targetText },
+      })
+      .from(voteWithdrawals)
+      .innerJoin(pairs, eq(voteWithdrawals.pairId, pairs.id))
+      .innerJoin(users, eq(voteWithdrawals.userId, users.id))
+      .where(eq(pairs.campaignId, campaignId))
+      .orderBy(desc(voteWithdrawals.withdrawnAt));
+    return rows.map(row => ({ ...row.withdrawal, user: row.user, pair: row.pair }));
   }
 
   async getUserVotesCount(userId: string): Promise<number> {
@@ -473,69 +1109,849 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getUserAgreementRate(userId: string): Promise<number | null> {
-    // Calculate agreement rate: how often user's vote matches the majority
-    const userVotesWithConsensus = await db
-      .select({
-        userVote: votes.scoreBinary,
-        pairId: votes.pairId,
-      })
+  async getUserAgreementRate(userId: string): Promise<number | null> {
+    // Calculate agreement rate: how often user's vote matches each campaign's consensus label
+    const userVotesWithConsensus = await db
+      .select({
+        userVote: votes.scoreBinary,
+        pairId: votes.pairId,
+        campaignId: pairs.campaignId,
+      })
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(eq(votes.userId, userId));
+
+    if (userVotesWithConsensus.length === 0) return null;
+
+    const consensusByCampaign = new Map<string, Map<string, ConsensusOutcome>>();
+    for (const campaignId of Array.from(new Set(userVotesWithConsensus.map(uv => uv.campaignId)))) {
+      consensusByCampaign.set(campaignId, await this.getCampaignConsensus(campaignId));
+    }
+
+    let agreements = 0;
+    let comparablePairs = 0;
+
+    for (const uv of userVotesWithConsensus) {
+      // Skip unsure votes
+      if (uv.userVote !== "match" && uv.userVote !== "no_match") continue;
+
+      const outcome = consensusByCampaign.get(uv.campaignId)?.get(uv.pairId);
+      if (!outcome || (outcome.label !== "match" && outcome.label !== "no_match")) continue;
+      // A vote-based label must rest on more than the user's own vote
+      if (outcome.source === "policy" && outcome.countedVotes < 2) continue;
+
+      if (uv.userVote === outcome.label) {
+        agreements++;
+      }
+      comparablePairs++;
+    }
+
+    return comparablePairs > 0 ? agreements / comparablePairs : null;
+  }
+
+  async getUserStats(userId: string): Promise<UserStats> {
+    const totalVotes = await this.getUserVotesCount(userId);
+    const votesPerCampaign = await this.getUserVotesPerCampaign(userId);
+    const agreementRate = await this.getUserAgreementRate(userId);
+    const recentActivity = await this.getUserRecentActivity(userId, 30);
+    
+    return {
+      totalVotes,
+      votesPerCampaign,
+      agreementRate,
+      recentActivity,
+    };
+  }
+
+  // Skipped pairs
+  async skipPair(
+    pairId: string,
+    userId: string,
+    sessionId: string | null = null,
+    reason: SkipReason | null = null
+  ): Promise<void> {
+    await db.insert(skippedPairs).values({ pairId, userId, sessionId, reason }).onConflictDoNothing();
+  }
+
+  // The reviewer's skipped pairs on a campaign, latest first. Pairs un-skipped
+  // or voted on since, e.g. from another tab, are left out.
+  async getSkippedPairs(userId: string, campaignId: string): Promise<(SkippedPair & { pair: Pair })[]> {
+    const rows = await db
+      .select()
+      .from(skippedPairs)
+      .innerJoin(pairs, eq(skippedPairs.pairId, pairs.id))
+      .leftJoin(votes, and(eq(votes.pairId, skippedPairs.pairId), eq(votes.userId, userId)))
+      .where(and(
+        eq(skippedPairs.userId, userId),
+        isNull(skippedPairs.unskippedAt),
+        eq(pairs.campaignId, campaignId),
+        isNull(pairs.supersededById),
+        isNull(votes.id)
+      ))
+      .orderBy(desc(skippedPairs.createdAt));
+    return rows.map(row => ({ ...row.skipped_pairs, pair: row.pairs }));
+  }
+
+  // Returns skipped pairs to the reviewer's queue: the given ones, or every
+  // pair they skipped on the campaign. Resolves to the number un-skipped. The
+  // skips are only marked, so the skip analysis still counts them.
+  async unskipPairs(userId: string, campaignId: string, pairIds?: string[]): Promise<number> {
+    const campaignPairIds = db.select({ id: pairs.id }).from(pairs).where(eq(pairs.campaignId, campaignId));
+    const restored = await db
+      .update(skippedPairs)
+      .set({ unskippedAt: new Date() })
+      .where(and(
+        eq(skippedPairs.userId, userId),
+        isNull(skippedPairs.unskippedAt),
+        inArray(skippedPairs.pairId, campaignPairIds),
+        pairIds ? inArray(skippedPairs.pairId, pairIds) : undefined
+      ))
+      .returning({ id: skippedPairs.id });
+    return restored.length;
+  }
+
+  // Auto-labelling
+  async applyAutoLabelRules(campaignId: string): Promise<{ labelled: number; auditSampled: number }> {
+    const campaign = await this.getCampaign(campaignId);
+    const rules = campaign?.autoLabelRules ?? [];
+
+    // Gold pairs keep their known label and are never auto-labelled
+    const campaignPairs = await db
+      .select({
+        id: pairs.id,
+        llmConfidence: pairs.llmConfidence,
+        llmModel: pairs.llmModel,
+        machineLabel: pairs.machineLabel,
+        machineLabelRuleId: pairs.machineLabelRuleId,
+        auditSampled: pairs.auditSampled,
+      })
+      .from(pairs)
+      .where(and(eq(pairs.campaignId, campaignId), isNull(pairs.knownLabel)));
+
+    // Group changed pairs by their new labelling so each group is one update
+    const changes = new Map<string, {
+      values: Pick<Pair, "machineLabel" | "machineLabelRuleId" | "auditSampled">;
+      ids: string[];
+    }>();
+    let labelled = 0;
+    let auditSampled = 0;
+
+    for (const pair of campaignPairs) {
+      const decision = evaluateAutoLabel(rules, pair);
+      const values = {
+        machineLabel: decision?.label ?? null,
+        machineLabelRuleId: decision?.ruleId ?? null,
+        auditSampled: decision?.auditSampled ?? false,
+      };
+      if (decision) labelled++;
+      if (values.auditSampled) auditSampled++;
+
+      const unchanged =
+        pair.machineLabel === values.machineLabel &&
+        pair.machineLabelRuleId === values.machineLabelRuleId &&
+        pair.auditSampled === values.auditSampled;
+      if (unchanged) continue;
+
+      const key = `${values.machineLabel}:${values.machineLabelRuleId}:${values.auditSampled}`;
+      if (!changes.has(key)) changes.set(key, { values, ids: [] });
+      changes.get(key)!.ids.push(pair.id);
+    }
+
+    const BATCH_SIZE = 1000;
+    for (const { values, ids } of Array.from(changes.values())) {
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        await db.update(pairs).set(values).where(inArray(pairs.id, ids.slice(i, i + BATCH_SIZE)));
+      }
+    }
+
+    // Free open assignment slots on pairs that no longer need review
+    await db.delete(pairAssignments).where(
+      and(
+        eq(pairAssignments.campaignId, campaignId),
+        sql`${pairAssignments.pairId} IN (
+          SELECT ${pairs.id} FROM ${pairs}
+          WHERE ${pairs.campaignId} = ${campaignId} AND NOT ${inReviewQueue}
+        )`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${votes}
+          WHERE ${votes.pairId} = ${pairAssignments.pairId} AND ${votes.userId} = ${pairAssignments.userId}
+        )`
+      )
+    );
+
+    return { labelled, auditSampled };
+  }
+
+  async getAutoLabelAuditReport(campaignId: string): Promise<AutoLabelAuditReport> {
+    const campaign = await this.getCampaign(campaignId);
+    const rules = campaign?.autoLabelRules ?? [];
+
+    const labelledPairs = await db
+      .select({
+        id: pairs.id,
+        machineLabel: pairs.machineLabel,
+        machineLabelRuleId: pairs.machineLabelRuleId,
+        auditSampled: pairs.auditSampled,
+      })
+      .from(pairs)
+      .where(and(eq(pairs.campaignId, campaignId), isNotNull(pairs.machineLabel)));
+    const consensus = await this.getCampaignConsensus(campaignId);
+
+    return {
+      targetAgreement: AUTO_LABEL_TARGET_AGREEMENT,
+      minAudited: AUTO_LABEL_MIN_AUDITED,
+      rules: rules.map((rule) =>
+        summarizeRuleAudit(
+          rule,
+          labelledPairs
+            .filter((p) => p.machineLabelRuleId === rule.id)
+            .map((p) => {
+              const label = consensus.get(p.id)?.label;
+              return {
+                machineLabel: p.machineLabel!,
+                auditSampled: p.auditSampled,
+                humanLabel: label === "match" || label === "no_match" ? label : null,
+              };
+            })
+        )
+      ),
+    };
+  }
+
+  // Gold pairs
+  private async loadGoldAnswers(campaignId?: string): Promise<GoldAnswer[]> {
+    return db
+      .select({
+        campaignId: pairs.campaignId,
+        userId: votes.userId,
+        scoreBinary: votes.scoreBinary,
+        knownLabel: pairs.knownLabel,
+      })
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(
+        and(
+          isNotNull(pairs.knownLabel),
+          eq(votes.scoringMode, "binary"),
+          campaignId ? eq(pairs.campaignId, campaignId) : sql`true`
+        )
+      );
+  }
+
+  async getGoldAccuracy(campaignId?: string): Promise<Map<string, GoldAccuracy>> {
+    return summarizeGoldAnswers(await this.loadGoldAnswers(campaignId));
+  }
+
+  async getGoldAccuracyAlerts(): Promise<GoldAccuracyAlert[]> {
+    const watched = await db.select().from(campaigns).where(isNotNull(campaigns.goldAccuracyThreshold));
+    if (watched.length === 0) return [];
+
+    const answers = await this.loadGoldAnswers();
+    const usersData = await db.select().from(users);
+    const userMap = new Map(usersData.map(u => [u.id, u]));
+
+    const alerts: GoldAccuracyAlert[] = [];
+    for (const campaign of watched) {
+      const threshold = campaign.goldAccuracyThreshold!;
+      const byUser = summarizeGoldAnswers(answers.filter(a => a.campaignId === campaign.id));
+      byUser.forEach((gold, userId) => {
+        const user = userMap.get(userId);
+        if (!user || gold.answered < GOLD_ALERT_MIN_ANSWERS || gold.accuracy === null) return;
+        if (gold.accuracy >= threshold) return;
+        alerts.push({
+          campaignId: campaign.id,
+          campaignName: campaign.name,
+          threshold,
+          userId,
+          email: user.email,
+          displayName: user.displayName,
+          answered: gold.answered,
+          accuracy: gold.accuracy,
+        });
+      });
+    }
+    return alerts.sort((a, b) => a.accuracy - b.accuracy);
+  }
+
+  // Adjudications
+  async getAdjudication(pairId: string): Promise<AdjudicationWithAdjudicator | undefined> {
+    const [row] = await db
+      .select({
+        adjudication: adjudications,
+        adjudicator: { id: users.id, email: users.email, displayName: users.displayName },
+      })
+      .from(adjudications)
+      .innerJoin(users, eq(adjudications.adjudicatorId, users.id))
+      .where(eq(adjudications.pairId, pairId));
+    return row ? { ...row.adjudication, adjudicator: row.adjudicator } : undefined;
+  }
+
+  async saveAdjudication(adjudication: InsertAdjudication): Promise<Adjudication> {
+    const [saved] = await db
+      .insert(adjudications)
+      .values(adjudication)
+      .onConflictDoUpdate({
+        target: adjudications.pairId,
+        set: {
+          adjudicatorId: adjudication.adjudicatorId,
+          decision: adjudication.decision,
+          rationale: adjudication.rationale,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteAdjudication(pairId: string): Promise<void> {
+    await db.delete(adjudications).where(eq(adjudications.pairId, pairId));
+  }
+
+  async getCampaignAdjudications(campaignId: string): Promise<AdjudicationWithAdjudicator[]> {
+    const rows = await db
+      .select({
+        adjudication: adjudications,
+        adjudicator: { id: users.id, email: users.email, displayName: users.displayName },
+      })
+      .from(adjudications)
+      .innerJoin(pairs, eq(adjudications.pairId, pairs.id))
+      .innerJoin(users, eq(adjudications.adjudicatorId, users.id))
+      .where(eq(pairs.campaignId, campaignId));
+    return rows.map(row => ({ ...row.adjudication, adjudicator: row.adjudicator }));
+  }
+
+  // Disputed pairs per campaign, labelled by each campaign's consensus
+  // policy; adjudicated pairs are no longer open
+  async getAdjudicationQueue(): Promise<{
+    campaignId: string;
+    campaignName: string;
+    status: string;
+    openDisputes: number;
+    adjudicatedCount: number;
+  }[]> {
+    const campaignList = await db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
+    const result = [];
+
+    for (const campaign of campaignList) {
+      const consensus = await this.getCampaignConsensus(campaign.id);
+      let openDisputes = 0;
+      let adjudicatedCount = 0;
+      consensus.forEach(outcome => {
+        if (outcome.source === "adjudication") adjudicatedCount++;
+        else if (outcome.label === "disagreement") openDisputes++;
+      });
+
+      result.push({
+        campaignId: campaign.id,
+        campaignName: campaign.name,
+        status: campaign.status,
+        openDisputes,
+        adjudicatedCount,
+      });
+    }
+
+    return result;
+  }
+
+  // Pair leases
+  // Leases a single pair, releasing the reviewer's other leases on the campaign
+  async acquirePairLease(campaignId: string, pairId: string, userId: string, ttlSeconds: number): Promise<PairLease> {
+    const [lease] = await writePairLeases(db, campaignId, [pairId], userId, ttlSeconds, { replace: true });
+    return lease;
+  }
+
+  // Picks the reviewer's next pair and leases it in one transaction. Picks on
+  // a campaign are serialised by an advisory lock, so a reviewer asking at the
+  // same moment as another sees the other's new lease and gets a different pair.
+  async leaseNextPair(campaignId: string, userId: string, ttlSeconds: number): Promise<{ pair: Pair; lease: PairLease } | null> {
+    return db.transaction(async (tx) => {
+      await lockCampaignPicks(tx, campaignId);
+      const pair = await this.getNextPairForUser(campaignId, userId, [], tx);
+      if (!pair) return null;
+      const [lease] = await writePairLeases(tx, campaignId, [pair.id], userId, ttlSeconds, { replace: true });
+      return { pair, lease };
+    });
+  }
+
+  // The batch version of leaseNextPair: every pair of the batch is leased. A
+  // fresh batch (nothing excluded) replaces the reviewer's leases on the
+  // campaign; a refill adds to those on the pairs the page still holds.
+  async leaseNextPairs(
+    campaignId: string,
+    userId: string,
+    count: number,
+    excludePairIds: string[],
+    ttlSeconds: number
+  ): Promise<Pair[]> {
+    return db.transaction(async (tx) => {
+      await lockCampaignPicks(tx, campaignId);
+      const batch = await this.getNextPairsForUser(campaignId, userId, count, excludePairIds, tx);
+      await writePairLeases(
+        tx,
+        campaignId,
+        batch.map((pair) => pair.id),
+        userId,
+        ttlSeconds,
+        { replace: excludePairIds.length === 0 }
+      );
+      return batch;
+    });
+  }
+
+  // Extends the reviewer's leases on the pairs the review page still holds
+  // (taking them again where they lapsed) and releases the rest
+  async renewPairLeases(campaignId: string, userId: string, pairIds: string[], ttlSeconds: number): Promise<PairLease[]> {
+    return db.transaction(async (tx) => {
+      await lockCampaignPicks(tx, campaignId);
+      const held = pairIds.length > 0
+        ? await tx
+            .select({ id: pairs.id })
+            .from(pairs)
+            .where(and(eq(pairs.campaignId, campaignId), inArray(pairs.id, pairIds)))
+        : [];
+      return writePairLeases(tx, campaignId, held.map((pair) => pair.id), userId, ttlSeconds, { replace: true });
+    });
+  }
+
+  async releasePairLease(pairId: string, userId: string): Promise<void> {
+    await db
+      .delete(pairLeases)
+      .where(and(eq(pairLeases.pairId, pairId), eq(pairLeases.userId, userId)));
+  }
+
+  async getActiveLeases(campaignId: string): Promise<ActivePairLease[]> {
+    const rows = await db
+      .select({
+        lease: pairLeases,
+        user: { id: users.id, email: users.email, displayName: users.displayName },
+        pair: { id: pairs.id, sourceText: pairs.sourceText, targetText: pairs.targetText },
+      })
+      .from(pairLeases)
+      .innerJoin(users, eq(pairLeases.userId, users.id))
+      .innerJoin(pairs, eq(pairLeases.pairId, pairs.id))
+      .where(and(eq(pairLeases.campaignId, campaignId), gte(pairLeases.expiresAt, new Date())))
+      .orderBy(pairLeases.expiresAt);
+
+    return rows.map((row) => ({ ...row.lease, user: row.user, pair: row.pair }));
+  }
+
+  // Review sessions
+  
+  // Records activity at `at` (now by default) in the reviewer's open session,
+  // or starts a new one after SESSION_IDLE_TIMEOUT_MS without activity.
+  // Activity sent late (offline votes) counts in the open session without
+  // moving it back.
+  async touchReviewSession(userId: string, campaignId: string, at: Date = new Date()): Promise<ReviewSession> {
+    return db.transaction(async (tx) => {
+      const [open] = await tx
+        .select()
+        .from(reviewSessions)
+        .where(and(
+          eq(reviewSessions.userId, userId),
+          eq(reviewSessions.campaignId, campaignId),
+          isNull(reviewSessions.endedAt)
+        ))
+        .orderBy(desc(reviewSessions.lastActivityAt))
+        .limit(1)
+        .for("update");
+
+      if (open) {
+        const gap = at.getTime() - open.lastActivityAt.getTime();
+        if (gap <= SESSION_IDLE_TIMEOUT_MS) {
+          if (gap <= 0) return open;
+          const [touched] = await tx
+            .update(reviewSessions)
+            .set({ lastActivityAt: at, idleMs: open.idleMs + (gap > IDLE_GAP_MS ? gap : 0) })
+            .where(eq(reviewSessions.id, open.id))
+            .returning();
+          return touched;
+        }
+        await tx
+          .update(reviewSessions)
+          .set({ endedAt: open.lastActivityAt })
+          .where(eq(reviewSessions.id, open.id));
+      }
+
+      const [started] = await tx
+        .insert(reviewSessions)
+        .values({ userId, campaignId, startedAt: at, lastActivityAt: at })
+        .returning();
+      return started;
+    });
+  }
+  
+  // The reviewer's session on the campaign, unless it has timed out
+  private async getCurrentReviewSession(userId: string, campaignId: string): Promise<ReviewSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(reviewSessions)
+      .where(and(
+        eq(reviewSessions.userId, userId),
+        eq(reviewSessions.campaignId, campaignId),
+        isNull(reviewSessions.endedAt),
+        gte(reviewSessions.lastActivityAt, new Date(Date.now() - SESSION_IDLE_TIMEOUT_MS))
+      ))
+      .orderBy(desc(reviewSessions.lastActivityAt))
+      .limit(1);
+    return session;
+  }
+
+  async getReviewSessionStats(userId: string, campaignId: string): Promise<ReviewSessionStats> {
+    const voteDays = await db
+      .selectDistinct({ day: sql<string>`DATE(${votes.createdAt})::text` })
+      .from(votes)
+      .where(eq(votes.userId, userId));
+    const streaks = dayStreaks(voteDays.map((row) => row.day), new Date().toISOString().slice(0, 10));
+
+    const session = await this.getCurrentReviewSession(userId, campaignId);
+    if (!session) {
+      return {
+        sessionId: null,
+        startedAt: null,
+        reviewCount: 0,
+        skipCount: 0,
+        activeSeconds: 0,
+        medianReviewSeconds: null,
+        ...streaks,
+      };
+    }
+
+    const sessionVotes = await db
+      .select({ reviewMs: votes.reviewMs })
+      .from(votes)
+      .where(eq(votes.sessionId, session.id));
+    const [skips] = await db
+      .select({ count: count() })
+      .from(skippedPairs)
+      .where(eq(skippedPairs.sessionId, session.id));
+    const reviewTimes = sessionVotes
+      .flatMap((vote) => (vote.reviewMs !== null ? [vote.reviewMs] : []))
+      .sort((a, b) => a - b);
+    const medianMs = percentile(reviewTimes, 0.5);
+
+    return {
+      sessionId: session.id,
+      startedAt: session.startedAt.toISOString(),
+      reviewCount: sessionVotes.length,
+      skipCount: skips?.count ?? 0,
+      activeSeconds: Math.round(
+        Math.max(0, session.lastActivityAt.getTime() - session.startedAt.getTime() - session.idleMs) / 1000
+      ),
+      medianReviewSeconds: medianMs !== null ? Math.round(medianMs / 100) / 10 : null,
+      ...streaks,
+    };
+  }
+  
+  // The reviewer's votes in the current session, latest first, for going back
+  // through them on the review page
+  async getReviewHistory(userId: string, campaignId: string): Promise<(Vote & { pair: Pair })[]> {
+    const session = await this.getCurrentReviewSession(userId, campaignId);
+    if (!session) return [];
+    const rows = await db
+      .select()
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(and(eq(votes.userId, userId), eq(votes.sessionId, session.id)))
+      .orderBy(desc(votes.createdAt))
+      .limit(REVIEW_HISTORY_SIZE);
+    return rows.map(row => ({ ...row.votes, pair: row.pairs }));
+  }
+
+  // Time-per-pair distributions per reviewer, from the on-screen times the
+  // review page sent with votes, and each reviewer's sessions
+  async getReviewTimeReport(campaignId: string): Promise<ReviewTimeReport> {
+    const timedVotes = await db
+      .select({ userId: votes.userId, reviewMs: votes.reviewMs })
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(and(eq(pairs.campaignId, campaignId), isNotNull(votes.reviewMs)));
+    const sessions = await db
+      .select()
+      .from(reviewSessions)
+      .where(eq(reviewSessions.campaignId, campaignId));
+
+    const timesByUser = new Map<string, number[]>();
+    for (const vote of timedVotes) {
+      const times = timesByUser.get(vote.userId) ?? [];
+      times.push(Math.min(vote.reviewMs!, MAX_REVIEW_MS));
+      timesByUser.set(vote.userId, times);
+    }
+    const sessionsByUser = new Map<string, ReviewSession[]>();
+    for (const session of sessions) {
+      sessionsByUser.set(session.userId, [...(sessionsByUser.get(session.userId) ?? []), session]);
+    }
+
+    const userIds = Array.from(new Set([...Array.from(timesByUser.keys()), ...Array.from(sessionsByUser.keys())]));
+    const reviewerUsers = userIds.length > 0
+      ? await db.select().from(users).where(inArray(users.id, userIds))
+      : [];
+    const toSeconds = (ms: number | null) => (ms !== null ? Math.round(ms / 100) / 10 : null);
+
+    const reviewers: ReviewerTimeStats[] = reviewerUsers.map((user) => {
+      const times = (timesByUser.get(user.id) ?? []).sort((a, b) => a - b);
+      const userSessions = sessionsByUser.get(user.id) ?? [];
+      const fastVotes = times.filter((ms) => ms < FAST_REVIEW_MS).length;
+      const fastShare = times.length > 0 ? fastVotes / times.length : null;
+      const idleMs = userSessions.reduce((sum, session) => sum + session.idleMs, 0);
+      const spanMs = userSessions.reduce(
+        (sum, session) => sum + session.lastActivityAt.getTime() - session.startedAt.getTime(),
+        0
+      );
+      return {
+        userId: user.id,
+        email: user.email,
+        displayName: user.displayName,
+        timedVotes: times.length,
+        medianSeconds: toSeconds(percentile(times, 0.5)),
+        p10Seconds: toSeconds(percentile(times, 0.1)),
+        p90Seconds: toSeconds(percentile(times, 0.9)),
+        fastVotes,
+        fastShare,
+        flagged: times.length >= FAST_VOTING_MIN_VOTES && fastShare !== null && fastShare > FAST_VOTING_SHARE,
+        buckets: reviewTimeBuckets(times),
+        sessions: userSessions.length,
+        activeMinutes: Math.round(Math.max(0, spanMs - idleMs) / 60000),
+        idleMinutes: Math.round(idleMs / 60000),
+      };
+    });
+
+    const allTimes = timedVotes.map((vote) => Math.min(vote.reviewMs!, MAX_REVIEW_MS)).sort((a, b) => a - b);
+    return {
+      buckets: reviewTimeBuckets(allTimes),
+      medianSeconds: toSeconds(percentile(allTimes, 0.5)),
+      reviewers: reviewers.sort((a, b) => b.timedVotes - a.timedVotes),
+    };
+  }
+
+  // Assignment plans
+  async getAssignmentPlan(campaignId: string): Promise<AssignmentPlan | undefined> {
+    const [plan] = await db.select().from(assignmentPlans).where(eq(assignmentPlans.campaignId, campaignId));
+    return plan;
+  }
+
+  async saveAssignmentPlan(plan: InsertAssignmentPlan): Promise<AssignmentPlan> {
+    const [saved] = await db
+      .insert(assignmentPlans)
+      .values(plan)
+      .onConflictDoUpdate({
+        target: assignmentPlans.campaignId,
+        set: {
+          votesPerPair: plan.votesPerPair,
+          reviewerIds: plan.reviewerIds,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteAssignmentPlan(campaignId: string): Promise<void> {
+    await db.delete(pairAssignments).where(eq(pairAssignments.campaignId, campaignId));
+    await db.delete(assignmentPlans).where(eq(assignmentPlans.campaignId, campaignId));
+  }
+
+  // Loads everything the planner needs: who voted, skipped or holds an open
+  // assignment for each pair in the campaign
+  private async loadAssignmentState(campaignId: string) {
+    // Gold pairs are mixed in by next-pair and auto-labelled pairs outside the
+    // audit sample need no review, so neither is planned
+    const campaignPairs = await db
+      .select({ id: pairs.id })
+      .from(pairs)
+      .where(and(eq(pairs.campaignId, campaignId), isNull(pairs.knownLabel), inReviewQueue));
+
+    const campaignVotes = await db
+      .select({ pairId: votes.pairId, userId: votes.userId })
       .from(votes)
-      .where(eq(votes.userId, userId));
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(eq(pairs.campaignId, campaignId));
 
-    if (userVotesWithConsensus.length === 0) return null;
+    const campaignSkips = await db
+      .select({ pairId: skippedPairs.pairId, userId: skippedPairs.userId })
+      .from(skippedPairs)
+      .innerJoin(pairs, eq(skippedPairs.pairId, pairs.id))
+      .where(and(eq(pairs.campaignId, campaignId), isNull(skippedPairs.unskippedAt)));
 
-    let agreements = 0;
-    let comparablePairs = 0;
+    const assignments = await db
+      .select({ pairId: pairAssignments.pairId, userId: pairAssignments.userId, position: pairAssignments.position })
+      .from(pairAssignments)
+      .where(eq(pairAssignments.campaignId, campaignId));
 
-    for (const uv of userVotesWithConsensus) {
-      // Get all votes for this pair
-      const pairVotes = await db
-        .select({ scoreBinary: votes.scoreBinary })
-        .from(votes)
-        .where(eq(votes.pairId, uv.pairId));
-      
-      if (pairVotes.length < 2) continue; // Need at least 2 votes to compare
-      
-      // Only count definitive votes (match or no_match) for consensus
-      const definitiveVotes = pairVotes.filter(v => v.scoreBinary === "match" || v.scoreBinary === "no_match");
-      if (definitiveVotes.length < 2) continue;
-      
-      const positiveVotes = definitiveVotes.filter(v => v.scoreBinary === "match").length;
-      const consensusIsMatch = positiveVotes > definitiveVotes.length / 2;
-      
-      // Compare user's vote to consensus (only if user's vote is definitive)
-      const userVoteIsMatch = uv.userVote === "match";
-      const userVoteIsNoMatch = uv.userVote === "no_match";
-      
-      if (!userVoteIsMatch && !userVoteIsNoMatch) continue; // Skip unsure votes
-      
-      if ((userVoteIsMatch && consensusIsMatch) || (userVoteIsNoMatch && !consensusIsMatch)) {
-        agreements++;
+    const addTo = (map: Map<string, Set<string>>, pairId: string, userId: string) => {
+      if (!map.has(pairId)) map.set(pairId, new Set());
+      map.get(pairId)!.add(userId);
+    };
+
+    const voters = new Map<string, Set<string>>();
+    campaignVotes.forEach((v) => addTo(voters, v.pairId, v.userId));
+
+    const skippers = new Map<string, Set<string>>();
+    campaignSkips.forEach((s) => addTo(skippers, s.pairId, s.userId));
+
+    const openAssignments = new Map<string, Set<string>>();
+    const nextPosition = new Map<string, number>();
+    assignments.forEach((a) => {
+      nextPosition.set(a.userId, Math.max(nextPosition.get(a.userId) ?? 0, a.position + 1));
+      if (!voters.get(a.pairId)?.has(a.userId)) {
+        addTo(openAssignments, a.pairId, a.userId);
       }
-      comparablePairs++;
+    });
+
+    return {
+      pairIds: campaignPairs.map((p) => p.id),
+      voters,
+      skippers,
+      openAssignments,
+      nextPosition,
+    };
+  }
+
+  async rebuildAssignments(campaignId: string, options: { resetOpen?: boolean } = {}): Promise<{
+    created: number;
+    released: number;
+    unfilledSlots: number;
+  }> {
+    const plan = await this.getAssignmentPlan(campaignId);
+    if (!plan) {
+      return { created: 0, released: 0, unfilledSlots: 0 };
     }
 
-    return comparablePairs > 0 ? agreements / comparablePairs : null;
+    const notVoted = sql`NOT EXISTS (
+      SELECT 1 FROM ${votes}
+      WHERE ${votes.pairId} = ${pairAssignments.pairId} AND ${votes.userId} = ${pairAssignments.userId}
+    )`;
+    const skipped = sql`EXISTS (
+      SELECT 1 FROM ${skippedPairs}
+      WHERE ${skippedPairs.pairId} = ${pairAssignments.pairId} AND ${skippedPairs.userId} = ${pairAssignments.userId}
+        AND ${skippedPairs.unskippedAt} IS NULL
+    )`;
+
+    // Release open assignments that can no longer be completed: reviewers who
+    // left the plan, pairs the reviewer skipped, or everything when resetting
+    const releaseCondition = options.resetOpen
+      ? notVoted
+      : and(
+          notVoted,
+          plan.reviewerIds.length > 0
+            ? sql`(${not(inArray(pairAssignments.userId, plan.reviewerIds))} OR ${skipped})`
+            : sql`true`
+        );
+
+    const released = await db
+      .delete(pairAssignments)
+      .where(and(eq(pairAssignments.campaignId, campaignId), releaseCondition))
+      .returning({ id: pairAssignments.id });
+
+    const state = await this.loadAssignmentState(campaignId);
+    const { assignments, unfilledSlots } = planAssignments({
+      ...state,
+      reviewerIds: plan.reviewerIds,
+      votesPerPair: plan.votesPerPair,
+    });
+
+    // Insert in batches to stay well under the Postgres parameter limit
+    const BATCH_SIZE = 1000;
+    for (let i = 0; i < assignments.length; i += BATCH_SIZE) {
+      const batch = assignments.slice(i, i + BATCH_SIZE).map((a) => ({ ...a, campaignId }));
+      await db.insert(pairAssignments).values(batch).onConflictDoNothing();
+    }
+
+    return { created: assignments.length, released: released.length, unfilledSlots };
   }
 
-  async getUserStats(userId: string): Promise<UserStats> {
-    const totalVotes = await this.getUserVotesCount(userId);
-    const votesPerCampaign = await this.getUserVotesPerCampaign(userId);
-    const agreementRate = await this.getUserAgreementRate(userId);
-    const recentActivity = await this.getUserRecentActivity(userId, 30);
-    
-    return {
-      totalVotes,
-      votesPerCampaign,
-      agreementRate,
-      recentActivity,
-    };
+  async getReviewerQuotas(campaignId: string): Promise<ReviewerQuota[]> {
+    const plan = await this.getAssignmentPlan(campaignId);
+    if (!plan) return [];
+
+    const rows = await db
+      .select({
+        userId: pairAssignments.userId,
+        assigned: sql<number>`COUNT(${pairAssignments.id})::int`,
+        completed: sql<number>`COUNT(${votes.id})::int`,
+        skipped: sql<number>`COUNT(CASE WHEN ${votes.id} IS NULL THEN ${skippedPairs.id} END)::int`,
+      })
+      .from(pairAssignments)
+      .leftJoin(votes, and(eq(votes.pairId, pairAssignments.pairId), eq(votes.userId, pairAssignments.userId)))
+      .leftJoin(skippedPairs, and(
+        eq(skippedPairs.pairId, pairAssignments.pairId),
+        eq(skippedPairs.userId, pairAssignments.userId),
+        isNull(skippedPairs.unskippedAt)
+      ))
+      .where(eq(pairAssignments.campaignId, campaignId))
+      .groupBy(pairAssignments.userId);
+
+    const countsByUser = new Map(rows.map((r) => [r.userId, r]));
+    const reviewers = plan.reviewerIds.length > 0
+      ? await db.select().from(users).where(inArray(users.id, plan.reviewerIds))
+      : [];
+
+    return reviewers
+      .map((user) => {
+        const counts = countsByUser.get(user.id);
+        const assigned = counts?.assigned ?? 0;
+        const completed = counts?.completed ?? 0;
+        const skipped = counts?.skipped ?? 0;
+        return {
+          userId: user.id,
+          email: user.email,
+          displayName: user.displayName,
+          assigned,
+          completed,
+          skipped,
+          remaining: assigned - completed - skipped,
+        };
+      })
+      .sort((a, b) => b.remaining - a.remaining);
   }
 
-  // Skipped pairs
-  async skipPair(pairId: string, userId: string): Promise<void> {
-    await db.insert(skippedPairs).values({ pairId, userId }).onConflictDoNothing();
+  async getUnfilledSlots(campaignId: string): Promise<number> {
+    const plan = await this.getAssignmentPlan(campaignId);
+    if (!plan) return 0;
+
+    const state = await this.loadAssignmentState(campaignId);
+    let unfilled = 0;
+    for (const pairId of state.pairIds) {
+      const covered = new Set([
+        ...Array.from(state.voters.get(pairId) ?? []),
+        ...Array.from(state.openAssignments.get(pairId) ?? []),
+      ]).size;
+      unfilled += Math.max(0, plan.votesPerPair - covered);
+    }
+    return unfilled;
+  }
+
+  async getNextAssignedPairs(
+    campaignId: string,
+    userId: string,
+    limit: number,
+    excludePairIds: string[] = [],
+    executor: Executor = db
+  ): Promise<Pair[]> {
+    const next = await executor
+      .select({ pair: pairs })
+      .from(pairAssignments)
+      .innerJoin(pairs, eq(pairAssignments.pairId, pairs.id))
+      .leftJoin(votes, and(eq(votes.pairId, pairAssignments.pairId), eq(votes.userId, userId)))
+      .leftJoin(skippedPairs, and(
+        eq(skippedPairs.pairId, pairAssignments.pairId),
+        eq(skippedPairs.userId, userId),
+        isNull(skippedPairs.unskippedAt)
+      ))
+      .where(
+        and(
+          eq(pairAssignments.campaignId, campaignId),
+          eq(pairAssignments.userId, userId),
+          isNull(pairs.knownLabel),
+          inReviewQueue,
+          sql`${votes.id} IS NULL`,
+          sql`${skippedPairs.id} IS NULL`,
+          excludePairIds.length > 0 ? not(inArray(pairs.id, excludePairIds)) : sql`true`
+        )
+      )
+      .orderBy(pairAssignments.position)
+      .limit(limit);
+
+    return next.map((row) => row.pair);
   }
 
   // Allowed domains
@@ -586,6 +2002,10 @@ export class DatabaseStorage implements IStorage {
   // Export
   async getCampaignExportData(campaignId: string) {
     const campaignPairs = await db.select().from(pairs).where(eq(pairs.campaignId, campaignId));
+    const adjudicationsByPair = new Map(
+      (await this.getCampaignAdjudications(campaignId)).map(a => [a.pairId, a])
+    );
+    const consensus = await this.getCampaignConsensus(campaignId);
     
     const result = [];
     for (const pair of campaignPairs) {
@@ -597,6 +2017,8 @@ export class DatabaseStorage implements IStorage {
         pair,
         votes: pairVotes,
         positiveRate,
+        adjudication: adjudicationsByPair.get(pair.id) ?? null,
+        consensus: consensus.get(pair.id)!,
       });
     }
     
@@ -607,7 +2029,7 @@ export class DatabaseStorage implements IStorage {
     page: number;
     limit: number;
     search?: string;
-    consensus?: "match" | "no_match" | "disagreement" | "unreviewed" | null;
+    consensus?: ConsensusOutcome["label"] | "adjudicated" | "auto_labelled" | null;
     minVotes?: number;
     maxVotes?: number;
   }) {
@@ -630,6 +2052,11 @@ export class DatabaseStorage implements IStorage {
       .groupBy(pairs.id)
       .orderBy(desc(pairs.createdAt));
 
+    const adjudicationsByPair = new Map(
+      (await this.getCampaignAdjudications(campaignId)).map(a => [a.pairId, a])
+    );
+    const consensusByPair = await this.getCampaignConsensus(campaignId);
+
     // Apply filters in memory
     let filteredPairs = allPairs.map(row => ({
       pair: row.pair,
@@ -638,6 +2065,8 @@ export class DatabaseStorage implements IStorage {
       negativeVotes: row.negativeVotes,
       skipCount: row.skipCount,
       positiveRate: row.voteCount > 0 ? row.positiveVotes / row.voteCount : null,
+      adjudication: adjudicationsByPair.get(row.pair.id) ?? null,
+      consensus: consensusByPair.get(row.pair.id)!,
     }));
 
     // Search filter
@@ -655,11 +2084,10 @@ export class DatabaseStorage implements IStorage {
     // Consensus filter
     if (consensus) {
       filteredPairs = filteredPairs.filter(row => {
-        if (consensus === "unreviewed") return row.voteCount === 0;
-        if (consensus === "match") return row.positiveRate !== null && row.positiveRate > 0.6;
-        if (consensus === "no_match") return row.positiveRate !== null && row.positiveRate < 0.4;
-        if (consensus === "disagreement") return row.positiveRate !== null && row.positiveRate >= 0.4 && row.positiveRate <= 0.6;
-        return true;
+        // Adjudicated pairs carry their decision as the label
+        if (consensus === "adjudicated") return row.consensus.source === "adjudication";
+        if (consensus === "auto_labelled") return row.pair.machineLabel !== null;
+        return row.consensus.label === consensus;
       });
     }
 
@@ -706,6 +2134,11 @@ export class DatabaseStorage implements IStorage {
       .from(skippedPairs)
       .where(eq(skippedPairs.pairId, pairId));
 
+    const adjudication = await this.getAdjudication(pairId);
+    const consensus = await this.getCampaignConsensus(pair.campaignId);
+    const stored = await this.getPairPredictions(pairId);
+    const candidates = await this.getPairCandidates(pairId);
+
     return {
       pair,
       votes: pairVotes.map(row => ({
@@ -713,6 +2146,13 @@ export class DatabaseStorage implements IStorage {
         user: row.user,
       })),
       skipCount: skipResult?.count || 0,
+      adjudication: adjudication ?? null,
+      consensus: consensus.get(pair.id)!,
+      predictions: pairPredictions(pair, stored),
+      candidates: candidates.map((candidate) => ({
+        ...candidate,
+        picks: pairVotes.filter(({ vote }) => vote.selectedCandidates?.includes(candidate.targetId)).length,
+      })),
     };
   }
   
@@ -728,8 +2168,25 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
+  // The latest version of each template, with usage summed over all versions
   async getImportTemplates(): Promise<ImportTemplate[]> {
-    return db.select().from(importTemplates).orderBy(desc(importTemplates.createdAt));
+    const all = await db
+      .select()
+      .from(importTemplates)
+      .orderBy(desc(importTemplates.createdAt), desc(importTemplates.version));
+    const latest = new Map<string, ImportTemplate>();
+    for (const template of all) {
+      const current = latest.get(template.name);
+      if (!current) {
+        latest.set(template.name, { ...template });
+        continue;
+      }
+      current.useCount += template.useCount;
+      if (template.lastUsedAt && (!current.lastUsedAt || template.lastUsedAt > current.lastUsedAt)) {
+        current.lastUsedAt = template.lastUsedAt;
+      }
+    }
+    return Array.from(latest.values());
   }
   
   async getImportTemplate(id: string): Promise<ImportTemplate | undefined> {
@@ -737,19 +2194,273 @@ export class DatabaseStorage implements IStorage {
     return template;
   }
   
+  async getImportTemplateVersions(id: string): Promise<ImportTemplate[]> {
+    const template = await this.getImportTemplate(id);
+    if (!template) return [];
+    return db
+      .select()
+      .from(importTemplates)
+      .where(eq(importTemplates.name, template.name))
+      .orderBy(desc(importTemplates.version));
+  }
+  
   async createImportTemplate(template: InsertImportTemplate): Promise<ImportTemplate> {
-    const [created] = await db.insert(importTemplates).values(template).returning();
-    return created;
+    return db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: sql<number>`MAX(${importTemplates.version})` })
+        .from(importTemplates)
+        .where(eq(importTemplates.name, template.name));
+      const [created] = await tx
+        .insert(importTemplates)
+        .values({ ...template, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      return created;
+    });
   }
   
+  // Deletes the template with all its versions
   async deleteImportTemplate(id: string): Promise<void> {
-    await db.delete(importTemplates).where(eq(importTemplates.id, id));
+    const template = await this.getImportTemplate(id);
+    if (!template) return;
+    await db.delete(importTemplates).where(eq(importTemplates.name, template.name));
   }
   
-  async calculateKrippendorffAlpha(campaignId: string): Promise<{
-    alpha: number | null;
-    raterCount: number;
-    pairCount: number;
+  async getSameSourceRules(): Promise<SameSourceRule[]> {
+    return db.select().from(sameSourceRules).orderBy(asc(sameSourceRules.createdAt));
+  }
+  
+  async getSameSourceRule(id: string): Promise<SameSourceRule | undefined> {
+    const [rule] = await db.select().from(sameSourceRules).where(eq(sameSourceRules.id, id));
+    return rule;
+  }
+  
+  async createSameSourceRule(rule: InsertSameSourceRule): Promise<SameSourceRule> {
+    const [created] = await db.insert(sameSourceRules).values(rule).returning();
+    return created;
+  }
+  
+  async updateSameSourceRule(
+    id: string,
+    updates: Partial<Omit<InsertSameSourceRule, "createdBy">>
+  ): Promise<SameSourceRule | undefined> {
+    const [updated] = await db.update(sameSourceRules).set(updates).where(eq(sameSourceRules.id, id)).returning();
+    return updated;
+  }
+  
+  async deleteSameSourceRule(id: string): Promise<void> {
+    await db.delete(sameSourceRules).where(eq(sameSourceRules.id, id));
+  }
+  
+  // Imports checked a fixed list of cohort prefixes before the rules could
+  // be edited; an empty table starts from that list. To stop checking a
+  // prefix, set its rule to "allow" rather than deleting every rule.
+  async ensureDefaultSameSourceRules(): Promise<void> {
+    const [existing] = await db.select({ id: sameSourceRules.id }).from(sameSourceRules).limit(1);
+    if (existing) return;
+    await db.insert(sameSourceRules).values(DEFAULT_SAME_SOURCE_RULES);
+  }
+  
+  async getTerminologies(): Promise<Terminology[]> {
+    return db.select().from(terminologies).orderBy(asc(terminologies.codeSystem));
+  }
+  
+  async getTerminology(codeSystem: string): Promise<Terminology | undefined> {
+    const [terminology] = await db.select().from(terminologies).where(eq(terminologies.codeSystem, codeSystem));
+    return terminology;
+  }
+  
+  // The code system's table is swapped in one transaction, so searches and
+  // vote checks never see it half loaded
+  async replaceTerminology(
+    upload: Pick<Terminology, "codeSystem" | "fileName" | "uploadedBy">,
+    codes: TerminologyCodeInput[]
+  ): Promise<Terminology> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: terminologies.id })
+        .from(terminologies)
+        .where(eq(terminologies.codeSystem, upload.codeSystem));
+      if (existing) {
+        await tx.delete(terminologyCodes).where(eq(terminologyCodes.terminologyId, existing.id));
+      }
+      const [terminology] = existing
+        ? await tx
+            .update(terminologies)
+            .set({ ...upload, codeCount: codes.length, createdAt: new Date() })
+            .where(eq(terminologies.id, existing.id))
+            .returning()
+        : await tx.insert(terminologies).values({ ...upload, codeCount: codes.length }).returning();
+
+      const BATCH_SIZE = 1000;
+      for (let i = 0; i < codes.length; i += BATCH_SIZE) {
+        await tx.insert(terminologyCodes).values(
+          codes.slice(i, i + BATCH_SIZE).map((code) => ({
+            ...code,
+            terminologyId: terminology.id,
+            searchText: terminologySearchText(code),
+          }))
+        );
+      }
+      return terminology;
+    });
+  }
+  
+  async deleteTerminology(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(terminologyCodes).where(eq(terminologyCodes.terminologyId, id));
+      await tx.delete(terminologies).where(eq(terminologies.id, id));
+    });
+  }
+  
+  async getTerminologyCode(terminologyId: string, code: string): Promise<TerminologyCode | undefined> {
+    const [found] = await db
+      .select()
+      .from(terminologyCodes)
+      .where(and(eq(terminologyCodes.terminologyId, terminologyId), eq(terminologyCodes.code, code)));
+    return found;
+  }
+  
+  // Codes matching every term of the query in their code, label or synonyms.
+  // An exact code comes first, then codes and labels starting with the query,
+  // then the rest with shorter labels first; deprecated codes come last.
+  async searchTerminology(terminologyId: string, query: string, limit: number): Promise<TerminologyMatch[]> {
+    const terms = terminologySearchTerms(query);
+    if (terms.length === 0) return [];
+    const lowered = query.trim().toLowerCase();
+    const escape = (term: string) => term.replace(/[\\%_]/g, (c) => `\\${c}`);
+    return db
+      .select({
+        code: terminologyCodes.code,
+        label: terminologyCodes.label,
+        synonyms: terminologyCodes.synonyms,
+        deprecated: terminologyCodes.deprecated,
+      })
+      .from(terminologyCodes)
+      .where(and(
+        eq(terminologyCodes.terminologyId, terminologyId),
+        ...terms.map((term) => sql`${terminologyCodes.searchText} LIKE ${`%${escape(term)}%`}`)
+      ))
+      .orderBy(
+        asc(terminologyCodes.deprecated),
+        sql`CASE
+          WHEN lower(${terminologyCodes.code}) = ${lowered} THEN 0
+          WHEN lower(${terminologyCodes.code}) LIKE ${`${escape(lowered)}%`} THEN 1
+          WHEN lower(${terminologyCodes.label}) LIKE ${`${escape(lowered)}%`} THEN 2
+          ELSE 3
+        END`,
+        sql`length(${terminologyCodes.label})`,
+        asc(terminologyCodes.code)
+      )
+      .limit(limit);
+  }
+  
+  async createImportJob(
+    job: Pick<ImportJob, "campaignId" | "createdBy" | "fileName" | "filePath" | "fileFormat" | "fileSize" | "sheetName" | "columnMappings" | "templateId" | "templateVersion" | "dryRun" | "skipInvalidRows" | "existingPairMode" | "requeueChanged">
+  ): Promise<ImportJob> {
+    const [created] = await db.insert(importJobs).values(job).returning();
+    return created;
+  }
+  
+  async getImportJob(id: string): Promise<ImportJob | undefined> {
+    const [job] = await db.select().from(importJobs).where(eq(importJobs.id, id));
+    return job;
+  }
+  
+  async getCampaignImportJobs(campaignId: string): Promise<ImportJob[]> {
+    return db
+      .select()
+      .from(importJobs)
+      .where(eq(importJobs.campaignId, campaignId))
+      .orderBy(desc(importJobs.createdAt))
+      .limit(20);
+  }
+  
+  async updateImportJob(
+    id: string,
+    updates: Partial<Omit<ImportJob, "id" | "campaignId" | "createdBy" | "createdAt">>
+  ): Promise<void> {
+    await db.update(importJobs).set(updates).where(eq(importJobs.id, id));
+  }
+  
+  // Moves the job to importing. The first time, this is a use of the
+  // template its mappings came from; a resumed job's import is not another.
+  async startImportPass(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(importJobs).set({ status: "importing", errorMessage: null }).where(eq(importJobs.id, id));
+      const [first] = await tx
+        .update(importJobs)
+        .set({ importStartedAt: new Date() })
+        .where(and(eq(importJobs.id, id), isNull(importJobs.importStartedAt)))
+        .returning({ templateId: importJobs.templateId });
+      if (!first?.templateId) return;
+      await tx
+        .update(importTemplates)
+        .set({ useCount: sql`${importTemplates.useCount} + 1`, lastUsedAt: new Date() })
+        .where(eq(importTemplates.id, first.templateId));
+    });
+  }
+  
+  async deleteImportJob(id: string): Promise<void> {
+    await db.delete(importJobs).where(eq(importJobs.id, id));
+  }
+  
+  // Writes one batch and advances the job's checkpoint in the same
+  // transaction, so a resumed job never imports a row twice
+  async commitImportBatch(jobId: string, plan: PairImportPlan, progress: {
+    rowsCommitted: number;
+    bytesProcessed: number;
+    sameSource: number;
+    sameSourceWarnings: number;
+    sameSourceMatches: SameSourceMatch[];
+    pairChanges: PairChange[];
+  }): Promise<number> {
+    return db.transaction(async (tx) => {
+      const inserted = await writePairImportPlan(tx, plan);
+      // Field counts are summed here; the row lock keeps them consistent
+      const [job] = await tx
+        .select({ fieldChangeCounts: importJobs.fieldChangeCounts })
+        .from(importJobs)
+        .where(eq(importJobs.id, jobId))
+        .for("update");
+      await tx
+        .update(importJobs)
+        .set({
+          rowsCommitted: progress.rowsCommitted,
+          bytesProcessed: progress.bytesProcessed,
+          importedCount: sql`${importJobs.importedCount} + ${inserted}`,
+          duplicateCount: sql`${importJobs.duplicateCount} + ${plan.duplicateKeys.length}`,
+          updatedCount: sql`${importJobs.updatedCount} + ${plan.updated}`,
+          versionedCount: sql`${importJobs.versionedCount} + ${plan.versioned}`,
+          requeuedCount: sql`${importJobs.requeuedCount} + ${plan.requeued}`,
+          fieldChangeCounts: addFieldChangeCounts(job?.fieldChangeCounts ?? {}, plan.fieldChangeCounts),
+          pairChanges: sql`${importJobs.pairChanges} || ${JSON.stringify(progress.pairChanges)}::jsonb`,
+          sameSourceCount: sql`${importJobs.sameSourceCount} + ${progress.sameSource}`,
+          sameSourceWarningCount: sql`${importJobs.sameSourceWarningCount} + ${progress.sameSourceWarnings}`,
+          sameSourceMatches: sql`${importJobs.sameSourceMatches} || ${JSON.stringify(progress.sameSourceMatches)}::jsonb`,
+        })
+        .where(eq(importJobs.id, jobId));
+      return inserted;
+    });
+  }
+  
+  // Jobs run in the server process, so any job still in flight at startup
+  // was cut off by a restart. Marking them failed lets an admin resume them.
+  async failInterruptedImportJobs(): Promise<number> {
+    const interrupted = await db
+      .update(importJobs)
+      .set({ status: "failed", errorMessage: "The import was interrupted by a server restart" })
+      .where(inArray(importJobs.status, ["queued", "validating", "importing"]))
+      .returning({ id: importJobs.id });
+    return interrupted.length;
+  }
+  
+  // Ratings grouped by pair for the reliability statistics. Binary and
+  // numeric votes are on different scales, so only the mode most of the
+  // campaign's votes used is loaded.
+  private async loadReliabilityUnits(campaignId: string): Promise<{
+    scoringMode: "binary" | "numeric";
+    units: ReliabilityUnit[];
+    votesByRater: Map<string, number>;
     voteCount: number;
   }> {
     const campaignVotes = await db
@@ -764,101 +2475,132 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(pairs, eq(votes.pairId, pairs.id))
       .where(eq(pairs.campaignId, campaignId));
 
-    if (campaignVotes.length === 0) {
-      return { alpha: null, raterCount: 0, pairCount: 0, voteCount: 0 };
-    }
-
-    const raters = new Set<string>();
-    const pairIds = new Set<string>();
-    campaignVotes.forEach(v => {
-      raters.add(v.userId);
-      pairIds.add(v.pairId);
+    const numericCount = campaignVotes.filter(v => v.scoringMode === "numeric").length;
+    const scoringMode: "binary" | "numeric" = numericCount > campaignVotes.length - numericCount ? "numeric" : "binary";
+
+    // Nominal categories for binary votes; unsure is its own category
+    const binaryCodes: Record<string, number> = { no_match: 0, match: 1, unsure: 2 };
+    const modeVotes = campaignVotes.filter(v =>
+      v.scoringMode === scoringMode && (scoringMode === "numeric" ? v.scoreNumeric !== null : v.scoreBinary !== null)
+    );
+
+    const unitsByPair = new Map<string, ReliabilityUnit>();
+    const votesByRater = new Map<string, number>();
+    modeVotes.forEach(v => {
+      if (!unitsByPair.has(v.pairId)) unitsByPair.set(v.pairId, []);
+      const value = scoringMode === "numeric" ? v.scoreNumeric! : binaryCodes[v.scoreBinary!];
+      unitsByPair.get(v.pairId)!.push({ raterId: v.userId, value });
+      votesByRater.set(v.userId, (votesByRater.get(v.userId) || 0) + 1);
     });
 
-    if (raters.size < 2) {
-      return { alpha: null, raterCount: raters.size, pairCount: pairIds.size, voteCount: campaignVotes.length };
-    }
-
-    const dataMatrix: Map<string, number[]> = new Map();
-    campaignVotes.forEach(v => {
-      if (!dataMatrix.has(v.pairId)) {
-        dataMatrix.set(v.pairId, []);
-      }
-      const score = v.scoringMode === "numeric" 
-        ? (v.scoreNumeric ?? 3) 
-        : (v.scoreBinary ? 1 : 0);
-      dataMatrix.get(v.pairId)!.push(score);
-    });
+    return { scoringMode, units: Array.from(unitsByPair.values()), votesByRater, voteCount: modeVotes.length };
+  }
 
-    const unitsWithRatings = Array.from(dataMatrix.entries())
-      .filter(([_, scores]) => scores.length >= 2);
+  async calculateKrippendorffAlpha(campaignId: string, options: {
+    metric?: AlphaMetric;
+    detailed?: boolean;
+  } = {}): Promise<KrippendorffAlphaReport> {
+    const { scoringMode, units, votesByRater, voteCount } = await this.loadReliabilityUnits(campaignId);
+    // Binary categories (including unsure) have no order, so they are always nominal
+    const metric: AlphaMetric = scoringMode === "numeric" ? (options.metric ?? "ordinal") : "nominal";
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const rawAlpha = votesByRater.size >= 2 ? krippendorffAlpha(units, metric) : null;
+    const report: KrippendorffAlphaReport = {
+      alpha: rawAlpha !== null ? round(rawAlpha) : null,
+      metric,
+      scoringMode,
+      raterCount: votesByRater.size,
+      pairCount: units.length,
+      voteCount,
+      confidenceInterval: null,
+      raterDiagnostics: [],
+    };
 
-    if (unitsWithRatings.length < 1) {
-      return { alpha: null, raterCount: raters.size, pairCount: pairIds.size, voteCount: campaignVotes.length };
+    if (!options.detailed || rawAlpha === null) {
+      return report;
     }
 
-    let totalN = 0;
-    const valueCounts: Map<number, number> = new Map();
-    
-    unitsWithRatings.forEach(([_, scores]) => {
-      scores.forEach(score => {
-        totalN++;
-        valueCounts.set(score, (valueCounts.get(score) || 0) + 1);
-      });
-    });
-
-    if (totalN < 3) {
-      return { alpha: null, raterCount: raters.size, pairCount: pairIds.size, voteCount: campaignVotes.length };
+    const samples = 1000;
+    const level = 0.95;
+    const interval = bootstrapAlphaInterval(units, metric, { samples, level });
+    if (interval) {
+      report.confidenceInterval = { lower: round(interval.lower), upper: round(interval.upper), level, samples };
     }
 
-    let observedDisagreement = 0;
-    let totalPairingsWithinUnits = 0;
+    const raterIds = Array.from(votesByRater.keys());
+    const raterUsers = await db
+      .select({ id: users.id, email: users.email, displayName: users.displayName })
+      .from(users)
+      .where(inArray(users.id, raterIds));
+    const userMap = new Map(raterUsers.map(u => [u.id, u]));
 
-    unitsWithRatings.forEach(([_, scores]) => {
-      const m = scores.length;
-      if (m < 2) return;
-      
-      for (let i = 0; i < m; i++) {
-        for (let j = i + 1; j < m; j++) {
-          const diff = scores[i] === scores[j] ? 0 : 1;
-          observedDisagreement += diff;
-          totalPairingsWithinUnits++;
-        }
-      }
+    alphaIfRemoved(units, metric).forEach((alphaWithout, userId) => {
+      const user = userMap.get(userId);
+      report.raterDiagnostics.push({
+        userId,
+        email: user?.email ?? "",
+        displayName: user?.displayName ?? userId,
+        voteCount: votesByRater.get(userId) || 0,
+        alphaIfRemoved: alphaWithout !== null ? round(alphaWithout) : null,
+        change: alphaWithout !== null ? round(alphaWithout - rawAlpha) : null,
+      });
     });
+    report.raterDiagnostics.sort((a, b) => (b.change ?? -Infinity) - (a.change ?? -Infinity));
 
-    if (totalPairingsWithinUnits === 0) {
-      return { alpha: null, raterCount: raters.size, pairCount: pairIds.size, voteCount: campaignVotes.length };
-    }
-
-    const Do = observedDisagreement / totalPairingsWithinUnits;
-
-    let expectedDisagreement = 0;
-    const values = Array.from(valueCounts.keys());
-    
-    for (let i = 0; i < values.length; i++) {
-      for (let j = i + 1; j < values.length; j++) {
-        const ni = valueCounts.get(values[i])!;
-        const nj = valueCounts.get(values[j])!;
-        const diff = values[i] === values[j] ? 0 : 1;
-        expectedDisagreement += ni * nj * diff;
+    return report;
+  }
+  
+  async getReviewerAgreement(campaignId: string): Promise<ReviewerAgreementReport> {
+    const { scoringMode, units, votesByRater } = await this.loadReliabilityUnits(campaignId);
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    const fleiss = fleissKappa(units);
+    const pairwise = pairwiseCohensKappa(units);
+
+    const raterIds = Array.from(votesByRater.keys());
+    const raterUsers = raterIds.length > 0
+      ? await db
+          .select({ id: users.id, email: users.email, displayName: users.displayName })
+          .from(users)
+          .where(inArray(users.id, raterIds))
+      : [];
+    const userMap = new Map(raterUsers.map(u => [u.id, u]));
+
+    const kappasByRater = new Map<string, number[]>();
+    pairwise.forEach(p => {
+      if (p.cohenKappa === null) return;
+      for (const id of [p.raterA, p.raterB]) {
+        if (!kappasByRater.has(id)) kappasByRater.set(id, []);
+        kappasByRater.get(id)!.push(p.cohenKappa);
       }
-    }
-
-    const totalPairings = (totalN * (totalN - 1)) / 2;
-    const De = expectedDisagreement / totalPairings;
-
-    if (De === 0) {
-      return { alpha: 1, raterCount: raters.size, pairCount: pairIds.size, voteCount: campaignVotes.length };
-    }
+    });
 
-    const alpha = 1 - (Do / De);
+    const reviewers = raterIds.map(userId => {
+      const kappas = kappasByRater.get(userId) ?? [];
+      return {
+        userId,
+        email: userMap.get(userId)?.email ?? "",
+        displayName: userMap.get(userId)?.displayName ?? userId,
+        voteCount: votesByRater.get(userId) || 0,
+        meanKappa: kappas.length > 0 ? round(kappas.reduce((a, b) => a + b, 0) / kappas.length) : null,
+      };
+    }).sort((a, b) => b.voteCount - a.voteCount);
 
     return {
-      alpha: Math.max(-1, Math.min(1, Math.round(alpha * 1000) / 1000)),
-      raterCount: raters.size,
-      pairCount: pairIds.size,
-      voteCount: campaignVotes.length,
+      scoringMode,
+      fleissKappa: fleiss !== null ? round(fleiss) : null,
+      pairCount: units.filter(unit => unit.length >= 2).length,
+      reviewers,
+      pairs: pairwise
+        .filter(p => p.sharedItems > 0)
+        .map(p => ({
+          userIdA: p.raterA,
+          userIdB: p.raterB,
+          sharedPairs: p.sharedItems,
+          percentAgreement: p.percentAgreement !== null ? round(p.percentAgreement) : null,
+          cohenKappa: p.cohenKappa !== null ? round(p.cohenKappa) : null,
+        })),
     };
   }
   
@@ -873,6 +2615,7 @@ export class DatabaseStorage implements IStorage {
     uniqueReviewers: number;
     avgVotesPerPair: number;
     alpha: number | null;
+    alphaMetric: AlphaMetric | null;
     disagreementCount: number;
     daysSinceLastActivity: number | null;
   }[]> {
@@ -881,7 +2624,7 @@ export class DatabaseStorage implements IStorage {
     
     for (const campaign of allCampaigns) {
       const campaignVotes = await db
-        .select({ userId: votes.userId, pairId: votes.pairId, scoreBinary: votes.scoreBinary, scoringMode: votes.scoringMode, createdAt: votes.createdAt })
+        .select({ userId: votes.userId, pairId: votes.pairId, createdAt: votes.createdAt })
         .from(votes)
         .innerJoin(pairs, eq(votes.pairId, pairs.id))
         .where(eq(pairs.campaignId, campaign.id));
@@ -890,27 +2633,10 @@ export class DatabaseStorage implements IStorage {
       const reviewedPairs = new Set(campaignVotes.map(v => v.pairId)).size;
       const avgVotesPerPair = reviewedPairs > 0 ? Math.round((campaignVotes.length / reviewedPairs) * 10) / 10 : 0;
       
-      const pairVoteCounts = new Map<string, { positive: number; negative: number }>();
-      campaignVotes.forEach(v => {
-        if (v.scoringMode !== "binary") return;
-        if (!pairVoteCounts.has(v.pairId)) {
-          pairVoteCounts.set(v.pairId, { positive: 0, negative: 0 });
-        }
-        const counts = pairVoteCounts.get(v.pairId)!;
-        if (v.scoreBinary === "match") counts.positive++;
-        else if (v.scoreBinary === "no_match") counts.negative++;
-        // Note: "unsure" votes are not counted as positive or negative
-      });
-      
+      const consensus = await this.getCampaignConsensus(campaign.id);
       let disagreementCount = 0;
-      pairVoteCounts.forEach(counts => {
-        const total = counts.positive + counts.negative;
-        if (total >= 2) {
-          const positiveRate = counts.positive / total;
-          if (positiveRate >= 0.4 && positiveRate <= 0.6) {
-            disagreementCount++;
-          }
-        }
+      consensus.forEach(outcome => {
+        if (outcome.label === "disagreement") disagreementCount++;
       });
       
       const alpha = await this.calculateKrippendorffAlpha(campaign.id);
@@ -933,6 +2659,7 @@ export class DatabaseStorage implements IStorage {
         uniqueReviewers,
         avgVotesPerPair,
         alpha: alpha.alpha,
+        alphaMetric: alpha.alpha !== null ? alpha.metric : null,
         disagreementCount,
         daysSinceLastActivity,
       });
@@ -1033,6 +2760,8 @@ export class DatabaseStorage implements IStorage {
     positiveRate: number | null;
     avgTimeSeconds: number | null;
     skipCount: number;
+    goldAnswered: number;
+    goldAccuracy: number | null;
     flags: string[];
   }[]> {
     const campaignVotes = await db
@@ -1042,6 +2771,7 @@ export class DatabaseStorage implements IStorage {
         userId: votes.userId,
         scoreBinary: votes.scoreBinary,
         scoringMode: votes.scoringMode,
+        reviewMs: votes.reviewMs,
         createdAt: votes.createdAt,
       })
       .from(votes)
@@ -1063,32 +2793,22 @@ export class DatabaseStorage implements IStorage {
     });
     
     const binaryVotes = campaignVotes.filter(v => v.scoringMode === "binary");
-    
-    const pairConsensus = new Map<string, boolean>();
-    const pairVotes = new Map<string, { positive: number; negative: number }>();
-    binaryVotes.forEach(v => {
-      if (!pairVotes.has(v.pairId)) {
-        pairVotes.set(v.pairId, { positive: 0, negative: 0 });
-      }
-      const counts = pairVotes.get(v.pairId)!;
-      if (v.scoreBinary === "match") counts.positive++;
-      else if (v.scoreBinary === "no_match") counts.negative++;
-      // Note: "unsure" votes are not counted as positive or negative
-    });
-    pairVotes.forEach((counts, pairId) => {
-      pairConsensus.set(pairId, counts.positive > counts.negative);
-    });
+    const pairConsensus = await this.getCampaignConsensus(campaignId);
+    const goldByUser = await this.getGoldAccuracy(campaignId);
+    const campaign = await this.getCampaign(campaignId);
+    const goldThreshold = campaign?.goldAccuracyThreshold ?? null;
     
     const userStats = new Map<string, {
       votes: typeof campaignVotes;
       binaryVotes: typeof binaryVotes;
       positiveCount: number;
       agreementCount: number;
+      comparableCount: number;
     }>();
     
     campaignVotes.forEach(v => {
       if (!userStats.has(v.userId)) {
-        userStats.set(v.userId, { votes: [], binaryVotes: [], positiveCount: 0, agreementCount: 0 });
+        userStats.set(v.userId, { votes: [], binaryVotes: [], positiveCount: 0, agreementCount: 0, comparableCount: 0 });
       }
       const stats = userStats.get(v.userId)!;
       stats.votes.push(v);
@@ -1097,11 +2817,12 @@ export class DatabaseStorage implements IStorage {
         stats.binaryVotes.push(v);
         if (v.scoreBinary === "match") stats.positiveCount++;
         
-        const consensus = pairConsensus.get(v.pairId);
-        // For agreement: compare whether vote matches consensus (only definitive votes count)
-        const voteIsPositive = v.scoreBinary === "match" ? true : v.scoreBinary === "no_match" ? false : null;
-        if (consensus !== undefined && voteIsPositive !== null && voteIsPositive === consensus) {
-          stats.agreementCount++;
+        // For agreement: compare definitive votes against pairs with a definitive label
+        const outcome = pairConsensus.get(v.pairId);
+        const hasLabel = outcome && (outcome.label === "match" || outcome.label === "no_match");
+        if (hasLabel && (v.scoreBinary === "match" || v.scoreBinary === "no_match")) {
+          stats.comparableCount++;
+          if (v.scoreBinary === outcome.label) stats.agreementCount++;
         }
       }
     });
@@ -1127,7 +2848,9 @@ export class DatabaseStorage implements IStorage {
       const totalVotes = stats.votes.length;
       const binaryCount = stats.binaryVotes.length;
       const positiveRate = binaryCount >= 5 ? Math.round((stats.positiveCount / binaryCount) * 100) : null;
-      const agreementRate = binaryCount >= 5 ? Math.round((stats.agreementCount / binaryCount) * 100) : null;
+      const agreementRate = binaryCount >= 5 && stats.comparableCount > 0
+        ? Math.round((stats.agreementCount / stats.comparableCount) * 100)
+        : null;
       const skipCount = skipsByUser.get(userId) || 0;
       
       const flags: string[] = [];
@@ -1137,6 +2860,24 @@ export class DatabaseStorage implements IStorage {
         if (positiveRate < 35) flags.push("high_negative_bias");
       }
       
+      // On-screen time, for votes cast since the review page started sending it
+      const reviewTimes = stats.votes.flatMap((v) => (v.reviewMs !== null ? [Math.min(v.reviewMs, MAX_REVIEW_MS)] : []));
+      const avgTimeSeconds = reviewTimes.length > 0
+        ? Math.round(reviewTimes.reduce((sum, ms) => sum + ms, 0) / reviewTimes.length / 100) / 10
+        : null;
+      const fastShare = reviewTimes.filter((ms) => ms < FAST_REVIEW_MS).length / Math.max(reviewTimes.length, 1);
+      if (reviewTimes.length >= FAST_VOTING_MIN_VOTES && fastShare > FAST_VOTING_SHARE) {
+        flags.push("fast_voting");
+      }
+      
+      const gold = goldByUser.get(userId);
+      if (
+        gold && gold.accuracy !== null && goldThreshold !== null &&
+        gold.answered >= GOLD_ALERT_MIN_ANSWERS && gold.accuracy < goldThreshold
+      ) {
+        flags.push("low_gold_accuracy");
+      }
+      
       result.push({
         userId,
         email: user.email,
@@ -1145,8 +2886,10 @@ export class DatabaseStorage implements IStorage {
         activityLast7Days,
         agreementRate,
         positiveRate,
-        avgTimeSeconds: null,
+        avgTimeSeconds,
         skipCount,
+        goldAnswered: gold?.answered ?? 0,
+        goldAccuracy: gold?.accuracy != null ? Math.round(gold.accuracy * 100) : null,
         flags,
       });
     }
@@ -1166,6 +2909,7 @@ export class DatabaseStorage implements IStorage {
   }[]> {
     const campaignPairs = await db.select().from(pairs).where(eq(pairs.campaignId, campaignId));
     const pairMap = new Map(campaignPairs.map(p => [p.id, p]));
+    const consensus = await this.getCampaignConsensus(campaignId);
     
     const allVotes = await db
       .select()
@@ -1197,12 +2941,10 @@ export class DatabaseStorage implements IStorage {
       const pair = pairMap.get(pairId);
       if (!pair) continue;
       
-      const voteCount = stats.positiveVotes + stats.negativeVotes;
-      if (voteCount < 2) continue;
-      
-      const positiveRate = Math.round((stats.positiveVotes / voteCount) * 100);
+      if (consensus.get(pairId)?.label !== "disagreement") continue;
       
-      if (positiveRate < 40 || positiveRate > 60) continue;
+      const voteCount = stats.positiveVotes + stats.negativeVotes;
+      const positiveRate = voteCount > 0 ? Math.round((stats.positiveVotes / voteCount) * 100) : 50;
       
       let numericMean: number | null = null;
       let numericStdDev: number | null = null;
@@ -1236,22 +2978,7 @@ export class DatabaseStorage implements IStorage {
     disagreementRate: number;
   }[]> {
     const campaignPairs = await db.select().from(pairs).where(eq(pairs.campaignId, campaignId));
-    
-    const allVotes = await db
-      .select()
-      .from(votes)
-      .innerJoin(pairs, eq(votes.pairId, pairs.id))
-      .where(eq(pairs.campaignId, campaignId));
-    
-    const pairVoteCounts = new Map<string, { positive: number; negative: number }>();
-    allVotes.forEach(({ votes: v }) => {
-      if (!pairVoteCounts.has(v.pairId)) {
-        pairVoteCounts.set(v.pairId, { positive: 0, negative: 0 });
-      }
-      const counts = pairVoteCounts.get(v.pairId)!;
-      if (v.scoreBinary) counts.positive++;
-      else counts.negative++;
-    });
+    const consensus = await this.getCampaignConsensus(campaignId);
     
     const buckets = [
       { name: "0.9-1.0", min: 0.9, max: 1.0 },
@@ -1267,17 +2994,7 @@ export class DatabaseStorage implements IStorage {
         return conf >= bucket.min && conf < bucket.max;
       });
       
-      let disagreementCount = 0;
-      pairsInBucket.forEach(p => {
-        const counts = pairVoteCounts.get(p.id);
-        if (counts) {
-          const total = counts.positive + counts.negative;
-          if (total >= 2) {
-            const rate = counts.positive / total;
-            if (rate >= 0.4 && rate <= 0.6) disagreementCount++;
-          }
-        }
-      });
+      const disagreementCount = pairsInBucket.filter(p => consensus.get(p.id)?.label === "disagreement").length;
       
       return {
         bucket: bucket.name,
@@ -1290,20 +3007,185 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
   
+  // LLM confidence against the human label (adjudicated decision or consensus)
+  async getCalibrationReport(campaignId: string, options: { bins: number; thresholds: number[] }): Promise<CalibrationReport> {
+    const campaignPairs = await db
+      .select({ id: pairs.id, llmConfidence: pairs.llmConfidence, llmModel: pairs.llmModel })
+      .from(pairs)
+      .where(and(eq(pairs.campaignId, campaignId), isNotNull(pairs.llmConfidence)));
+    const consensus = await this.getCampaignConsensus(campaignId);
+
+    const pointsByModel = new Map<string | null, CalibrationPoint[]>();
+    const allPoints: CalibrationPoint[] = [];
+    let unlabelledPairs = 0;
+
+    for (const pair of campaignPairs) {
+      const confidence = pair.llmConfidence!;
+      if (confidence < 0 || confidence > 1) continue;
+      const label = consensus.get(pair.id)?.label;
+      if (label !== "match" && label !== "no_match") {
+        unlabelledPairs++;
+        continue;
+      }
+      const point = { confidence, isMatch: label === "match" };
+      allPoints.push(point);
+      const model = pair.llmModel || null;
+      if (!pointsByModel.has(model)) pointsByModel.set(model, []);
+      pointsByModel.get(model)!.push(point);
+    }
+
+    const models = Array.from(pointsByModel.entries())
+      .map(([model, points]) => ({ model, ...computeCalibration(points, options) }))
+      .sort((a, b) => b.pairCount - a.pairCount);
+
+    return {
+      binCount: options.bins,
+      thresholds: options.thresholds,
+      unlabelledPairs,
+      overall: computeCalibration(allPoints, options),
+      models,
+    };
+  }
+  
+  // Every model's predictions, the primary one included, against the human label
+  async getModelComparisonReport(campaignId: string): Promise<ModelComparisonReport> {
+    const campaignPairs = await db
+      .select({
+        id: pairs.id,
+        llmConfidence: pairs.llmConfidence,
+        llmModel: pairs.llmModel,
+        llmReasoning: pairs.llmReasoning,
+      })
+      .from(pairs)
+      .where(eq(pairs.campaignId, campaignId));
+    const stored = await db
+      .select({
+        pairId: modelPredictions.pairId,
+        model: modelPredictions.model,
+        confidence: modelPredictions.confidence,
+        reasoning: modelPredictions.reasoning,
+      })
+      .from(modelPredictions)
+      .innerJoin(pairs, eq(modelPredictions.pairId, pairs.id))
+      .where(eq(pairs.campaignId, campaignId));
+    const consensus = await this.getCampaignConsensus(campaignId);
+
+    const storedByPair = new Map<string, ModelPredictionInput[]>();
+    for (const { pairId, ...prediction } of stored) {
+      if (!storedByPair.has(pairId)) storedByPair.set(pairId, []);
+      storedByPair.get(pairId)!.push(prediction);
+    }
+
+    const predictionsByPair = new Map<string, ModelPredictionInput[]>();
+    const labels = new Map<string, boolean>();
+    for (const pair of campaignPairs) {
+      predictionsByPair.set(pair.id, pairPredictions(pair, storedByPair.get(pair.id) ?? []));
+      const label = consensus.get(pair.id)?.label;
+      if (label === "match" || label === "no_match") labels.set(pair.id, label === "match");
+    }
+
+    return computeModelComparison(predictionsByPair, labels);
+  }
+
+  // Reasons given for no_match votes, by model and confidence band (see
+  // server/rejectionAnalysis.ts)
+  async getRejectionReasonReport(campaignId: string): Promise<RejectionReasonReport> {
+    const campaign = await this.getCampaign(campaignId);
+    const rejected = await db
+      .select({
+        reasons: votes.rejectionReasons,
+        pairId: pairs.id,
+        llmConfidence: pairs.llmConfidence,
+        llmModel: pairs.llmModel,
+        llmReasoning: pairs.llmReasoning,
+      })
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(and(eq(pairs.campaignId, campaignId), eq(votes.scoreBinary, "no_match")));
+    const stored = await db
+      .select({
+        pairId: modelPredictions.pairId,
+        model: modelPredictions.model,
+        confidence: modelPredictions.confidence,
+        reasoning: modelPredictions.reasoning,
+      })
+      .from(modelPredictions)
+      .innerJoin(pairs, eq(modelPredictions.pairId, pairs.id))
+      .where(eq(pairs.campaignId, campaignId));
+
+    const storedByPair = new Map<string, ModelPredictionInput[]>();
+    for (const { pairId, ...prediction } of stored) {
+      if (!storedByPair.has(pairId)) storedByPair.set(pairId, []);
+      storedByPair.get(pairId)!.push(prediction);
+    }
+
+    return computeRejectionReasonReport(
+      resolveRejectionReasons(campaign?.rejectionReasons ?? null),
+      rejected.map(({ reasons, pairId, ...pair }) => ({
+        reasons,
+        predictions: pairPredictions(pair, storedByPair.get(pairId) ?? []),
+      }))
+    );
+  }
+  
+  // Where in each candidate list reviewers found the right target. Superseded
+  // versions are left out so a re-queued list is not counted twice.
+  async getCandidateListReport(campaignId: string): Promise<CandidateListReport> {
+    const campaignCandidates = await db
+      .select({ pairId: pairCandidates.pairId, rank: pairCandidates.rank, targetId: pairCandidates.targetId })
+      .from(pairCandidates)
+      .innerJoin(pairs, eq(pairCandidates.pairId, pairs.id))
+      .where(and(eq(pairs.campaignId, campaignId), isNull(pairs.supersededById)))
+      .orderBy(asc(pairCandidates.pairId), asc(pairCandidates.rank));
+    const candidateVotes = await db
+      .select({ pairId: votes.pairId, selectedCandidates: votes.selectedCandidates })
+      .from(votes)
+      .innerJoin(pairs, eq(votes.pairId, pairs.id))
+      .where(and(eq(pairs.campaignId, campaignId), isNotNull(votes.selectedCandidates)));
+
+    const candidatesByPair = new Map<string, { rank: number; targetId: string }[]>();
+    for (const { pairId, ...candidate } of campaignCandidates) {
+      if (!candidatesByPair.has(pairId)) candidatesByPair.set(pairId, []);
+      candidatesByPair.get(pairId)!.push(candidate);
+    }
+    const selectionsByPair = new Map<string, string[][]>();
+    for (const { pairId, selectedCandidates } of candidateVotes) {
+      if (!selectionsByPair.has(pairId)) selectionsByPair.set(pairId, []);
+      selectionsByPair.get(pairId)!.push(selectedCandidates!);
+    }
+
+    const results: CandidateListResult[] = Array.from(candidatesByPair.entries()).map(([pairId, candidates]) => {
+      const selections = selectionsByPair.get(pairId) ?? [];
+      const accepted = acceptedCandidates(candidates, selections);
+      return {
+        pairId,
+        candidateCount: candidates.length,
+        voteCount: selections.length,
+        accepted,
+        bestRank: accepted[0]?.rank ?? null,
+      };
+    });
+
+    return { ...computeCandidateListMetrics(results), results };
+  }
+  
   async getSkipAnalysis(campaignId: string): Promise<{
     totalSkips: number;
     uniquePairsSkipped: number;
     skipRate: number;
+    skipsByReason: SkipReasonCounts;
     mostSkippedPairs: {
       pair: Pair;
       skipCount: number;
       voteCount: number;
+      reasons: SkipReasonCounts;
     }[];
     skipsByReviewer: {
       userId: string;
       email: string;
       skipCount: number;
       skipRate: number;
+      reasons: SkipReasonCounts;
     }[];
   }> {
     const campaignPairs = await db.select().from(pairs).where(eq(pairs.campaignId, campaignId));
@@ -1328,10 +3210,21 @@ export class DatabaseStorage implements IStorage {
     const pairVoteCounts = new Map<string, number>();
     const userSkipCounts = new Map<string, number>();
     const userVoteCounts = new Map<string, number>();
+    const skipsByReason = emptySkipReasonCounts();
+    const pairReasons = new Map<string, SkipReasonCounts>();
+    const userReasons = new Map<string, SkipReasonCounts>();
+    const countReason = (counts: Map<string, SkipReasonCounts>, key: string, reason: SkipReason | "unspecified") => {
+      if (!counts.has(key)) counts.set(key, emptySkipReasonCounts());
+      counts.get(key)![reason]++;
+    };
     
     skipsData.forEach(({ skipped_pairs: s }) => {
       pairSkipCounts.set(s.pairId, (pairSkipCounts.get(s.pairId) || 0) + 1);
       userSkipCounts.set(s.userId, (userSkipCounts.get(s.userId) || 0) + 1);
+      const reason = s.reason ?? "unspecified";
+      skipsByReason[reason]++;
+      countReason(pairReasons, s.pairId, reason);
+      countReason(userReasons, s.userId, reason);
     });
     
     votesData.forEach(v => {
@@ -1344,6 +3237,7 @@ export class DatabaseStorage implements IStorage {
         pair: pairMap.get(pairId)!,
         skipCount,
         voteCount: pairVoteCounts.get(pairId) || 0,
+        reasons: pairReasons.get(pairId)!,
       }))
       .filter(p => p.pair)
       .sort((a, b) => b.skipCount - a.skipCount)
@@ -1358,6 +3252,7 @@ export class DatabaseStorage implements IStorage {
           email: user?.email || "Unknown",
           skipCount,
           skipRate: userVotes + skipCount > 0 ? Math.round((skipCount / (userVotes + skipCount)) * 100) : 0,
+          reasons: userReasons.get(userId)!,
         };
       })
       .sort((a, b) => b.skipCount - a.skipCount);
@@ -1373,6 +3268,7 @@ export class DatabaseStorage implements IStorage {
       totalSkips,
       uniquePairsSkipped,
       skipRate,
+      skipsByReason,
       mostSkippedPairs,
       skipsByReviewer,
     };
@@ -0,0 +1,90 @@
+// Terminology uploads
+//
+// Reads an uploaded code table with the import file readers, so the LOINC
+// table CSV and spreadsheets or JSON Lines exports of other terminologies all
+// work. Columns are found by name (see TERMINOLOGY_COLUMNS). Rows without a
+// code are reported and left out; a code that appears twice keeps its first
+// row. A code without a label is labelled with itself.
+
+import type { ImportFileFormat } from "@shared/importFormats";
+import {
+  DEPRECATED_STATUSES, detectTerminologyColumns, splitSynonyms,
+  type TerminologyCodeInput, type TerminologyColumn, type TerminologyUploadIssue,
+} from "@shared/terminology";
+import { readImportFile } from "./importFiles";
+
+// Issues reported back to the admin; the rest are only counted
+const MAX_REPORTED_ISSUES = 100;
+
+export type TerminologyFile = {
+  codes: TerminologyCodeInput[];
+  skippedRows: number;
+  issues: TerminologyUploadIssue[];
+  // Why the file cannot be used as a code table at all
+  error: string | null;
+};
+
+function cell(record: Record<string, any>, column: string | undefined): string {
+  if (!column) return "";
+  const value = record[column];
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+export async function readTerminologyFile(
+  filePath: string,
+  format: ImportFileFormat,
+  fileSize: number
+): Promise<TerminologyFile> {
+  const codes = new Map<string, TerminologyCodeInput>();
+  const issues: TerminologyUploadIssue[] = [];
+  let skippedRows = 0;
+  let columns: Partial<Record<TerminologyColumn, string>> | null = null;
+  let row = 0;
+
+  const skip = (reason: string) => {
+    skippedRows++;
+    if (issues.length < MAX_REPORTED_ISSUES) issues.push({ row, reason });
+  };
+
+  for await (const { record, parseError } of readImportFile(filePath, format, { fileSize })) {
+    row++;
+    if (parseError) {
+      skip(parseError);
+      continue;
+    }
+    if (!columns) {
+      columns = detectTerminologyColumns(Object.keys(record));
+      if (!columns.code) {
+        return {
+          codes: [],
+          skippedRows: 0,
+          issues: [],
+          error: "The file has no code column. Name it code (or LOINC_NUM for the LOINC table).",
+        };
+      }
+    }
+
+    const code = cell(record, columns.code);
+    if (!code) {
+      skip("Missing code");
+      continue;
+    }
+    if (codes.has(code)) {
+      skip(`Code "${code}" appears more than once`);
+      continue;
+    }
+    codes.set(code, {
+      code,
+      label: cell(record, columns.label) || code,
+      synonyms: columns.synonyms ? splitSynonyms(record[columns.synonyms]) : [],
+      deprecated: DEPRECATED_STATUSES.includes(cell(record, columns.status).toUpperCase()),
+    });
+  }
+
+  return {
+    codes: Array.from(codes.values()),
+    skippedRows,
+    issues,
+    error: codes.size === 0 ? "The file has no codes" : null,
+  };
+}
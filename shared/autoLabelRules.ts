@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Auto-label rules
+//
+// A campaign can let confident LLM predictions label pairs without human
+// review: "confidence >= X from model Y is a match", or "<= X is a no-match".
+// Labelled pairs leave the review queue except for an audit sample, and the
+// audited votes show whether each rule is safe to keep. The first rule a pair
+// satisfies wins. Rules are applied on the server (applyAutoLabelRules in
+// server/storage.ts); this module holds their shape and wording.
+
+export const AUTO_LABEL_ACTIONS = ["accept", "reject"] as const;
+export type AutoLabelAction = (typeof AUTO_LABEL_ACTIONS)[number];
+
+export const autoLabelRuleSchema = z.object({
+  // Stable id so audit results stay attached when other rules change
+  id: z.string().min(1).max(64),
+  // accept: confidence >= threshold is a match; reject: <= threshold is a no-match
+  action: z.enum(AUTO_LABEL_ACTIONS),
+  threshold: z.number().min(0).max(1),
+  // Only pairs from this llmModel; null applies to every model
+  model: z.string().trim().min(1).max(200).nullable(),
+  // Share of matching pairs kept in the review queue as an audit sample
+  auditRate: z.number().min(0).max(1),
+});
+
+export type AutoLabelRule = z.infer<typeof autoLabelRuleSchema>;
+
+export const autoLabelRulesSchema = z.array(autoLabelRuleSchema).max(20);
+
+// Audit agreement a rule must demonstrate before it is reported as safe
+export const AUTO_LABEL_TARGET_AGREEMENT = 0.95;
+// Audited pairs needed before a rule gets a verdict at all
+export const AUTO_LABEL_MIN_AUDITED = 10;
+
+export function autoLabelFor(action: AutoLabelAction): "match" | "no_match" {
+  return action === "accept" ? "match" : "no_match";
+}
+
+export function ruleMatches(rule: AutoLabelRule, confidence: number, model: string | null): boolean {
+  if (rule.model !== null && rule.model !== model) return false;
+  return rule.action === "accept" ? confidence >= rule.threshold : confidence <= rule.threshold;
+}
+
+export function describeAutoLabelRule(rule: AutoLabelRule): string {
+  const comparison = rule.action === "accept" ? "≥" : "≤";
+  const outcome = rule.action === "accept" ? "auto-accept" : "auto-reject";
+  const model = rule.model ? ` from ${rule.model}` : "";
+  return `Confidence ${comparison} ${rule.threshold}${model}: ${outcome}, audit ${Math.round(rule.auditRate * 100)}%`;
+}
+
+export type AutoLabelVerdict = "safe" | "unsafe" | "inconclusive" | "insufficient";
+
+export type AutoLabelRuleAudit = {
+  rule: AutoLabelRule;
+  description: string;
+  labelledPairs: number;
+  auditSampled: number;
+  // Audit pairs that have a human label (adjudicated or consensus)
+  audited: number;
+  agreed: number;
+  agreementRate: number | null;
+  // 95% Wilson score interval for the agreement rate
+  interval: { lower: number; upper: number } | null;
+  verdict: AutoLabelVerdict;
+};
+
+export type AutoLabelAuditReport = {
+  targetAgreement: number;
+  minAudited: number;
+  rules: AutoLabelRuleAudit[];
+};
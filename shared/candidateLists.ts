@@ -0,0 +1,84 @@
+// Candidate lists
+//
+// One-to-many review: a source item comes with an ordered list of candidate
+// targets and the reviewer picks the right one, several, or none. The pair's
+// own target is the top-ranked candidate, so a candidate vote is also an
+// ordinary binary vote on the pair (match when the top candidate was picked,
+// no_match otherwise) and consensus, agreement and calibration keep working.
+// Rank-aware metrics ask where in the list the accepted candidates were.
+
+export const MAX_CANDIDATES = 20;
+
+export type CandidateInput = {
+  targetId: string;
+  targetText: string;
+  score: number | null;
+};
+
+// A candidate vote's binary score on the pair
+export function candidateVoteScore(selected: string[], topTargetId: string): "match" | "no_match" {
+  return selected.includes(topTargetId) ? "match" : "no_match";
+}
+
+// The candidates at least half of a pair's candidate votes picked, best first
+export function acceptedCandidates<T extends { rank: number; targetId: string }>(
+  candidates: T[],
+  selections: string[][]
+): T[] {
+  if (selections.length === 0) return [];
+  return candidates
+    .filter((candidate) => {
+      const picks = selections.filter((selected) => selected.includes(candidate.targetId)).length;
+      return picks * 2 >= selections.length;
+    })
+    .sort((a, b) => a.rank - b.rank);
+}
+
+// ── Rank-aware metrics ──────────────────────────────────────────────────────
+
+// List positions top-k accuracy is reported at
+export const TOP_K_VALUES = [1, 3, 5] as const;
+
+export type CandidateListResult = {
+  pairId: string;
+  candidateCount: number;
+  // Candidate votes cast on the list
+  voteCount: number;
+  accepted: { rank: number; targetId: string }[];
+  // Rank of the best accepted candidate; null when reviewers accepted none
+  bestRank: number | null;
+};
+
+export type CandidateListMetrics = {
+  // Pairs reviewed as candidate lists
+  listCount: number;
+  // Lists with at least one candidate vote
+  reviewedLists: number;
+  // Reviewed lists where no candidate was accepted
+  noCorrectCandidate: number;
+  // Share of reviewed lists with an accepted candidate at rank k or better
+  topK: { k: number; accuracy: number | null }[];
+  // Mean of 1 / best accepted rank over reviewed lists, 0 when none was accepted
+  meanReciprocalRank: number | null;
+};
+
+export type CandidateListReport = CandidateListMetrics & {
+  results: CandidateListResult[];
+};
+
+export function computeCandidateListMetrics(results: CandidateListResult[]): CandidateListMetrics {
+  const reviewed = results.filter((result) => result.voteCount > 0);
+  const n = reviewed.length;
+  return {
+    listCount: results.length,
+    reviewedLists: n,
+    noCorrectCandidate: reviewed.filter((result) => result.bestRank === null).length,
+    topK: TOP_K_VALUES.map((k) => ({
+      k,
+      accuracy: n > 0 ? reviewed.filter((result) => result.bestRank !== null && result.bestRank <= k).length / n : null,
+    })),
+    meanReciprocalRank: n > 0
+      ? reviewed.reduce((sum, result) => sum + (result.bestRank !== null ? 1 / result.bestRank : 0), 0) / n
+      : null,
+  };
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+// Consensus policy
+//
+// Each campaign stores the rule that turns reviewer votes into a label. The
+// policy is evaluated on the server (server/consensus.ts) so that results,
+// export, analytics and reviewer stats all agree; this module holds its
+// shape, defaults and the wording shown in the UI. Only binary votes count
+// toward consensus; numeric scores are reported separately.
+
+export const UNSURE_HANDLING = ["ignore", "abstain", "no_match"] as const;
+export type UnsureHandling = (typeof UNSURE_HANDLING)[number];
+
+export const UNSURE_HANDLING_LABELS: Record<UnsureHandling, string> = {
+  ignore: "Ignore unsure votes",
+  abstain: "Count as abstentions",
+  no_match: "Count as rejections",
+};
+
+export const consensusPolicySchema = z.object({
+  // Counted votes a pair needs before it gets a label
+  minVotes: z.number().int().min(1).max(50),
+  // Share of the counted (weighted) votes one side needs, strictly above one half
+  threshold: z.number().gt(0.5).max(1),
+  // ignore: dropped entirely; abstain: counted in the total but support neither
+  // side; no_match: counted as a rejection
+  unsureHandling: z.enum(UNSURE_HANDLING),
+  // Weight each vote by the reviewer's agreement with the campaign's labels
+  reliabilityWeighting: z.boolean(),
+});
+
+export type ConsensusPolicy = z.infer<typeof consensusPolicySchema>;
+
+export const DEFAULT_CONSENSUS_POLICY: ConsensusPolicy = {
+  minVotes: 1,
+  threshold: 0.6,
+  unsureHandling: "ignore",
+  reliabilityWeighting: false,
+};
+
+// Campaigns created before policies existed have no stored policy
+export function resolveConsensusPolicy(policy: Partial<ConsensusPolicy> | null | undefined): ConsensusPolicy {
+  return { ...DEFAULT_CONSENSUS_POLICY, ...(policy ?? {}) };
+}
+
+export function describeConsensusPolicy(policy: ConsensusPolicy): string {
+  const parts = [
+    `${Math.round(policy.threshold * 100)}% agreement`,
+    `at least ${policy.minVotes} vote${policy.minVotes === 1 ? "" : "s"}`,
+    UNSURE_HANDLING_LABELS[policy.unsureHandling].toLowerCase(),
+  ];
+  if (policy.reliabilityWeighting) parts.push("reliability-weighted");
+  return parts.join(", ");
+}
+
+export type ConsensusLabel = "match" | "no_match" | "disagreement" | "insufficient" | "unreviewed";
+
+export type ConsensusOutcome = {
+  label: ConsensusLabel;
+  // "adjudication" when a binding decision overrides the vote-based label
+  source: "adjudication" | "policy";
+  // Weighted share of counted votes confirming the match; null when none counted
+  matchShare: number | null;
+  countedVotes: number;
+  // Plain-language account of the rule that produced the label
+  rule: string;
+};
@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+// Existing pairs on import
+//
+// An imported row with the source and target IDs of a pair the campaign
+// already has is an existing pair. Imports can skip it, update its LLM output
+// and metadata in place (its votes stay with it), or add the row as a new
+// version of the pair. A new version goes back to reviewers; the version it
+// replaces keeps its votes but leaves the review queue. When updating, pairs
+// that already have votes and whose LLM output changed materially can be
+// re-queued the same way. Only the fields a row provides are compared and
+// written, so a file without a reasoning column leaves reasoning untouched.
+
+export const EXISTING_PAIR_MODES = ["skip", "update", "version"] as const;
+export type ExistingPairMode = (typeof EXISTING_PAIR_MODES)[number];
+
+export const EXISTING_PAIR_MODE_LABELS: Record<ExistingPairMode, string> = {
+  skip: "Skip",
+  update: "Update LLM fields",
+  version: "Create new version",
+};
+
+export const EXISTING_PAIR_MODE_DESCRIPTIONS: Record<ExistingPairMode, string> = {
+  skip: "Pairs the campaign already has are left as they are.",
+  update: "Confidence, model, reasoning, metadata, model predictions and candidate lists are replaced; votes are kept.",
+  version: "Changed pairs are added as a new version for review; the old version keeps its votes.",
+};
+
+export const existingPairOptionsSchema = z.object({
+  existingPairMode: z.enum(EXISTING_PAIR_MODES).default("skip"),
+  requeueChanged: z.boolean().default(false),
+});
+export type ExistingPairOptions = z.infer<typeof existingPairOptionsSchema>;
+
+export const UPDATABLE_PAIR_FIELDS = [
+  "llmConfidence", "llmModel", "llmReasoning", "sourceMetadata", "targetMetadata",
+] as const;
+export type UpdatablePairField = (typeof UPDATABLE_PAIR_FIELDS)[number];
+
+// The pair's fields plus its further models' predictions and candidate list
+export const CHANGED_PAIR_FIELDS = [...UPDATABLE_PAIR_FIELDS, "predictions", "candidates"] as const;
+export type ChangedPairField = (typeof CHANGED_PAIR_FIELDS)[number];
+
+export const CHANGED_PAIR_FIELD_LABELS: Record<ChangedPairField, string> = {
+  llmConfidence: "Confidence",
+  llmModel: "Model",
+  llmReasoning: "Reasoning",
+  sourceMetadata: "Source metadata",
+  targetMetadata: "Target metadata",
+  predictions: "Model predictions",
+  candidates: "Candidate list",
+};
+
+// Confidence moves at least this far for a change to be material
+export const MATERIAL_CONFIDENCE_CHANGE = 0.2;
+
+// A confidence that appears, disappears, crosses 0.5 or moves by at least
+// MATERIAL_CONFIDENCE_CHANGE changes what reviewers are being asked to check
+export function isMaterialConfidenceChange(previous: number | null, next: number | null): boolean {
+  if (previous === null || next === null) return previous !== next;
+  return Math.abs(next - previous) >= MATERIAL_CONFIDENCE_CHANGE || previous >= 0.5 !== next >= 0.5;
+}
+
+// "requeued" pairs were updated with a material change and added as a new
+// version because reviewers had already voted on them
+export type ExistingPairOutcome = "updated" | "versioned" | "requeued";
+
+export type PairChange = {
+  // 1-based data row in the uploaded file
+  row: number;
+  sourceId: string;
+  targetId: string;
+  outcome: ExistingPairOutcome;
+  fields: ChangedPairField[];
+  previousConfidence: number | null;
+  confidence: number | null;
+};
+
+// How many existing pairs had each field changed
+export type FieldChangeCounts = Partial<Record<ChangedPairField, number>>;
+
+export function addFieldChangeCounts(total: FieldChangeCounts, counts: FieldChangeCounts): FieldChangeCounts {
+  const sum: FieldChangeCounts = { ...total };
+  for (const field of CHANGED_PAIR_FIELDS) {
+    if (counts[field]) sum[field] = (sum[field] ?? 0) + counts[field]!;
+  }
+  return sum;
+}
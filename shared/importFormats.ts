@@ -0,0 +1,121 @@
+// Import file formats
+//
+// The upload wizard previews files in the browser and the server imports
+// them, so both need to agree on what a file is and how its text is decoded.
+// Delimited text may arrive in UTF-8 or UTF-16 (with or without a byte order
+// mark) or in the Windows-1252 encoding older Excel versions save CSV in.
+
+export const IMPORT_FILE_FORMATS = ["csv", "tsv", "json", "jsonl", "xlsx"] as const;
+export type ImportFileFormat = (typeof IMPORT_FILE_FORMATS)[number];
+
+// File input accept list for the wizard
+export const IMPORT_FILE_ACCEPT = ".csv,.tsv,.txt,.json,.jsonl,.ndjson,.xlsx";
+
+export function formatFromFileName(fileName: string): ImportFileFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "csv":
+    case "txt":
+      return "csv";
+    case "tsv":
+      return "tsv";
+    case "json":
+      return "json";
+    case "jsonl":
+    case "ndjson":
+      return "jsonl";
+    case "xlsx":
+      return "xlsx";
+    default:
+      return null;
+  }
+}
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+// Decides the encoding from the first bytes of a file. Without a byte order
+// mark, text that is not valid UTF-8 is taken to be Windows-1252.
+export function sniffEncoding(sample: Uint8Array): TextEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return "utf-8";
+  if (sample[0] === 0xff && sample[1] === 0xfe) return "utf-16le";
+  if (sample[0] === 0xfe && sample[1] === 0xff) return "utf-16be";
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+const CANDIDATE_DELIMITERS = [",", "\t", ";", "|"] as const;
+export type Delimiter = (typeof CANDIDATE_DELIMITERS)[number];
+
+// Picks the delimiter that splits the header line into the most columns,
+// ignoring anything inside quotes. Ties go to the comma.
+export function detectDelimiter(headerLine: string): Delimiter {
+  const counts = new Map<Delimiter, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const ch of headerLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && counts.has(ch as Delimiter)) {
+      counts.set(ch as Delimiter, counts.get(ch as Delimiter)! + 1);
+    }
+  }
+  let best: Delimiter = ",";
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter;
+  });
+  return best;
+}
+
+// Cell values from JSON records and spreadsheets as the text the column
+// mapper works with. Nested objects keep their JSON so metadata survives.
+export function toCellString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    // Spreadsheet dates without a time of day
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// ── Spreadsheets ─────────────────────────────────────────────────────────
+// ExcelJS reports rich text, formulas and hyperlinks as objects
+export function spreadsheetCellText(value: unknown): string {
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const cell = value as { richText?: { text: string }[]; result?: unknown; text?: unknown; error?: unknown };
+    if (cell.richText) return cell.richText.map((run) => run.text).join("");
+    if ("result" in cell) return spreadsheetCellText(cell.result);
+    if (cell.text !== undefined) return spreadsheetCellText(cell.text);
+    if (cell.error !== undefined) return "";
+  }
+  return toCellString(value).trim();
+}
+
+// Column names from a sheet's first row; blank or repeated headings get a
+// positional name so every column can still be mapped
+export function sheetColumns(headerCells: unknown[]): string[] {
+  const seen = new Set<string>();
+  return Array.from(headerCells, (cell, index) => {
+    let name = spreadsheetCellText(cell) || `column_${index + 1}`;
+    if (seen.has(name)) name = `${name}_${index + 1}`;
+    seen.add(name);
+    return name;
+  });
+}
+
+// One data row keyed by column name, or null for a row with no values
+export function sheetRecord(columns: string[], cells: unknown[]): Record<string, string> | null {
+  const record: Record<string, string> = {};
+  let empty = true;
+  columns.forEach((column, index) => {
+    const text = spreadsheetCellText(cells[index]);
+    if (text !== "") empty = false;
+    record[column] = text;
+  });
+  return empty ? null : record;
+}
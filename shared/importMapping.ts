@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { PredictionColumns } from "./modelPredictions";
+import {
+  applyTransforms, fieldTransformsSchema, metadataTransformKey, transformVersionSchema, type FieldTransforms,
+} from "./importTransforms";
+
+// Import column mappings
+//
+// The upload wizard maps the columns of an uploaded file onto pair fields.
+// The wizard sends the original file together with its mappings, and the
+// server's import job applies them row by row while streaming the file, so
+// large files never have to be mapped (or held) in the browser. Mapped values
+// go through the mappings' transforms (see importTransforms.ts) on both sides.
+
+export type MappingEntry =
+  | { type: "column" | "manual"; value: string }
+  | { type: "none"; value: "" };
+
+export type OptionalMappingEntry =
+  | { type: "column" | "manual"; value: string }
+  | { type: "none"; value: "" };
+
+export interface ColumnMappings {
+  // Required fields
+  sourceText: MappingEntry;
+  sourceId: MappingEntry;
+  sourceDataset: MappingEntry;
+  targetText: MappingEntry;
+  targetId: MappingEntry;
+  targetDataset: MappingEntry;
+  pairType: MappingEntry;
+  // Optional LLM fields
+  llmConfidence?: OptionalMappingEntry;
+  llmModel?: OptionalMappingEntry;
+  llmReasoning?: OptionalMappingEntry;
+  // Optional known label, which marks the pair as gold
+  knownLabel?: OptionalMappingEntry;
+  // Further models' predictions, for model comparison campaigns
+  predictionColumns?: PredictionColumns[];
+  // Optional column holding a JSON list of ranked candidate targets
+  candidates?: OptionalMappingEntry;
+  // Metadata / ignored
+  sourceMetadataColumns: string[];
+  targetMetadataColumns: string[];
+  ignoredColumns: string[];
+  // Transform pipelines by field, and the transform version they were
+  // written for (1 when not given)
+  transforms?: FieldTransforms;
+  transformVersion?: number;
+}
+
+const mappingEntrySchema = z.union([
+  z.object({ type: z.enum(["column", "manual"]), value: z.string() }),
+  z.object({ type: z.literal("none"), value: z.literal("") }),
+]);
+
+export const columnMappingsSchema = z.object({
+  sourceText: mappingEntrySchema,
+  sourceId: mappingEntrySchema,
+  sourceDataset: mappingEntrySchema,
+  targetText: mappingEntrySchema,
+  targetId: mappingEntrySchema,
+  targetDataset: mappingEntrySchema,
+  pairType: mappingEntrySchema,
+  llmConfidence: mappingEntrySchema.optional(),
+  llmModel: mappingEntrySchema.optional(),
+  llmReasoning: mappingEntrySchema.optional(),
+  knownLabel: mappingEntrySchema.optional(),
+  predictionColumns: z.array(z.object({
+    model: z.string().trim().min(1).max(100),
+    confidenceColumn: z.string(),
+    reasoningColumn: z.string().optional(),
+  })).optional(),
+  candidates: mappingEntrySchema.optional(),
+  sourceMetadataColumns: z.array(z.string()),
+  targetMetadataColumns: z.array(z.string()),
+  ignoredColumns: z.array(z.string()),
+  transforms: fieldTransformsSchema.optional(),
+  transformVersion: transformVersionSchema.optional(),
+}) satisfies z.ZodType<ColumnMappings>;
+
+// A mapped row in the import's snake_case record format
+export type PairRecord = {
+  source_text: string;
+  source_id: string;
+  source_dataset: string;
+  target_text: string;
+  target_id: string;
+  target_dataset: string;
+  pair_type: string;
+  llm_confidence?: string;
+  llm_model?: string;
+  llm_reasoning?: string;
+  known_label?: string;
+  predictions?: { model: string; confidence?: string; reasoning?: string }[];
+  candidates?: string;
+  source_metadata?: Record<string, string>;
+  target_metadata?: Record<string, string>;
+};
+
+// Fields mapped from a single column or manual value, which transforms apply to
+export const MAPPED_FIELDS = [
+  "sourceText", "sourceId", "sourceDataset", "targetText", "targetId", "targetDataset", "pairType",
+  "llmConfidence", "llmModel", "llmReasoning", "knownLabel", "candidates",
+] as const;
+export type MappedField = (typeof MAPPED_FIELDS)[number];
+
+function resolveEntryValue(
+  row: Record<string, string>,
+  entry: { type: "column" | "manual" | "none"; value: string } | undefined
+): string {
+  if (!entry || entry.type === "none") return "";
+  if (entry.type === "manual") return entry.value;
+  return row[entry.value] ?? "";
+}
+
+function collectMetadata(
+  row: Record<string, string>,
+  columns: string[],
+  side: "source" | "target",
+  transforms: FieldTransforms | undefined
+): Record<string, string> | undefined {
+  const metadata: Record<string, string> = {};
+  for (const col of columns) {
+    if (row[col] === undefined) continue;
+    const value = applyTransforms(row[col], transforms?.[metadataTransformKey(side, col)], row);
+    if (value !== "") {
+      metadata[col] = value;
+    }
+  }
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+export function mapRowToPairRecord(
+  row: Record<string, string>,
+  mappings: ColumnMappings,
+  campaignType: string
+): PairRecord {
+  // Only version 1 exists so far; a later version would branch on
+  // mappings.transformVersion here
+  const value = (field: MappedField) =>
+    applyTransforms(resolveEntryValue(row, mappings[field]), mappings.transforms?.[field], row);
+  const llmConfidence = value("llmConfidence");
+
+  return {
+    source_text: value("sourceText"),
+    source_id: value("sourceId"),
+    source_dataset: value("sourceDataset"),
+    target_text: value("targetText"),
+    target_id: value("targetId"),
+    target_dataset: value("targetDataset"),
+    pair_type: value("pairType") || campaignType,
+    llm_confidence: llmConfidence !== "" ? llmConfidence : undefined,
+    llm_model: value("llmModel") || undefined,
+    llm_reasoning: value("llmReasoning") || undefined,
+    known_label: value("knownLabel") || undefined,
+    predictions: mappings.predictionColumns?.map((columns) => ({
+      model: columns.model,
+      confidence: row[columns.confidenceColumn] || undefined,
+      reasoning: (columns.reasoningColumn && row[columns.reasoningColumn]) || undefined,
+    })),
+    candidates: value("candidates") || undefined,
+    source_metadata: collectMetadata(row, mappings.sourceMetadataColumns, "source", mappings.transforms),
+    target_metadata: collectMetadata(row, mappings.targetMetadataColumns, "target", mappings.transforms),
+  };
+}
@@ -0,0 +1,81 @@
+import { MAPPED_FIELDS, type ColumnMappings } from "./importMapping";
+
+// Import template matching
+//
+// Recurring files usually come with the same header row. When a file is
+// dropped into the upload wizard, its columns are compared with the columns
+// each saved template reads, and the closest template above a threshold is
+// suggested. The score is the share of columns the file and the template have
+// in common (matched / all columns of either), so both columns the template
+// expects but the file lacks and new columns the template does not know about
+// lower it. Column names are compared exactly, as mappings refer to them.
+
+export const MIN_TEMPLATE_MATCH_SCORE = 0.6;
+
+export type TemplateMatch = {
+  // 0–1, 1 when the file has exactly the template's columns
+  score: number;
+  // Columns the template reads that the file does not have
+  missingColumns: string[];
+  // Columns of the file the template does not mention
+  extraColumns: string[];
+};
+
+// Every column the mappings refer to: mapped fields, prediction columns,
+// metadata and ignored columns, and columns joined in by transforms
+export function templateColumns(mappings: ColumnMappings): string[] {
+  const columns = new Set<string>();
+  for (const field of MAPPED_FIELDS) {
+    const entry = mappings[field];
+    if (entry?.type === "column" && entry.value) columns.add(entry.value);
+  }
+  for (const prediction of mappings.predictionColumns ?? []) {
+    columns.add(prediction.confidenceColumn);
+    if (prediction.reasoningColumn) columns.add(prediction.reasoningColumn);
+  }
+  for (const column of [
+    ...(mappings.sourceMetadataColumns ?? []),
+    ...(mappings.targetMetadataColumns ?? []),
+    ...(mappings.ignoredColumns ?? []),
+  ]) {
+    columns.add(column);
+  }
+  for (const steps of Object.values(mappings.transforms ?? {})) {
+    for (const step of steps) {
+      if (step.op === "concat") step.columns.forEach((column) => columns.add(column));
+    }
+  }
+  return Array.from(columns);
+}
+
+export function matchTemplate(fileColumns: string[], mappings: ColumnMappings): TemplateMatch {
+  const expected = templateColumns(mappings);
+  const present = new Set(fileColumns);
+  const known = new Set(expected);
+  const missingColumns = expected.filter((column) => !present.has(column));
+  const extraColumns = fileColumns.filter((column) => !known.has(column));
+  const matched = expected.length - missingColumns.length;
+  const total = matched + missingColumns.length + extraColumns.length;
+  return {
+    score: total === 0 ? 0 : matched / total,
+    missingColumns,
+    extraColumns,
+  };
+}
+
+// The template closest to the file's columns, if any is close enough
+export function suggestTemplate<T extends { columnMappings: unknown }>(
+  fileColumns: string[],
+  templates: T[]
+): (TemplateMatch & { template: T }) | null {
+  let best: (TemplateMatch & { template: T }) | null = null;
+  for (const template of templates) {
+    const mappings = template.columnMappings as ColumnMappings | null;
+    if (!mappings || typeof mappings !== "object") continue;
+    const match = matchTemplate(fileColumns, mappings);
+    if (match.score >= MIN_TEMPLATE_MATCH_SCORE && (!best || match.score > best.score)) {
+      best = { ...match, template };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,126 @@
+import { z } from "zod";
+
+// Import transforms
+//
+// Recurring files often need small fixes on the way in: two columns joined
+// into the source text, IDs tagged with a cohort prefix, confidence given as
+// 0–100, alternates in one pipe-delimited cell. Column mappings can carry a
+// pipeline of declarative steps per field (or per metadata column), applied
+// in order to the mapped value. The same code runs in the upload wizard's
+// preview and in the server's import job, so the preview shows what will be
+// imported.
+//
+// Mappings are stamped with the TRANSFORM_VERSION they were written for and
+// stored with every import job. A step never changes what it does within a
+// version; changing a step means a new version that keeps the old behaviour
+// for mappings stamped with an older one, so an old import's mappings still
+// produce the same pairs.
+
+export const TRANSFORM_VERSION = 1;
+
+export const TRANSFORM_OPS = ["concat", "prefix", "suffix", "replace", "scale", "split"] as const;
+export type TransformOp = (typeof TRANSFORM_OPS)[number];
+
+export const TRANSFORM_OP_LABELS: Record<TransformOp, string> = {
+  concat: "Join with columns",
+  prefix: "Add prefix",
+  suffix: "Add suffix",
+  replace: "Replace text",
+  scale: "Multiply number",
+  split: "Split into list",
+};
+
+export const TRANSFORM_OP_DESCRIPTIONS: Record<TransformOp, string> = {
+  concat: "Appends other columns' values, skipping empty ones",
+  prefix: "Adds text in front, unless the value is empty or already starts with it",
+  suffix: "Adds text at the end, unless the value is empty or already ends with it",
+  replace: "Replaces every occurrence of some text",
+  scale: "Multiplies a number, e.g. by 0.01 for confidence given as 0–100",
+  split: "Splits on a delimiter into a JSON list, e.g. for alternates or candidates",
+};
+
+export type TransformStep =
+  | { op: "concat"; columns: string[]; separator: string }
+  | { op: "prefix"; value: string }
+  | { op: "suffix"; value: string }
+  | { op: "replace"; find: string; replacement: string }
+  | { op: "scale"; factor: number }
+  | { op: "split"; delimiter: string };
+
+// Transforms by target: a pair field such as "sourceText", or a metadata
+// column as "sourceMetadata:<column>" / "targetMetadata:<column>"
+export type FieldTransforms = Record<string, TransformStep[]>;
+
+export const MAX_TRANSFORM_STEPS = 10;
+
+export const transformStepSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("concat"), columns: z.array(z.string().min(1)).min(1), separator: z.string().max(20) }),
+  z.object({ op: z.literal("prefix"), value: z.string().min(1).max(100) }),
+  z.object({ op: z.literal("suffix"), value: z.string().min(1).max(100) }),
+  z.object({ op: z.literal("replace"), find: z.string().min(1).max(100), replacement: z.string().max(100) }),
+  z.object({ op: z.literal("scale"), factor: z.number().finite().refine((factor) => factor !== 0, "Factor cannot be 0") }),
+  z.object({ op: z.literal("split"), delimiter: z.string().min(1).max(10) }),
+]) satisfies z.ZodType<TransformStep>;
+
+export const fieldTransformsSchema = z.record(
+  z.string().min(1),
+  z.array(transformStepSchema).max(MAX_TRANSFORM_STEPS)
+) satisfies z.ZodType<FieldTransforms>;
+
+export const transformVersionSchema = z.number().int().min(1).max(TRANSFORM_VERSION);
+
+export function metadataTransformKey(side: "source" | "target", column: string): string {
+  return `${side}Metadata:${column}`;
+}
+
+function applyStep(value: string, step: TransformStep, row: Record<string, string>): string {
+  switch (step.op) {
+    case "concat":
+      return [value, ...step.columns.map((column) => row[column] ?? "")]
+        .filter((part) => part.trim() !== "")
+        .join(step.separator);
+    case "prefix":
+      return value === "" || value.startsWith(step.value) ? value : step.value + value;
+    case "suffix":
+      return value === "" || value.endsWith(step.value) ? value : value + step.value;
+    case "replace":
+      return value.split(step.find).join(step.replacement);
+    case "scale": {
+      // Values that are not numbers are left for row validation to report
+      const number = Number(value);
+      if (value.trim() === "" || !Number.isFinite(number)) return value;
+      return String(parseFloat((number * step.factor).toPrecision(12)));
+    }
+    case "split": {
+      if (value.trim() === "") return value;
+      const parts = value.split(step.delimiter).map((part) => part.trim()).filter(Boolean);
+      return JSON.stringify(parts);
+    }
+  }
+}
+
+export function applyTransforms(
+  value: string,
+  steps: TransformStep[] | undefined,
+  row: Record<string, string>
+): string {
+  if (!steps) return value;
+  return steps.reduce((current, step) => applyStep(current, step, row), value);
+}
+
+export function describeTransformStep(step: TransformStep): string {
+  switch (step.op) {
+    case "concat":
+      return `Join with ${step.columns.join(", ")} using "${step.separator}"`;
+    case "prefix":
+      return `Prefix "${step.value}"`;
+    case "suffix":
+      return `Suffix "${step.value}"`;
+    case "replace":
+      return `Replace "${step.find}" with "${step.replacement}"`;
+    case "scale":
+      return `Multiply by ${step.factor}`;
+    case "split":
+      return `Split on "${step.delimiter}"`;
+  }
+}
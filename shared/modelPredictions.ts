@@ -0,0 +1,87 @@
+// Model predictions
+//
+// Model comparison campaigns run several models over the same candidate
+// pairs and have reviewers label each pair once. Every model's output is kept
+// as a prediction linked to the pair, next to the pair's own llmConfidence /
+// llmModel / llmReasoning, which stay the primary prediction that queue
+// ordering, auto-label rules and calibration use. Files carry extra models as
+// a "predictions" list (JSON) or as <model>_confidence and <model>_reasoning
+// column pairs (delimited files and spreadsheets).
+
+export type ModelPredictionInput = {
+  model: string;
+  confidence: number | null;
+  reasoning: string | null;
+};
+
+// A file's columns for one model's predictions
+export type PredictionColumns = {
+  model: string;
+  confidenceColumn: string;
+  reasoningColumn?: string;
+};
+
+const CONFIDENCE_COLUMN = /^(.+?)[_\s]+confidence$/i;
+const REASONING_COLUMN = /^(.+?)[_\s]+reasoning$/i;
+
+// Prediction columns from a file's header: every <model>_confidence column,
+// with the matching <model>_reasoning column if there is one.
+// The llm_ prefix belongs to the primary prediction's columns.
+export function detectPredictionColumns(columns: string[]): PredictionColumns[] {
+  const reasoningByModel = new Map<string, string>();
+  for (const column of columns) {
+    const match = REASONING_COLUMN.exec(column);
+    if (match) reasoningByModel.set(match[1].toLowerCase(), column);
+  }
+
+  const detected: PredictionColumns[] = [];
+  for (const column of columns) {
+    const match = CONFIDENCE_COLUMN.exec(column);
+    if (!match || match[1].toLowerCase() === "llm") continue;
+    const reasoningColumn = reasoningByModel.get(match[1].toLowerCase());
+    detected.push({ model: match[1], confidenceColumn: column, ...(reasoningColumn ? { reasoningColumn } : {}) });
+  }
+  return detected;
+}
+
+// The primary prediction and the stored ones, one per model. A stored
+// prediction for the primary model takes its place.
+export function pairPredictions(
+  pair: { llmConfidence: number | null; llmModel: string | null; llmReasoning: string | null },
+  stored: ModelPredictionInput[]
+): ModelPredictionInput[] {
+  const hasPrimary = pair.llmConfidence !== null || pair.llmReasoning !== null;
+  const primaryModel = pair.llmModel || "Primary model";
+  if (!hasPrimary || stored.some((prediction) => prediction.model === primaryModel)) return stored;
+  return [{ model: primaryModel, confidence: pair.llmConfidence, reasoning: pair.llmReasoning }, ...stored];
+}
+
+// ── Model comparison ────────────────────────────────────────────────────────
+// Each model's predictions scored against the label human review settled on.
+// A confidence of 0.5 or more counts as predicting a match.
+
+export const PREDICTION_MATCH_THRESHOLD = 0.5;
+
+export type ModelAccuracy = {
+  model: string;
+  // Predictions with a confidence on pairs that have a settled label
+  pairCount: number;
+  correct: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  brier: number | null;
+  // Accuracy on the pairs every model predicted, for a like-for-like comparison
+  sharedAccuracy: number | null;
+};
+
+export type ModelComparisonReport = {
+  threshold: number;
+  // Pairs with a settled label and at least one prediction
+  labelledPairs: number;
+  // Pairs every model predicted
+  sharedPairs: number;
+  // Pairs with predictions whose label is not settled yet
+  unlabelledPairs: number;
+  models: ModelAccuracy[];
+};
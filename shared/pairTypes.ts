@@ -0,0 +1,214 @@
+// Pair type registry
+//
+// Every pair stored in the database carries a `pairType` id that must be
+// registered here. The importer validates incoming rows against the entry's
+// ID patterns, the review page uses it to link codes and pick which metadata
+// to show, and the exporter adds its display name and code URLs to the CSV.
+// To support a new terminology, add an entry to PAIR_TYPES below.
+
+export type PairTypeDefinition = {
+  id: string;
+  displayName: string;
+  description: string;
+  // Name of the target code system, matched against `targetDataset` so that
+  // codes still link when a pair was imported under a different type
+  codeSystem: string | null;
+  // URL for a single code; `{code}` is replaced with the URL-encoded code
+  targetUrlTemplate: string | null;
+  // Metadata keys shown on the review page, in display order. When empty the
+  // first few keys of the stored metadata are shown instead.
+  metadataFields: {
+    source: string[];
+    target: string[];
+  };
+  // Target metadata key holding ranked alternative codes (e.g. top_5_loinc)
+  alternativesField: string | null;
+  validation: {
+    sourceIdPattern?: RegExp;
+    targetIdPattern?: RegExp;
+    // Target IDs that mean "no code" and skip pattern validation
+    allowNoMatchTarget: boolean;
+  };
+};
+
+export const PAIR_TYPES: Record<string, PairTypeDefinition> = {
+  questionnaire_match: {
+    id: "questionnaire_match",
+    displayName: "Questionnaire Match",
+    description: "Cross-cohort questionnaire item harmonization",
+    codeSystem: null,
+    targetUrlTemplate: null,
+    metadataFields: {
+      source: ["category", "data_type", "units"],
+      target: ["category", "data_type", "units"],
+    },
+    alternativesField: null,
+    validation: {
+      allowNoMatchTarget: true,
+    },
+  },
+  loinc_mapping: {
+    id: "loinc_mapping",
+    displayName: "LOINC Mapping",
+    description: "Measurement or question mapped to a LOINC code",
+    codeSystem: "LOINC",
+    targetUrlTemplate: "https://loinc.org/{code}",
+    metadataFields: {
+      source: ["category", "units", "data_type"],
+      target: [],
+    },
+    alternativesField: "top_5_loinc",
+    validation: {
+      targetIdPattern: /^\d{1,8}-\d$/,
+      allowNoMatchTarget: true,
+    },
+  },
+  snomed_mapping: {
+    id: "snomed_mapping",
+    displayName: "SNOMED CT Mapping",
+    description: "Clinical concept mapped to a SNOMED CT concept",
+    codeSystem: "SNOMED CT",
+    targetUrlTemplate: "https://browser.ihtsdotools.org/?perspective=full&conceptId1={code}",
+    metadataFields: {
+      source: ["category", "units", "data_type"],
+      target: ["semantic_tag", "hierarchy"],
+    },
+    alternativesField: "top_5_snomed",
+    validation: {
+      targetIdPattern: /^\d{6,18}$/,
+      allowNoMatchTarget: true,
+    },
+  },
+  rxnorm_mapping: {
+    id: "rxnorm_mapping",
+    displayName: "RxNorm Mapping",
+    description: "Medication mapped to an RxNorm concept (RXCUI)",
+    codeSystem: "RxNorm",
+    targetUrlTemplate: "https://mor.nlm.nih.gov/RxNav/search?searchBy=RXCUI&searchTerm={code}",
+    metadataFields: {
+      source: ["category", "dose", "route"],
+      target: ["tty", "ingredient"],
+    },
+    alternativesField: "top_5_rxnorm",
+    validation: {
+      targetIdPattern: /^\d{1,10}$/,
+      allowNoMatchTarget: true,
+    },
+  },
+  hpo_mapping: {
+    id: "hpo_mapping",
+    displayName: "HPO Mapping",
+    description: "Phenotype mapped to a Human Phenotype Ontology term",
+    codeSystem: "HPO",
+    targetUrlTemplate: "https://hpo.jax.org/browse/term/{code}",
+    metadataFields: {
+      source: ["category", "data_type"],
+      target: ["definition", "synonyms"],
+    },
+    alternativesField: "top_5_hpo",
+    validation: {
+      targetIdPattern: /^HP:\d{7}$/,
+      allowNoMatchTarget: true,
+    },
+  },
+  mondo_mapping: {
+    id: "mondo_mapping",
+    displayName: "MONDO Mapping",
+    description: "Disease mapped to a MONDO Disease Ontology term",
+    codeSystem: "MONDO",
+    targetUrlTemplate: "https://monarchinitiative.org/{code}",
+    metadataFields: {
+      source: ["category", "data_type"],
+      target: ["definition", "synonyms"],
+    },
+    alternativesField: "top_5_mondo",
+    validation: {
+      targetIdPattern: /^MONDO:\d{7}$/,
+      allowNoMatchTarget: true,
+    },
+  },
+};
+
+export const PAIR_TYPE_IDS = Object.keys(PAIR_TYPES);
+
+export function getPairType(id: string | null | undefined): PairTypeDefinition | undefined {
+  if (!id) return undefined;
+  return PAIR_TYPES[id];
+}
+
+export function isValidPairType(id: string | null | undefined): boolean {
+  return getPairType(id) !== undefined;
+}
+
+export function getPairTypeLabel(id: string): string {
+  return getPairType(id)?.displayName ?? id.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+// Special target values such as NO_MATCH mean "no code" rather than a real ID
+export function isNoMatchCode(code: string | null | undefined): boolean {
+  return !code || code === "NO_MATCH" || code.startsWith("NO_");
+}
+
+function findByCodeSystem(dataset: string | null | undefined): PairTypeDefinition | undefined {
+  if (!dataset) return undefined;
+  const normalized = dataset.trim().toUpperCase();
+  return Object.values(PAIR_TYPES).find(
+    (def) => def.codeSystem !== null && def.codeSystem.toUpperCase() === normalized
+  );
+}
+
+// Resolve a link for a target code, preferring the pair's own type and
+// falling back to the code system named by the target dataset
+export function getTargetCodeUrl(
+  pair: { pairType?: string | null; targetDataset?: string | null },
+  code: string | null | undefined
+): string | null {
+  if (isNoMatchCode(code)) return null;
+  const template =
+    getPairType(pair.pairType)?.targetUrlTemplate ?? findByCodeSystem(pair.targetDataset)?.targetUrlTemplate;
+  if (!template) return null;
+  return template.replace("{code}", encodeURIComponent(code!));
+}
+
+// The code system a pair's target codes come from, found the same way as
+// its code links; null for pair types without one
+export function getTargetCodeSystem(pair: { pairType?: string | null; targetDataset?: string | null }): string | null {
+  return getPairType(pair.pairType)?.codeSystem ?? findByCodeSystem(pair.targetDataset)?.codeSystem ?? null;
+}
+
+// Why a code proposed by a reviewer cannot be a target code of the pair's
+// type, judged by the type's ID pattern; null when it could be
+export function proposedCodeIssue(pair: { pairType: string }, code: string): string | null {
+  const def = getPairType(pair.pairType);
+  const pattern = def?.validation.targetIdPattern;
+  if (!pattern || pattern.test(code)) return null;
+  return `"${code}" is not a valid ${def!.codeSystem ?? def!.displayName} code`;
+}
+
+export type PairIdIssue = {
+  field: "pair_type" | "source_id" | "target_id";
+  reason: string;
+};
+
+// Returns the field that breaks the pair type's validation rules and a
+// human-readable reason, or null when the pair is valid
+export function findPairIdIssue(pair: { pairType: string; sourceId: string; targetId: string }): PairIdIssue | null {
+  const def = getPairType(pair.pairType);
+  if (!def) {
+    return { field: "pair_type", reason: `Unknown pair type "${pair.pairType}"` };
+  }
+  const { sourceIdPattern, targetIdPattern, allowNoMatchTarget } = def.validation;
+  if (sourceIdPattern && !sourceIdPattern.test(pair.sourceId)) {
+    return { field: "source_id", reason: `Source ID "${pair.sourceId}" is not a valid ${def.displayName} source ID` };
+  }
+  if (targetIdPattern && !(allowNoMatchTarget && isNoMatchCode(pair.targetId)) && !targetIdPattern.test(pair.targetId)) {
+    return { field: "target_id", reason: `Target ID "${pair.targetId}" is not a valid ${def.codeSystem ?? def.displayName} code` };
+  }
+  return null;
+}
+
+// Returns a human-readable reason when the pair does not satisfy its type's
+// validation rules, or null when it is valid
+export function validatePairIds(pair: { pairType: string; sourceId: string; targetId: string }): string | null {
+  return findPairIdIssue(pair)?.reason ?? null;
+}
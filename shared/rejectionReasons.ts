@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+// Rejection reasons
+//
+// Reviewer notes explain a no_match vote in free text, which cannot be added
+// up. Each campaign also has a short list of reasons ("wrong units", "narrower
+// concept", ...) that reviewers pick from when they vote no_match, so the
+// analytics page can break rejections down by model and confidence band for
+// the team working on the models. Admins edit the list per campaign; campaigns
+// that never did use DEFAULT_REJECTION_REASONS. Votes keep the reason IDs, so
+// renaming a reason keeps its counts, and a removed reason still shows up
+// under its ID on the votes that used it.
+
+// One number key each in the review page's vote dialog
+export const MAX_REJECTION_REASONS = 9;
+
+// Counts key for rejections that name no reason
+export const UNSPECIFIED_REASON = "unspecified";
+
+const reasonIdSchema = z.string().regex(/^[a-z0-9_]{1,64}$/, "IDs use lowercase letters, digits and underscores");
+
+export const rejectionReasonSchema = z.object({
+  id: reasonIdSchema.refine((id) => id !== UNSPECIFIED_REASON, `"${UNSPECIFIED_REASON}" is reserved`),
+  label: z.string().trim().min(1).max(80),
+});
+
+export type RejectionReason = z.infer<typeof rejectionReasonSchema>;
+
+export const rejectionReasonsSchema = z
+  .array(rejectionReasonSchema)
+  .max(MAX_REJECTION_REASONS)
+  .refine((reasons) => new Set(reasons.map((reason) => reason.id)).size === reasons.length, {
+    message: "Reason IDs must be unique",
+  });
+
+// Reason IDs picked on a vote
+export const voteRejectionReasonsSchema = z.array(reasonIdSchema).max(MAX_REJECTION_REASONS).nullish();
+
+export const DEFAULT_REJECTION_REASONS: RejectionReason[] = [
+  { id: "wrong_units", label: "Wrong units" },
+  { id: "broader_concept", label: "Broader concept" },
+  { id: "narrower_concept", label: "Narrower concept" },
+  { id: "different_specimen", label: "Different specimen" },
+  { id: "wrong_timeframe", label: "Wrong timeframe" },
+];
+
+export function resolveRejectionReasons(reasons: RejectionReason[] | null): RejectionReason[] {
+  return reasons ?? DEFAULT_REJECTION_REASONS;
+}
+
+// ID for a reason added with this label, unlike any in taken
+export function rejectionReasonId(label: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  const base = label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 56) || "reason";
+  let id = base === UNSPECIFIED_REASON ? `${base}_2` : base;
+  for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+// ── Confidence bands ────────────────────────────────────────────────────────
+// The same bands as the disagreement-by-confidence chart, highest first
+
+export const CONFIDENCE_BANDS = [
+  { label: "0.9-1.0", min: 0.9 },
+  { label: "0.8-0.9", min: 0.8 },
+  { label: "0.7-0.8", min: 0.7 },
+  { label: "0.6-0.7", min: 0.6 },
+  { label: "<0.6", min: 0 },
+] as const;
+
+export const NO_CONFIDENCE_BAND = "No confidence";
+
+export function confidenceBand(confidence: number | null): string {
+  if (confidence === null) return NO_CONFIDENCE_BAND;
+  return CONFIDENCE_BANDS.find((band) => confidence >= band.min)?.label ?? CONFIDENCE_BANDS[CONFIDENCE_BANDS.length - 1].label;
+}
+
+// ── Report ──────────────────────────────────────────────────────────────────
+
+// Rejections by reason ID, UNSPECIFIED_REASON for those naming none. A vote
+// naming two reasons counts toward both.
+export type RejectionReasonCounts = Record<string, number>;
+
+export type RejectionBreakdown = {
+  // no_match votes
+  rejections: number;
+  counts: RejectionReasonCounts;
+};
+
+export type ModelRejections = RejectionBreakdown & {
+  model: string;
+  // CONFIDENCE_BANDS in order, then NO_CONFIDENCE_BAND when the model gave
+  // predictions without one
+  bands: (RejectionBreakdown & { band: string })[];
+};
+
+export type RejectionReasonReport = {
+  // The campaign's reasons, then removed ones still found on votes
+  reasons: RejectionReason[];
+  rejections: number;
+  withReasons: number;
+  counts: RejectionReasonCounts;
+  // A rejection counts toward every model that predicted the pair, in the
+  // band of that model's confidence
+  byModel: ModelRejections[];
+};
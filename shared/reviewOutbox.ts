@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { MAX_CANDIDATES } from "./candidateLists";
+import { skipReasonSchema, type SkipReason } from "./skipReasons";
+import { voteRejectionReasonsSchema } from "./rejectionReasons";
+
+// Review outbox
+//
+// The review page works through a prefetched batch of pairs and records each
+// vote or skip in a local outbox before sending it, so a dropped connection
+// neither loses the vote nor the reviewer's place. The outbox is sent to the
+// batch endpoint whenever the connection is back. Every entry carries an ID
+// made by the browser and stored with the vote, so sending an entry again
+// (say, after the response was lost) is recognised rather than refused. An
+// entry for a pair the reviewer already voted on some other way, for example
+// from another tab, is reported as a conflict and the existing vote is kept.
+
+// Pairs the review page keeps ahead of the reviewer
+export const REVIEW_BATCH_SIZE = 10;
+export const MAX_REVIEW_BATCH_SIZE = 25;
+// Entries accepted per batch request
+export const MAX_OUTBOX_BATCH = 100;
+// Pairs the review page can hold leases on at once: a batch and its refills,
+// plus pairs brought back by an undo
+export const MAX_HELD_PAIRS = 50;
+
+export type ReviewVoteInput = {
+  scoreBinary: "match" | "no_match" | "unsure" | null;
+  scoreNumeric: number | null;
+  scoringMode: "binary" | "numeric";
+  expertSelectedCode: string | null;
+  selectedCandidates: string[] | null;
+  reviewerNotes: string | null;
+  // Reasons for a no_match vote (see rejectionReasons.ts)
+  rejectionReasons?: string[] | null;
+  // How long the pair was on screen (see reviewSessions.ts)
+  reviewMs?: number | null;
+};
+
+// recordedAt is when the reviewer voted or skipped, which places entries sent
+// later in the right review session
+export type OutboxEntry =
+  | { clientId: string; pairId: string; recordedAt?: string; action: "vote"; vote: ReviewVoteInput }
+  | { clientId: string; pairId: string; recordedAt?: string; action: "skip"; reason?: SkipReason | null };
+
+export const OUTBOX_RESULT_STATUSES = ["applied", "duplicate", "conflict", "invalid"] as const;
+export type OutboxResultStatus = (typeof OUTBOX_RESULT_STATUSES)[number];
+
+// Every status is final: only entries the server never answered stay queued
+export type OutboxResult = {
+  clientId: string;
+  pairId: string;
+  status: OutboxResultStatus;
+  // Why a conflicting or invalid entry was not recorded
+  message: string | null;
+};
+
+export const reviewVoteInputSchema = z.object({
+  scoreBinary: z.enum(["match", "no_match", "unsure"]).nullable(),
+  scoreNumeric: z.number().int().nullable(),
+  scoringMode: z.enum(["binary", "numeric"]),
+  expertSelectedCode: z.string().nullable(),
+  selectedCandidates: z.array(z.string()).max(MAX_CANDIDATES).nullable(),
+  reviewerNotes: z.string().nullable(),
+  rejectionReasons: voteRejectionReasonsSchema,
+  reviewMs: z.number().int().min(0).nullish(),
+}) satisfies z.ZodType<ReviewVoteInput>;
+
+const entryBase = {
+  clientId: z.string().trim().min(1).max(64),
+  pairId: z.string().uuid(),
+  recordedAt: z.string().datetime().optional(),
+};
+
+export const outboxEntrySchema = z.discriminatedUnion("action", [
+  z.object({ ...entryBase, action: z.literal("vote"), vote: reviewVoteInputSchema }),
+  z.object({ ...entryBase, action: z.literal("skip"), reason: skipReasonSchema }),
+]) satisfies z.ZodType<OutboxEntry>;
+
+// Body of the lease renewal: every pair the review page still holds
+export const renewLeasesSchema = z.object({
+  pairIds: z.array(z.string().uuid()).max(MAX_HELD_PAIRS),
+});
+
+export const outboxBatchSchema = z.object({
+  entries: z.array(outboxEntrySchema).min(1).max(MAX_OUTBOX_BATCH),
+});
@@ -0,0 +1,111 @@
+// Review sessions and timing
+//
+// The server groups a reviewer's activity on a campaign (pairs served, votes,
+// skips) into sessions. A gap of more than SESSION_IDLE_TIMEOUT_MS ends the
+// session at its last activity; shorter gaps over IDLE_GAP_MS count as idle
+// time within it. The review page measures how long each pair was on screen
+// while the tab was visible and sends it with the vote, so time per pair does
+// not depend on when an offline vote reached the server. Streaks count
+// consecutive days (UTC) with at least one vote, across campaigns.
+
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+export const IDLE_GAP_MS = 2 * 60 * 1000;
+
+// Longer on-screen times are kept but capped, so a pair left open overnight
+// does not swamp a reviewer's averages
+export const MAX_REVIEW_MS = 30 * 60 * 1000;
+
+// Votes faster than this are unlikely to rest on reading the pair. Reviewers
+// with at least FAST_VOTING_MIN_VOTES timed votes, more than
+// FAST_VOTING_SHARE of them fast, are flagged.
+export const FAST_REVIEW_MS = 2000;
+export const FAST_VOTING_SHARE = 0.25;
+export const FAST_VOTING_MIN_VOTES = 20;
+
+// Upper bounds (seconds) of the time-per-pair histogram's buckets; the last
+// bucket is open-ended
+export const REVIEW_TIME_BUCKETS = [2, 5, 10, 20, 30, 60, 120, 300];
+
+export type ReviewSessionStats = {
+  sessionId: string | null;
+  startedAt: string | null;
+  // Votes and skips in the current session
+  reviewCount: number;
+  skipCount: number;
+  // Session length without idle gaps
+  activeSeconds: number;
+  // Median on-screen time of the session's votes
+  medianReviewSeconds: number | null;
+  // Consecutive days with votes, ending today or yesterday
+  streak: number;
+  longestStreak: number;
+};
+
+export type ReviewTimeBucket = {
+  label: string;
+  count: number;
+};
+
+export type ReviewerTimeStats = {
+  userId: string;
+  email: string;
+  displayName: string | null;
+  timedVotes: number;
+  medianSeconds: number | null;
+  p10Seconds: number | null;
+  p90Seconds: number | null;
+  fastVotes: number;
+  // fastVotes / timedVotes
+  fastShare: number | null;
+  flagged: boolean;
+  buckets: ReviewTimeBucket[];
+  sessions: number;
+  activeMinutes: number;
+  idleMinutes: number;
+};
+
+export type ReviewTimeReport = {
+  buckets: ReviewTimeBucket[];
+  medianSeconds: number | null;
+  reviewers: ReviewerTimeStats[];
+};
+
+function bucketLabel(index: number): string {
+  const upper = REVIEW_TIME_BUCKETS[index];
+  const lower = index === 0 ? 0 : REVIEW_TIME_BUCKETS[index - 1];
+  const format = (seconds: number) => (seconds >= 60 ? `${seconds / 60}m` : `${seconds}s`);
+  if (upper === undefined) return `>${format(lower)}`;
+  return index === 0 ? `<${format(upper)}` : `${format(lower)}–${format(upper)}`;
+}
+
+export function reviewTimeBuckets(durationsMs: number[]): ReviewTimeBucket[] {
+  const counts = new Array(REVIEW_TIME_BUCKETS.length + 1).fill(0);
+  for (const ms of durationsMs) {
+    const index = REVIEW_TIME_BUCKETS.findIndex((upper) => ms < upper * 1000);
+    counts[index === -1 ? REVIEW_TIME_BUCKETS.length : index]++;
+  }
+  return counts.map((count, index) => ({ label: bucketLabel(index), count }));
+}
+
+// Nearest-rank percentile of sorted values, p from 0 to 1
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[rank];
+}
+
+// Current and longest run of consecutive days, from "YYYY-MM-DD" dates. The
+// current run counts while its last day is today or yesterday.
+export function dayStreaks(days: string[], today: string): { streak: number; longestStreak: number } {
+  const dayNumber = (day: string) => Math.round(Date.parse(`${day}T00:00:00Z`) / 86_400_000);
+  const sorted = Array.from(new Set(days.map(dayNumber))).sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    run = i > 0 && sorted[i] === sorted[i - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+  const last = sorted[sorted.length - 1];
+  const current = last !== undefined && dayNumber(today) - last <= 1 ? run : 0;
+  return { streak: current, longestStreak };
+}
@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+// Same-source pair rules
+//
+// A pair whose two sides come from the same source says nothing about
+// cross-source harmonization. Admins describe how to recognise such pairs with
+// rules: an ID prefix both IDs start with, a regular expression whose first
+// capture group names the source of an ID, or equal source and target
+// datasets. Each rule has a default action that a campaign can override: drop
+// the pair at import, import it with a warning, or allow it. A pair is dropped
+// if any rule drops it; otherwise the first warning rule is reported.
+
+export const SAME_SOURCE_RULE_KINDS = ["id_prefix", "id_regex", "dataset_match"] as const;
+export type SameSourceRuleKind = (typeof SAME_SOURCE_RULE_KINDS)[number];
+
+export const SAME_SOURCE_ACTIONS = ["drop", "warn", "allow"] as const;
+export type SameSourceAction = (typeof SAME_SOURCE_ACTIONS)[number];
+
+export const SAME_SOURCE_RULE_KIND_LABELS: Record<SameSourceRuleKind, string> = {
+  id_prefix: "ID prefix",
+  id_regex: "ID pattern",
+  dataset_match: "Same dataset",
+};
+
+export const SAME_SOURCE_ACTION_LABELS: Record<SameSourceAction, string> = {
+  drop: "Drop",
+  warn: "Warn",
+  allow: "Allow",
+};
+
+// Per-campaign actions keyed by rule id; rules not listed use their default
+export const sameSourceActionsSchema = z.record(z.string(), z.enum(SAME_SOURCE_ACTIONS));
+export type SameSourceActions = z.infer<typeof sameSourceActionsSchema>;
+
+export type SameSourceRuleDefinition = {
+  name: string;
+  kind: SameSourceRuleKind;
+  // ID prefix or regular expression; null for dataset_match
+  pattern: string | null;
+  defaultAction: SameSourceAction;
+};
+
+type SameSourceRuleLike = SameSourceRuleDefinition & { id: string };
+
+// The cohort prefixes imports used to check before the rules were configurable
+export const DEFAULT_SAME_SOURCE_RULES: SameSourceRuleDefinition[] = [
+  { name: "Arivale", kind: "id_prefix", pattern: "arivale_", defaultAction: "drop" },
+  { name: "Israeli 10K", kind: "id_prefix", pattern: "il10k_", defaultAction: "drop" },
+  { name: "UK Biobank", kind: "id_prefix", pattern: "ukbb_", defaultAction: "drop" },
+];
+
+// Why a rule's pattern cannot be used, or null when it can
+export function sameSourcePatternError(rule: Pick<SameSourceRuleDefinition, "kind" | "pattern">): string | null {
+  if (rule.kind === "dataset_match") return null;
+  if (!rule.pattern) return "A pattern is required for ID rules";
+  if (rule.kind === "id_regex") {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      return `"${rule.pattern}" is not a valid regular expression`;
+    }
+  }
+  return null;
+}
+
+export function describeSameSourceRule(rule: Pick<SameSourceRuleDefinition, "kind" | "pattern">): string {
+  switch (rule.kind) {
+    case "id_prefix":
+      return `Both IDs start with "${rule.pattern}"`;
+    case "id_regex":
+      return `Both IDs match /${rule.pattern}/ with the same source`;
+    case "dataset_match":
+      return "Source and target datasets are the same";
+  }
+}
+
+type PairSides = { sourceId: string; targetId: string; sourceDataset: string; targetDataset: string };
+
+// The source an ID belongs to under a regex rule: the first capture group,
+// or the whole match when the pattern has none
+function regexSource(regex: RegExp, id: string): string | null {
+  const match = regex.exec(id);
+  if (!match) return null;
+  return match[1] ?? match[0];
+}
+
+function normalizeDataset(dataset: string): string {
+  const normalized = dataset.trim().toLowerCase();
+  // Imports fill in "Unknown" when a file has no dataset
+  return normalized === "unknown" ? "" : normalized;
+}
+
+function compileRule(rule: SameSourceRuleLike): (pair: PairSides) => boolean {
+  switch (rule.kind) {
+    case "id_prefix": {
+      const prefix = rule.pattern ?? "";
+      return (pair) => prefix !== "" && pair.sourceId.startsWith(prefix) && pair.targetId.startsWith(prefix);
+    }
+    case "id_regex": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern ?? "");
+      } catch {
+        return () => false;
+      }
+      return (pair) => {
+        const source = regexSource(regex, pair.sourceId);
+        return source !== null && source === regexSource(regex, pair.targetId);
+      };
+    }
+    case "dataset_match":
+      return (pair) => {
+        const dataset = normalizeDataset(pair.sourceDataset);
+        return dataset !== "" && dataset === normalizeDataset(pair.targetDataset);
+      };
+  }
+}
+
+export type SameSourceVerdict = {
+  ruleId: string;
+  ruleName: string;
+  action: Exclude<SameSourceAction, "allow">;
+};
+
+// Builds the check an import runs on every pair, with each rule's action for
+// the campaign resolved and its pattern compiled once
+export function sameSourceChecker(
+  rules: SameSourceRuleLike[],
+  campaignActions: SameSourceActions | null
+): (pair: PairSides) => SameSourceVerdict | null {
+  const active = rules
+    .map((rule) => ({ rule, action: campaignActions?.[rule.id] ?? rule.defaultAction, matches: compileRule(rule) }))
+    .filter(({ action }) => action !== "allow");
+
+  return (pair) => {
+    let warning: SameSourceVerdict | null = null;
+    for (const { rule, action, matches } of active) {
+      if (!matches(pair)) continue;
+      const verdict = { ruleId: rule.id, ruleName: rule.name, action: action as SameSourceVerdict["action"] };
+      if (action === "drop") return verdict;
+      warning ??= verdict;
+    }
+    return warning;
+  };
+}
+
+// A pair an import dropped or warned about, for the import report
+export type SameSourceMatch = SameSourceVerdict & {
+  // 1-based data row in the uploaded file
+  row: number;
+  sourceId: string;
+  targetId: string;
+};
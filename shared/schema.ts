@@ -1,14 +1,35 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, uuid, boolean, integer, real, jsonb, pgEnum, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, uuid, boolean, integer, real, jsonb, pgEnum, unique, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { consensusPolicySchema, type ConsensusPolicy } from "./consensusPolicy";
+import { autoLabelRulesSchema, type AutoLabelRule } from "./autoLabelRules";
+import type { ColumnMappings } from "./importMapping";
+import type { ImportFileFormat } from "./importFormats";
+import {
+  SAME_SOURCE_ACTIONS, SAME_SOURCE_RULE_KINDS, sameSourceActionsSchema,
+  type SameSourceActions, type SameSourceMatch,
+} from "./sameSourceRules";
+import { EXISTING_PAIR_MODES, type FieldChangeCounts, type PairChange } from "./existingPairs";
+import { MAX_CANDIDATES } from "./candidateLists";
+import { WITHDRAWAL_REASONS, type WithdrawnVote } from "./voteWithdrawals";
+import { SKIP_REASONS } from "./skipReasons";
+import { rejectionReasonsSchema, voteRejectionReasonsSchema, type RejectionReason } from "./rejectionReasons";
 
 // Enums
-export const userRoleEnum = pgEnum("user_role", ["reviewer", "admin"]);
+export const userRoleEnum = pgEnum("user_role", ["reviewer", "admin", "adjudicator"]);
 export const campaignStatusEnum = pgEnum("campaign_status", ["draft", "active", "completed", "archived"]);
-export const pairTypeEnum = pgEnum("pair_type", ["questionnaire_match", "loinc_mapping"]);
 export const scoringModeEnum = pgEnum("scoring_mode", ["binary", "numeric"]);
 export const binaryScoreEnum = pgEnum("binary_score", ["match", "no_match", "unsure"]);
+export const adjudicationDecisionEnum = pgEnum("adjudication_decision", ["match", "no_match"]);
+export const knownLabelEnum = pgEnum("known_label", ["match", "no_match"]);
+export const machineLabelEnum = pgEnum("machine_label", ["match", "no_match"]);
+export const importJobStatusEnum = pgEnum("import_job_status", ["queued", "validating", "validated", "importing", "completed", "failed"]);
+export const sameSourceRuleKindEnum = pgEnum("same_source_rule_kind", SAME_SOURCE_RULE_KINDS);
+export const sameSourceActionEnum = pgEnum("same_source_action", SAME_SOURCE_ACTIONS);
+export const existingPairModeEnum = pgEnum("existing_pair_mode", EXISTING_PAIR_MODES);
+export const withdrawalReasonEnum = pgEnum("withdrawal_reason", WITHDRAWAL_REASONS);
+export const skipReasonEnum = pgEnum("skip_reason", SKIP_REASONS);
 
 // Users Table
 export const users = pgTable("users", {
@@ -33,6 +54,21 @@ export const campaigns = pgTable("campaigns", {
   campaignType: text("campaign_type").notNull(),
   // Reviewer instructions shown on the review page
   instructions: text("instructions"),
+  // Rule that turns votes into a label; null means DEFAULT_CONSENSUS_POLICY
+  consensusPolicy: jsonb("consensus_policy").$type<ConsensusPolicy>(),
+  // Share of next-pair requests answered with a gold pair instead of the queue
+  goldPairRate: real("gold_pair_rate").notNull().default(0.1),
+  // Gold accuracy below which reviewers are flagged; null disables alerts
+  goldAccuracyThreshold: real("gold_accuracy_threshold"),
+  // Confidence rules that label pairs without review; null means none
+  autoLabelRules: jsonb("auto_label_rules").$type<AutoLabelRule[]>(),
+  // Same-source rule actions by rule id; rules not listed use their default
+  sameSourceActions: jsonb("same_source_actions").$type<SameSourceActions>(),
+  // Keep model confidence, reasoning and predictions off the review page
+  hideModelPredictions: boolean("hide_model_predictions").notNull().default(false),
+  // Reasons reviewers pick from when voting no_match; null means
+  // DEFAULT_REJECTION_REASONS, empty turns them off
+  rejectionReasons: jsonb("rejection_reasons").$type<RejectionReason[]>(),
   createdBy: varchar("created_by", { length: 255 }).references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   status: campaignStatusEnum("status").notNull().default("draft"),
@@ -50,7 +86,8 @@ export const campaignsRelations = relations(campaigns, ({ one, many }) => ({
 export const pairs = pgTable("pairs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   campaignId: uuid("campaign_id").references(() => campaigns.id).notNull(),
-  pairType: pairTypeEnum("pair_type").notNull(),
+  // Registered pair type id, validated against PAIR_TYPES in shared/pairTypes.ts
+  pairType: text("pair_type").notNull(),
   
   // Source item
   sourceText: text("source_text").notNull(),
@@ -69,6 +106,21 @@ export const pairs = pgTable("pairs", {
   llmModel: text("llm_model"),
   llmReasoning: text("llm_reasoning"),
   
+  // Known correct label for gold pairs, used to score reviewer accuracy.
+  // Never sent to reviewers.
+  knownLabel: knownLabelEnum("known_label"),
+  
+  // Label set by one of the campaign's auto-label rules. Auto-labelled pairs
+  // leave the review queue unless they were sampled for audit.
+  machineLabel: machineLabelEnum("machine_label"),
+  machineLabelRuleId: text("machine_label_rule_id"),
+  auditSampled: boolean("audit_sampled").notNull().default(false),
+  
+  // Imports can add a new version of a pair. The version it replaces points
+  // at it, keeps its votes and leaves the review queue.
+  version: integer("version").notNull().default(1),
+  supersededById: uuid("superseded_by_id"),
+  
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -78,6 +130,49 @@ export const pairsRelations = relations(pairs, ({ one, many }) => ({
     references: [campaigns.id],
   }),
   votes: many(votes),
+  predictions: many(modelPredictions),
+  candidates: many(pairCandidates),
+}));
+
+// Model Predictions Table (one per model per pair, for comparing models run
+// over the same candidate pairs; see shared/modelPredictions.ts)
+export const modelPredictions = pgTable("model_predictions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  pairId: uuid("pair_id").references(() => pairs.id).notNull(),
+  model: text("model").notNull(),
+  confidence: real("confidence"),
+  reasoning: text("reasoning"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniquePairModel: unique().on(table.pairId, table.model),
+}));
+
+export const modelPredictionsRelations = relations(modelPredictions, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [modelPredictions.pairId],
+    references: [pairs.id],
+  }),
+}));
+
+// Pair Candidates Table (the ranked target list of a pair reviewed as a
+// candidate list; rank 1 is the pair's own target, see shared/candidateLists.ts)
+export const pairCandidates = pgTable("pair_candidates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  pairId: uuid("pair_id").references(() => pairs.id).notNull(),
+  rank: integer("rank").notNull(),
+  targetId: text("target_id").notNull(),
+  targetText: text("target_text").notNull(),
+  score: real("score"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniquePairRank: unique().on(table.pairId, table.rank),
+}));
+
+export const pairCandidatesRelations = relations(pairCandidates, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [pairCandidates.pairId],
+    references: [pairs.id],
+  }),
 }));
 
 // Votes Table
@@ -90,8 +185,23 @@ export const votes = pgTable("votes", {
   scoringMode: scoringModeEnum("scoring_mode").notNull(),
   // Expert selection: alternative LOINC code selected when reviewer disagrees
   expertSelectedCode: text("expert_selected_code"),
+  // Official label of the selected code, from the uploaded terminology
+  expertSelectedLabel: text("expert_selected_label"),
+  // Target IDs of the candidates picked on a candidate list (empty when none
+  // was right); null for votes on a single target
+  selectedCandidates: jsonb("selected_candidates").$type<string[]>(),
   // Reviewer notes/reasoning for their decision
   reviewerNotes: text("reviewer_notes"),
+  // IDs of the campaign's rejection reasons picked on a no_match vote (see
+  // rejectionReasons.ts)
+  rejectionReasons: jsonb("rejection_reasons").$type<string[]>(),
+  // ID the review page gave the vote in its outbox, so a vote sent twice is
+  // recognised (see reviewOutbox.ts)
+  clientId: varchar("client_id", { length: 64 }),
+  // Review session the vote was cast in, and how long the pair was on screen
+  // (see reviewSessions.ts)
+  sessionId: uuid("session_id").references(() => reviewSessions.id),
+  reviewMs: integer("review_ms"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").$onUpdate(() => new Date()),
 }, (table) => ({
@@ -109,6 +219,30 @@ export const votesRelations = relations(votes, ({ one }) => ({
   }),
 }));
 
+// Vote Withdrawals Table (audit trail of votes reviewers took back or
+// changed, each with the vote as it was; see shared/voteWithdrawals.ts)
+export const voteWithdrawals = pgTable("vote_withdrawals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Not a reference: a withdrawn vote is gone, a revised one keeps its ID
+  voteId: uuid("vote_id").notNull(),
+  pairId: uuid("pair_id").references(() => pairs.id).notNull(),
+  userId: varchar("user_id", { length: 255 }).references(() => users.id).notNull(),
+  reason: withdrawalReasonEnum("reason").notNull(),
+  vote: jsonb("vote").$type<WithdrawnVote>().notNull(),
+  withdrawnAt: timestamp("withdrawn_at").defaultNow().notNull(),
+});
+
+export const voteWithdrawalsRelations = relations(voteWithdrawals, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [voteWithdrawals.pairId],
+    references: [pairs.id],
+  }),
+  user: one(users, {
+    fields: [voteWithdrawals.userId],
+    references: [users.id],
+  }),
+}));
+
 // Allowed Domains Table
 export const allowedDomains = pgTable("allowed_domains", {
   domain: text("domain").primaryKey(),
@@ -123,16 +257,40 @@ export const allowedDomainsRelations = relations(allowedDomains, ({ one }) => ({
   }),
 }));
 
-// Skipped Pairs Table (tracks pairs user has skipped)
+// Skipped Pairs Table (tracks pairs user has skipped; un-skipping removes
+// the row, see shared/skipReasons.ts)
 export const skippedPairs = pgTable("skipped_pairs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   pairId: uuid("pair_id").references(() => pairs.id).notNull(),
   userId: varchar("user_id", { length: 255 }).references(() => users.id).notNull(),
+  sessionId: uuid("session_id").references(() => reviewSessions.id),
+  // Why the reviewer skipped, when they said
+  reason: skipReasonEnum("reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Set when the reviewer returned the pair to their queue. The row stays for
+  // the skip analysis, and skipping the pair again adds a new one.
+  unskippedAt: timestamp("unskipped_at"),
 }, (table) => ({
-  uniqueSkip: unique().on(table.pairId, table.userId),
+  uniqueActiveSkip: uniqueIndex("skipped_pairs_active_idx")
+    .on(table.pairId, table.userId)
+    .where(sql`${table.unskippedAt} IS NULL`),
 }));
 
+// Same-Source Rules Table (admin-managed; how imports recognise pairs whose
+// two sides come from one source, see shared/sameSourceRules.ts)
+export const sameSourceRules = pgTable("same_source_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: sameSourceRuleKindEnum("kind").notNull(),
+  // ID prefix or regular expression; null for dataset_match
+  pattern: text("pattern"),
+  // Action for campaigns that have not chosen one
+  defaultAction: sameSourceActionEnum("default_action").notNull().default("drop"),
+  // Null for the built-in rules
+  createdBy: varchar("created_by", { length: 255 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Import Templates Table (stores column mapping configurations for CSV import)
 export const importTemplates = pgTable("import_templates", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -141,7 +299,16 @@ export const importTemplates = pgTable("import_templates", {
   createdBy: varchar("created_by", { length: 255 }).references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   columnMappings: jsonb("column_mappings").notNull(),
-});
+  // Saving under an existing name adds the next version; earlier versions
+  // are kept so imports that used them can be traced and repeated
+  version: integer("version").notNull().default(1),
+  // Imports started with this version, so stale templates can be pruned
+  useCount: integer("use_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => ({
+  // Versions are numbered per name when saved (see createImportTemplate)
+  uniqueNameVersion: unique().on(table.name, table.version),
+}));
 
 export const importTemplatesRelations = relations(importTemplates, ({ one }) => ({
   creator: one(users, {
@@ -150,23 +317,272 @@ export const importTemplatesRelations = relations(importTemplates, ({ one }) =>
   }),
 }));
 
+// Terminologies Table (one uploaded code table per target code system)
+export const terminologies = pgTable("terminologies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Matches a pair type's codeSystem, e.g. "LOINC"
+  codeSystem: text("code_system").notNull().unique(),
+  fileName: text("file_name").notNull(),
+  codeCount: integer("code_count").notNull().default(0),
+  uploadedBy: varchar("uploaded_by", { length: 255 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const terminologyCodes = pgTable("terminology_codes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  terminologyId: uuid("terminology_id").references(() => terminologies.id).notNull(),
+  code: text("code").notNull(),
+  label: text("label").notNull(),
+  synonyms: jsonb("synonyms").$type<string[]>().notNull().default([]),
+  deprecated: boolean("deprecated").notNull().default(false),
+  // Lower-cased code, label and synonyms, for search
+  searchText: text("search_text").notNull(),
+}, (table) => ({
+  uniqueTerminologyCode: unique().on(table.terminologyId, table.code),
+  // Trigram index for the substring matches of code search; needs the pg_trgm
+  // extension
+  searchTextTrgm: index("terminology_codes_search_text_trgm_idx")
+    .using("gin", table.searchText.op("gin_trgm_ops")),
+}));
+
+export const terminologiesRelations = relations(terminologies, ({ one, many }) => ({
+  uploader: one(users, {
+    fields: [terminologies.uploadedBy],
+    references: [users.id],
+  }),
+  codes: many(terminologyCodes),
+}));
+
+export const terminologyCodesRelations = relations(terminologyCodes, ({ one }) => ({
+  terminology: one(terminologies, {
+    fields: [terminologyCodes.terminologyId],
+    references: [terminologies.id],
+  }),
+}));
+
+// Assignment Plans Table (optional per-campaign overlap plan; when present,
+// next-pair serves each reviewer from their queue in pair_assignments)
+export const assignmentPlans = pgTable("assignment_plans", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").references(() => campaigns.id).notNull().unique(),
+  // Number of independent votes each pair should receive
+  votesPerPair: integer("votes_per_pair").notNull(),
+  reviewerIds: jsonb("reviewer_ids").$type<string[]>().notNull(),
+  createdBy: varchar("created_by", { length: 255 }).references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").$onUpdate(() => new Date()),
+});
+
+export const assignmentPlansRelations = relations(assignmentPlans, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [assignmentPlans.campaignId],
+    references: [campaigns.id],
+  }),
+}));
+
+// Pair Assignments Table (per-reviewer review queue, ordered by position)
+export const pairAssignments = pgTable("pair_assignments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").references(() => campaigns.id).notNull(),
+  pairId: uuid("pair_id").references(() => pairs.id).notNull(),
+  userId: varchar("user_id", { length: 255 }).references(() => users.id).notNull(),
+  position: integer("position").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueAssignment: unique().on(table.pairId, table.userId),
+}));
+
+export const pairAssignmentsRelations = relations(pairAssignments, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [pairAssignments.pairId],
+    references: [pairs.id],
+  }),
+  user: one(users, {
+    fields: [pairAssignments.userId],
+    references: [users.id],
+  }),
+}));
+
+// Review Sessions Table (a reviewer's stretch of activity on a campaign,
+// ended by SESSION_IDLE_TIMEOUT_MS without activity; see reviewSessions.ts)
+export const reviewSessions = pgTable("review_sessions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").references(() => campaigns.id).notNull(),
+  userId: varchar("user_id", { length: 255 }).references(() => users.id).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  lastActivityAt: timestamp("last_activity_at").notNull(),
+  // Set when the next session starts; the session ended at its last activity
+  endedAt: timestamp("ended_at"),
+  // Gaps between activities longer than IDLE_GAP_MS
+  idleMs: integer("idle_ms").notNull().default(0),
+});
+
+export const reviewSessionsRelations = relations(reviewSessions, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [reviewSessions.campaignId],
+    references: [campaigns.id],
+  }),
+  user: one(users, {
+    fields: [reviewSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+// Pair Leases Table (short-lived reservation of the pair last served to a
+// reviewer, so concurrent reviewers aren't handed the same item)
+export const pairLeases = pgTable("pair_leases", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").references(() => campaigns.id).notNull(),
+  pairId: uuid("pair_id").references(() => pairs.id).notNull(),
+  userId: varchar("user_id", { length: 255 }).references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // A reviewer leases every pair of the batch the review page prefetched, and
+  // each pair once
+  uniqueUserPair: unique().on(table.pairId, table.userId),
+}));
+
+export const pairLeasesRelations = relations(pairLeases, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [pairLeases.pairId],
+    references: [pairs.id],
+  }),
+  user: one(users, {
+    fields: [pairLeases.userId],
+    references: [users.id],
+  }),
+}));
+
+// Adjudications Table (binding final decision on a disputed pair, kept
+// separate from reviewer votes; used as the gold label when present)
+export const adjudications = pgTable("adjudications", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  pairId: uuid("pair_id").references(() => pairs.id).notNull().unique(),
+  adjudicatorId: varchar("adjudicator_id", { length: 255 }).references(() => users.id).notNull(),
+  decision: adjudicationDecisionEnum("decision").notNull(),
+  rationale: text("rationale").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").$onUpdate(() => new Date()),
+});
+
+export const adjudicationsRelations = relations(adjudications, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [adjudications.pairId],
+    references: [pairs.id],
+  }),
+  adjudicator: one(users, {
+    fields: [adjudications.adjudicatorId],
+    references: [users.id],
+  }),
+}));
+
+// Import Jobs Table (background pair imports; the uploaded file stays on disk
+// until the job completes, and rowsCommitted is the checkpoint a failed job
+// resumes from). A job stops as "validated" after a dry run, or when rows
+// failed validation, until it is started with or without skipping them.
+export const importJobs = pgTable("import_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").references(() => campaigns.id).notNull(),
+  createdBy: varchar("created_by", { length: 255 }).references(() => users.id).notNull(),
+  fileName: text("file_name").notNull(),
+  // Null once the file has been removed after the job finished
+  filePath: text("file_path"),
+  fileFormat: text("file_format").$type<ImportFileFormat>().notNull(),
+  fileSize: integer("file_size").notNull(),
+  // Worksheet to import from a spreadsheet; null for the first one
+  sheetName: text("sheet_name"),
+  // Wizard mappings; null for files in the standard import format
+  columnMappings: jsonb("column_mappings").$type<ColumnMappings>(),
+  // Template version the mappings were loaded from, if any. The job keeps its
+  // own copy of the mappings, so deleting the template does not affect it.
+  templateId: uuid("template_id"),
+  templateVersion: integer("template_version"),
+  status: importJobStatusEnum("status").default("queued").notNull(),
+  // Stop after validation so the report can be reviewed before importing
+  dryRun: boolean("dry_run").default(false).notNull(),
+  // Import the valid rows of a file that has invalid ones
+  skipInvalidRows: boolean("skip_invalid_rows").default(false).notNull(),
+  // What to do with rows for pairs the campaign already has
+  existingPairMode: existingPairModeEnum("existing_pair_mode").default("skip").notNull(),
+  // Add updated pairs with votes as a new version when their LLM output changed materially
+  requeueChanged: boolean("requeue_changed").default(false).notNull(),
+  // Progress through the file in the current pass
+  bytesProcessed: integer("bytes_processed").default(0).notNull(),
+  // Data rows in the file, known once validation has finished
+  totalRows: integer("total_rows"),
+  // Rows of the file fully written to the database
+  rowsCommitted: integer("rows_committed").default(0).notNull(),
+  importedCount: integer("imported_count").default(0).notNull(),
+  // Rows for existing pairs that were skipped or had nothing to change
+  duplicateCount: integer("duplicate_count").default(0).notNull(),
+  // Existing pairs updated in place, added as a new version, and re-queued
+  updatedCount: integer("updated_count").default(0).notNull(),
+  versionedCount: integer("versioned_count").default(0).notNull(),
+  requeuedCount: integer("requeued_count").default(0).notNull(),
+  fieldChangeCounts: jsonb("field_change_counts").$type<FieldChangeCounts>().default({}).notNull(),
+  // First existing pairs the import changed, with what changed
+  pairChanges: jsonb("pair_changes").$type<PairChange[]>().default([]).notNull(),
+  // Pairs dropped, and pairs imported with a warning, by same-source rules
+  sameSourceCount: integer("same_source_count").default(0).notNull(),
+  sameSourceWarningCount: integer("same_source_warning_count").default(0).notNull(),
+  // First pairs the same-source rules dropped or warned about, with the rule
+  sameSourceMatches: jsonb("same_source_matches").$type<SameSourceMatch[]>().default([]).notNull(),
+  invalidCount: integer("invalid_count").default(0).notNull(),
+  // First problems found by validation, one per row and field
+  rowErrors: jsonb("row_errors").$type<ImportRowError[]>().default([]).notNull(),
+  // CSV of the rows that failed validation, with an error column
+  rejectedRowsPath: text("rejected_rows_path"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").$onUpdate(() => new Date()),
+  // When the import pass first began; resumed passes keep it, so the job's
+  // template use is counted once
+  importStartedAt: timestamp("import_started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const importJobsRelations = relations(importJobs, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [importJobs.campaignId],
+    references: [campaigns.id],
+  }),
+  creator: one(users, {
+    fields: [importJobs.createdBy],
+    references: [users.id],
+  }),
+}));
+
 // Insert Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   lastActive: true,
 });
 
-export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  consensusPolicy: consensusPolicySchema.nullish(),
+  autoLabelRules: autoLabelRulesSchema.nullish(),
+  sameSourceActions: sameSourceActionsSchema.nullish(),
+  rejectionReasons: rejectionReasonsSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const goldSettingsSchema = z.object({
+  goldPairRate: z.number().min(0).max(1),
+  goldAccuracyThreshold: z.number().min(0).max(1).nullable(),
+});
+
 export const insertPairSchema = createInsertSchema(pairs).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertVoteSchema = createInsertSchema(votes).omit({
+export const insertVoteSchema = createInsertSchema(votes, {
+  selectedCandidates: z.array(z.string()).max(MAX_CANDIDATES).nullish(),
+  rejectionReasons: voteRejectionReasonsSchema,
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -179,11 +595,45 @@ export const insertAllowedDomainSchema = createInsertSchema(allowedDomains).omit
 export const insertSkippedPairSchema = createInsertSchema(skippedPairs).omit({
   id: true,
   createdAt: true,
+  unskippedAt: true,
 });
 
 export const insertImportTemplateSchema = createInsertSchema(importTemplates).omit({
   id: true,
   createdAt: true,
+  version: true,
+  useCount: true,
+  lastUsedAt: true,
+});
+
+export const insertSameSourceRuleSchema = createInsertSchema(sameSourceRules, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  pattern: z.string().trim().min(1).max(200).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAdjudicationSchema = createInsertSchema(adjudications, {
+  rationale: z.string().trim().min(1, "Rationale is required").max(2000),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAssignmentPlanSchema = createInsertSchema(assignmentPlans, {
+  votesPerPair: z.number().int().min(1),
+  reviewerIds: z.array(z.string()).min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPairAssignmentSchema = createInsertSchema(pairAssignments).omit({
+  id: true,
+  createdAt: true,
 });
 
 // Types
@@ -192,12 +642,17 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type GoldSettings = z.infer<typeof goldSettingsSchema>;
 
 export type Pair = typeof pairs.$inferSelect;
 export type InsertPair = z.infer<typeof insertPairSchema>;
 
+export type ModelPrediction = typeof modelPredictions.$inferSelect;
+export type PairCandidate = typeof pairCandidates.$inferSelect;
+
 export type Vote = typeof votes.$inferSelect;
 export type InsertVote = z.infer<typeof insertVoteSchema>;
+export type VoteWithdrawal = typeof voteWithdrawals.$inferSelect;
 
 export type AllowedDomain = typeof allowedDomains.$inferSelect;
 export type InsertAllowedDomain = z.infer<typeof insertAllowedDomainSchema>;
@@ -205,9 +660,30 @@ export type InsertAllowedDomain = z.infer<typeof insertAllowedDomainSchema>;
 export type SkippedPair = typeof skippedPairs.$inferSelect;
 export type InsertSkippedPair = z.infer<typeof insertSkippedPairSchema>;
 
+export type SameSourceRule = typeof sameSourceRules.$inferSelect;
+export type InsertSameSourceRule = z.infer<typeof insertSameSourceRuleSchema>;
+
+export type Terminology = typeof terminologies.$inferSelect;
+export type TerminologyCode = typeof terminologyCodes.$inferSelect;
+
 export type ImportTemplate = typeof importTemplates.$inferSelect;
 export type InsertImportTemplate = z.infer<typeof insertImportTemplateSchema>;
 
+export type Adjudication = typeof adjudications.$inferSelect;
+export type InsertAdjudication = z.infer<typeof insertAdjudicationSchema>;
+
+export type AssignmentPlan = typeof assignmentPlans.$inferSelect;
+export type InsertAssignmentPlan = z.infer<typeof insertAssignmentPlanSchema>;
+
+export type PairLease = typeof pairLeases.$inferSelect;
+
+export type ReviewSession = typeof reviewSessions.$inferSelect;
+
+export type ImportJob = typeof importJobs.$inferSelect;
+
+export type PairAssignment = typeof pairAssignments.$inferSelect;
+export type InsertPairAssignment = z.infer<typeof insertPairAssignmentSchema>;
+
 // Extended types for frontend
 export type CampaignWithStats = Campaign & {
   totalPairs: number;
@@ -226,3 +702,150 @@ export type UserStats = {
   agreementRate: number | null;
   recentActivity: { date: string; count: number }[];
 };
+
+export type ReviewerQuota = {
+  userId: string;
+  email: string;
+  displayName: string;
+  assigned: number;
+  completed: number;
+  skipped: number;
+  remaining: number;
+};
+
+export type AssignmentPlanWithQuotas = AssignmentPlan & {
+  quotas: ReviewerQuota[];
+  unfilledSlots: number;
+};
+
+export type ActivePairLease = PairLease & {
+  user: Pick<User, "id" | "email" | "displayName">;
+  pair: Pick<Pair, "id" | "sourceText" | "targetText">;
+};
+
+export type GoldAccuracy = {
+  answered: number;
+  correct: number;
+  // correct / answered; null until the reviewer has answered a gold pair
+  accuracy: number | null;
+};
+
+export type GoldAccuracyAlert = {
+  campaignId: string;
+  campaignName: string;
+  threshold: number;
+  userId: string;
+  email: string;
+  displayName: string;
+  answered: number;
+  accuracy: number;
+};
+
+export type AdjudicationWithAdjudicator = Adjudication & {
+  adjudicator: Pick<User, "id" | "email" | "displayName">;
+};
+
+export type VoteWithdrawalWithContext = VoteWithdrawal & {
+  user: Pick<User, "id" | "email" | "displayName">;
+  pair: Pick<Pair, "id" | "sourceText" | "targetText">;
+};
+
+export type AlphaMetric = "nominal" | "ordinal" | "interval";
+
+export type KrippendorffAlphaReport = {
+  alpha: number | null;
+  metric: AlphaMetric;
+  // Scoring mode whose votes were analysed (the mode most votes used)
+  scoringMode: "binary" | "numeric";
+  raterCount: number;
+  pairCount: number;
+  voteCount: number;
+  confidenceInterval: { lower: number; upper: number; level: number; samples: number } | null;
+  raterDiagnostics: {
+    userId: string;
+    email: string;
+    displayName: string;
+    voteCount: number;
+    alphaIfRemoved: number | null;
+    // alphaIfRemoved - alpha; positive means agreement improves without this reviewer
+    change: number | null;
+  }[];
+};
+
+export type ReviewerAgreementReport = {
+  scoringMode: "binary" | "numeric";
+  fleissKappa: number | null;
+  // Pairs with at least two ratings, the ones Fleiss' kappa is computed over
+  pairCount: number;
+  reviewers: {
+    userId: string;
+    email: string;
+    displayName: string;
+    voteCount: number;
+    // Mean Cohen's kappa against every reviewer they share pairs with
+    meanKappa: number | null;
+  }[];
+  pairs: {
+    userIdA: string;
+    userIdB: string;
+    sharedPairs: number;
+    percentAgreement: number | null;
+    cohenKappa: number | null;
+  }[];
+};
+
+export type CalibrationBin = {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number | null;
+  observedMatchRate: number | null;
+};
+
+export type CalibrationThresholdMetrics = {
+  threshold: number;
+  // Pairs at or above the threshold, i.e. the ones an auto-accept rule would take
+  predictedMatches: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  // Share of labelled pairs at or above the threshold
+  coverage: number;
+};
+
+export type ModelCalibration = {
+  pairCount: number;
+  matchRate: number | null;
+  // Expected calibration error over the report's bins
+  ece: number | null;
+  brier: number | null;
+  bins: CalibrationBin[];
+  thresholds: CalibrationThresholdMetrics[];
+};
+
+export type CalibrationReport = {
+  binCount: number;
+  thresholds: number[];
+  // Pairs with an LLM confidence but no match/no_match label from human review yet
+  unlabelledPairs: number;
+  overall: ModelCalibration;
+  // One entry per llmModel; model is null for pairs imported without one
+  models: (ModelCalibration & { model: string | null })[];
+};
+
+export type ImportRowError = {
+  // 1-based data row in the uploaded file (the header is not counted)
+  row: number;
+  // Import column the problem was found in, e.g. "source_id"
+  field: string;
+  reason: string;
+};
+
+export type ImportValidationReport = {
+  totalRows: number;
+  validRows: number;
+  invalidCount: number;
+  rowErrors: ImportRowError[];
+};
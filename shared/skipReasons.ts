@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+// Skip reasons
+//
+// A skip takes a pair out of the reviewer's queue until they un-skip it from
+// their skipped pairs, alone or all at once. Saying why is optional; the
+// reasons show up in the campaign's skip analysis, where many "bad data" skips
+// on a pair point at the import rather than the reviewers.
+
+export const SKIP_REASONS = ["need_context", "out_of_expertise", "bad_data"] as const;
+export type SkipReason = (typeof SKIP_REASONS)[number];
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  need_context: "Need more context",
+  out_of_expertise: "Out of my expertise",
+  bad_data: "Bad data",
+};
+
+export const skipReasonSchema = z.enum(SKIP_REASONS).nullish();
+
+// Body of the un-skip endpoint; without pairIds every skipped pair of the
+// campaign returns to the queue
+export const unskipPairsSchema = z.object({
+  pairIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+// Skip counts by reason; skips without one count as "unspecified"
+export type SkipReasonCounts = Record<SkipReason | "unspecified", number>;
+
+export function emptySkipReasonCounts(): SkipReasonCounts {
+  return { need_context: 0, out_of_expertise: 0, bad_data: 0, unspecified: 0 };
+}
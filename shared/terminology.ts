@@ -0,0 +1,76 @@
+// Target terminologies
+//
+// Admins upload a code table for a target code system (the LOINC table CSV,
+// or any file with code, label and synonym columns). Reviewers search it when
+// they propose a different code, and a proposed code must be in the table of
+// the pair's code system; its official label is kept with the vote. Without
+// an uploaded table, a proposed code only has to look like a code of the pair
+// type. Each upload replaces the code system's whole table.
+
+import { PAIR_TYPES } from "./pairTypes";
+
+// Code systems a terminology can be uploaded for: those of the pair types
+export const TERMINOLOGY_CODE_SYSTEMS = Array.from(
+  new Set(Object.values(PAIR_TYPES).flatMap((def) => (def.codeSystem ? [def.codeSystem] : [])))
+);
+
+// Column names each part of a code is read from, first match wins. The LOINC
+// table's own column names come first.
+export const TERMINOLOGY_COLUMNS = {
+  code: ["loinc_num", "code", "concept_id", "id"],
+  label: ["long_common_name", "label", "name", "display", "term", "preferred_term", "shortname"],
+  synonyms: ["relatednames2", "synonyms", "aliases"],
+  status: ["status"],
+} as const;
+
+export type TerminologyColumn = keyof typeof TERMINOLOGY_COLUMNS;
+
+// Statuses that mark a code as no longer to be used
+export const DEPRECATED_STATUSES = ["DEPRECATED", "RETIRED", "INACTIVE"];
+
+// Synonyms are separated by semicolons (as in the LOINC table) or bars
+export const SYNONYM_SEPARATOR = /[;|]/;
+
+export const TERMINOLOGY_SEARCH_LIMIT = 20;
+
+export type TerminologyCodeInput = {
+  code: string;
+  label: string;
+  synonyms: string[];
+  deprecated: boolean;
+};
+
+export type TerminologyMatch = TerminologyCodeInput;
+
+export type TerminologyUploadIssue = {
+  // 1-based data row in the uploaded file
+  row: number;
+  reason: string;
+};
+
+// The file's column for each part of a code, matched without regard to case
+export function detectTerminologyColumns(columns: string[]): Partial<Record<TerminologyColumn, string>> {
+  const byName = new Map(columns.map((column) => [column.trim().toLowerCase(), column]));
+  const detected: Partial<Record<TerminologyColumn, string>> = {};
+  for (const [part, names] of Object.entries(TERMINOLOGY_COLUMNS) as [TerminologyColumn, readonly string[]][]) {
+    const name = names.find((candidate) => byName.has(candidate));
+    if (name) detected[part] = byName.get(name);
+  }
+  return detected;
+}
+
+export function splitSynonyms(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map((item) => String(item).trim()).filter(Boolean);
+  if (value === null || value === undefined) return [];
+  return Array.from(new Set(String(value).split(SYNONYM_SEPARATOR).map((item) => item.trim()).filter(Boolean)));
+}
+
+// Lower-cased code, label and synonyms, which search terms are matched against
+export function terminologySearchText(code: TerminologyCodeInput): string {
+  return [code.code, code.label, ...code.synonyms].join(" ").toLowerCase();
+}
+
+// Search terms of a reviewer's query; every term must match
+export function terminologySearchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean).slice(0, 8);
+}
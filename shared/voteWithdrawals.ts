@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+// Vote withdrawals
+//
+// Reviewers can take a vote back right after casting it (the review page
+// offers an undo for UNDO_WINDOW_MS), or go back through the pairs they voted
+// on in the current review session to change or withdraw a vote; the server
+// turns down an undo once the window has passed. A withdrawn vote leaves the
+// votes table, so it no longer counts toward consensus and the pair returns to
+// the reviewer's queue; a changed vote keeps its place, whether it was changed
+// from the review page or the vote history. Either way the vote as it was is
+// kept in vote_withdrawals, with when and why it was taken back, rather than
+// being lost.
+
+export const UNDO_WINDOW_MS = 8000;
+
+// Most recent votes of the session the review page can go back through
+export const REVIEW_HISTORY_SIZE = 20;
+
+// undo: right after voting; withdrawn: from the review history; revised: the
+// vote was replaced by a changed one
+export const WITHDRAWAL_REASONS = ["undo", "withdrawn", "revised"] as const;
+export type WithdrawalReason = (typeof WITHDRAWAL_REASONS)[number];
+
+export const withdrawVoteSchema = z.object({
+  reason: z.enum(["undo", "withdrawn"]).default("undo"),
+});
+
+// The withdrawn vote's fields, as stored in the audit trail (timestamps as
+// ISO strings)
+export type WithdrawnVote = {
+  scoreBinary: "match" | "no_match" | "unsure" | null;
+  scoreNumeric: number | null;
+  scoringMode: "binary" | "numeric";
+  expertSelectedCode: string | null;
+  expertSelectedLabel: string | null;
+  selectedCandidates: string[] | null;
+  reviewerNotes: string | null;
+  // Missing on votes withdrawn before rejection reasons existed
+  rejectionReasons?: string[] | null;
+  sessionId: string | null;
+  reviewMs: number | null;
+  createdAt: string;
+  updatedAt: string | null;
+};